@@ -0,0 +1,28 @@
+import { UserRole } from '@prisma/client';
+
+// Permission registry: every permission the API checks, with a short description
+export const PERMISSIONS = {
+  'users.manage': 'Create, update, deactivate, restore and unlock users',
+  'inventory.manage': 'Create, update and delete inventory items',
+  'inventory.assign': 'Assign and unassign inventory items to teams',
+  'requests.approve': 'Approve, decline, delegate and change the status of material requests',
+  'requests.deliver': 'Update delivery status of material requests',
+  'reports.export': 'Export reports',
+  'security.audit': 'View the security audit log and manage security policies',
+  'permissions.manage': 'Edit the role permission matrix, custom roles and user overrides'
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+// Built-in roles and their permissions until a director edits them
+// Directors always hold every permission so the matrix can never lock them out
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  director: ALL_PERMISSIONS,
+  manager: ['inventory.manage', 'inventory.assign', 'requests.approve', 'requests.deliver', 'reports.export'],
+  mentor: ['reports.export'],
+  incubator: ['reports.export']
+};
+
+export const isPermission = (value: string): value is Permission => value in PERMISSIONS;
@@ -1,7 +1,9 @@
 import helmet from 'helmet';
 import cors from 'cors';
 import rateLimit from 'express-rate-limit';
-import { Application } from 'express';
+import { Application, Request, Response, NextFunction } from 'express';
+import { Prisma, SecurityEventType } from '@prisma/client';
+import prisma from './database';
 
 // Security configuration interface
 interface SecurityConfig {
@@ -256,41 +258,57 @@ export class SecurityMiddleware {
     }
 
     // General API rate limiting
-    app.use('/api/', rateLimit(this.config.rateLimit));
+    app.use('/api/', this.createLimiter(this.config.rateLimit));
 
     // Auth endpoints - stricter limiting
-    app.use('/api/auth/', rateLimit(this.config.authRateLimit));
+    app.use('/api/auth/', this.createLimiter(this.config.authRateLimit));
 
     // File upload endpoints - upload-specific limiting
-    app.use('/api/upload/', rateLimit(this.config.fileUploadRateLimit));
+    app.use('/api/upload/', this.createLimiter(this.config.fileUploadRateLimit));
   }
 
   /**
    * Get general rate limiter for custom use
    */
   static getGeneralRateLimit() {
-    return rateLimit(this.config.rateLimit);
+    return this.createLimiter(this.config.rateLimit);
   }
 
   /**
    * Get auth rate limiter for custom use
    */
   static getAuthRateLimit() {
-    return rateLimit(this.config.authRateLimit);
+    return this.createLimiter(this.config.authRateLimit);
   }
 
   /**
    * Get file upload rate limiter for custom use
    */
   static getFileUploadRateLimit() {
-    return rateLimit(this.config.fileUploadRateLimit);
+    return this.createLimiter(this.config.fileUploadRateLimit);
+  }
+
+  /**
+   * Build a rate limiter that records every rejected request in the security audit log
+   */
+  private static createLimiter(options: Partial<SecurityConfig['rateLimit']>) {
+    return rateLimit({
+      ...options,
+      handler: (req: Request, res: Response, next: NextFunction, optionsUsed) => {
+        SecurityAudit.logRequest(req, 'RATE_LIMIT_EXCEEDED', `Rate limit exceeded on ${req.originalUrl}`, {
+          limit: optionsUsed.limit,
+          windowMs: optionsUsed.windowMs
+        });
+        res.status(optionsUsed.statusCode).send(optionsUsed.message);
+      }
+    });
   }
 
   /**
    * Create custom rate limiter
    */
   static createCustomRateLimit(options: Partial<ReturnType<typeof getDefaultConfig>['rateLimit']>) {
-    return rateLimit({ ...this.config.rateLimit, ...options });
+    return this.createLimiter({ ...this.config.rateLimit, ...options });
   }
 }
 
@@ -423,62 +441,114 @@ export class PasswordPolicy {
   }
 }
 
-// Security audit logging
+// Security audit logging (persisted to the security_events table)
 export class SecurityAudit {
-  private static logs: SecurityEvent[] = [];
-
+  /**
+   * Record a security event
+   * Fire-and-forget: a failed write is logged but never fails the request
+   */
   static log(event: Omit<SecurityEvent, 'timestamp' | 'id'>): void {
-    const securityEvent: SecurityEvent = {
-      id: this.generateId(),
-      timestamp: new Date(),
-      ...event
-    };
-
-    this.logs.push(securityEvent);
+    prisma.securityEvent.create({
+      data: {
+        type: event.type,
+        message: event.message,
+        user_id: event.userId || null,
+        ip_address: event.ip || null,
+        user_agent: event.userAgent || null,
+        endpoint: event.endpoint || null,
+        details: event.details as Prisma.InputJsonValue | undefined
+      }
+    }).catch(error => {
+      console.error('Failed to record security event:', error);
+    });
+  }
 
-    // In production, you would send this to a logging service
+  /**
+   * Record a security event using the request's IP, user agent, endpoint and user
+   */
+  static logRequest(
+    req: Request,
+    type: SecurityEventType,
+    message: string,
+    details?: Record<string, any>,
+    userId?: string
+  ): void {
+    this.log({
+      type,
+      message,
+      userId: userId || req.user?.userId,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      endpoint: req.originalUrl,
+      details: {
+        method: req.method,
+        ...details
+      }
+    });
+  }
 
-    // Keep only last 1000 logs in memory
-    if (this.logs.length > 1000) {
-      this.logs = this.logs.slice(-1000);
+  /**
+   * Search stored events (newest first)
+   */
+  static async query(
+    filters: SecurityEventFilters,
+    page: number = 1,
+    limit: number = 50
+  ): Promise<{ events: SecurityEvent[]; total: number }> {
+    const where: Prisma.SecurityEventWhereInput = {};
+
+    if (filters.type) where.type = filters.type;
+    if (filters.userId) where.user_id = filters.userId;
+    if (filters.ip) where.ip_address = filters.ip;
+    if (filters.from || filters.to) {
+      where.created_at = {
+        ...(filters.from && { gte: filters.from }),
+        ...(filters.to && { lte: filters.to })
+      };
     }
-  }
 
-  static getLogs(limit: number = 100): SecurityEvent[] {
-    return this.logs.slice(-limit);
-  }
+    const [rows, total] = await Promise.all([
+      prisma.securityEvent.findMany({
+        where,
+        orderBy: { created_at: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.securityEvent.count({ where })
+    ]);
+
+    const events: SecurityEvent[] = rows.map(row => ({
+      id: row.id,
+      timestamp: row.created_at,
+      type: row.type,
+      message: row.message,
+      userId: row.user_id || undefined,
+      ip: row.ip_address || undefined,
+      userAgent: row.user_agent || undefined,
+      endpoint: row.endpoint || undefined,
+      details: (row.details as Record<string, any>) || undefined
+    }));
 
-  static getLogsByType(type: SecurityEventType, limit: number = 100): SecurityEvent[] {
-    return this.logs
-      .filter(log => log.type === type)
-      .slice(-limit);
+    return { events, total };
   }
 
-  static getLogsByUser(userId: string, limit: number = 100): SecurityEvent[] {
-    return this.logs
-      .filter(log => log.userId === userId)
-      .slice(-limit);
-  }
+  /**
+   * Delete events older than the retention period
+   * Returns the number of events deleted
+   */
+  static async purgeOlderThan(retentionDays: number): Promise<number> {
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+    const result = await prisma.securityEvent.deleteMany({
+      where: { created_at: { lt: cutoff } }
+    });
 
-  private static generateId(): string {
-    return `sec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return result.count;
   }
 }
 
 // Security event types and interfaces
-export type SecurityEventType =
-  | 'AUTH_SUCCESS'
-  | 'AUTH_FAILURE'
-  | 'AUTH_LOGOUT'
-  | 'RATE_LIMIT_EXCEEDED'
-  | 'SUSPICIOUS_ACTIVITY'
-  | 'FILE_UPLOAD_BLOCKED'
-  | 'SQL_INJECTION_ATTEMPT'
-  | 'XSS_ATTEMPT'
-  | 'BRUTE_FORCE_ATTEMPT'
-  | 'UNAUTHORIZED_ACCESS'
-  | 'INVALID_TOKEN'
-  | 'EXPIRED_TOKEN';
+export type { SecurityEventType };
 
 export interface SecurityEvent {
   id: string;
@@ -492,5 +562,13 @@ export interface SecurityEvent {
   details?: Record<string, any>;
 }
 
+export interface SecurityEventFilters {
+  type?: SecurityEventType;
+  userId?: string;
+  ip?: string;
+  from?: Date;
+  to?: Date;
+}
+
 // Export default configuration
 export { getDefaultConfig as securityConfig };
\ No newline at end of file
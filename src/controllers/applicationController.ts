@@ -0,0 +1,825 @@
+import { Request, Response } from 'express';
+import { ApplicationStatus, Prisma, TeamApplication, UserRole } from '@prisma/client';
+import prisma from '../config/database';
+import emailService from '../services/emailService';
+import { SettingsService } from '../services/settingsService';
+import { AccountSetupService } from '../services/accountSetupService';
+
+interface ApplicationResponse {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: any;
+  pagination?: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+type RubricCriterion = { key: string; label: string; weight: number; max_score: number };
+
+type AdmittedAccount = { id: string; name: string; email: string; role: UserRole; is_new: boolean };
+
+// Reason an interviewed application can't be admitted as it stands
+type AdmissionBlocker = { code: string; message: string; data?: any };
+
+// Allowed moves through the pipeline; admitted and rejected are final
+const STATUS_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+  submitted: ['shortlisted', 'rejected'],
+  shortlisted: ['interviewed', 'rejected'],
+  interviewed: ['admitted', 'rejected'],
+  admitted: [],
+  rejected: []
+};
+
+const STATUS_EMAIL: Record<string, { color: string; message: string }> = {
+  shortlisted: {
+    color: '#2196F3',
+    message: 'Congratulations! Your application has been shortlisted. We will contact you to schedule an interview.'
+  },
+  interviewed: {
+    color: '#ff9800',
+    message: 'Thank you for attending the interview. The selection panel will communicate the final decision soon.'
+  },
+  admitted: {
+    color: '#4CAF50',
+    message: 'Congratulations! Your team has been admitted to the incubation program.'
+  },
+  rejected: {
+    color: '#f44336',
+    message: 'Thank you for your interest. Unfortunately your application was not successful this time. You are welcome to apply again in a future intake.'
+  }
+};
+
+export class ApplicationController {
+  /**
+   * Submit a team application (public)
+   */
+  static async submitApplication(req: Request, res: Response): Promise<void> {
+    try {
+      const {
+        team_name,
+        company_name,
+        contact_name,
+        contact_email,
+        contact_phone,
+        members = [],
+        project_name,
+        project_description,
+        category,
+        status_at_enrollment,
+        challenge_description,
+        cohort_id
+      } = req.body;
+
+      const email = (contact_email as string).toLowerCase();
+
+      const openApplication = await prisma.teamApplication.findFirst({
+        where: {
+          contact_email: email,
+          status: { in: ['submitted', 'shortlisted', 'interviewed'] }
+        }
+      });
+
+      if (openApplication) {
+        res.status(400).json({
+          success: false,
+          message: 'An application from this email is already under review',
+          code: 'APPLICATION_EXISTS'
+        } as ApplicationResponse);
+        return;
+      }
+
+      let cohort = null;
+      if (cohort_id) {
+        cohort = await prisma.cohort.findUnique({ where: { id: cohort_id } });
+        if (!cohort || cohort.status === 'completed') {
+          res.status(400).json({
+            success: false,
+            message: 'This cohort is not accepting applications',
+            code: 'COHORT_CLOSED'
+          } as ApplicationResponse);
+          return;
+        }
+      }
+
+      const application = await prisma.teamApplication.create({
+        data: {
+          application_number: await ApplicationController.generateApplicationNumber(),
+          team_name,
+          company_name: company_name || null,
+          contact_name,
+          contact_email: email,
+          contact_phone: contact_phone || null,
+          members: (members as { name: string; email: string }[]).map(member => ({
+            name: member.name,
+            email: member.email.toLowerCase()
+          })),
+          project_name,
+          project_description,
+          category,
+          status_at_enrollment,
+          challenge_description,
+          cohort_id: cohort_id || null
+        }
+      });
+
+      try {
+        await emailService.sendEmail({
+          to: email,
+          subject: 'Application Received',
+          template: 'team/application-received',
+          templateData: {
+            contactName: contact_name,
+            applicationNumber: application.application_number,
+            teamName: team_name,
+            projectName: project_name,
+            cohortName: cohort?.name || '',
+            submittedDate: application.submitted_at.toLocaleDateString(),
+            appUrl: process.env.FRONTEND_URL || process.env.APP_URL || 'http://localhost:3000',
+            currentYear: new Date().getFullYear(),
+            subject: 'Application Received'
+          }
+        });
+      } catch (emailError) {
+        console.error('Failed to send application received email:', emailError);
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Application submitted successfully',
+        data: {
+          application_number: application.application_number,
+          status: application.status,
+          submitted_at: application.submitted_at
+        }
+      } as ApplicationResponse);
+
+    } catch (error) {
+      console.error('Submit application error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as ApplicationResponse);
+    }
+  }
+
+  /**
+   * List cohorts that are open for applications (public)
+   */
+  static async getOpenCohorts(req: Request, res: Response): Promise<void> {
+    try {
+      const cohorts = await prisma.cohort.findMany({
+        where: { status: { in: ['upcoming', 'active'] } },
+        select: {
+          id: true,
+          name: true,
+          description: true,
+          program_type: true,
+          start_date: true,
+          end_date: true,
+          capacity: true,
+          _count: { select: { teams: true } }
+        },
+        orderBy: { start_date: 'asc' }
+      });
+
+      res.json({
+        success: true,
+        message: 'Open cohorts retrieved successfully',
+        data: {
+          cohorts: cohorts
+            .filter(cohort => cohort._count.teams < cohort.capacity)
+            .map(({ _count, ...cohort }) => cohort)
+        }
+      } as ApplicationResponse);
+
+    } catch (error) {
+      console.error('Get open cohorts error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as ApplicationResponse);
+    }
+  }
+
+  /**
+   * List applications with their average rubric score
+   */
+  static async getApplications(req: Request, res: Response): Promise<void> {
+    try {
+      const { status, cohort_id, search, page = 1, limit = 20 } = req.query;
+
+      const pageNum = parseInt(page as string, 10);
+      const limitNum = parseInt(limit as string, 10);
+
+      const where: Prisma.TeamApplicationWhereInput = {};
+
+      if (status) {
+        where.status = status as ApplicationStatus;
+      }
+
+      if (cohort_id) {
+        where.cohort_id = cohort_id as string;
+      }
+
+      if (search) {
+        where.OR = [
+          { team_name: { contains: search as string } },
+          { company_name: { contains: search as string } },
+          { project_name: { contains: search as string } },
+          { application_number: { contains: search as string } }
+        ];
+      }
+
+      const [total, applications] = await Promise.all([
+        prisma.teamApplication.count({ where }),
+        prisma.teamApplication.findMany({
+          where,
+          include: {
+            cohort: { select: { id: true, name: true } },
+            scores: { select: { total_score: true } }
+          },
+          orderBy: { submitted_at: 'desc' },
+          skip: (pageNum - 1) * limitNum,
+          take: limitNum
+        })
+      ]);
+
+      res.json({
+        success: true,
+        message: 'Applications retrieved successfully',
+        data: {
+          applications: applications.map(({ scores, ...application }) => ({
+            ...application,
+            review_count: scores.length,
+            average_score: ApplicationController.averageScore(scores)
+          }))
+        },
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          pages: Math.ceil(total / limitNum)
+        }
+      } as ApplicationResponse);
+
+    } catch (error) {
+      console.error('Get applications error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as ApplicationResponse);
+    }
+  }
+
+  /**
+   * Get an application with every reviewer's scores
+   */
+  static async getApplicationById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const application = await prisma.teamApplication.findUnique({
+        where: { id },
+        include: {
+          cohort: { select: { id: true, name: true, program_type: true } },
+          decider: { select: { id: true, name: true } },
+          scores: {
+            include: { reviewer: { select: { id: true, name: true, role: true } } },
+            orderBy: { created_at: 'asc' }
+          }
+        }
+      });
+
+      if (!application) {
+        res.status(404).json({
+          success: false,
+          message: 'Application not found',
+          code: 'APPLICATION_NOT_FOUND'
+        } as ApplicationResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Application retrieved successfully',
+        data: {
+          application: {
+            ...application,
+            average_score: ApplicationController.averageScore(application.scores)
+          },
+          rubric: await SettingsService.get('application_rubric')
+        }
+      } as ApplicationResponse);
+
+    } catch (error) {
+      console.error('Get application error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as ApplicationResponse);
+    }
+  }
+
+  /**
+   * Score an application against the rubric (one score per reviewer, re-scoring replaces it)
+   */
+  static async scoreApplication(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { scores, comments } = req.body as { scores: Record<string, number>; comments?: string };
+
+      const application = await prisma.teamApplication.findUnique({ where: { id } });
+      if (!application) {
+        res.status(404).json({
+          success: false,
+          message: 'Application not found',
+          code: 'APPLICATION_NOT_FOUND'
+        } as ApplicationResponse);
+        return;
+      }
+
+      if (application.status === 'admitted' || application.status === 'rejected') {
+        res.status(400).json({
+          success: false,
+          message: 'Decided applications can no longer be scored',
+          code: 'APPLICATION_DECIDED'
+        } as ApplicationResponse);
+        return;
+      }
+
+      const rubric = await SettingsService.get('application_rubric');
+      const errors = ApplicationController.validateScores(rubric, scores);
+      if (errors.length > 0) {
+        res.status(400).json({
+          success: false,
+          message: 'Scores do not match the rubric',
+          code: 'INVALID_SCORES',
+          data: { errors, rubric }
+        } as ApplicationResponse);
+        return;
+      }
+
+      const totalScore = ApplicationController.weightedScore(rubric, scores);
+
+      const score = await prisma.applicationScore.upsert({
+        where: {
+          application_id_reviewer_id: {
+            application_id: id,
+            reviewer_id: req.user!.userId
+          }
+        },
+        create: {
+          application_id: id,
+          reviewer_id: req.user!.userId,
+          scores,
+          total_score: totalScore,
+          comments: comments || null
+        },
+        update: {
+          scores,
+          total_score: totalScore,
+          comments: comments || null
+        }
+      });
+
+      res.json({
+        success: true,
+        message: 'Application scored successfully',
+        data: { score }
+      } as ApplicationResponse);
+
+    } catch (error) {
+      console.error('Score application error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as ApplicationResponse);
+    }
+  }
+
+  /**
+   * Move an application through the pipeline
+   * Admission creates the team, its project and incubator accounts
+   */
+  static async updateStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { status, notes } = req.body as { status: ApplicationStatus; notes?: string };
+
+      const application = await prisma.teamApplication.findUnique({ where: { id } });
+      if (!application) {
+        res.status(404).json({
+          success: false,
+          message: 'Application not found',
+          code: 'APPLICATION_NOT_FOUND'
+        } as ApplicationResponse);
+        return;
+      }
+
+      if (!STATUS_TRANSITIONS[application.status].includes(status)) {
+        res.status(400).json({
+          success: false,
+          message: `Cannot move an application from ${application.status} to ${status}`,
+          code: 'INVALID_STATUS_TRANSITION',
+          data: { allowed: STATUS_TRANSITIONS[application.status] }
+        } as ApplicationResponse);
+        return;
+      }
+
+      let updated: TeamApplication;
+      let created: { teamId: string; accounts: AdmittedAccount[] } | null = null;
+
+      if (status === 'admitted') {
+        const blocker = await ApplicationController.checkAdmission(application);
+        const result = blocker ? { blocker } : await ApplicationController.admit(application, req.user!.userId, notes);
+        if (result?.blocker) {
+          res.status(400).json({
+            success: false,
+            message: result.blocker.message,
+            code: result.blocker.code,
+            data: result.blocker.data
+          } as ApplicationResponse);
+          return;
+        }
+
+        if (!result) {
+          res.status(409).json({
+            success: false,
+            message: 'Application status changed while it was being processed',
+            code: 'APPLICATION_CHANGED'
+          } as ApplicationResponse);
+          return;
+        }
+        updated = result.application;
+        created = { teamId: result.teamId, accounts: result.accounts };
+      } else {
+        const now = new Date();
+        updated = await prisma.teamApplication.update({
+          where: { id },
+          data: {
+            status,
+            ...(notes !== undefined && { decision_notes: notes || null }),
+            ...(status === 'shortlisted' && { shortlisted_at: now }),
+            ...(status === 'interviewed' && { interviewed_at: now }),
+            ...(status === 'rejected' && { decided_at: now, decided_by: req.user!.userId })
+          }
+        });
+      }
+
+      await ApplicationController.sendStatusEmail(updated, notes);
+
+      if (created) {
+        await ApplicationController.sendWelcomeEmails(created.accounts);
+      }
+
+      res.json({
+        success: true,
+        message: status === 'admitted'
+          ? 'Application admitted. Team, project and accounts created.'
+          : 'Application status updated successfully',
+        data: {
+          application: updated,
+          ...(created && {
+            team_id: created.teamId,
+            accounts: created.accounts
+          })
+        }
+      } as ApplicationResponse);
+
+    } catch (error) {
+      console.error('Update application status error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as ApplicationResponse);
+    }
+  }
+
+  /**
+   * Get the scoring rubric
+   */
+  static async getRubric(req: Request, res: Response): Promise<void> {
+    try {
+      res.json({
+        success: true,
+        message: 'Rubric retrieved successfully',
+        data: { criteria: await SettingsService.get('application_rubric') }
+      } as ApplicationResponse);
+
+    } catch (error) {
+      console.error('Get rubric error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as ApplicationResponse);
+    }
+  }
+
+  /**
+   * Replace the scoring rubric (existing scores keep the total they were given)
+   */
+  static async updateRubric(req: Request, res: Response): Promise<void> {
+    try {
+      const { criteria } = req.body as { criteria: RubricCriterion[] };
+
+      await SettingsService.set('application_rubric', criteria, req.user!.userId);
+
+      res.json({
+        success: true,
+        message: 'Rubric updated successfully',
+        data: { criteria }
+      } as ApplicationResponse);
+
+    } catch (error) {
+      console.error('Update rubric error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as ApplicationResponse);
+    }
+  }
+
+  /**
+   * Check that every rubric criterion is scored within range and nothing else is
+   */
+  private static validateScores(rubric: RubricCriterion[], scores: Record<string, number>): string[] {
+    const errors: string[] = [];
+    const keys = new Set(rubric.map(criterion => criterion.key));
+
+    for (const criterion of rubric) {
+      const value = scores[criterion.key];
+      if (value === undefined) {
+        errors.push(`Missing score for "${criterion.label}"`);
+      } else if (value > criterion.max_score) {
+        errors.push(`Score for "${criterion.label}" cannot exceed ${criterion.max_score}`);
+      }
+    }
+
+    for (const key of Object.keys(scores)) {
+      if (!keys.has(key)) {
+        errors.push(`Unknown rubric criterion "${key}"`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Weighted score out of 100
+   */
+  private static weightedScore(rubric: RubricCriterion[], scores: Record<string, number>): number {
+    const totalWeight = rubric.reduce((sum, criterion) => sum + criterion.weight, 0);
+    if (totalWeight === 0) return 0;
+
+    const weighted = rubric.reduce(
+      (sum, criterion) => sum + (scores[criterion.key] / criterion.max_score) * criterion.weight,
+      0
+    );
+
+    return Math.round((weighted / totalWeight) * 10000) / 100;
+  }
+
+  private static averageScore(scores: { total_score: number }[]): number | null {
+    if (scores.length === 0) return null;
+    return Math.round((scores.reduce((sum, s) => sum + s.total_score, 0) / scores.length) * 100) / 100;
+  }
+
+  /**
+   * Reasons an application cannot be admitted right now
+   */
+  private static async checkAdmission(application: TeamApplication): Promise<AdmissionBlocker | null> {
+    const teamConflict = await prisma.team.findFirst({ where: { team_name: application.team_name } });
+    if (teamConflict) {
+      return { code: 'TEAM_NAME_TAKEN', message: 'A team with this name already exists' };
+    }
+
+    // Only incubators without a team can be attached; anyone else needs a manual decision
+    const conflicts = await prisma.user.findMany({
+      where: {
+        email: { in: ApplicationController.applicants(application).map(person => person.email) },
+        OR: [{ role: { not: 'incubator' } }, { team_members: { some: {} } }]
+      },
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        team_members: { select: { team: { select: { id: true, team_name: true } } } }
+      }
+    });
+    if (conflicts.length > 0) {
+      return {
+        code: 'APPLICANT_ACCOUNT_CONFLICT',
+        message: 'Some applicants already have accounts that cannot join a new team. Resolve them manually before admitting.',
+        data: {
+          accounts: conflicts.map(user => ({
+            id: user.id,
+            email: user.email,
+            role: user.role,
+            reason: user.role !== 'incubator' ? 'not_an_incubator' : 'already_in_team',
+            teams: user.team_members.map(member => member.team)
+          }))
+        }
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Contact person followed by the listed members, one entry per email
+   */
+  private static applicants(application: TeamApplication): { name: string; email: string }[] {
+    return [
+      { name: application.contact_name, email: application.contact_email },
+      ...((application.members as { name: string; email: string }[] | null) || [])
+    ]
+      .map(person => ({ ...person, email: person.email.toLowerCase() }))
+      .filter((person, index, all) => all.findIndex(p => p.email === person.email) === index);
+  }
+
+  /**
+   * Create team, project and accounts, and mark the application admitted, in one transaction
+   * Existing incubator accounts without a team are attached; checkAdmission rejects anyone else
+   * New accounts start with an unusable password and get a set-password link by email
+   * Cohort capacity is checked here, under the cohort row lock, like CohortController.assignTeams
+   * Returns null if another reviewer changed the application first, or a blocker if the cohort is full
+   */
+  private static async admit(application: TeamApplication, decidedBy: string, notes?: string) {
+    const people = ApplicationController.applicants(application);
+
+    const existingUsers = await prisma.user.findMany({
+      where: {
+        email: { in: people.map(person => person.email) },
+        role: 'incubator',
+        team_members: { none: {} }
+      }
+    });
+
+    // Hash outside the transaction so it stays short
+    const newAccounts = await Promise.all(
+      people
+        .filter(person => !existingUsers.some(user => user.email === person.email))
+        .map(async person => ({ ...person, passwordHash: await AccountSetupService.unusablePasswordHash() }))
+    );
+
+    return prisma.$transaction(async (tx) => {
+      const now = new Date();
+
+      if (application.cohort_id) {
+        // Lock the cohort row so admissions and team assignments fill the capacity one at a time
+        const [cohort] = await tx.$queryRaw<{ name: string; capacity: number }[]>`SELECT name, capacity FROM cohorts WHERE id = ${application.cohort_id} FOR UPDATE`;
+        const currentTeams = await tx.team.count({ where: { cohort_id: application.cohort_id } });
+
+        if (cohort && currentTeams >= cohort.capacity) {
+          const blocker: AdmissionBlocker = {
+            code: 'COHORT_CAPACITY_EXCEEDED',
+            message: `Cohort ${cohort.name} is full`,
+            data: { capacity: cohort.capacity, current_teams: currentTeams }
+          };
+          return { blocker };
+        }
+      }
+
+      const claimed = await tx.teamApplication.updateMany({
+        where: { id: application.id, status: 'interviewed' },
+        data: {
+          status: 'admitted',
+          decided_at: now,
+          decided_by: decidedBy,
+          ...(notes !== undefined && { decision_notes: notes || null })
+        }
+      });
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      const accounts: AdmittedAccount[] = [];
+      for (const person of people) {
+        const existing = existingUsers.find(user => user.email === person.email);
+        if (existing) {
+          accounts.push({ id: existing.id, name: existing.name, email: existing.email, role: existing.role, is_new: false });
+          continue;
+        }
+
+        const account = newAccounts.find(a => a.email === person.email)!;
+        const user = await tx.user.create({
+          data: {
+            name: account.name,
+            email: account.email,
+            password_hash: account.passwordHash,
+            role: 'incubator'
+          }
+        });
+        accounts.push({ id: user.id, name: user.name, email: user.email, role: user.role, is_new: true });
+      }
+
+      const team = await tx.team.create({
+        data: {
+          team_name: application.team_name,
+          company_name: application.company_name,
+          status: 'active',
+          enrollment_date: now,
+          cohort_id: application.cohort_id,
+          team_members: {
+            create: accounts.map((account, index) => ({
+              user_id: account.id,
+              role: index === 0 ? 'team_leader' : 'member'
+            }))
+          }
+        }
+      });
+
+      await tx.project.create({
+        data: {
+          name: application.project_name,
+          description: application.project_description,
+          startup_company_name: application.company_name,
+          status_at_enrollment: application.status_at_enrollment,
+          current_stage: application.status_at_enrollment,
+          challenge_description: application.challenge_description,
+          category: application.category,
+          status: 'active',
+          team_id: team.id
+        }
+      });
+
+      const admitted = await tx.teamApplication.update({
+        where: { id: application.id },
+        data: { team_id: team.id }
+      });
+
+      return { application: admitted, teamId: team.id, accounts };
+    }, { timeout: 30000 });
+  }
+
+  /**
+   * Tell the applicant about a status change; failures are logged only
+   */
+  private static async sendStatusEmail(application: TeamApplication, notes?: string): Promise<void> {
+    const statusEmail = STATUS_EMAIL[application.status];
+    if (!statusEmail) return;
+
+    try {
+      await emailService.sendEmail({
+        to: application.contact_email,
+        subject: 'Application Update',
+        template: 'team/application-status-updated',
+        templateData: {
+          contactName: application.contact_name,
+          applicationNumber: application.application_number,
+          teamName: application.team_name,
+          newStatus: application.status.charAt(0).toUpperCase() + application.status.slice(1),
+          statusColor: statusEmail.color,
+          statusMessage: statusEmail.message,
+          notes: notes || '',
+          admitted: application.status === 'admitted',
+          appUrl: process.env.FRONTEND_URL || process.env.APP_URL || 'http://localhost:3000',
+          currentYear: new Date().getFullYear(),
+          subject: 'Application Update'
+        }
+      });
+    } catch (emailError) {
+      console.error('Failed to send application status email:', emailError);
+    }
+  }
+
+  /**
+   * Send set-password links to accounts created on admission
+   */
+  private static async sendWelcomeEmails(accounts: AdmittedAccount[]): Promise<void> {
+    for (const account of accounts.filter(a => a.is_new)) {
+      try {
+        await AccountSetupService.sendWelcomeEmail(account);
+      } catch (emailError) {
+        console.error(`Failed to send welcome email to ${account.email}:`, emailError);
+      }
+    }
+  }
+
+  /**
+   * Generate unique application number: APP-YYYY-XXXX
+   */
+  private static async generateApplicationNumber(): Promise<string> {
+    const year = new Date().getFullYear();
+    const prefix = `APP-${year}-`;
+
+    const lastApplication = await prisma.teamApplication.findFirst({
+      where: { application_number: { startsWith: prefix } },
+      orderBy: { application_number: 'desc' }
+    });
+
+    let sequence = 1;
+    if (lastApplication) {
+      const lastSequence = parseInt(lastApplication.application_number.replace(prefix, ''), 10);
+      if (!isNaN(lastSequence)) {
+        sequence = lastSequence + 1;
+      }
+    }
+
+    return `${prefix}${sequence.toString().padStart(4, '0')}`;
+  }
+}
@@ -3,12 +3,21 @@ import { User } from '@prisma/client';
 import prisma from '../config/database';
 import { JWTUtils } from '../utils/jwt';
 import { PasswordUtils } from '../utils/password';
+import { SessionService } from '../services/sessionService';
+import emailService from '../services/emailService';
+import { PasswordPolicy, SecurityAudit } from '../config/security';
+import { TokenUtils } from '../utils/token';
+import { SettingsService } from '../services/settingsService';
+import { LoginProtectionService } from '../services/loginProtectionService';
 
 interface LoginRequest {
   email: string;
   password: string;
 }
 
+// How long an emailed password reset link stays valid
+const PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60', 10);
+
 interface AuthResponse {
   success: boolean;
   message: string;
@@ -44,12 +53,23 @@ export class AuthController {
         return;
       }
 
+      // Too many failed logins from this IP (any account)
+      if (await LoginProtectionService.isIpBlocked(req)) {
+        res.status(429).json({
+          success: false,
+          message: 'Too many failed login attempts. Please try again later.',
+          code: 'TOO_MANY_FAILED_ATTEMPTS'
+        } as AuthResponse);
+        return;
+      }
+
       // Find user by email
       const user = await prisma.user.findUnique({
         where: { email: email.toLowerCase() },
       });
 
       if (!user) {
+        SecurityAudit.logRequest(req, 'AUTH_FAILURE', 'Login failed: unknown email', { email: email.toLowerCase() });
         res.status(401).json({
           success: false,
           message: 'Invalid email or password',
@@ -58,10 +78,23 @@ export class AuthController {
         return;
       }
 
+      if (LoginProtectionService.isLocked(user)) {
+        SecurityAudit.logRequest(req, 'AUTH_FAILURE', 'Login failed: account locked', { email: user.email }, user.id);
+        AuthController.sendAccountLocked(res, user.locked_until!);
+        return;
+      }
+
       // Verify password
       const isPasswordValid = await PasswordUtils.verify(password, user.password_hash);
 
       if (!isPasswordValid) {
+        SecurityAudit.logRequest(req, 'AUTH_FAILURE', 'Login failed: wrong password', { email: user.email }, user.id);
+        const failure = await LoginProtectionService.recordFailure(req, user);
+        if (failure.locked) {
+          AuthController.sendAccountLocked(res, failure.lockedUntil);
+          return;
+        }
+
         res.status(401).json({
           success: false,
           message: 'Invalid email or password',
@@ -70,6 +103,17 @@ export class AuthController {
         return;
       }
 
+      // Deactivated accounts cannot start new sessions
+      if (user.status !== 'active') {
+        SecurityAudit.logRequest(req, 'AUTH_FAILURE', 'Login failed: account inactive', { email: user.email }, user.id);
+        res.status(403).json({
+          success: false,
+          message: 'Your account has been deactivated. Please contact support.',
+          code: 'ACCOUNT_INACTIVE'
+        } as AuthResponse);
+        return;
+      }
+
       // Find team membership for incubators to include teamId
       // and block login if an incubator has no team assignment
       let teamId: string | undefined;
@@ -90,26 +134,37 @@ export class AuthController {
         }
       }
 
-      // Generate tokens
-      const token = JWTUtils.generateToken(user, teamId);
-      const refreshToken = JWTUtils.generateRefreshToken(user, teamId);
+      // Second factor: enrolled users must verify a code, users whose role requires 2FA must enroll first
+      if (user.mfa_enabled) {
+        res.json({
+          success: true,
+          message: 'Two-factor authentication code required',
+          data: {
+            mfaRequired: true,
+            mfaToken: JWTUtils.generateMfaPendingToken(user.id, 'verify', teamId)
+          }
+        });
+        return;
+      }
+
+      const mfaRequiredRoles = await SettingsService.get('mfa_required_roles');
+      if (mfaRequiredRoles.includes(user.role)) {
+        res.json({
+          success: true,
+          message: 'Two-factor authentication must be set up before you can log in',
+          data: {
+            mfaEnrollmentRequired: true,
+            mfaToken: JWTUtils.generateMfaPendingToken(user.id, 'enroll', teamId)
+          }
+        });
+        return;
+      }
 
       // Return success response
       res.json({
         success: true,
         message: 'Login successful',
-        data: {
-          user: {
-            id: user.id,
-            email: user.email,
-            name: user.name,
-            role: user.role,
-            password_status: user.password_status,
-            teamId
-          },
-          token,
-          refreshToken,
-        },
+        data: await AuthController.createLoginSession(req, user, teamId),
       } as AuthResponse);
 
     } catch (error) {
@@ -122,13 +177,57 @@ export class AuthController {
     }
   }
 
+  /**
+   * Respond to a login attempt on a locked account
+   */
+  static sendAccountLocked(res: Response, lockedUntil: Date): void {
+    res.status(423).json({
+      success: false,
+      message: 'Account is temporarily locked after repeated failed logins. Please try again later or contact a director.',
+      code: 'ACCOUNT_LOCKED',
+      data: { lockedUntil }
+    });
+  }
+
+  /**
+   * Create a session and its tokens for a user who passed every login step
+   */
+  static async createLoginSession(req: Request, user: User, teamId?: string): Promise<NonNullable<AuthResponse['data']>> {
+    // Create a server-side session so the tokens can be revoked later
+    const { session, tokenId } = await SessionService.createSession(user.id, req);
+
+    // Generate tokens
+    const token = JWTUtils.generateToken(user, teamId, session.id);
+    const refreshToken = JWTUtils.generateRefreshToken(user, teamId, session.id, tokenId);
+
+    SecurityAudit.logRequest(req, 'AUTH_SUCCESS', 'Login successful', { sessionId: session.id }, user.id);
+    await LoginProtectionService.recordSuccess(user);
+
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        password_status: user.password_status,
+        teamId
+      },
+      token,
+      refreshToken,
+    };
+  }
+
   /**
    * User logout
    */
   static async logout(req: Request, res: Response): Promise<void> {
     try {
-      // In a stateless JWT system, logout is handled client-side
-      // by removing the token from storage
+      // Revoke the current session so both the access and refresh token stop working
+      if (req.user?.sessionId) {
+        await SessionService.revokeSession(req.user.sessionId, 'logout');
+        SecurityAudit.logRequest(req, 'AUTH_LOGOUT', 'Logout', { sessionId: req.user.sessionId });
+      }
+
       res.json({
         success: true,
         message: 'Logout successful',
@@ -217,7 +316,8 @@ export class AuthController {
   }
 
   /**
-   * Refresh access token (optional)
+   * Refresh access token
+   * Rotates the refresh token; presenting an already-rotated refresh token revokes the session
    */
   static async refreshToken(req: Request, res: Response): Promise<void> {
     try {
@@ -233,14 +333,41 @@ export class AuthController {
       }
 
       // Verify refresh token
-      const decoded = JWTUtils.verifyToken(refreshToken);
+      const decoded = JWTUtils.verifyRefreshToken(refreshToken);
 
-      // Check if user still exists
+      if (!decoded.sessionId || !decoded.jti) {
+        res.status(401).json({
+          success: false,
+          message: 'Invalid refresh token',
+          code: 'INVALID_REFRESH_TOKEN'
+        });
+        return;
+      }
+
+      // Check the session is still active
+      const sessionCheck = await SessionService.validateSession(decoded.sessionId, decoded.userId);
+      if (!sessionCheck.valid) {
+        res.status(401).json({
+          success: false,
+          message: 'Session is no longer valid. Please log in again.',
+          code: sessionCheck.reason
+        });
+        return;
+      }
+
+      // A mismatching token id means this refresh token was already rotated, i.e. it was replayed
+      if (SessionService.hashToken(decoded.jti) !== sessionCheck.session.refresh_token_hash) {
+        await AuthController.rejectReusedRefreshToken(req, res, sessionCheck.session.id, decoded.userId);
+        return;
+      }
+
+      // Check if user still exists and is active
       const user = await prisma.user.findUnique({
         where: { id: decoded.userId },
       });
 
-      if (!user) {
+      if (!user || user.status !== 'active') {
+        await SessionService.revokeSession(sessionCheck.session.id, 'user_deactivated');
         res.status(401).json({
           success: false,
           message: 'User not found',
@@ -249,15 +376,24 @@ export class AuthController {
         return;
       }
 
-      // Generate new access token
+      // Rotate refresh token and issue a new access token
       // Preserve teamId from refresh token if present
-      const newToken = JWTUtils.generateToken(user, decoded.teamId);
+      const tokenId = await SessionService.rotateRefreshToken(sessionCheck.session.id, decoded.jti, req);
+      if (!tokenId) {
+        // A concurrent refresh with the same token rotated it first
+        await AuthController.rejectReusedRefreshToken(req, res, sessionCheck.session.id, decoded.userId);
+        return;
+      }
+
+      const newToken = JWTUtils.generateToken(user, decoded.teamId, sessionCheck.session.id);
+      const newRefreshToken = JWTUtils.generateRefreshToken(user, decoded.teamId, sessionCheck.session.id, tokenId);
 
       res.json({
         success: true,
         message: 'Token refreshed successfully',
         data: {
           token: newToken,
+          refreshToken: newRefreshToken,
         },
       });
 
@@ -271,6 +407,136 @@ export class AuthController {
     }
   }
 
+  /**
+   * Revoke a session whose refresh token was replayed
+   */
+  static async rejectReusedRefreshToken(req: Request, res: Response, sessionId: string, userId: string): Promise<void> {
+    await SessionService.revokeSession(sessionId, 'refresh_token_reuse');
+    SecurityAudit.logRequest(req, 'SUSPICIOUS_ACTIVITY', 'Refresh token reuse detected; session revoked', {
+      sessionId
+    }, userId);
+    res.status(401).json({
+      success: false,
+      message: 'Refresh token has already been used. Please log in again.',
+      code: 'REFRESH_TOKEN_REUSED'
+    });
+  }
+
+  /**
+   * Log out from all devices
+   */
+  static async logoutAll(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Not authenticated',
+          code: 'NOT_AUTHENTICATED'
+        });
+        return;
+      }
+
+      const revokedCount = await SessionService.revokeAllForUser(req.user.userId, 'logout_all');
+      SecurityAudit.logRequest(req, 'AUTH_LOGOUT', 'Logout from all devices', { revokedSessions: revokedCount });
+
+      res.json({
+        success: true,
+        message: 'Logged out from all devices',
+        data: { revokedSessions: revokedCount }
+      });
+    } catch (error) {
+      console.error('Logout all error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * List current user's active sessions
+   */
+  static async getSessions(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Not authenticated',
+          code: 'NOT_AUTHENTICATED'
+        });
+        return;
+      }
+
+      const sessions = await SessionService.getActiveSessions(req.user.userId);
+
+      res.json({
+        success: true,
+        message: 'Active sessions retrieved successfully',
+        data: {
+          sessions: sessions.map(session => ({
+            id: session.id,
+            user_agent: session.user_agent,
+            ip_address: session.ip_address,
+            created_at: session.created_at,
+            last_used_at: session.last_used_at,
+            expires_at: session.expires_at,
+            current: session.id === req.user!.sessionId
+          }))
+        }
+      });
+    } catch (error) {
+      console.error('Get sessions error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Revoke one of the current user's sessions
+   */
+  static async revokeSession(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Not authenticated',
+          code: 'NOT_AUTHENTICATED'
+        });
+        return;
+      }
+
+      const { id } = req.params;
+
+      const sessionCheck = await SessionService.validateSession(id, req.user.userId);
+      if (!sessionCheck.valid) {
+        res.status(404).json({
+          success: false,
+          message: 'Session not found',
+          code: 'SESSION_NOT_FOUND'
+        });
+        return;
+      }
+
+      await SessionService.revokeSession(id, 'revoked_by_user');
+
+      res.json({
+        success: true,
+        message: 'Session revoked successfully'
+      });
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
   /**
    * Change user password
    */
@@ -383,4 +649,198 @@ export class AuthController {
       });
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Request a password reset link
+   * Always responds with the same message so the endpoint cannot be used to discover accounts
+   */
+  static async forgotPassword(req: Request, res: Response): Promise<void> {
+    const genericResponse = {
+      success: true,
+      message: 'If an account exists for this email, a password reset link has been sent.',
+    };
+
+    try {
+      const { email } = req.body;
+
+      const user = await prisma.user.findUnique({
+        where: { email: email.toLowerCase() },
+      });
+
+      if (!user || user.status !== 'active') {
+        res.json(genericResponse);
+        return;
+      }
+
+      const token = TokenUtils.generate();
+      const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+
+      // Only the most recent link should work
+      await prisma.$transaction([
+        prisma.passwordResetToken.updateMany({
+          where: { user_id: user.id, used_at: null },
+          data: { used_at: new Date() }
+        }),
+        prisma.passwordResetToken.create({
+          data: {
+            user_id: user.id,
+            token_hash: TokenUtils.hash(token),
+            expires_at: expiresAt,
+            requested_ip: req.ip || null
+          }
+        })
+      ]);
+
+      const appUrl = process.env.FRONTEND_URL || process.env.APP_URL || 'http://localhost:3000';
+
+      try {
+        await emailService.sendEmail({
+          to: user.email,
+          subject: 'Reset Your Password',
+          template: 'auth/password-reset',
+          templateData: {
+            userName: user.name,
+            userEmail: user.email,
+            resetUrl: `${appUrl}/reset-password?token=${token}`,
+            expiresInMinutes: PASSWORD_RESET_TTL_MINUTES,
+            appUrl,
+            currentYear: new Date().getFullYear(),
+            subject: 'Reset Your Password'
+          }
+        });
+      } catch (emailError) {
+        console.error('Failed to send password reset email:', emailError);
+      }
+
+      res.json(genericResponse);
+
+    } catch (error) {
+      console.error('Forgot password error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+
+  /**
+   * Reset password using an emailed one-time token
+   */
+  static async resetPassword(req: Request, res: Response): Promise<void> {
+    try {
+      const { token, new_password } = req.body;
+
+      const resetToken = await prisma.passwordResetToken.findUnique({
+        where: { token_hash: TokenUtils.hash(token) },
+        include: { user: true }
+      });
+
+      if (!resetToken || resetToken.used_at || resetToken.expires_at <= new Date()) {
+        res.status(400).json({
+          success: false,
+          message: 'This password reset link is invalid or has expired',
+          code: 'INVALID_RESET_TOKEN'
+        });
+        return;
+      }
+
+      if (resetToken.user.status !== 'active') {
+        res.status(403).json({
+          success: false,
+          message: 'Your account has been deactivated. Please contact support.',
+          code: 'ACCOUNT_INACTIVE'
+        });
+        return;
+      }
+
+      const policy = PasswordPolicy.validate(new_password);
+      if (!policy.valid) {
+        res.status(400).json({
+          success: false,
+          message: 'Password does not meet the password policy',
+          code: 'WEAK_PASSWORD',
+          errors: policy.errors
+        });
+        return;
+      }
+
+      const isSamePassword = await PasswordUtils.verify(new_password, resetToken.user.password_hash);
+      if (isSamePassword) {
+        res.status(400).json({
+          success: false,
+          message: 'New password must be different from current password',
+          code: 'SAME_PASSWORD'
+        });
+        return;
+      }
+
+      const newPasswordHash = await PasswordUtils.hash(new_password);
+
+      const consumed = await prisma.$transaction(async (tx) => {
+        // Claim the token atomically so concurrent requests cannot both use it
+        const claim = await tx.passwordResetToken.updateMany({
+          where: { id: resetToken.id, used_at: null },
+          data: { used_at: new Date() }
+        });
+
+        if (claim.count === 0) {
+          return false;
+        }
+
+        // The user chose this password themselves, so no forced change on next login
+        await tx.user.update({
+          where: { id: resetToken.user_id },
+          data: {
+            password_hash: newPasswordHash,
+            password_status: 'ok'
+          }
+        });
+
+        return true;
+      });
+
+      if (!consumed) {
+        res.status(400).json({
+          success: false,
+          message: 'This password reset link is invalid or has expired',
+          code: 'INVALID_RESET_TOKEN'
+        });
+        return;
+      }
+
+      // Whoever knew the old password should not stay signed in
+      await SessionService.revokeAllForUser(resetToken.user_id, 'password_reset');
+
+      try {
+        await emailService.sendEmail({
+          to: resetToken.user.email,
+          subject: 'Account Information Updated',
+          template: 'user/user-updated',
+          templateData: {
+            userName: resetToken.user.name,
+            passwordChanged: true,
+            appUrl: process.env.FRONTEND_URL || process.env.APP_URL || 'http://localhost:3000',
+            currentYear: new Date().getFullYear(),
+            subject: 'Account Information Updated'
+          }
+        });
+      } catch (emailError) {
+        console.error('Failed to send password reset confirmation email:', emailError);
+      }
+
+      res.json({
+        success: true,
+        message: 'Password has been reset successfully. Please log in with your new password.',
+      });
+
+    } catch (error) {
+      console.error('Reset password error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  }
+}
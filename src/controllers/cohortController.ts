@@ -0,0 +1,448 @@
+import { Request, Response } from 'express';
+import { Prisma, CohortProgramType, CohortStatus } from '@prisma/client';
+import prisma from '../config/database';
+
+interface CohortResponse {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: any;
+  pagination?: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+export class CohortController {
+  /**
+   * Get all cohorts with team counts
+   */
+  static async getAllCohorts(req: Request, res: Response): Promise<void> {
+    try {
+      const {
+        status,
+        program_type,
+        search,
+        page = 1,
+        limit = 20
+      } = req.query;
+
+      const pageNum = parseInt(page as string, 10);
+      const limitNum = parseInt(limit as string, 10);
+      const skip = (pageNum - 1) * limitNum;
+
+      const where: Prisma.CohortWhereInput = {};
+
+      if (status) {
+        where.status = status as CohortStatus;
+      }
+
+      if (program_type) {
+        where.program_type = program_type as CohortProgramType;
+      }
+
+      if (search) {
+        where.name = { contains: search as string };
+      }
+
+      const [total, cohorts] = await Promise.all([
+        prisma.cohort.count({ where }),
+        prisma.cohort.findMany({
+          where,
+          include: {
+            _count: {
+              select: { teams: true }
+            }
+          },
+          orderBy: { start_date: 'desc' },
+          skip,
+          take: limitNum
+        })
+      ]);
+
+      res.json({
+        success: true,
+        message: 'Cohorts retrieved successfully',
+        data: {
+          cohorts: cohorts.map(cohort => ({
+            ...cohort,
+            available_slots: Math.max(cohort.capacity - cohort._count.teams, 0)
+          }))
+        },
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          pages: Math.ceil(total / limitNum)
+        }
+      } as CohortResponse);
+
+    } catch (error) {
+      console.error('Get cohorts error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as CohortResponse);
+    }
+  }
+
+  /**
+   * Get cohort by ID with its teams
+   */
+  static async getCohortById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const cohort = await prisma.cohort.findUnique({
+        where: { id },
+        include: {
+          teams: {
+            select: {
+              id: true,
+              team_name: true,
+              company_name: true,
+              status: true,
+              enrollment_date: true,
+              _count: {
+                select: {
+                  team_members: true,
+                  projects: true
+                }
+              }
+            },
+            orderBy: { team_name: 'asc' }
+          }
+        }
+      });
+
+      if (!cohort) {
+        res.status(404).json({
+          success: false,
+          message: 'Cohort not found',
+          code: 'COHORT_NOT_FOUND'
+        } as CohortResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Cohort retrieved successfully',
+        data: {
+          cohort: {
+            ...cohort,
+            available_slots: Math.max(cohort.capacity - cohort.teams.length, 0)
+          }
+        }
+      } as CohortResponse);
+
+    } catch (error) {
+      console.error('Get cohort error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as CohortResponse);
+    }
+  }
+
+  /**
+   * Create a new cohort
+   */
+  static async createCohort(req: Request, res: Response): Promise<void> {
+    try {
+      const { name, description, program_type, start_date, end_date, capacity, status } = req.body;
+
+      const existing = await prisma.cohort.findUnique({ where: { name } });
+      if (existing) {
+        res.status(400).json({
+          success: false,
+          message: 'A cohort with this name already exists',
+          code: 'COHORT_EXISTS'
+        } as CohortResponse);
+        return;
+      }
+
+      const cohort = await prisma.cohort.create({
+        data: {
+          name,
+          description: description || null,
+          program_type,
+          start_date: new Date(start_date),
+          end_date: new Date(end_date),
+          capacity,
+          ...(status && { status }),
+          created_by: req.user!.userId
+        }
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Cohort created successfully',
+        data: { cohort }
+      } as CohortResponse);
+
+    } catch (error) {
+      console.error('Create cohort error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as CohortResponse);
+    }
+  }
+
+  /**
+   * Update a cohort
+   */
+  static async updateCohort(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { name, description, program_type, start_date, end_date, capacity, status } = req.body;
+
+      const existing = await prisma.cohort.findUnique({
+        where: { id },
+        include: { _count: { select: { teams: true } } }
+      });
+
+      if (!existing) {
+        res.status(404).json({
+          success: false,
+          message: 'Cohort not found',
+          code: 'COHORT_NOT_FOUND'
+        } as CohortResponse);
+        return;
+      }
+
+      if (name && name !== existing.name) {
+        const nameConflict = await prisma.cohort.findUnique({ where: { name } });
+        if (nameConflict) {
+          res.status(400).json({
+            success: false,
+            message: 'A cohort with this name already exists',
+            code: 'COHORT_EXISTS'
+          } as CohortResponse);
+          return;
+        }
+      }
+
+      // Dates may be changed one at a time, so compare against the stored value
+      const startDate = start_date ? new Date(start_date) : existing.start_date;
+      const endDate = end_date ? new Date(end_date) : existing.end_date;
+      if (endDate <= startDate) {
+        res.status(400).json({
+          success: false,
+          message: 'End date must be after start date',
+          code: 'INVALID_DATE_RANGE'
+        } as CohortResponse);
+        return;
+      }
+
+      if (capacity !== undefined && capacity < existing._count.teams) {
+        res.status(400).json({
+          success: false,
+          message: `Capacity cannot be lower than the ${existing._count.teams} teams already in this cohort`,
+          code: 'CAPACITY_BELOW_ENROLLMENT'
+        } as CohortResponse);
+        return;
+      }
+
+      const cohort = await prisma.cohort.update({
+        where: { id },
+        data: {
+          ...(name && { name }),
+          ...(description !== undefined && { description: description || null }),
+          ...(program_type && { program_type }),
+          ...(start_date && { start_date: startDate }),
+          ...(end_date && { end_date: endDate }),
+          ...(capacity !== undefined && { capacity }),
+          ...(status && { status })
+        }
+      });
+
+      res.json({
+        success: true,
+        message: 'Cohort updated successfully',
+        data: { cohort }
+      } as CohortResponse);
+
+    } catch (error) {
+      console.error('Update cohort error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as CohortResponse);
+    }
+  }
+
+  /**
+   * Delete a cohort (its teams are kept and become unassigned)
+   */
+  static async deleteCohort(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const existing = await prisma.cohort.findUnique({ where: { id } });
+      if (!existing) {
+        res.status(404).json({
+          success: false,
+          message: 'Cohort not found',
+          code: 'COHORT_NOT_FOUND'
+        } as CohortResponse);
+        return;
+      }
+
+      await prisma.cohort.delete({ where: { id } });
+
+      res.json({
+        success: true,
+        message: 'Cohort deleted successfully'
+      } as CohortResponse);
+
+    } catch (error) {
+      console.error('Delete cohort error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as CohortResponse);
+    }
+  }
+
+  /**
+   * Assign teams to a cohort (moves them out of any previous cohort)
+   */
+  static async assignTeams(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const teamIds = [...new Set(req.body.team_ids as string[])];
+
+      const cohort = await prisma.cohort.findUnique({
+        where: { id },
+        select: { id: true }
+      });
+
+      if (!cohort) {
+        res.status(404).json({
+          success: false,
+          message: 'Cohort not found',
+          code: 'COHORT_NOT_FOUND'
+        } as CohortResponse);
+        return;
+      }
+
+      const teams = await prisma.team.findMany({
+        where: { id: { in: teamIds } },
+        select: { id: true }
+      });
+
+      if (teams.length !== teamIds.length) {
+        const found = new Set(teams.map(team => team.id));
+        res.status(404).json({
+          success: false,
+          message: 'One or more teams were not found',
+          code: 'TEAM_NOT_FOUND',
+          data: { missing_team_ids: teamIds.filter(teamId => !found.has(teamId)) }
+        } as CohortResponse);
+        return;
+      }
+
+      const result = await prisma.$transaction(async (tx) => {
+        // Lock the cohort row so concurrent assignments count and fill the capacity one at a time
+        const [locked] = await tx.$queryRaw<{ capacity: number }[]>`SELECT capacity FROM cohorts WHERE id = ${id} FOR UPDATE`;
+
+        const [currentTeams, newTeams] = await Promise.all([
+          tx.team.count({ where: { cohort_id: id } }),
+          tx.team.findMany({
+            where: {
+              id: { in: teamIds },
+              OR: [{ cohort_id: null }, { cohort_id: { not: id } }]
+            },
+            select: { id: true }
+          })
+        ]);
+
+        if (currentTeams + newTeams.length > locked.capacity) {
+          return { exceeded: true as const, capacity: locked.capacity, currentTeams, requested: newTeams.length };
+        }
+
+        if (newTeams.length > 0) {
+          await tx.team.updateMany({
+            where: { id: { in: newTeams.map(team => team.id) } },
+            data: { cohort_id: id }
+          });
+        }
+
+        return { exceeded: false as const, capacity: locked.capacity, currentTeams, assigned: newTeams.length };
+      });
+
+      if (result.exceeded) {
+        res.status(400).json({
+          success: false,
+          message: `Cohort capacity exceeded: ${result.capacity - result.currentTeams} slot(s) left`,
+          code: 'COHORT_CAPACITY_EXCEEDED',
+          data: {
+            capacity: result.capacity,
+            current_teams: result.currentTeams,
+            requested: result.requested
+          }
+        } as CohortResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Teams assigned to cohort successfully',
+        data: {
+          assigned: result.assigned,
+          already_assigned: teams.length - result.assigned,
+          available_slots: result.capacity - result.currentTeams - result.assigned
+        }
+      } as CohortResponse);
+
+    } catch (error) {
+      console.error('Assign cohort teams error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as CohortResponse);
+    }
+  }
+
+  /**
+   * Remove a team from a cohort
+   */
+  static async removeTeam(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, teamId } = req.params;
+
+      const team = await prisma.team.findFirst({
+        where: { id: teamId, cohort_id: id }
+      });
+
+      if (!team) {
+        res.status(404).json({
+          success: false,
+          message: 'Team is not assigned to this cohort',
+          code: 'TEAM_NOT_IN_COHORT'
+        } as CohortResponse);
+        return;
+      }
+
+      await prisma.team.update({
+        where: { id: teamId },
+        data: { cohort_id: null }
+      });
+
+      res.json({
+        success: true,
+        message: 'Team removed from cohort successfully'
+      } as CohortResponse);
+
+    } catch (error) {
+      console.error('Remove cohort team error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as CohortResponse);
+    }
+  }
+}
@@ -331,6 +331,7 @@ export class ConsumptionController {
             previous_quantity: item.available_quantity,
             new_quantity: updatedItem.available_quantity,
             performed_by: req.user!.userId,
+            team_id: team_id || null,
             notes: `Consumption logged: ${quantity} ${unit || 'units'} ${team_id ? `to team ${team_id}` : ''}`
           }
         });
@@ -467,6 +468,7 @@ export class ConsumptionController {
               previous_quantity: existingLog.item.available_quantity,
               new_quantity: updatedItem.available_quantity,
               performed_by: req.user!.userId,
+              team_id: existingLog.team_id,
               notes: `Consumption log updated: quantity adjusted by ${quantityDifference > 0 ? '+' : ''}${quantityDifference}`
             }
           });
@@ -542,6 +544,7 @@ export class ConsumptionController {
             previous_quantity: log.item.available_quantity,
             new_quantity: updatedItem.available_quantity,
             performed_by: req.user!.userId,
+            team_id: log.team_id,
             notes: `Consumption log deleted: restored ${log.quantity} units`
           }
         });
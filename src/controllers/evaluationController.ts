@@ -0,0 +1,434 @@
+import { Request, Response } from 'express';
+import { EvaluationDirection, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import {
+  EvaluationService,
+  EvaluationQuestion,
+  EvaluationAnswers,
+  MissingEvaluation,
+  evaluationAssignmentInclude
+} from '../services/evaluationService';
+
+interface EvaluationResponse {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: any;
+  pagination?: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+export class EvaluationController {
+  /**
+   * List evaluation forms (inactive forms are only listed for Managers and Directors)
+   */
+  static async getForms(req: Request, res: Response): Promise<void> {
+    try {
+      const { direction, include_inactive } = req.query;
+      const isStaff = req.user?.role === 'manager' || req.user?.role === 'director';
+
+      const forms = await prisma.evaluationForm.findMany({
+        where: {
+          ...(direction && { direction: direction as EvaluationDirection }),
+          ...(!(isStaff && include_inactive === 'true') && { is_active: true })
+        },
+        include: {
+          _count: {
+            select: { submissions: true }
+          }
+        },
+        orderBy: { created_at: 'desc' }
+      });
+
+      res.json({
+        success: true,
+        message: 'Evaluation forms retrieved successfully',
+        data: { forms }
+      } as EvaluationResponse);
+
+    } catch (error) {
+      console.error('Get evaluation forms error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as EvaluationResponse);
+    }
+  }
+
+  /**
+   * Create an evaluation form (Manager, Director)
+   */
+  static async createForm(req: Request, res: Response): Promise<void> {
+    try {
+      const { name, description, direction, frequency, questions } = req.body;
+
+      const form = await prisma.evaluationForm.create({
+        data: {
+          name,
+          description: description || null,
+          direction,
+          frequency,
+          questions: questions as Prisma.InputJsonValue,
+          created_by: req.user!.userId
+        }
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Evaluation form created successfully',
+        data: { form }
+      } as EvaluationResponse);
+
+    } catch (error) {
+      console.error('Create evaluation form error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as EvaluationResponse);
+    }
+  }
+
+  /**
+   * Update an evaluation form (Manager, Director)
+   * Questions are locked once answers exist, so earlier results stay comparable; create a new form instead
+   */
+  static async updateForm(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { name, description, frequency, questions, is_active } = req.body;
+
+      const form = await prisma.evaluationForm.findUnique({
+        where: { id },
+        include: {
+          _count: {
+            select: { submissions: true }
+          }
+        }
+      });
+
+      if (!form) {
+        res.status(404).json({
+          success: false,
+          message: 'Evaluation form not found',
+          code: 'FORM_NOT_FOUND'
+        } as EvaluationResponse);
+        return;
+      }
+
+      if ((questions !== undefined || frequency !== undefined) && form._count.submissions > 0) {
+        res.status(409).json({
+          success: false,
+          message: 'Questions and frequency cannot change once the form has submissions; deactivate it and create a new form',
+          code: 'FORM_IN_USE'
+        } as EvaluationResponse);
+        return;
+      }
+
+      const updated = await prisma.evaluationForm.update({
+        where: { id },
+        data: {
+          ...(name !== undefined && { name }),
+          ...(description !== undefined && { description: description || null }),
+          ...(frequency !== undefined && { frequency }),
+          ...(questions !== undefined && { questions: questions as Prisma.InputJsonValue }),
+          ...(is_active !== undefined && { is_active })
+        }
+      });
+
+      res.json({
+        success: true,
+        message: 'Evaluation form updated successfully',
+        data: { form: updated }
+      } as EvaluationResponse);
+
+    } catch (error) {
+      console.error('Update evaluation form error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as EvaluationResponse);
+    }
+  }
+
+  /**
+   * Evaluations the current user still has to submit for the current period
+   */
+  static async getPendingEvaluations(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.userId;
+      let missing: MissingEvaluation[] = [];
+
+      if (req.user?.role === 'mentor') {
+        missing = await EvaluationService.findMissing({ mentor: { user_id: userId } }, 'mentor_to_team');
+      } else if (req.user?.role === 'incubator') {
+        missing = await EvaluationService.findMissing({ team: { team_members: { some: { user_id: userId } } } }, 'team_to_mentor');
+      }
+
+      res.json({
+        success: true,
+        message: 'Pending evaluations retrieved successfully',
+        data: {
+          pending: missing.map(item => ({
+            form: {
+              id: item.form.id,
+              name: item.form.name,
+              direction: item.form.direction,
+              frequency: item.form.frequency
+            },
+            assignment_id: item.assignment.id,
+            mentor: item.assignment.mentor.user,
+            team: {
+              id: item.assignment.team.id,
+              team_name: item.assignment.team.team_name
+            },
+            period: item.period
+          }))
+        }
+      } as EvaluationResponse);
+
+    } catch (error) {
+      console.error('Get pending evaluations error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as EvaluationResponse);
+    }
+  }
+
+  /**
+   * Submit an evaluation for a mentor assignment
+   * Mentors rate their teams, team members rate their mentor; one submission per form, pair and period
+   */
+  static async submitEvaluation(req: Request, res: Response): Promise<void> {
+    try {
+      const { form_id, assignment_id, answers } = req.body as { form_id: string; assignment_id: string; answers: EvaluationAnswers; period?: string };
+      const userId = req.user!.userId;
+
+      const [form, assignment] = await Promise.all([
+        prisma.evaluationForm.findUnique({ where: { id: form_id } }),
+        prisma.mentorAssignment.findUnique({
+          where: { id: assignment_id },
+          include: evaluationAssignmentInclude
+        })
+      ]);
+
+      if (!form || !form.is_active) {
+        res.status(404).json({
+          success: false,
+          message: 'Evaluation form not found',
+          code: 'FORM_NOT_FOUND'
+        } as EvaluationResponse);
+        return;
+      }
+
+      if (!assignment) {
+        res.status(404).json({
+          success: false,
+          message: 'Mentor assignment not found',
+          code: 'ASSIGNMENT_NOT_FOUND'
+        } as EvaluationResponse);
+        return;
+      }
+
+      const allowed = form.direction === 'mentor_to_team'
+        ? assignment.mentor.user.id === userId
+        : assignment.team.team_members.some(member => member.user.id === userId);
+
+      if (!allowed) {
+        res.status(403).json({
+          success: false,
+          message: form.direction === 'mentor_to_team'
+            ? 'Only the assigned mentor can submit this evaluation'
+            : 'Only members of the assigned team can submit this evaluation',
+          code: 'INSUFFICIENT_PERMISSIONS'
+        } as EvaluationResponse);
+        return;
+      }
+
+      const currentPeriod = EvaluationService.periodFor(form.frequency);
+      const period = req.body.period || currentPeriod;
+
+      if (period !== currentPeriod && period !== EvaluationService.previousPeriod(form.frequency)) {
+        res.status(400).json({
+          success: false,
+          message: `Evaluations can only be submitted for the current or previous period (${currentPeriod} is current)`,
+          code: 'INVALID_PERIOD'
+        } as EvaluationResponse);
+        return;
+      }
+
+      const questions = form.questions as unknown as EvaluationQuestion[];
+      const errors = EvaluationService.validateAnswers(questions, answers);
+
+      if (errors.length > 0) {
+        res.status(400).json({
+          success: false,
+          message: 'Answers do not match the form',
+          code: 'INVALID_ANSWERS',
+          data: { errors }
+        } as EvaluationResponse);
+        return;
+      }
+
+      let submission;
+      try {
+        submission = await prisma.evaluationSubmission.create({
+          data: {
+            form_id: form.id,
+            assignment_id: assignment.id,
+            mentor_id: assignment.mentor_id,
+            team_id: assignment.team_id,
+            direction: form.direction,
+            period,
+            answers: answers as Prisma.InputJsonValue,
+            score: EvaluationService.score(questions, answers),
+            submitted_by: userId
+          }
+        });
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          res.status(409).json({
+            success: false,
+            message: `This evaluation has already been submitted for ${period}`,
+            code: 'ALREADY_SUBMITTED'
+          } as EvaluationResponse);
+          return;
+        }
+        throw error;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Evaluation submitted successfully',
+        data: { submission }
+      } as EvaluationResponse);
+
+    } catch (error) {
+      console.error('Submit evaluation error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as EvaluationResponse);
+    }
+  }
+
+  /**
+   * List submitted evaluations (mentors see their own, team members their team's, managers and directors all)
+   */
+  static async getSubmissions(req: Request, res: Response): Promise<void> {
+    try {
+      const { page = 1, limit = 20, form_id, mentor_id, team_id, direction, period } = req.query;
+
+      const pageNum = parseInt(page as string, 10);
+      const limitNum = parseInt(limit as string, 10);
+
+      const where: Prisma.EvaluationSubmissionWhereInput = {
+        ...(form_id && { form_id: form_id as string }),
+        ...(mentor_id && { mentor_id: mentor_id as string }),
+        ...(team_id && { team_id: team_id as string }),
+        ...(direction && { direction: direction as EvaluationDirection }),
+        ...(period && { period: period as string })
+      };
+
+      if (req.user?.role === 'mentor') {
+        where.mentor = { user_id: req.user.userId };
+      } else if (req.user?.role === 'incubator') {
+        where.team = { team_members: { some: { user_id: req.user.userId } } };
+      }
+
+      const [total, submissions] = await Promise.all([
+        prisma.evaluationSubmission.count({ where }),
+        prisma.evaluationSubmission.findMany({
+          where,
+          include: {
+            form: {
+              select: {
+                id: true,
+                name: true,
+                questions: true
+              }
+            },
+            mentor: {
+              select: {
+                id: true,
+                user: {
+                  select: {
+                    id: true,
+                    name: true
+                  }
+                }
+              }
+            },
+            team: {
+              select: {
+                id: true,
+                team_name: true
+              }
+            },
+            submitter: {
+              select: {
+                id: true,
+                name: true
+              }
+            }
+          },
+          orderBy: { submitted_at: 'desc' },
+          skip: (pageNum - 1) * limitNum,
+          take: limitNum
+        })
+      ]);
+
+      res.json({
+        success: true,
+        message: 'Evaluations retrieved successfully',
+        data: { submissions },
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          pages: Math.ceil(total / limitNum)
+        }
+      } as EvaluationResponse);
+
+    } catch (error) {
+      console.error('Get evaluations error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as EvaluationResponse);
+    }
+  }
+
+  /**
+   * Remind mentors and team leaders about evaluations missing for the current period (Manager, Director)
+   * Teams without a leader have every member reminded
+   */
+  static async sendReminders(req: Request, res: Response): Promise<void> {
+    try {
+      const { form_id } = req.body;
+      const senderId = req.user!.userId;
+
+      const result = await EvaluationService.sendReminders(senderId, form_id ? [form_id] : undefined);
+
+      res.json({
+        success: true,
+        message: 'Evaluation reminders sent successfully',
+        data: {
+          missing_evaluations: result.missing,
+          reminders_sent: result.remindersSent
+        }
+      } as EvaluationResponse);
+
+    } catch (error) {
+      console.error('Send evaluation reminders error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as EvaluationResponse);
+    }
+  }
+}
@@ -839,31 +839,48 @@ export class InventoryController {
         return;
       }
 
-      // Create assignment
-      const assignment = await prisma.inventoryAssignment.create({
-        data: {
-          item_id: id,
-          team_id,
-          quantity,
-          assigned_by: req.user!.userId
-        },
-        include: {
-          item: {
-            select: {
-              id: true,
-              name: true,
-              description: true,
-              total_quantity: true
-            }
+      // Create assignment and record it against the team so it shows in the team timeline
+      const assignment = await prisma.$transaction(async (tx) => {
+        const created = await tx.inventoryAssignment.create({
+          data: {
+            item_id: id,
+            team_id,
+            quantity,
+            assigned_by: req.user!.userId
           },
-          team: {
-            select: {
-              id: true,
-              team_name: true,
-              company_name: true
+          include: {
+            item: {
+              select: {
+                id: true,
+                name: true,
+                description: true,
+                total_quantity: true
+              }
+            },
+            team: {
+              select: {
+                id: true,
+                team_name: true,
+                company_name: true
+              }
             }
           }
-        }
+        });
+
+        await tx.inventoryTransaction.create({
+          data: {
+            item_id: id,
+            transaction_type: 'assign',
+            quantity,
+            previous_quantity: availableQuantity,
+            new_quantity: availableQuantity - quantity,
+            performed_by: req.user!.userId,
+            team_id,
+            notes: `Assigned to team ${team.team_name}`
+          }
+        });
+
+        return created;
       });
 
       // Send inventory assignment emails
@@ -930,6 +947,15 @@ export class InventoryController {
         where: {
           item_id: id,
           team_id: teamId
+        },
+        include: {
+          item: {
+            select: {
+              total_quantity: true,
+              inventory_assignments: { select: { quantity: true } }
+            }
+          },
+          team: { select: { team_name: true } }
         }
       });
 
@@ -941,10 +967,27 @@ export class InventoryController {
         return;
       }
 
-      // Delete assignment
-      await prisma.inventoryAssignment.delete({
-        where: { id: assignment.id }
-      });
+      const availableQuantity = assignment.item.total_quantity -
+        assignment.item.inventory_assignments.reduce((total, a) => total + a.quantity, 0);
+
+      // Delete assignment and record the return against the team so it shows in the team timeline
+      await prisma.$transaction([
+        prisma.inventoryAssignment.delete({
+          where: { id: assignment.id }
+        }),
+        prisma.inventoryTransaction.create({
+          data: {
+            item_id: id,
+            transaction_type: 'return',
+            quantity: assignment.quantity,
+            previous_quantity: availableQuantity,
+            new_quantity: availableQuantity + assignment.quantity,
+            performed_by: req.user!.userId,
+            team_id: teamId,
+            notes: `Unassigned from team ${assignment.team.team_name}`
+          }
+        })
+      ]);
 
       res.json({
         success: true,
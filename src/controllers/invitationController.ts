@@ -0,0 +1,571 @@
+import { Request, Response } from 'express';
+import { Prisma, UserInvitation } from '@prisma/client';
+import prisma from '../config/database';
+import { PasswordUtils } from '../utils/password';
+import { TokenUtils } from '../utils/token';
+import { PasswordPolicy } from '../config/security';
+import emailService from '../services/emailService';
+import { PermissionService } from '../services/permissionService';
+
+// How long an invitation link stays valid
+const INVITATION_TTL_HOURS = parseInt(process.env.INVITATION_TTL_HOURS || '72', 10);
+
+type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+interface InvitationResponse {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: any;
+  errors?: string[];
+  pagination?: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+export class InvitationController {
+  /**
+   * Invite a new user by email (they choose their own password)
+   */
+  static async createInvitation(req: Request, res: Response): Promise<void> {
+    try {
+      const { name, email, role, teamId } = req.body;
+      const normalizedEmail = email.toLowerCase();
+
+      if (!PermissionService.canManageRole(req.user?.role, role)) {
+        res.status(403).json({
+          success: false,
+          message: 'Only directors can invite directors',
+          code: 'DIRECTOR_ONLY'
+        } as InvitationResponse);
+        return;
+      }
+
+      const existingUser = await prisma.user.findUnique({
+        where: { email: normalizedEmail }
+      });
+
+      if (existingUser) {
+        res.status(400).json({
+          success: false,
+          message: 'User with this email already exists',
+          code: 'USER_EXISTS'
+        } as InvitationResponse);
+        return;
+      }
+
+      const pendingInvitation = await prisma.userInvitation.findFirst({
+        where: {
+          email: normalizedEmail,
+          accepted_at: null,
+          revoked_at: null,
+          expires_at: { gt: new Date() }
+        }
+      });
+
+      if (pendingInvitation) {
+        res.status(400).json({
+          success: false,
+          message: 'A pending invitation already exists for this email. Resend or revoke it instead.',
+          code: 'INVITATION_PENDING',
+          data: { invitationId: pendingInvitation.id }
+        } as InvitationResponse);
+        return;
+      }
+
+      // Validate team requirement for incubators
+      if (role === 'incubator') {
+        if (!teamId) {
+          res.status(400).json({
+            success: false,
+            message: 'Team ID is required for incubator users',
+            code: 'TEAM_REQUIRED'
+          } as InvitationResponse);
+          return;
+        }
+
+        const teamExists = await prisma.team.findUnique({ where: { id: teamId } });
+        if (!teamExists) {
+          res.status(404).json({
+            success: false,
+            message: 'Team not found',
+            code: 'TEAM_NOT_FOUND'
+          } as InvitationResponse);
+          return;
+        }
+      }
+
+      const token = TokenUtils.generate();
+
+      const invitation = await prisma.userInvitation.create({
+        data: {
+          email: normalizedEmail,
+          name,
+          role,
+          team_id: role === 'incubator' ? teamId : null,
+          token_hash: TokenUtils.hash(token),
+          invited_by: req.user!.userId,
+          expires_at: new Date(Date.now() + INVITATION_TTL_HOURS * 60 * 60 * 1000)
+        },
+        include: { team: { select: { id: true, team_name: true } } }
+      });
+
+      await InvitationController.sendInvitationEmail(invitation, token, req.user!.name);
+
+      res.status(201).json({
+        success: true,
+        message: 'Invitation sent successfully',
+        data: InvitationController.formatInvitation(invitation)
+      } as InvitationResponse);
+
+    } catch (error) {
+      console.error('Create invitation error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as InvitationResponse);
+    }
+  }
+
+  /**
+   * List invitations (pending by default)
+   */
+  static async getInvitations(req: Request, res: Response): Promise<void> {
+    try {
+      const { page = 1, limit = 20, status = 'pending', search } = req.query;
+
+      const pageNum = parseInt(page as string, 10);
+      const limitNum = parseInt(limit as string, 10);
+      const now = new Date();
+
+      const where: Prisma.UserInvitationWhereInput = {};
+
+      switch (status as InvitationStatus | 'all') {
+        case 'pending':
+          Object.assign(where, { accepted_at: null, revoked_at: null, expires_at: { gt: now } });
+          break;
+        case 'accepted':
+          where.accepted_at = { not: null };
+          break;
+        case 'revoked':
+          where.revoked_at = { not: null };
+          break;
+        case 'expired':
+          Object.assign(where, { accepted_at: null, revoked_at: null, expires_at: { lte: now } });
+          break;
+      }
+
+      if (search) {
+        where.OR = [
+          { name: { contains: search as string } },
+          { email: { contains: search as string } }
+        ];
+      }
+
+      const [invitations, total] = await Promise.all([
+        prisma.userInvitation.findMany({
+          where,
+          include: {
+            team: { select: { id: true, team_name: true } },
+            inviter: { select: { id: true, name: true, email: true } }
+          },
+          orderBy: { created_at: 'desc' },
+          skip: (pageNum - 1) * limitNum,
+          take: limitNum
+        }),
+        prisma.userInvitation.count({ where })
+      ]);
+
+      res.json({
+        success: true,
+        message: 'Invitations retrieved successfully',
+        data: { invitations: invitations.map(InvitationController.formatInvitation) },
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          pages: Math.ceil(total / limitNum)
+        }
+      } as InvitationResponse);
+
+    } catch (error) {
+      console.error('Get invitations error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as InvitationResponse);
+    }
+  }
+
+  /**
+   * Resend an invitation with a fresh link (the previous link stops working)
+   */
+  static async resendInvitation(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const invitation = await prisma.userInvitation.findUnique({ where: { id } });
+
+      if (!invitation) {
+        res.status(404).json({
+          success: false,
+          message: 'Invitation not found',
+          code: 'INVITATION_NOT_FOUND'
+        } as InvitationResponse);
+        return;
+      }
+
+      if (!PermissionService.canManageRole(req.user?.role, invitation.role)) {
+        res.status(403).json({
+          success: false,
+          message: 'Only directors can manage director invitations',
+          code: 'DIRECTOR_ONLY'
+        } as InvitationResponse);
+        return;
+      }
+
+      if (invitation.accepted_at || invitation.revoked_at) {
+        res.status(400).json({
+          success: false,
+          message: `Invitation has already been ${invitation.accepted_at ? 'accepted' : 'revoked'}`,
+          code: 'INVITATION_CLOSED'
+        } as InvitationResponse);
+        return;
+      }
+
+      const token = TokenUtils.generate();
+
+      const updated = await prisma.userInvitation.update({
+        where: { id },
+        data: {
+          token_hash: TokenUtils.hash(token),
+          expires_at: new Date(Date.now() + INVITATION_TTL_HOURS * 60 * 60 * 1000),
+          sent_count: { increment: 1 },
+          last_sent_at: new Date()
+        },
+        include: { team: { select: { id: true, team_name: true } } }
+      });
+
+      await InvitationController.sendInvitationEmail(updated, token, req.user!.name);
+
+      res.json({
+        success: true,
+        message: 'Invitation resent successfully',
+        data: InvitationController.formatInvitation(updated)
+      } as InvitationResponse);
+
+    } catch (error) {
+      console.error('Resend invitation error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as InvitationResponse);
+    }
+  }
+
+  /**
+   * Revoke a pending invitation
+   */
+  static async revokeInvitation(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const invitation = await prisma.userInvitation.findUnique({ where: { id } });
+
+      if (!invitation) {
+        res.status(404).json({
+          success: false,
+          message: 'Invitation not found',
+          code: 'INVITATION_NOT_FOUND'
+        } as InvitationResponse);
+        return;
+      }
+
+      if (!PermissionService.canManageRole(req.user?.role, invitation.role)) {
+        res.status(403).json({
+          success: false,
+          message: 'Only directors can manage director invitations',
+          code: 'DIRECTOR_ONLY'
+        } as InvitationResponse);
+        return;
+      }
+
+      if (invitation.accepted_at || invitation.revoked_at) {
+        res.status(400).json({
+          success: false,
+          message: `Invitation has already been ${invitation.accepted_at ? 'accepted' : 'revoked'}`,
+          code: 'INVITATION_CLOSED'
+        } as InvitationResponse);
+        return;
+      }
+
+      await prisma.userInvitation.update({
+        where: { id },
+        data: { revoked_at: new Date() }
+      });
+
+      res.json({
+        success: true,
+        message: 'Invitation revoked successfully'
+      } as InvitationResponse);
+
+    } catch (error) {
+      console.error('Revoke invitation error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as InvitationResponse);
+    }
+  }
+
+  /**
+   * Look up an invitation by token so the accept page can show who is being invited
+   */
+  static async getInvitationByToken(req: Request, res: Response): Promise<void> {
+    try {
+      const invitation = await InvitationController.findOpenInvitation(req.params.token);
+
+      if (!invitation) {
+        res.status(400).json({
+          success: false,
+          message: 'This invitation is invalid or has expired',
+          code: 'INVALID_INVITATION'
+        } as InvitationResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Invitation retrieved successfully',
+        data: {
+          email: invitation.email,
+          name: invitation.name,
+          role: invitation.role,
+          team: invitation.team,
+          expires_at: invitation.expires_at
+        }
+      } as InvitationResponse);
+
+    } catch (error) {
+      console.error('Get invitation by token error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as InvitationResponse);
+    }
+  }
+
+  /**
+   * Accept an invitation: create the account with a password chosen by the user
+   */
+  static async acceptInvitation(req: Request, res: Response): Promise<void> {
+    try {
+      const { token, password, name } = req.body;
+
+      const invitation = await InvitationController.findOpenInvitation(token);
+
+      if (!invitation) {
+        res.status(400).json({
+          success: false,
+          message: 'This invitation is invalid or has expired',
+          code: 'INVALID_INVITATION'
+        } as InvitationResponse);
+        return;
+      }
+
+      const passwordCheck = PasswordPolicy.validate(password);
+      if (!passwordCheck.valid) {
+        res.status(400).json({
+          success: false,
+          message: 'Password does not meet requirements',
+          code: 'WEAK_PASSWORD',
+          errors: passwordCheck.errors
+        } as InvitationResponse);
+        return;
+      }
+
+      const existingUser = await prisma.user.findUnique({
+        where: { email: invitation.email }
+      });
+
+      if (existingUser) {
+        res.status(400).json({
+          success: false,
+          message: 'An account with this email already exists',
+          code: 'USER_EXISTS'
+        } as InvitationResponse);
+        return;
+      }
+
+      const passwordHash = await PasswordUtils.hash(password);
+
+      const newUser = await prisma.$transaction(async (tx) => {
+        // Claim the invitation first so a double submit cannot create two accounts
+        const claimed = await tx.userInvitation.updateMany({
+          where: { id: invitation.id, accepted_at: null, revoked_at: null },
+          data: { accepted_at: new Date() }
+        });
+
+        if (claimed.count === 0) {
+          return null;
+        }
+
+        const user = await tx.user.create({
+          data: {
+            name: name || invitation.name,
+            email: invitation.email,
+            password_hash: passwordHash,
+            role: invitation.role,
+            status: 'active',
+            password_status: 'ok'
+          },
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            role: true,
+            status: true,
+            created_at: true,
+            updated_at: true
+          }
+        });
+
+        // If incubator, ensure team membership
+        if (invitation.role === 'incubator' && invitation.team_id) {
+          await tx.teamMember.create({
+            data: {
+              team_id: invitation.team_id,
+              user_id: user.id,
+              role: 'team_leader'
+            }
+          });
+        }
+
+        await tx.userInvitation.update({
+          where: { id: invitation.id },
+          data: { accepted_by: user.id }
+        });
+
+        return user;
+      });
+
+      if (!newUser) {
+        res.status(400).json({
+          success: false,
+          message: 'This invitation is invalid or has expired',
+          code: 'INVALID_INVITATION'
+        } as InvitationResponse);
+        return;
+      }
+
+      // Send welcome email (no password, the user chose it)
+      try {
+        await emailService.sendEmail({
+          to: newUser.email,
+          subject: 'Welcome to Incubation Management System',
+          template: 'user/user-created',
+          emailType: 'user_created',
+          userId: newUser.id,
+          templateData: {
+            userName: newUser.name,
+            userEmail: newUser.email,
+            role: newUser.role.charAt(0).toUpperCase() + newUser.role.slice(1),
+            appUrl: process.env.FRONTEND_URL || process.env.APP_URL || 'http://localhost:3000',
+            currentYear: new Date().getFullYear(),
+            subject: 'Welcome to Incubation Management System'
+          }
+        });
+      } catch (emailError) {
+        console.error('Failed to send welcome email:', emailError);
+        // Don't fail account creation if email fails
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Account created successfully. You can now log in.',
+        data: newUser
+      } as InvitationResponse);
+
+    } catch (error) {
+      console.error('Accept invitation error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as InvitationResponse);
+    }
+  }
+
+  /**
+   * Helper to find a pending (not accepted, revoked or expired) invitation by raw token
+   */
+  private static async findOpenInvitation(token: string) {
+    const invitation = await prisma.userInvitation.findUnique({
+      where: { token_hash: TokenUtils.hash(token) },
+      include: { team: { select: { id: true, team_name: true } } }
+    });
+
+    if (!invitation || invitation.accepted_at || invitation.revoked_at || invitation.expires_at <= new Date()) {
+      return null;
+    }
+
+    return invitation;
+  }
+
+  /**
+   * Helper to derive the invitation status
+   */
+  private static getStatus(invitation: UserInvitation): InvitationStatus {
+    if (invitation.accepted_at) return 'accepted';
+    if (invitation.revoked_at) return 'revoked';
+    if (invitation.expires_at <= new Date()) return 'expired';
+    return 'pending';
+  }
+
+  /**
+   * Helper to shape an invitation for responses (never exposes the token hash)
+   */
+  private static formatInvitation(invitation: UserInvitation & Record<string, any>) {
+    const { token_hash, ...rest } = invitation;
+    return {
+      ...rest,
+      status: InvitationController.getStatus(invitation)
+    };
+  }
+
+  /**
+   * Helper to email the invitation link
+   */
+  private static async sendInvitationEmail(
+    invitation: UserInvitation & { team?: { team_name: string } | null },
+    token: string,
+    inviterName: string
+  ): Promise<void> {
+    const appUrl = process.env.FRONTEND_URL || process.env.APP_URL || 'http://localhost:3000';
+
+    try {
+      await emailService.sendEmail({
+        to: invitation.email,
+        subject: 'You are invited to the Incubation Management System',
+        template: 'user/user-invitation',
+        templateData: {
+          userName: invitation.name,
+          userEmail: invitation.email,
+          role: invitation.role.charAt(0).toUpperCase() + invitation.role.slice(1),
+          teamName: invitation.team?.team_name,
+          inviterName,
+          acceptUrl: `${appUrl}/accept-invite?token=${token}`,
+          expiresInHours: INVITATION_TTL_HOURS,
+          appUrl,
+          currentYear: new Date().getFullYear(),
+          subject: 'You are invited to the Incubation Management System'
+        }
+      });
+    } catch (emailError) {
+      console.error('Failed to send invitation email:', emailError);
+      // Don't fail the invitation if email fails; it can be resent
+    }
+  }
+}
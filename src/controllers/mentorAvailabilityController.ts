@@ -0,0 +1,317 @@
+import { Request, Response } from 'express';
+import prisma from '../config/database';
+import { MentorAvailabilityService } from '../services/mentorAvailabilityService';
+
+interface MentorAvailabilityResponse {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: any;
+}
+
+interface SlotInput {
+  day_of_week: number;
+  start_time: string;
+  end_time: string;
+  slot_minutes: number;
+}
+
+// Longest range free slots can be listed for in one request
+const MAX_RANGE_DAYS = 31;
+
+export class MentorAvailabilityController {
+  /**
+   * Get a mentor's weekly availability and upcoming blackout dates
+   */
+  static async getAvailability(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const mentor = await prisma.mentor.findUnique({
+        where: { id },
+        select: {
+          id: true,
+          availability_slots: {
+            orderBy: [{ day_of_week: 'asc' }, { start_time: 'asc' }]
+          },
+          blackout_dates: {
+            where: { end_date: { gte: new Date(new Date().toISOString().slice(0, 10)) } },
+            orderBy: { start_date: 'asc' }
+          }
+        }
+      });
+
+      if (!mentor) {
+        res.status(404).json({
+          success: false,
+          message: 'Mentor not found',
+          code: 'MENTOR_NOT_FOUND'
+        } as MentorAvailabilityResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Mentor availability retrieved successfully',
+        data: {
+          timezone: 'UTC',
+          slots: mentor.availability_slots,
+          blackout_dates: mentor.blackout_dates
+        }
+      } as MentorAvailabilityResponse);
+
+    } catch (error) {
+      console.error('Get mentor availability error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MentorAvailabilityResponse);
+    }
+  }
+
+  /**
+   * Replace a mentor's weekly availability (mentor themselves, Manager, Director)
+   */
+  static async updateAvailability(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { slots } = req.body as { slots: SlotInput[] };
+
+      if (!await MentorAvailabilityController.canManage(req, id, res)) {
+        return;
+      }
+
+      const errors = MentorAvailabilityController.validateSlots(slots);
+
+      if (errors.length > 0) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid availability slots',
+          code: 'INVALID_SLOTS',
+          data: { errors }
+        } as MentorAvailabilityResponse);
+        return;
+      }
+
+      const saved = await prisma.$transaction(async (tx) => {
+        await tx.mentorAvailabilitySlot.deleteMany({ where: { mentor_id: id } });
+
+        if (slots.length > 0) {
+          await tx.mentorAvailabilitySlot.createMany({
+            data: slots.map(slot => ({ ...slot, mentor_id: id }))
+          });
+        }
+
+        return tx.mentorAvailabilitySlot.findMany({
+          where: { mentor_id: id },
+          orderBy: [{ day_of_week: 'asc' }, { start_time: 'asc' }]
+        });
+      });
+
+      res.json({
+        success: true,
+        message: 'Mentor availability updated successfully',
+        data: { timezone: 'UTC', slots: saved }
+      } as MentorAvailabilityResponse);
+
+    } catch (error) {
+      console.error('Update mentor availability error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MentorAvailabilityResponse);
+    }
+  }
+
+  /**
+   * Block out one or more days (mentor themselves, Manager, Director)
+   */
+  static async addBlackoutDate(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { start_date, end_date, reason } = req.body;
+
+      if (!await MentorAvailabilityController.canManage(req, id, res)) {
+        return;
+      }
+
+      const blackout = await prisma.mentorBlackoutDate.create({
+        data: {
+          mentor_id: id,
+          start_date: new Date(start_date),
+          end_date: new Date(end_date || start_date),
+          reason: reason || null
+        }
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Blackout date added successfully',
+        data: { blackout_date: blackout }
+      } as MentorAvailabilityResponse);
+
+    } catch (error) {
+      console.error('Add mentor blackout date error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MentorAvailabilityResponse);
+    }
+  }
+
+  /**
+   * Remove a blackout date (mentor themselves, Manager, Director)
+   */
+  static async deleteBlackoutDate(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, blackoutId } = req.params;
+
+      if (!await MentorAvailabilityController.canManage(req, id, res)) {
+        return;
+      }
+
+      const result = await prisma.mentorBlackoutDate.deleteMany({
+        where: { id: blackoutId, mentor_id: id }
+      });
+
+      if (result.count === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'Blackout date not found',
+          code: 'BLACKOUT_NOT_FOUND'
+        } as MentorAvailabilityResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Blackout date removed successfully'
+      } as MentorAvailabilityResponse);
+
+    } catch (error) {
+      console.error('Delete mentor blackout date error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MentorAvailabilityResponse);
+    }
+  }
+
+  /**
+   * List a mentor's bookable slots in a date range (defaults to the next 14 days)
+   */
+  static async getFreeSlots(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const from = req.query.from ? new Date(req.query.from as string) : new Date();
+      const to = req.query.to
+        ? new Date(req.query.to as string)
+        : new Date(from.getTime() + 14 * 24 * 60 * 60 * 1000);
+
+      if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+        res.status(400).json({
+          success: false,
+          message: `Free slots can be listed for at most ${MAX_RANGE_DAYS} days at a time`,
+          code: 'RANGE_TOO_LARGE'
+        } as MentorAvailabilityResponse);
+        return;
+      }
+
+      const mentor = await prisma.mentor.findUnique({
+        where: { id },
+        select: { id: true }
+      });
+
+      if (!mentor) {
+        res.status(404).json({
+          success: false,
+          message: 'Mentor not found',
+          code: 'MENTOR_NOT_FOUND'
+        } as MentorAvailabilityResponse);
+        return;
+      }
+
+      const slots = await MentorAvailabilityService.getFreeSlots(id, from, to);
+
+      res.json({
+        success: true,
+        message: 'Free slots retrieved successfully',
+        data: {
+          from,
+          to,
+          slots
+        }
+      } as MentorAvailabilityResponse);
+
+    } catch (error) {
+      console.error('Get mentor free slots error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MentorAvailabilityResponse);
+    }
+  }
+
+  /**
+   * Check the mentor exists and the user may edit their availability, responding if not
+   */
+  private static async canManage(req: Request, mentorId: string, res: Response): Promise<boolean> {
+    const mentor = await prisma.mentor.findUnique({
+      where: { id: mentorId },
+      select: { user_id: true }
+    });
+
+    if (!mentor) {
+      res.status(404).json({
+        success: false,
+        message: 'Mentor not found',
+        code: 'MENTOR_NOT_FOUND'
+      } as MentorAvailabilityResponse);
+      return false;
+    }
+
+    const isStaff = req.user?.role === 'manager' || req.user?.role === 'director';
+
+    if (!isStaff && mentor.user_id !== req.user?.userId) {
+      res.status(403).json({
+        success: false,
+        message: 'Only the mentor can change their availability',
+        code: 'INSUFFICIENT_PERMISSIONS'
+      } as MentorAvailabilityResponse);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Windows must end after they start, fit at least one slot and not overlap on the same day
+   */
+  private static validateSlots(slots: SlotInput[]): string[] {
+    const errors: string[] = [];
+
+    slots.forEach((slot, index) => {
+      const start = MentorAvailabilityService.parseTime(slot.start_time);
+      const end = MentorAvailabilityService.parseTime(slot.end_time);
+
+      if (end <= start) {
+        errors.push(`Slot ${index + 1}: end time must be after start time`);
+      } else if (end - start < slot.slot_minutes) {
+        errors.push(`Slot ${index + 1}: window is shorter than one ${slot.slot_minutes}-minute slot`);
+      }
+
+      const overlapping = slots.findIndex((other, otherIndex) =>
+        otherIndex < index &&
+        other.day_of_week === slot.day_of_week &&
+        MentorAvailabilityService.parseTime(other.start_time) < end &&
+        MentorAvailabilityService.parseTime(other.end_time) > start
+      );
+
+      if (overlapping !== -1) {
+        errors.push(`Slot ${index + 1}: overlaps slot ${overlapping + 1}`);
+      }
+    });
+
+    return errors;
+  }
+}
@@ -3,6 +3,8 @@ import { Mentor, User, Team, Prisma } from '@prisma/client';
 import prisma from '../config/database';
 import { PasswordUtils } from '../utils/password';
 import emailService from '../services/emailService';
+import { MentorRecommendationService } from '../services/mentorRecommendationService';
+import { PermissionService } from '../services/permissionService';
 
 interface CreateMentorRequest {
   name: string;
@@ -449,6 +451,7 @@ export class MentorController {
           deactivated_at: new Date()
         }
       });
+      PermissionService.clearCache(mentor.user_id);
 
       res.json({
         success: true,
@@ -776,6 +779,38 @@ export class MentorController {
     }
   }
 
+  /**
+   * Rank mentors for a team by expertise fit and current load, explaining each score
+   */
+  static async getRecommendations(req: Request, res: Response): Promise<void> {
+    try {
+      const { team_id, limit = 10 } = req.query;
+
+      const result = await MentorRecommendationService.recommend(team_id as string, parseInt(limit as string, 10));
+
+      if (!result) {
+        res.status(404).json({
+          success: false,
+          message: 'Team not found'
+        } as MentorResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Mentor recommendations retrieved successfully',
+        data: result
+      } as MentorResponse);
+
+    } catch (error) {
+      console.error('Get mentor recommendations error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MentorResponse);
+    }
+  }
+
   /**
    * Get mentor assignments
    */
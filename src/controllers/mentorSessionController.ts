@@ -0,0 +1,1271 @@
+import { Request, Response } from 'express';
+import { Prisma, MentorSessionStatus, SessionAttendanceStatus } from '@prisma/client';
+import prisma from '../config/database';
+import emailService from '../services/emailService';
+import { CalendarService, CalendarEvent } from '../services/calendarService';
+import { MentorAvailabilityService, ACTIVE_SESSION_STATUSES } from '../services/mentorAvailabilityService';
+import { NotificationService } from '../services/notificationService';
+import { TokenUtils } from '../utils/token';
+
+interface MentorSessionResponse {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: any;
+  pagination?: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+const sessionInclude = {
+  mentor: {
+    select: {
+      id: true,
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true
+        }
+      }
+    }
+  },
+  team: {
+    select: {
+      id: true,
+      team_name: true,
+      team_members: {
+        select: {
+          role: true,
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true
+            }
+          }
+        }
+      }
+    }
+  },
+  requester: {
+    select: {
+      id: true,
+      name: true
+    }
+  },
+  responder: {
+    select: {
+      id: true,
+      name: true
+    }
+  },
+  canceller: {
+    select: {
+      id: true,
+      name: true
+    }
+  },
+  attendance: {
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true
+        }
+      }
+    }
+  },
+  action_items: {
+    include: {
+      assignee: {
+        select: {
+          id: true,
+          name: true
+        }
+      }
+    },
+    orderBy: { created_at: 'asc' as const }
+  }
+};
+
+type SessionWithDetails = Prisma.MentorSessionGetPayload<{ include: typeof sessionInclude }>;
+
+type SessionConflict = NonNullable<Awaited<ReturnType<typeof MentorAvailabilityService.findConflict>>>;
+
+// conflict is null when a concurrent write won the race and the clash wasn't seen directly
+type ConflictFreeWrite =
+  | { session: SessionWithDetails; conflict?: undefined }
+  | { session: null; conflict: SessionConflict | null };
+
+type InviteKind = 'confirmed' | 'rescheduled' | 'cancelled';
+
+export class MentorSessionController {
+  /**
+   * List sessions (mentors see their own, team members their team's, managers and directors all)
+   */
+  static async getSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const { page = 1, limit = 20, mentor_id, team_id, status, from, to } = req.query;
+
+      const pageNum = parseInt(page as string, 10);
+      const limitNum = parseInt(limit as string, 10);
+
+      const where: Prisma.MentorSessionWhereInput = {
+        ...(mentor_id && { mentor_id: mentor_id as string }),
+        ...(team_id && { team_id: team_id as string }),
+        ...(status && { status: status as MentorSessionStatus }),
+        ...((from || to) && {
+          scheduled_at: {
+            ...(from && { gte: new Date(from as string) }),
+            ...(to && { lte: new Date(to as string) })
+          }
+        })
+      };
+
+      if (req.user?.role === 'mentor') {
+        where.mentor = { user_id: req.user.userId };
+      } else if (req.user?.role === 'incubator') {
+        where.team = { team_members: { some: { user_id: req.user.userId } } };
+      }
+
+      const [total, sessions] = await Promise.all([
+        prisma.mentorSession.count({ where }),
+        prisma.mentorSession.findMany({
+          where,
+          include: sessionInclude,
+          orderBy: { scheduled_at: 'desc' },
+          skip: (pageNum - 1) * limitNum,
+          take: limitNum
+        })
+      ]);
+
+      res.json({
+        success: true,
+        message: 'Mentor sessions retrieved successfully',
+        data: { sessions },
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          pages: Math.ceil(total / limitNum)
+        }
+      } as MentorSessionResponse);
+
+    } catch (error) {
+      console.error('Get mentor sessions error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MentorSessionResponse);
+    }
+  }
+
+  /**
+   * Request a session with an assigned mentor or team; the other side confirms it
+   */
+  static async createSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { title, agenda, scheduled_at, duration_minutes, location } = req.body;
+      const userId = req.user!.userId;
+
+      let mentorId: string | undefined;
+      let teamId: string | undefined;
+
+      if (req.user?.role === 'mentor') {
+        const mentor = await prisma.mentor.findUnique({
+          where: { user_id: userId },
+          select: { id: true }
+        });
+        mentorId = mentor?.id;
+        teamId = req.body.team_id;
+      } else if (req.user?.role === 'incubator') {
+        const membership = await prisma.teamMember.findFirst({
+          where: {
+            user_id: userId,
+            ...(req.body.team_id && { team_id: req.body.team_id })
+          },
+          select: { team_id: true }
+        });
+        mentorId = req.body.mentor_id;
+        teamId = membership?.team_id;
+      } else {
+        res.status(403).json({
+          success: false,
+          message: 'Only mentors and team members can request mentoring sessions',
+          code: 'INSUFFICIENT_PERMISSIONS'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      if (!mentorId || !teamId) {
+        res.status(400).json({
+          success: false,
+          message: req.user.role === 'mentor'
+            ? 'team_id is required'
+            : 'mentor_id is required and you must be a member of the team',
+          code: 'MISSING_PARTICIPANT'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      const assignment = await prisma.mentorAssignment.findUnique({
+        where: { mentor_id_team_id: { mentor_id: mentorId, team_id: teamId } }
+      });
+
+      if (!assignment) {
+        res.status(400).json({
+          success: false,
+          message: 'Sessions can only be scheduled between a mentor and a team they are assigned to',
+          code: 'NOT_ASSIGNED'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      const start = new Date(scheduled_at);
+      const { session, conflict } = await MentorSessionController.writeWithoutConflict(
+        mentorId, teamId, start, duration_minutes, undefined,
+        tx => tx.mentorSession.create({
+          data: {
+            mentor_id: mentorId!,
+            team_id: teamId!,
+            title,
+            agenda: agenda || null,
+            scheduled_at: start,
+            duration_minutes,
+            location: location || null,
+            requested_by: userId
+          },
+          include: sessionInclude
+        })
+      );
+
+      if (!session) {
+        res.status(409).json({
+          success: false,
+          message: 'The mentor or team already has a session at that time',
+          code: 'SESSION_CONFLICT',
+          ...(conflict && { data: { conflicting_session: conflict } })
+        } as MentorSessionResponse);
+        return;
+      }
+
+      await MentorSessionController.notifyUsers(
+        MentorSessionController.otherSideIds(session, userId),
+        userId,
+        'Mentoring session requested',
+        `${req.user.name} requested "${session.title}" on ${start.toUTCString()}. Please confirm or decline.`
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Mentor session requested successfully',
+        data: { session }
+      } as MentorSessionResponse);
+
+    } catch (error) {
+      console.error('Create mentor session error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MentorSessionResponse);
+    }
+  }
+
+  /**
+   * Book one of a mentor's free availability slots (team members of an assigned team)
+   * Bookings are confirmed straight away because the mentor published the slot
+   */
+  static async bookSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { start, title, agenda, location, team_id } = req.body;
+      const userId = req.user!.userId;
+
+      const membership = await prisma.teamMember.findFirst({
+        where: {
+          user_id: userId,
+          ...(team_id && { team_id }),
+          team: { mentor_assignments: { some: { mentor_id: id } } }
+        },
+        select: { team_id: true }
+      });
+
+      if (!membership) {
+        res.status(403).json({
+          success: false,
+          message: 'Only members of a team assigned to this mentor can book sessions',
+          code: 'NOT_ASSIGNED'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      const slot = await MentorAvailabilityService.findFreeSlot(id, new Date(start));
+
+      if (!slot) {
+        res.status(409).json({
+          success: false,
+          message: 'That time is not one of the mentor\'s free slots',
+          code: 'SLOT_UNAVAILABLE'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      const { session } = await MentorSessionController.writeWithoutConflict(
+        id, membership.team_id, slot.start, slot.duration_minutes, undefined,
+        tx => tx.mentorSession.create({
+          data: {
+            mentor_id: id,
+            team_id: membership.team_id,
+            title,
+            agenda: agenda || null,
+            scheduled_at: slot.start,
+            duration_minutes: slot.duration_minutes,
+            location: location || null,
+            status: 'confirmed',
+            requested_by: userId
+          },
+          include: sessionInclude
+        })
+      );
+
+      if (!session) {
+        res.status(409).json({
+          success: false,
+          message: 'The slot was just booked or clashes with another of your team\'s sessions',
+          code: 'SESSION_CONFLICT'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      await MentorSessionController.sendInvites(session, 'confirmed');
+
+      await MentorSessionController.notifyUsers(
+        [session.mentor.user.id],
+        userId,
+        'Mentoring session booked',
+        `${session.team.team_name} booked "${session.title}" on ${session.scheduled_at.toUTCString()}.`
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Mentor session booked successfully',
+        data: { session }
+      } as MentorSessionResponse);
+
+    } catch (error) {
+      console.error('Book mentor session error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MentorSessionResponse);
+    }
+  }
+
+  /**
+   * Get a session with its attendance and action items
+   */
+  static async getSession(req: Request, res: Response): Promise<void> {
+    try {
+      const session = await MentorSessionController.findSession(req.params.sessionId);
+
+      if (!session || !MentorSessionController.canView(req.user, session)) {
+        res.status(404).json({
+          success: false,
+          message: 'Mentor session not found',
+          code: 'SESSION_NOT_FOUND'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Mentor session retrieved successfully',
+        data: { session }
+      } as MentorSessionResponse);
+
+    } catch (error) {
+      console.error('Get mentor session error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MentorSessionResponse);
+    }
+  }
+
+  /**
+   * Update a pending or confirmed session; moving a confirmed session sends it back for confirmation
+   */
+  static async updateSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { title, agenda, scheduled_at, duration_minutes, location } = req.body;
+      const userId = req.user!.userId;
+
+      const session = await MentorSessionController.findSession(req.params.sessionId);
+
+      if (!session || !MentorSessionController.canView(req.user, session)) {
+        res.status(404).json({
+          success: false,
+          message: 'Mentor session not found',
+          code: 'SESSION_NOT_FOUND'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      if (!MentorSessionController.isParticipant(userId, session)) {
+        res.status(403).json({
+          success: false,
+          message: 'Only the mentor and team members can change a session',
+          code: 'INSUFFICIENT_PERMISSIONS'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      if (!ACTIVE_SESSION_STATUSES.includes(session.status)) {
+        res.status(400).json({
+          success: false,
+          message: `Cannot change a ${session.status} session`,
+          code: 'SESSION_CLOSED'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      const start = scheduled_at ? new Date(scheduled_at) : session.scheduled_at;
+      const duration = duration_minutes ?? session.duration_minutes;
+      const timeChanged = start.getTime() !== session.scheduled_at.getTime() || duration !== session.duration_minutes;
+
+      const reschedulesConfirmed = timeChanged && session.status === 'confirmed';
+
+      const update = (client: Prisma.TransactionClient) => client.mentorSession.update({
+        where: { id: session.id },
+        data: {
+          ...(title !== undefined && { title }),
+          ...(agenda !== undefined && { agenda: agenda || null }),
+          ...(location !== undefined && { location: location || null }),
+          scheduled_at: start,
+          duration_minutes: duration,
+          // The other side has to agree to the new time
+          ...(reschedulesConfirmed && {
+            status: 'requested',
+            requested_by: userId,
+            responded_by: null,
+            responded_at: null,
+            response_note: null
+          }),
+          ...(session.status === 'confirmed' && { ical_sequence: { increment: 1 } })
+        },
+        include: sessionInclude
+      });
+
+      // A new time is checked for clashes in the same transaction that moves the session
+      const { session: updated, conflict } = timeChanged
+        ? await MentorSessionController.writeWithoutConflict(session.mentor_id, session.team_id, start, duration, session.id, update)
+        : { session: await update(prisma), conflict: undefined };
+
+      if (!updated) {
+        res.status(409).json({
+          success: false,
+          message: 'The mentor or team already has a session at that time',
+          code: 'SESSION_CONFLICT',
+          ...(conflict && { data: { conflicting_session: conflict } })
+        } as MentorSessionResponse);
+        return;
+      }
+
+      if (session.status === 'confirmed') {
+        await MentorSessionController.sendInvites(updated, reschedulesConfirmed ? 'rescheduled' : 'confirmed');
+      }
+
+      await MentorSessionController.notifyUsers(
+        MentorSessionController.otherSideIds(updated, userId),
+        userId,
+        reschedulesConfirmed ? 'Mentoring session rescheduled' : 'Mentoring session updated',
+        reschedulesConfirmed
+          ? `"${updated.title}" was moved to ${start.toUTCString()}. Please confirm the new time.`
+          : `"${updated.title}" was updated.`
+      );
+
+      res.json({
+        success: true,
+        message: reschedulesConfirmed
+          ? 'Mentor session rescheduled and awaiting confirmation'
+          : 'Mentor session updated successfully',
+        data: { session: updated }
+      } as MentorSessionResponse);
+
+    } catch (error) {
+      console.error('Update mentor session error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MentorSessionResponse);
+    }
+  }
+
+  /**
+   * Confirm a requested session (the side that did not request it) and email calendar invites
+   */
+  static async confirmSession(req: Request, res: Response): Promise<void> {
+    await MentorSessionController.respond(req, res, 'confirmed');
+  }
+
+  /**
+   * Decline a requested session (the side that did not request it)
+   */
+  static async declineSession(req: Request, res: Response): Promise<void> {
+    await MentorSessionController.respond(req, res, 'declined');
+  }
+
+  /**
+   * Cancel a requested or confirmed session (participants, Manager, Director)
+   */
+  static async cancelSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { reason } = req.body;
+      const userId = req.user!.userId;
+
+      const session = await MentorSessionController.findSession(req.params.sessionId);
+
+      if (!session || !MentorSessionController.canView(req.user, session)) {
+        res.status(404).json({
+          success: false,
+          message: 'Mentor session not found',
+          code: 'SESSION_NOT_FOUND'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      if (!MentorSessionController.isParticipant(userId, session) && !MentorSessionController.isStaff(req.user)) {
+        res.status(403).json({
+          success: false,
+          message: 'Access denied',
+          code: 'INSUFFICIENT_PERMISSIONS'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      const result = await prisma.mentorSession.updateMany({
+        where: { id: session.id, status: { in: ACTIVE_SESSION_STATUSES } },
+        data: {
+          status: 'cancelled',
+          cancelled_by: userId,
+          cancelled_at: new Date(),
+          cancellation_reason: reason || null,
+          ical_sequence: { increment: 1 }
+        }
+      });
+
+      if (result.count === 0) {
+        res.status(400).json({
+          success: false,
+          message: `Cannot cancel a ${session.status} session`,
+          code: 'SESSION_CLOSED'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      const cancelled = (await MentorSessionController.findSession(session.id))!;
+
+      // Only confirmed sessions were sent to calendars
+      if (session.status === 'confirmed') {
+        await MentorSessionController.sendInvites(cancelled, 'cancelled', reason);
+      }
+
+      await MentorSessionController.notifyUsers(
+        MentorSessionController.participantIds(cancelled).filter(id => id !== userId),
+        userId,
+        'Mentoring session cancelled',
+        `"${cancelled.title}" on ${cancelled.scheduled_at.toUTCString()} was cancelled${reason ? `: ${reason}` : '.'}`
+      );
+
+      res.json({
+        success: true,
+        message: 'Mentor session cancelled successfully',
+        data: { session: cancelled }
+      } as MentorSessionResponse);
+
+    } catch (error) {
+      console.error('Cancel mentor session error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MentorSessionResponse);
+    }
+  }
+
+  /**
+   * Record the meeting log for a session that took place: notes, attendance and action items
+   */
+  static async completeSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { notes, actual_duration_minutes, attendance, action_items } = req.body as {
+        notes: string;
+        actual_duration_minutes?: number;
+        attendance: { user_id: string; status: SessionAttendanceStatus }[];
+        action_items: { description: string; assignee_id?: string; due_date?: string }[];
+      };
+      const userId = req.user!.userId;
+
+      const session = await MentorSessionController.findSession(req.params.sessionId);
+
+      if (!session || !MentorSessionController.canView(req.user, session)) {
+        res.status(404).json({
+          success: false,
+          message: 'Mentor session not found',
+          code: 'SESSION_NOT_FOUND'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      if (session.mentor.user.id !== userId && !MentorSessionController.isStaff(req.user)) {
+        res.status(403).json({
+          success: false,
+          message: 'Only the session mentor can record the meeting log',
+          code: 'INSUFFICIENT_PERMISSIONS'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      if (session.status !== 'confirmed') {
+        res.status(400).json({
+          success: false,
+          message: 'Only confirmed sessions can be completed',
+          code: 'SESSION_NOT_CONFIRMED'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      if (session.scheduled_at > new Date()) {
+        res.status(400).json({
+          success: false,
+          message: 'Sessions can only be completed once they have started',
+          code: 'SESSION_NOT_STARTED'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      const participants = MentorSessionController.participantIds(session);
+      const strangers = [
+        ...attendance.map(entry => entry.user_id),
+        ...action_items.flatMap(item => item.assignee_id ? [item.assignee_id] : [])
+      ].filter(id => !participants.includes(id));
+
+      if (strangers.length > 0) {
+        res.status(400).json({
+          success: false,
+          message: 'Attendance and action items can only reference the mentor and team members',
+          code: 'INVALID_PARTICIPANT',
+          data: { user_ids: [...new Set(strangers)] }
+        } as MentorSessionResponse);
+        return;
+      }
+
+      const completed = await prisma.$transaction(async (tx) => {
+        await tx.mentorSession.update({
+          where: { id: session.id },
+          data: {
+            status: 'completed',
+            notes,
+            actual_duration_minutes: actual_duration_minutes ?? null,
+            completed_at: new Date()
+          }
+        });
+
+        if (attendance.length > 0) {
+          await tx.mentorSessionAttendance.createMany({
+            data: attendance.map(entry => ({
+              session_id: session.id,
+              user_id: entry.user_id,
+              status: entry.status
+            }))
+          });
+        }
+
+        if (action_items.length > 0) {
+          await tx.mentorSessionActionItem.createMany({
+            data: action_items.map(item => ({
+              session_id: session.id,
+              description: item.description,
+              assignee_id: item.assignee_id || null,
+              due_date: item.due_date ? new Date(item.due_date) : null,
+              created_by: userId
+            }))
+          });
+        }
+
+        return tx.mentorSession.findUniqueOrThrow({
+          where: { id: session.id },
+          include: sessionInclude
+        });
+      });
+
+      await MentorSessionController.notifyUsers(
+        completed.team.team_members.map(member => member.user.id),
+        userId,
+        'Mentoring session notes available',
+        `Notes${action_items.length > 0 ? ` and ${action_items.length} action item(s)` : ''} were recorded for "${completed.title}".`
+      );
+
+      res.json({
+        success: true,
+        message: 'Mentor session completed successfully',
+        data: { session: completed }
+      } as MentorSessionResponse);
+
+    } catch (error) {
+      console.error('Complete mentor session error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MentorSessionResponse);
+    }
+  }
+
+  /**
+   * Download a session as an .ics file
+   */
+  static async getSessionCalendar(req: Request, res: Response): Promise<void> {
+    try {
+      const session = await MentorSessionController.findSession(req.params.sessionId);
+
+      if (!session || !MentorSessionController.canView(req.user, session)) {
+        res.status(404).json({
+          success: false,
+          message: 'Mentor session not found',
+          code: 'SESSION_NOT_FOUND'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      const calendar = CalendarService.buildCalendar([MentorSessionController.toCalendarEvent(session)]);
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="mentor-session-${session.id}.ics"`);
+      res.send(calendar);
+
+    } catch (error) {
+      console.error('Get mentor session calendar error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MentorSessionResponse);
+    }
+  }
+
+  /**
+   * Issue a new calendar feed URL for a mentor; any earlier URL stops working
+   */
+  static async createCalendarFeed(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const mentor = await prisma.mentor.findUnique({
+        where: { id },
+        select: { user_id: true }
+      });
+
+      if (!mentor || (mentor.user_id !== req.user?.userId && !MentorSessionController.isStaff(req.user))) {
+        res.status(404).json({
+          success: false,
+          message: 'Mentor not found',
+          code: 'MENTOR_NOT_FOUND'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      // Only the hash is stored, so the URL is shown once
+      const token = TokenUtils.generate();
+      await prisma.mentor.update({
+        where: { id },
+        data: { calendar_feed_token_hash: TokenUtils.hash(token) }
+      });
+
+      const baseUrl = process.env.API_URL || `${req.protocol}://${req.get('host')}`;
+
+      res.status(201).json({
+        success: true,
+        message: 'Calendar feed created successfully',
+        data: { url: `${baseUrl}/api/mentors/calendar-feeds/${token}.ics` }
+      } as MentorSessionResponse);
+
+    } catch (error) {
+      console.error('Create mentor calendar feed error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MentorSessionResponse);
+    }
+  }
+
+  /**
+   * Turn off a mentor's calendar feed
+   */
+  static async revokeCalendarFeed(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const mentor = await prisma.mentor.findUnique({
+        where: { id },
+        select: { user_id: true }
+      });
+
+      if (!mentor || (mentor.user_id !== req.user?.userId && !MentorSessionController.isStaff(req.user))) {
+        res.status(404).json({
+          success: false,
+          message: 'Mentor not found',
+          code: 'MENTOR_NOT_FOUND'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      await prisma.mentor.update({
+        where: { id },
+        data: { calendar_feed_token_hash: null }
+      });
+
+      res.json({
+        success: true,
+        message: 'Calendar feed revoked successfully'
+      } as MentorSessionResponse);
+
+    } catch (error) {
+      console.error('Revoke mentor calendar feed error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MentorSessionResponse);
+    }
+  }
+
+  /**
+   * Serve a mentor's sessions as a subscribable iCalendar feed; the token in the URL is the only credential
+   */
+  static async getCalendarFeed(req: Request, res: Response): Promise<void> {
+    try {
+      const mentor = await prisma.mentor.findUnique({
+        where: { calendar_feed_token_hash: TokenUtils.hash(req.params.token) },
+        select: {
+          id: true,
+          user: {
+            select: {
+              name: true
+            }
+          }
+        }
+      });
+
+      if (!mentor) {
+        res.status(404).json({
+          success: false,
+          message: 'Calendar feed not found',
+          code: 'FEED_NOT_FOUND'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      // Recent cancellations stay in the feed so subscribed calendars drop them
+      const sessions = await prisma.mentorSession.findMany({
+        where: {
+          mentor_id: mentor.id,
+          status: { not: 'declined' },
+          scheduled_at: { gte: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000) }
+        },
+        include: sessionInclude,
+        orderBy: { scheduled_at: 'asc' }
+      });
+
+      const calendar = CalendarService.buildCalendar(
+        sessions.map(session => MentorSessionController.toCalendarEvent(session)),
+        'PUBLISH',
+        `Mentoring - ${mentor.user.name}`
+      );
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Cache-Control', 'private, max-age=300');
+      res.send(calendar);
+
+    } catch (error) {
+      console.error('Get mentor calendar feed error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MentorSessionResponse);
+    }
+  }
+
+  /**
+   * Add a follow-up action item to a confirmed or completed session
+   */
+  static async addActionItem(req: Request, res: Response): Promise<void> {
+    try {
+      const { description, assignee_id, due_date } = req.body;
+      const userId = req.user!.userId;
+
+      const session = await MentorSessionController.findSession(req.params.sessionId);
+
+      if (!session || !MentorSessionController.canView(req.user, session)) {
+        res.status(404).json({
+          success: false,
+          message: 'Mentor session not found',
+          code: 'SESSION_NOT_FOUND'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      if (!MentorSessionController.isParticipant(userId, session) && !MentorSessionController.isStaff(req.user)) {
+        res.status(403).json({
+          success: false,
+          message: 'Access denied',
+          code: 'INSUFFICIENT_PERMISSIONS'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      if (session.status !== 'confirmed' && session.status !== 'completed') {
+        res.status(400).json({
+          success: false,
+          message: 'Action items can only be added to confirmed or completed sessions',
+          code: 'SESSION_CLOSED'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      if (assignee_id && !MentorSessionController.isParticipant(assignee_id, session)) {
+        res.status(400).json({
+          success: false,
+          message: 'Action items can only be assigned to the mentor or team members',
+          code: 'INVALID_PARTICIPANT'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      const actionItem = await prisma.mentorSessionActionItem.create({
+        data: {
+          session_id: session.id,
+          description,
+          assignee_id: assignee_id || null,
+          due_date: due_date ? new Date(due_date) : null,
+          created_by: userId
+        },
+        include: sessionInclude.action_items.include
+      });
+
+      if (assignee_id && assignee_id !== userId) {
+        await MentorSessionController.notifyUsers(
+          [assignee_id],
+          userId,
+          'New action item',
+          `You were assigned a follow-up from "${session.title}": ${description}`
+        );
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Action item added successfully',
+        data: { action_item: actionItem }
+      } as MentorSessionResponse);
+
+    } catch (error) {
+      console.error('Add session action item error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MentorSessionResponse);
+    }
+  }
+
+  /**
+   * Update an action item or mark it done
+   */
+  static async updateActionItem(req: Request, res: Response): Promise<void> {
+    try {
+      const { sessionId, itemId } = req.params;
+      const { description, assignee_id, due_date, completed } = req.body;
+      const userId = req.user!.userId;
+
+      const session = await MentorSessionController.findSession(sessionId);
+      const item = session?.action_items.find(actionItem => actionItem.id === itemId);
+
+      if (!session || !item || !MentorSessionController.canView(req.user, session)) {
+        res.status(404).json({
+          success: false,
+          message: 'Action item not found',
+          code: 'ACTION_ITEM_NOT_FOUND'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      if (!MentorSessionController.isParticipant(userId, session) && !MentorSessionController.isStaff(req.user)) {
+        res.status(403).json({
+          success: false,
+          message: 'Access denied',
+          code: 'INSUFFICIENT_PERMISSIONS'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      if (assignee_id && !MentorSessionController.isParticipant(assignee_id, session)) {
+        res.status(400).json({
+          success: false,
+          message: 'Action items can only be assigned to the mentor or team members',
+          code: 'INVALID_PARTICIPANT'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      const actionItem = await prisma.mentorSessionActionItem.update({
+        where: { id: item.id },
+        data: {
+          ...(description !== undefined && { description }),
+          ...(assignee_id !== undefined && { assignee_id }),
+          ...(due_date !== undefined && { due_date: due_date ? new Date(due_date) : null }),
+          ...(completed !== undefined && { completed_at: completed ? item.completed_at || new Date() : null })
+        },
+        include: sessionInclude.action_items.include
+      });
+
+      res.json({
+        success: true,
+        message: 'Action item updated successfully',
+        data: { action_item: actionItem }
+      } as MentorSessionResponse);
+
+    } catch (error) {
+      console.error('Update session action item error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MentorSessionResponse);
+    }
+  }
+
+  /**
+   * Confirm or decline a requested session
+   */
+  private static async respond(req: Request, res: Response, decision: 'confirmed' | 'declined'): Promise<void> {
+    try {
+      const { note } = req.body;
+      const userId = req.user!.userId;
+
+      const session = await MentorSessionController.findSession(req.params.sessionId);
+
+      if (!session || !MentorSessionController.canView(req.user, session)) {
+        res.status(404).json({
+          success: false,
+          message: 'Mentor session not found',
+          code: 'SESSION_NOT_FOUND'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      if (!MentorSessionController.otherSideIds(session, session.requested_by).includes(userId)) {
+        res.status(403).json({
+          success: false,
+          message: 'Only the side that did not request the session can respond to it',
+          code: 'INSUFFICIENT_PERMISSIONS'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      // Conditional update so a session can't be answered twice
+      const result = await prisma.mentorSession.updateMany({
+        where: { id: session.id, status: 'requested' },
+        data: {
+          status: decision,
+          responded_by: userId,
+          responded_at: new Date(),
+          response_note: note || null,
+          ...(decision === 'confirmed' && { ical_sequence: { increment: 1 } })
+        }
+      });
+
+      if (result.count === 0) {
+        res.status(400).json({
+          success: false,
+          message: `Session is already ${session.status}`,
+          code: 'SESSION_NOT_REQUESTED'
+        } as MentorSessionResponse);
+        return;
+      }
+
+      const updated = (await MentorSessionController.findSession(session.id))!;
+
+      if (decision === 'confirmed') {
+        await MentorSessionController.sendInvites(updated, 'confirmed');
+      }
+
+      await MentorSessionController.notifyUsers(
+        MentorSessionController.otherSideIds(updated, userId),
+        userId,
+        decision === 'confirmed' ? 'Mentoring session confirmed' : 'Mentoring session declined',
+        `"${updated.title}" on ${updated.scheduled_at.toUTCString()} was ${decision}${note ? `: ${note}` : '.'}`
+      );
+
+      res.json({
+        success: true,
+        message: `Mentor session ${decision} successfully`,
+        data: { session: updated }
+      } as MentorSessionResponse);
+
+    } catch (error) {
+      console.error(`Mentor session ${decision} error:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MentorSessionResponse);
+    }
+  }
+
+  private static findSession(sessionId: string) {
+    return prisma.mentorSession.findUnique({
+      where: { id: sessionId },
+      include: sessionInclude
+    });
+  }
+
+  private static isStaff(user: Request['user']): boolean {
+    return user?.role === 'manager' || user?.role === 'director';
+  }
+
+  private static isParticipant(userId: string, session: SessionWithDetails): boolean {
+    return MentorSessionController.participantIds(session).includes(userId);
+  }
+
+  private static canView(user: Request['user'], session: SessionWithDetails): boolean {
+    return !!user && (MentorSessionController.isStaff(user) || MentorSessionController.isParticipant(user.userId, session));
+  }
+
+  private static participantIds(session: SessionWithDetails): string[] {
+    return [session.mentor.user.id, ...session.team.team_members.map(member => member.user.id)];
+  }
+
+  /**
+   * Users on the opposite side of the session from the given user (mentor vs team)
+   */
+  private static otherSideIds(session: SessionWithDetails, userId: string): string[] {
+    return session.mentor.user.id === userId
+      ? session.team.team_members.map(member => member.user.id)
+      : [session.mentor.user.id];
+  }
+
+  private static toCalendarEvent(session: SessionWithDetails): CalendarEvent {
+    const status: CalendarEvent['status'] = session.status === 'requested'
+      ? 'TENTATIVE'
+      : session.status === 'cancelled' || session.status === 'declined' ? 'CANCELLED' : 'CONFIRMED';
+
+    return {
+      uid: CalendarService.eventUid('mentor-session', session.id),
+      sequence: session.ical_sequence,
+      start: session.scheduled_at,
+      durationMinutes: session.actual_duration_minutes ?? session.duration_minutes,
+      summary: `${session.title} (${session.mentor.user.name} / ${session.team.team_name})`,
+      description: session.agenda || undefined,
+      location: session.location || undefined,
+      status,
+      organizer: {
+        name: session.mentor.user.name,
+        email: session.mentor.user.email
+      },
+      attendees: session.team.team_members.map(member => ({
+        name: member.user.name,
+        email: member.user.email
+      })),
+      updatedAt: session.updated_at
+    };
+  }
+
+  /**
+   * Create or move a session unless it overlaps another active session of the mentor or team
+   * Serializable so two writes for overlapping times can't both pass the conflict check;
+   * the losing transaction fails with a write conflict (P2034) and is reported as a clash too
+   */
+  private static async writeWithoutConflict(
+    mentorId: string,
+    teamId: string,
+    start: Date,
+    durationMinutes: number,
+    excludeId: string | undefined,
+    write: (tx: Prisma.TransactionClient) => Promise<SessionWithDetails>
+  ): Promise<ConflictFreeWrite> {
+    try {
+      return await prisma.$transaction(async (tx): Promise<ConflictFreeWrite> => {
+        const conflict = await MentorAvailabilityService.findConflict(
+          mentorId, teamId, start, durationMinutes, excludeId, tx
+        );
+
+        if (conflict) {
+          return { session: null, conflict };
+        }
+
+        return { session: await write(tx) };
+      }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+        return { session: null, conflict: null };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Email the mentor and every team member an invite, update or cancellation with the .ics attached
+   */
+  private static async sendInvites(session: SessionWithDetails, kind: InviteKind, reason?: string): Promise<void> {
+    const method = kind === 'cancelled' ? 'CANCEL' : 'REQUEST';
+    const content = CalendarService.buildCalendar([MentorSessionController.toCalendarEvent(session)], method);
+    const subject = {
+      confirmed: `Mentoring session: ${session.title}`,
+      rescheduled: `Mentoring session moved: ${session.title}`,
+      cancelled: `Mentoring session cancelled: ${session.title}`
+    }[kind];
+
+    const recipients = [session.mentor.user, ...session.team.team_members.map(member => member.user)];
+
+    for (const recipient of recipients) {
+      try {
+        await emailService.sendEmail({
+          to: recipient.email,
+          subject,
+          template: kind === 'cancelled' ? 'mentor/session-cancelled' : 'mentor/session-invite',
+          templateData: {
+            recipientName: recipient.name,
+            heading: kind === 'confirmed' ? 'Mentoring Session Confirmed' : 'Mentoring Session Rescheduled',
+            intro: kind === 'confirmed'
+              ? 'Your mentoring session has been confirmed.'
+              : 'Your mentoring session has been moved and is awaiting confirmation of the new time.',
+            title: session.title,
+            mentorName: session.mentor.user.name,
+            teamName: session.team.team_name,
+            scheduledAt: session.scheduled_at.toUTCString(),
+            durationMinutes: session.duration_minutes,
+            location: session.location || '',
+            agenda: session.agenda || '',
+            cancelledBy: session.canceller?.name || '',
+            reason: reason || '',
+            appUrl: process.env.FRONTEND_URL || process.env.APP_URL || 'http://localhost:3000',
+            currentYear: new Date().getFullYear(),
+            subject
+          },
+          icalEvent: {
+            method,
+            content,
+            filename: 'mentor-session.ics'
+          }
+        });
+      } catch (emailError) {
+        console.error('Failed to send mentor session invite:', emailError);
+      }
+    }
+  }
+
+  private static async notifyUsers(userIds: string[], senderId: string, title: string, message: string): Promise<void> {
+    try {
+      await NotificationService.notifyUsers(userIds, senderId, title, message);
+    } catch (error) {
+      console.error('Failed to send mentor session notifications:', error);
+    }
+  }
+}
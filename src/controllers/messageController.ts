@@ -2,6 +2,8 @@ import { Request, Response } from 'express';
 import { Message, Conversation, Prisma } from '@prisma/client';
 import prisma from '../config/database';
 import { emitToConversation, emitToUser } from '../services/socketService';
+import { StorageQuotaService } from '../services/storageQuotaService';
+import { cleanupFile, getFileUrl } from '../middleware/upload';
 
 interface CreateConversationRequest {
   participants: string[];
@@ -17,6 +19,7 @@ interface MessageResponse {
   success: boolean;
   message: string;
   data?: any;
+  code?: string;
   pagination?: {
     page: number;
     limit: number;
@@ -354,6 +357,15 @@ export class MessageController {
       const { id } = req.params;
       const { content, message_type = 'text', file_path }: SendMessageRequest = req.body;
 
+      // Attachments must be uploaded with the message, so a client can't attach (and share) a stored file it doesn't own
+      if (file_path || message_type === 'file') {
+        res.status(400).json({
+          success: false,
+          message: 'Files are sent with POST /api/conversations/:id/messages/file'
+        } as MessageResponse);
+        return;
+      }
+
       // Validate input
       if (!content && message_type === 'text') {
         res.status(400).json({
@@ -396,8 +408,7 @@ export class MessageController {
           conversation_id: id,
           sender_id: req.user!.userId,
           content,
-          message_type,
-          file_path
+          message_type
         },
         include: {
           sender: {
@@ -504,17 +515,17 @@ export class MessageController {
         return;
       }
 
-      const filePath = req.file.path; // Or cloud storage URL
-      const fileName = req.file.originalname;
+      const upload = req.file;
 
-      // Create file message
-      const message = await prisma.message.create({
+      // Create file message; chat attachments count against the sender's own storage quota
+      const { allowed, quota, stored: message } = await StorageQuotaService.storeWithinQuota(req.user!.userId, upload.size, null, tx => tx.message.create({
         data: {
           conversation_id: id,
           sender_id: req.user!.userId,
-          content: fileName,
+          content: upload.originalname,
           message_type: 'file',
-          file_path: filePath
+          file_path: getFileUrl(upload),
+          file_size: upload.size
         },
         include: {
           sender: {
@@ -532,7 +543,16 @@ export class MessageController {
             }
           }
         }
-      });
+      }));
+
+      if (!allowed) {
+        await cleanupFile(upload.path);
+        res.status(413).json({
+          success: false,
+          ...StorageQuotaService.exceededError(quota)
+        } as MessageResponse);
+        return;
+      }
 
       // Update conversation updated_at
       await prisma.conversation.update({
@@ -563,10 +583,15 @@ export class MessageController {
         }
       });
 
+      await StorageQuotaService.sendWarnings(quota, req.user!.userId);
+
       res.status(201).json({
         success: true,
         message: 'File message sent successfully',
-        data: { message }
+        data: {
+          message,
+          storage: { user: quota.user }
+        }
       } as MessageResponse);
 
     } catch (error) {
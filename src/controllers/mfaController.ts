@@ -0,0 +1,571 @@
+import { Request, Response } from 'express';
+import { User, UserRole } from '@prisma/client';
+import prisma from '../config/database';
+import { JWTUtils } from '../utils/jwt';
+import { PasswordUtils } from '../utils/password';
+import { TOTPUtils } from '../utils/totp';
+import { TokenUtils } from '../utils/token';
+import { SettingsService } from '../services/settingsService';
+import { SecurityAudit } from '../config/security';
+import { LoginProtectionService } from '../services/loginProtectionService';
+import { AuthController } from './authController';
+
+interface MfaResponse {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: any;
+}
+
+interface EnrollingUser {
+  user: User;
+  teamId?: string;
+  viaLogin: boolean; // true when enrolling with an "mfa pending" token during login
+}
+
+export class MfaController {
+  /**
+   * Get current user's 2FA status
+   */
+  static async getStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: req.user!.userId }
+      });
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: 'User not found',
+          code: 'USER_NOT_FOUND'
+        } as MfaResponse);
+        return;
+      }
+
+      const requiredRoles = await SettingsService.get('mfa_required_roles');
+
+      res.json({
+        success: true,
+        message: 'Two-factor status retrieved successfully',
+        data: {
+          enabled: user.mfa_enabled,
+          enabled_at: user.mfa_enabled_at,
+          required: requiredRoles.includes(user.role),
+          recovery_codes_remaining: MfaController.getRecoveryCodeHashes(user).length
+        }
+      } as MfaResponse);
+
+    } catch (error) {
+      console.error('Get MFA status error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      } as MfaResponse);
+    }
+  }
+
+  /**
+   * Start 2FA enrollment: generate a secret and the QR provisioning URI
+   * Works for logged-in users and for users forced to enroll during login (mfaToken)
+   */
+  static async setup(req: Request, res: Response): Promise<void> {
+    try {
+      const enrolling = await MfaController.resolveEnrollingUser(req, res);
+      if (!enrolling) return;
+
+      const { user } = enrolling;
+
+      if (user.mfa_enabled) {
+        res.status(400).json({
+          success: false,
+          message: 'Two-factor authentication is already enabled',
+          code: 'MFA_ALREADY_ENABLED'
+        } as MfaResponse);
+        return;
+      }
+
+      const secret = TOTPUtils.generateSecret();
+
+      // Stored but inactive until the user proves their authenticator works
+      await prisma.user.update({
+        where: { id: user.id },
+        data: {
+          mfa_secret: TOTPUtils.encryptSecret(secret),
+          mfa_last_used_step: null
+        }
+      });
+
+      res.json({
+        success: true,
+        message: 'Scan the QR code with your authenticator app, then confirm with a code',
+        data: {
+          secret,
+          otpauth_url: TOTPUtils.buildOtpAuthUrl(secret, user.email)
+        }
+      } as MfaResponse);
+
+    } catch (error) {
+      console.error('MFA setup error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      } as MfaResponse);
+    }
+  }
+
+  /**
+   * Confirm enrollment with a first code and issue recovery codes
+   * When enrolling during login, this also completes the login
+   */
+  static async enable(req: Request, res: Response): Promise<void> {
+    try {
+      const enrolling = await MfaController.resolveEnrollingUser(req, res);
+      if (!enrolling) return;
+
+      const { user, teamId, viaLogin } = enrolling;
+      const { code } = req.body;
+
+      if (user.mfa_enabled) {
+        res.status(400).json({
+          success: false,
+          message: 'Two-factor authentication is already enabled',
+          code: 'MFA_ALREADY_ENABLED'
+        } as MfaResponse);
+        return;
+      }
+
+      if (!user.mfa_secret) {
+        res.status(400).json({
+          success: false,
+          message: 'Start two-factor setup before enabling it',
+          code: 'MFA_SETUP_REQUIRED'
+        } as MfaResponse);
+        return;
+      }
+
+      const step = TOTPUtils.verify(TOTPUtils.decryptSecret(user.mfa_secret), code);
+      if (step === null) {
+        res.status(401).json({
+          success: false,
+          message: 'Invalid two-factor code',
+          code: 'INVALID_MFA_CODE'
+        } as MfaResponse);
+        return;
+      }
+
+      const recoveryCodes = TOTPUtils.generateRecoveryCodes();
+
+      const updatedUser = await prisma.user.update({
+        where: { id: user.id },
+        data: {
+          mfa_enabled: true,
+          mfa_enabled_at: new Date(),
+          mfa_last_used_step: step,
+          mfa_recovery_codes: MfaController.hashRecoveryCodes(recoveryCodes)
+        }
+      });
+
+      if (viaLogin) {
+        res.json({
+          success: true,
+          message: 'Two-factor authentication enabled. Login successful',
+          data: {
+            ...(await AuthController.createLoginSession(req, updatedUser, teamId)),
+            recoveryCodes
+          }
+        } as MfaResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe',
+        data: { recoveryCodes }
+      } as MfaResponse);
+
+    } catch (error) {
+      console.error('MFA enable error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      } as MfaResponse);
+    }
+  }
+
+  /**
+   * Second login step: exchange the "mfa pending" token and a code for a session
+   */
+  static async verify(req: Request, res: Response): Promise<void> {
+    try {
+      const { mfaToken, code, recoveryCode } = req.body;
+
+      let pending;
+      try {
+        pending = JWTUtils.verifyMfaPendingToken(mfaToken);
+      } catch (tokenError: any) {
+        res.status(401).json({
+          success: false,
+          message: tokenError.message,
+          code: 'INVALID_MFA_TOKEN'
+        } as MfaResponse);
+        return;
+      }
+
+      if (pending.purpose !== 'verify') {
+        res.status(401).json({
+          success: false,
+          message: 'Invalid two-factor login token',
+          code: 'INVALID_MFA_TOKEN'
+        } as MfaResponse);
+        return;
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: pending.userId }
+      });
+
+      if (!user || user.status !== 'active' || !user.mfa_enabled || !user.mfa_secret) {
+        res.status(401).json({
+          success: false,
+          message: 'Invalid two-factor login token',
+          code: 'INVALID_MFA_TOKEN'
+        } as MfaResponse);
+        return;
+      }
+
+      if (LoginProtectionService.isLocked(user)) {
+        AuthController.sendAccountLocked(res, user.locked_until!);
+        return;
+      }
+
+      let usedRecoveryCode = false;
+
+      if (code) {
+        const step = TOTPUtils.verify(TOTPUtils.decryptSecret(user.mfa_secret), code);
+
+        // Each code may only be used once: the step is recorded only if no login used it (or a later one) first
+        const claimed = step === null ? 0 : (await prisma.user.updateMany({
+          where: {
+            id: user.id,
+            OR: [{ mfa_last_used_step: null }, { mfa_last_used_step: { lt: step } }]
+          },
+          data: { mfa_last_used_step: step }
+        })).count;
+
+        if (claimed === 0) {
+          SecurityAudit.logRequest(req, 'AUTH_FAILURE', 'Login failed: invalid two-factor code', undefined, user.id);
+          const failure = await LoginProtectionService.recordFailure(req, user);
+          if (failure.locked) {
+            AuthController.sendAccountLocked(res, failure.lockedUntil);
+            return;
+          }
+
+          res.status(401).json({
+            success: false,
+            message: 'Invalid two-factor code',
+            code: 'INVALID_MFA_CODE'
+          } as MfaResponse);
+          return;
+        }
+      } else {
+        const consumed = await MfaController.consumeRecoveryCode(user, recoveryCode);
+        if (!consumed) {
+          SecurityAudit.logRequest(req, 'AUTH_FAILURE', 'Login failed: invalid recovery code', undefined, user.id);
+          const failure = await LoginProtectionService.recordFailure(req, user);
+          if (failure.locked) {
+            AuthController.sendAccountLocked(res, failure.lockedUntil);
+            return;
+          }
+
+          res.status(401).json({
+            success: false,
+            message: 'Invalid recovery code',
+            code: 'INVALID_RECOVERY_CODE'
+          } as MfaResponse);
+          return;
+        }
+        usedRecoveryCode = true;
+      }
+
+      const loginData = await AuthController.createLoginSession(req, user, pending.teamId);
+
+      res.json({
+        success: true,
+        message: 'Login successful',
+        data: {
+          ...loginData,
+          ...(usedRecoveryCode && {
+            recoveryCodesRemaining: MfaController.getRecoveryCodeHashes(user).length - 1
+          })
+        }
+      } as MfaResponse);
+
+    } catch (error) {
+      console.error('MFA verify error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      } as MfaResponse);
+    }
+  }
+
+  /**
+   * Disable 2FA (requires password and a current code)
+   */
+  static async disable(req: Request, res: Response): Promise<void> {
+    try {
+      const { password, code } = req.body;
+
+      const user = await prisma.user.findUnique({
+        where: { id: req.user!.userId }
+      });
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: 'User not found',
+          code: 'USER_NOT_FOUND'
+        } as MfaResponse);
+        return;
+      }
+
+      if (!user.mfa_enabled || !user.mfa_secret) {
+        res.status(400).json({
+          success: false,
+          message: 'Two-factor authentication is not enabled',
+          code: 'MFA_NOT_ENABLED'
+        } as MfaResponse);
+        return;
+      }
+
+      const requiredRoles = await SettingsService.get('mfa_required_roles');
+      if (requiredRoles.includes(user.role)) {
+        res.status(403).json({
+          success: false,
+          message: 'Two-factor authentication is mandatory for your role',
+          code: 'MFA_REQUIRED_FOR_ROLE'
+        } as MfaResponse);
+        return;
+      }
+
+      const isPasswordValid = await PasswordUtils.verify(password, user.password_hash);
+      const step = TOTPUtils.verify(TOTPUtils.decryptSecret(user.mfa_secret), code);
+
+      if (!isPasswordValid || step === null) {
+        res.status(401).json({
+          success: false,
+          message: 'Invalid password or two-factor code',
+          code: 'INVALID_CREDENTIALS'
+        } as MfaResponse);
+        return;
+      }
+
+      await prisma.user.update({
+        where: { id: user.id },
+        data: MfaController.clearedMfaFields()
+      });
+
+      res.json({
+        success: true,
+        message: 'Two-factor authentication disabled'
+      } as MfaResponse);
+
+    } catch (error) {
+      console.error('MFA disable error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      } as MfaResponse);
+    }
+  }
+
+  /**
+   * Replace all recovery codes (requires a current code)
+   */
+  static async regenerateRecoveryCodes(req: Request, res: Response): Promise<void> {
+    try {
+      const { code } = req.body;
+
+      const user = await prisma.user.findUnique({
+        where: { id: req.user!.userId }
+      });
+
+      if (!user || !user.mfa_enabled || !user.mfa_secret) {
+        res.status(400).json({
+          success: false,
+          message: 'Two-factor authentication is not enabled',
+          code: 'MFA_NOT_ENABLED'
+        } as MfaResponse);
+        return;
+      }
+
+      if (TOTPUtils.verify(TOTPUtils.decryptSecret(user.mfa_secret), code) === null) {
+        res.status(401).json({
+          success: false,
+          message: 'Invalid two-factor code',
+          code: 'INVALID_MFA_CODE'
+        } as MfaResponse);
+        return;
+      }
+
+      const recoveryCodes = TOTPUtils.generateRecoveryCodes();
+
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { mfa_recovery_codes: MfaController.hashRecoveryCodes(recoveryCodes) }
+      });
+
+      res.json({
+        success: true,
+        message: 'Recovery codes regenerated. Previous codes no longer work',
+        data: { recoveryCodes }
+      } as MfaResponse);
+
+    } catch (error) {
+      console.error('Regenerate recovery codes error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      } as MfaResponse);
+    }
+  }
+
+  /**
+   * Get roles for which 2FA is mandatory (Director only)
+   */
+  static async getPolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const requiredRoles = await SettingsService.get('mfa_required_roles');
+
+      res.json({
+        success: true,
+        message: 'Two-factor policy retrieved successfully',
+        data: { required_roles: requiredRoles }
+      } as MfaResponse);
+
+    } catch (error) {
+      console.error('Get MFA policy error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      } as MfaResponse);
+    }
+  }
+
+  /**
+   * Set roles for which 2FA is mandatory (Director only)
+   */
+  static async updatePolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const { required_roles } = req.body as { required_roles: UserRole[] };
+      const uniqueRoles = [...new Set(required_roles)];
+
+      await SettingsService.set('mfa_required_roles', uniqueRoles, req.user!.userId);
+
+      res.json({
+        success: true,
+        message: 'Two-factor policy updated successfully',
+        data: { required_roles: uniqueRoles }
+      } as MfaResponse);
+
+    } catch (error) {
+      console.error('Update MFA policy error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      } as MfaResponse);
+    }
+  }
+
+  /**
+   * Fields to reset when 2FA is turned off for a user
+   */
+  static clearedMfaFields() {
+    return {
+      mfa_enabled: false,
+      mfa_secret: null,
+      mfa_recovery_codes: [],
+      mfa_last_used_step: null,
+      mfa_enabled_at: null
+    };
+  }
+
+  /**
+   * Helper to find who is enrolling: the logged-in user, or the holder of an "enroll" mfa token
+   * Sends the error response and returns null when neither is valid
+   */
+  private static async resolveEnrollingUser(req: Request, res: Response): Promise<EnrollingUser | null> {
+    let userId: string | undefined = req.user?.userId;
+    let teamId: string | undefined;
+    let viaLogin = false;
+
+    if (!userId && req.body.mfaToken) {
+      try {
+        const pending = JWTUtils.verifyMfaPendingToken(req.body.mfaToken);
+        if (pending.purpose === 'enroll') {
+          userId = pending.userId;
+          teamId = pending.teamId;
+          viaLogin = true;
+        }
+      } catch (tokenError) {
+        // Fall through to the authentication error below
+      }
+    }
+
+    const user = userId ? await prisma.user.findUnique({ where: { id: userId } }) : null;
+
+    if (!user || user.status !== 'active') {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+        code: 'NOT_AUTHENTICATED'
+      } as MfaResponse);
+      return null;
+    }
+
+    return { user, teamId, viaLogin };
+  }
+
+  /**
+   * Helper to read stored recovery code hashes
+   */
+  private static getRecoveryCodeHashes(user: User): string[] {
+    return Array.isArray(user.mfa_recovery_codes) ? (user.mfa_recovery_codes as string[]) : [];
+  }
+
+  /**
+   * Helper to hash recovery codes for storage
+   */
+  private static hashRecoveryCodes(codes: string[]): string[] {
+    return codes.map(code => TokenUtils.hash(TOTPUtils.normalizeRecoveryCode(code)));
+  }
+
+  /**
+   * Helper to use up a recovery code; returns false if it does not match
+   * The codes are only rewritten if they are unchanged since they were read, so a concurrent
+   * login can't use the same code too
+   */
+  private static async consumeRecoveryCode(user: User, recoveryCode: string): Promise<boolean> {
+    const hashes = MfaController.getRecoveryCodeHashes(user);
+    const hash = TokenUtils.hash(TOTPUtils.normalizeRecoveryCode(recoveryCode));
+
+    if (!hashes.includes(hash)) {
+      return false;
+    }
+
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, mfa_recovery_codes: { equals: hashes } },
+      data: { mfa_recovery_codes: hashes.filter(existing => existing !== hash) }
+    });
+
+    return count > 0;
+  }
+}
@@ -0,0 +1,588 @@
+import { Request, Response } from 'express';
+import { MilestoneStatus, ProjectMilestone } from '@prisma/client';
+import prisma from '../config/database';
+import { MilestoneService } from '../services/milestoneService';
+
+interface MilestoneResponse {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: any;
+}
+
+const milestoneInclude = {
+  owner: {
+    select: {
+      id: true,
+      name: true,
+      email: true
+    }
+  },
+  evidence: {
+    include: {
+      file: {
+        select: {
+          id: true,
+          file_name: true,
+          file_type: true,
+          file_size: true,
+          uploaded_at: true
+        }
+      }
+    },
+    orderBy: { added_at: 'desc' as const }
+  }
+};
+
+export class MilestoneController {
+  /**
+   * Get project milestones with completion summary
+   */
+  static async getMilestones(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const project = await MilestoneController.findProject(id);
+
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          message: 'Project not found',
+          code: 'PROJECT_NOT_FOUND'
+        } as MilestoneResponse);
+        return;
+      }
+
+      if (!MilestoneController.canAccessProject(req.user, project)) {
+        res.status(403).json({
+          success: false,
+          message: 'Access denied',
+          code: 'INSUFFICIENT_PERMISSIONS'
+        } as MilestoneResponse);
+        return;
+      }
+
+      const milestones = await prisma.projectMilestone.findMany({
+        where: { project_id: id },
+        include: milestoneInclude,
+        orderBy: { due_date: 'asc' }
+      });
+
+      const now = new Date();
+      const withOverdue = milestones.map(milestone => ({
+        ...milestone,
+        is_overdue: MilestoneController.isOverdue(milestone, now)
+      }));
+      const completed = milestones.filter(m => m.status === 'completed').length;
+
+      res.json({
+        success: true,
+        message: 'Milestones retrieved successfully',
+        data: {
+          milestones: withOverdue,
+          summary: {
+            total: milestones.length,
+            completed,
+            in_progress: milestones.filter(m => m.status === 'in_progress').length,
+            overdue: withOverdue.filter(m => m.is_overdue).length,
+            progress: project.progress
+          }
+        }
+      } as MilestoneResponse);
+
+    } catch (error) {
+      console.error('Get milestones error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MilestoneResponse);
+    }
+  }
+
+  /**
+   * Create milestone (Team leader, Manager, Director)
+   */
+  static async createMilestone(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { title, description, due_date, owner_id, status } = req.body;
+
+      const project = await MilestoneController.findProject(id);
+
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          message: 'Project not found',
+          code: 'PROJECT_NOT_FOUND'
+        } as MilestoneResponse);
+        return;
+      }
+
+      if (!MilestoneController.canModifyProject(req.user, project)) {
+        res.status(403).json({
+          success: false,
+          message: 'Access denied',
+          code: 'INSUFFICIENT_PERMISSIONS'
+        } as MilestoneResponse);
+        return;
+      }
+
+      if (project.archived_at) {
+        res.status(400).json({
+          success: false,
+          message: 'Archived projects cannot be modified',
+          code: 'PROJECT_ARCHIVED'
+        } as MilestoneResponse);
+        return;
+      }
+
+      if (owner_id && !MilestoneController.isTeamMember(project, owner_id)) {
+        res.status(400).json({
+          success: false,
+          message: 'Milestone owner must be a member of the project team',
+          code: 'OWNER_NOT_IN_TEAM'
+        } as MilestoneResponse);
+        return;
+      }
+
+      const { milestone, progress } = await prisma.$transaction(async (tx) => {
+        const milestone = await tx.projectMilestone.create({
+          data: {
+            project_id: id,
+            title,
+            description: description || null,
+            due_date: new Date(due_date),
+            owner_id: owner_id || null,
+            ...(status && { status }),
+            ...(status === 'completed' && { completed_at: new Date() }),
+            created_by: req.user!.userId
+          },
+          include: milestoneInclude
+        });
+
+        return { milestone, progress: await MilestoneService.syncProjectProgress(id, tx) };
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Milestone created successfully',
+        data: { milestone, progress }
+      } as MilestoneResponse);
+
+    } catch (error) {
+      console.error('Create milestone error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MilestoneResponse);
+    }
+  }
+
+  /**
+   * Update milestone (Team leader, Manager, Director, or the milestone owner)
+   */
+  static async updateMilestone(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, milestoneId } = req.params;
+      const { title, description, due_date, owner_id, status } = req.body as {
+        title?: string;
+        description?: string | null;
+        due_date?: string;
+        owner_id?: string | null;
+        status?: MilestoneStatus;
+      };
+
+      const project = await MilestoneController.findProject(id);
+      const existing = project && await prisma.projectMilestone.findFirst({
+        where: { id: milestoneId, project_id: id }
+      });
+
+      if (!project || !existing) {
+        res.status(404).json({
+          success: false,
+          message: 'Milestone not found',
+          code: 'MILESTONE_NOT_FOUND'
+        } as MilestoneResponse);
+        return;
+      }
+
+      if (!MilestoneController.canModifyProject(req.user, project) && existing.owner_id !== req.user?.userId) {
+        res.status(403).json({
+          success: false,
+          message: 'Access denied',
+          code: 'INSUFFICIENT_PERMISSIONS'
+        } as MilestoneResponse);
+        return;
+      }
+
+      if (project.archived_at) {
+        res.status(400).json({
+          success: false,
+          message: 'Archived projects cannot be modified',
+          code: 'PROJECT_ARCHIVED'
+        } as MilestoneResponse);
+        return;
+      }
+
+      if (owner_id && !MilestoneController.isTeamMember(project, owner_id)) {
+        res.status(400).json({
+          success: false,
+          message: 'Milestone owner must be a member of the project team',
+          code: 'OWNER_NOT_IN_TEAM'
+        } as MilestoneResponse);
+        return;
+      }
+
+      const statusChanged = status !== undefined && status !== existing.status;
+
+      const { milestone, progress } = await prisma.$transaction(async (tx) => {
+        const milestone = await tx.projectMilestone.update({
+          where: { id: milestoneId },
+          data: {
+            ...(title && { title }),
+            ...(description !== undefined && { description: description || null }),
+            // A new due date makes the milestone eligible for a fresh overdue notice
+            ...(due_date && { due_date: new Date(due_date), overdue_notified_at: null }),
+            ...(owner_id !== undefined && { owner_id: owner_id || null }),
+            ...(statusChanged && {
+              status,
+              completed_at: status === 'completed' ? new Date() : null
+            })
+          },
+          include: milestoneInclude
+        });
+
+        const progress = statusChanged
+          ? await MilestoneService.syncProjectProgress(id, tx)
+          : project.progress;
+
+        return { milestone, progress };
+      });
+
+      res.json({
+        success: true,
+        message: 'Milestone updated successfully',
+        data: { milestone, progress }
+      } as MilestoneResponse);
+
+    } catch (error) {
+      console.error('Update milestone error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MilestoneResponse);
+    }
+  }
+
+  /**
+   * Delete milestone (Team leader, Manager, Director)
+   */
+  static async deleteMilestone(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, milestoneId } = req.params;
+
+      const project = await MilestoneController.findProject(id);
+      const existing = project && await prisma.projectMilestone.findFirst({
+        where: { id: milestoneId, project_id: id }
+      });
+
+      if (!project || !existing) {
+        res.status(404).json({
+          success: false,
+          message: 'Milestone not found',
+          code: 'MILESTONE_NOT_FOUND'
+        } as MilestoneResponse);
+        return;
+      }
+
+      if (!MilestoneController.canModifyProject(req.user, project)) {
+        res.status(403).json({
+          success: false,
+          message: 'Access denied',
+          code: 'INSUFFICIENT_PERMISSIONS'
+        } as MilestoneResponse);
+        return;
+      }
+
+      if (project.archived_at) {
+        res.status(400).json({
+          success: false,
+          message: 'Archived projects cannot be modified',
+          code: 'PROJECT_ARCHIVED'
+        } as MilestoneResponse);
+        return;
+      }
+
+      const progress = await prisma.$transaction(async (tx) => {
+        await tx.projectMilestone.delete({
+          where: { id: milestoneId }
+        });
+
+        return MilestoneService.syncProjectProgress(id, tx);
+      });
+
+      res.json({
+        success: true,
+        message: 'Milestone deleted successfully',
+        data: { progress }
+      } as MilestoneResponse);
+
+    } catch (error) {
+      console.error('Delete milestone error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MilestoneResponse);
+    }
+  }
+
+  /**
+   * Attach project files to a milestone as evidence
+   */
+  static async addEvidence(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, milestoneId } = req.params;
+      const fileIds = [...new Set(req.body.file_ids as string[])];
+
+      const project = await MilestoneController.findProject(id);
+      const milestone = project && await prisma.projectMilestone.findFirst({
+        where: { id: milestoneId, project_id: id }
+      });
+
+      if (!project || !milestone) {
+        res.status(404).json({
+          success: false,
+          message: 'Milestone not found',
+          code: 'MILESTONE_NOT_FOUND'
+        } as MilestoneResponse);
+        return;
+      }
+
+      if (!MilestoneController.canModifyProject(req.user, project) && milestone.owner_id !== req.user?.userId) {
+        res.status(403).json({
+          success: false,
+          message: 'Access denied',
+          code: 'INSUFFICIENT_PERMISSIONS'
+        } as MilestoneResponse);
+        return;
+      }
+
+      if (project.archived_at) {
+        res.status(400).json({
+          success: false,
+          message: 'Archived projects cannot be modified',
+          code: 'PROJECT_ARCHIVED'
+        } as MilestoneResponse);
+        return;
+      }
+
+      // Evidence must be a file already uploaded to this project
+      const files = await prisma.projectFile.findMany({
+        where: { id: { in: fileIds }, project_id: id },
+        select: { id: true }
+      });
+
+      if (files.length !== fileIds.length) {
+        const found = new Set(files.map(file => file.id));
+        res.status(400).json({
+          success: false,
+          message: 'One or more files do not belong to this project',
+          code: 'FILE_NOT_IN_PROJECT',
+          data: { invalid_file_ids: fileIds.filter(fileId => !found.has(fileId)) }
+        } as MilestoneResponse);
+        return;
+      }
+
+      await prisma.milestoneEvidence.createMany({
+        data: fileIds.map(fileId => ({
+          milestone_id: milestoneId,
+          file_id: fileId,
+          added_by: req.user!.userId
+        })),
+        skipDuplicates: true
+      });
+
+      const updated = await prisma.projectMilestone.findUnique({
+        where: { id: milestoneId },
+        include: milestoneInclude
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Evidence attached successfully',
+        data: { milestone: updated }
+      } as MilestoneResponse);
+
+    } catch (error) {
+      console.error('Add milestone evidence error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MilestoneResponse);
+    }
+  }
+
+  /**
+   * Detach an evidence file from a milestone (the file itself is kept)
+   */
+  static async removeEvidence(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, milestoneId, fileId } = req.params;
+
+      const project = await MilestoneController.findProject(id);
+      const milestone = project && await prisma.projectMilestone.findFirst({
+        where: { id: milestoneId, project_id: id }
+      });
+
+      if (!project || !milestone) {
+        res.status(404).json({
+          success: false,
+          message: 'Milestone not found',
+          code: 'MILESTONE_NOT_FOUND'
+        } as MilestoneResponse);
+        return;
+      }
+
+      if (!MilestoneController.canModifyProject(req.user, project) && milestone.owner_id !== req.user?.userId) {
+        res.status(403).json({
+          success: false,
+          message: 'Access denied',
+          code: 'INSUFFICIENT_PERMISSIONS'
+        } as MilestoneResponse);
+        return;
+      }
+
+      const result = await prisma.milestoneEvidence.deleteMany({
+        where: { milestone_id: milestoneId, file_id: fileId }
+      });
+
+      if (result.count === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'File is not attached to this milestone',
+          code: 'EVIDENCE_NOT_FOUND'
+        } as MilestoneResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Evidence removed successfully'
+      } as MilestoneResponse);
+
+    } catch (error) {
+      console.error('Remove milestone evidence error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MilestoneResponse);
+    }
+  }
+
+  /**
+   * Notify team members and assigned mentors about overdue milestones now
+   * The scheduler runs the same check hourly; this triggers it on demand
+   */
+  static async checkOverdueMilestones(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await MilestoneService.notifyOverdue(req.user!.userId);
+
+      res.json({
+        success: true,
+        message: `Notified ${result.milestones.length} overdue milestone(s)`,
+        data: {
+          overdue_milestones: result.milestones.length,
+          notifications_sent: result.notificationsSent,
+          milestones: result.milestones
+        }
+      } as MilestoneResponse);
+
+    } catch (error) {
+      console.error('Check overdue milestones error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as MilestoneResponse);
+    }
+  }
+
+  private static isOverdue(milestone: ProjectMilestone, now: Date): boolean {
+    return milestone.status !== 'completed' && milestone.due_date < now;
+  }
+
+  /**
+   * Load project with the membership data used by the permission checks
+   */
+  private static findProject(projectId: string) {
+    return prisma.project.findUnique({
+      where: { id: projectId },
+      include: {
+        team: {
+          select: {
+            team_members: {
+              select: {
+                user_id: true,
+                role: true
+              }
+            },
+            mentor_assignments: {
+              select: {
+                mentor: {
+                  select: {
+                    user_id: true
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    });
+  }
+
+  private static isTeamMember(project: any, userId: string): boolean {
+    return project.team?.team_members?.some((member: any) => member.user_id === userId) || false;
+  }
+
+  /**
+   * Helper method to check if user can access a project
+   */
+  private static canAccessProject(user: any, project: any): boolean {
+    if (!user) return false;
+
+    switch (user.role) {
+      case 'director':
+        return true;
+      case 'manager':
+        return true;
+      case 'mentor':
+        return project.team?.mentor_assignments?.some((assignment: any) =>
+          assignment.mentor.user_id === user.userId
+        ) || false;
+      case 'incubator':
+        return MilestoneController.isTeamMember(project, user.userId);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Helper method to check if user can modify a project's milestones
+   */
+  private static canModifyProject(user: any, project: any): boolean {
+    if (!user) return false;
+
+    switch (user.role) {
+      case 'director':
+        return true;
+      case 'manager':
+        return true;
+      case 'incubator':
+        return project.team?.team_members?.some((member: any) =>
+          member.user_id === user.userId && member.role === 'team_leader'
+        ) || false;
+      default:
+        return false;
+    }
+  }
+}
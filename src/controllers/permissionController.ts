@@ -0,0 +1,350 @@
+import { Request, Response } from 'express';
+import prisma from '../config/database';
+import { PERMISSIONS, DEFAULT_ROLE_PERMISSIONS, Permission } from '../config/permissions';
+import { PermissionService } from '../services/permissionService';
+
+interface PermissionResponse {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: any;
+}
+
+export class PermissionController {
+  /**
+   * List every permission in the registry
+   */
+  static async getPermissions(req: Request, res: Response): Promise<void> {
+    try {
+      const permissions = Object.entries(PERMISSIONS).map(([key, description]) => ({ key, description }));
+
+      res.json({
+        success: true,
+        message: 'Permissions retrieved successfully',
+        data: { permissions }
+      } as PermissionResponse);
+
+    } catch (error) {
+      console.error('Get permissions error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as PermissionResponse);
+    }
+  }
+
+  /**
+   * Get the current user's effective permissions
+   */
+  static async getMyPermissions(req: Request, res: Response): Promise<void> {
+    try {
+      const permissions = await PermissionService.getUserPermissions(req.user!.userId);
+
+      res.json({
+        success: true,
+        message: 'Permissions retrieved successfully',
+        data: { permissions: [...permissions] }
+      } as PermissionResponse);
+
+    } catch (error) {
+      console.error('Get my permissions error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as PermissionResponse);
+    }
+  }
+
+  /**
+   * Get the role → permission matrix
+   */
+  static async getMatrix(req: Request, res: Response): Promise<void> {
+    try {
+      const roles = await PermissionService.getMatrix();
+
+      res.json({
+        success: true,
+        message: 'Permission matrix retrieved successfully',
+        data: {
+          permissions: Object.keys(PERMISSIONS),
+          roles
+        }
+      } as PermissionResponse);
+
+    } catch (error) {
+      console.error('Get permission matrix error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as PermissionResponse);
+    }
+  }
+
+  /**
+   * Create a custom role (e.g. finance_officer)
+   */
+  static async createRole(req: Request, res: Response): Promise<void> {
+    try {
+      const { key, name, description, permissions = [] } = req.body;
+
+      if (key in DEFAULT_ROLE_PERMISSIONS) {
+        res.status(400).json({
+          success: false,
+          message: 'Built-in roles already exist; edit their permissions instead',
+          code: 'ROLE_EXISTS'
+        } as PermissionResponse);
+        return;
+      }
+
+      const existing = await prisma.permissionRole.findUnique({ where: { key } });
+      if (existing) {
+        res.status(400).json({
+          success: false,
+          message: 'A role with this key already exists',
+          code: 'ROLE_EXISTS'
+        } as PermissionResponse);
+        return;
+      }
+
+      await prisma.permissionRole.create({
+        data: { key, name, description, is_system: false }
+      });
+      await PermissionService.setRolePermissions(key, permissions);
+
+      res.status(201).json({
+        success: true,
+        message: 'Role created successfully',
+        data: { key, name, description: description || null, is_system: false, permissions }
+      } as PermissionResponse);
+
+    } catch (error) {
+      console.error('Create role error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as PermissionResponse);
+    }
+  }
+
+  /**
+   * Replace the permissions of a role
+   */
+  static async updateRolePermissions(req: Request, res: Response): Promise<void> {
+    try {
+      const { role } = req.params;
+      const { permissions } = req.body as { permissions: Permission[] };
+
+      if (role === 'director') {
+        res.status(400).json({
+          success: false,
+          message: 'Directors always hold every permission',
+          code: 'DIRECTOR_PERMISSIONS_FIXED'
+        } as PermissionResponse);
+        return;
+      }
+
+      const isBuiltIn = role in DEFAULT_ROLE_PERMISSIONS;
+      if (!isBuiltIn && !(await prisma.permissionRole.findUnique({ where: { key: role } }))) {
+        res.status(404).json({
+          success: false,
+          message: 'Role not found',
+          code: 'ROLE_NOT_FOUND'
+        } as PermissionResponse);
+        return;
+      }
+
+      await PermissionService.setRolePermissions(role, permissions);
+
+      res.json({
+        success: true,
+        message: 'Role permissions updated successfully',
+        data: { key: role, permissions: [...new Set(permissions)] }
+      } as PermissionResponse);
+
+    } catch (error) {
+      console.error('Update role permissions error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as PermissionResponse);
+    }
+  }
+
+  /**
+   * Delete a custom role (users assigned to it fall back to their base role)
+   */
+  static async deleteRole(req: Request, res: Response): Promise<void> {
+    try {
+      const { role } = req.params;
+
+      const existing = await prisma.permissionRole.findUnique({ where: { key: role } });
+      if (!existing || existing.is_system) {
+        res.status(existing ? 400 : 404).json({
+          success: false,
+          message: existing ? 'Built-in roles cannot be deleted' : 'Role not found',
+          code: existing ? 'ROLE_IS_SYSTEM' : 'ROLE_NOT_FOUND'
+        } as PermissionResponse);
+        return;
+      }
+
+      await prisma.permissionRole.delete({ where: { key: role } });
+      PermissionService.clearCache();
+
+      res.json({
+        success: true,
+        message: 'Role deleted successfully'
+      } as PermissionResponse);
+
+    } catch (error) {
+      console.error('Delete role error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as PermissionResponse);
+    }
+  }
+
+  /**
+   * Get a user's custom role, overrides and effective permissions
+   */
+  static async getUserPermissions(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const user = await prisma.user.findUnique({
+        where: { id },
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          role: true,
+          permission_role_key: true,
+          permission_overrides: {
+            select: { permission: true, granted: true, granted_by: true, created_at: true }
+          }
+        }
+      });
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: 'User not found',
+          code: 'USER_NOT_FOUND'
+        } as PermissionResponse);
+        return;
+      }
+
+      const effective = await PermissionService.getUserPermissions(id);
+
+      res.json({
+        success: true,
+        message: 'User permissions retrieved successfully',
+        data: {
+          user: { id: user.id, name: user.name, email: user.email, role: user.role },
+          permission_role: user.permission_role_key,
+          overrides: user.permission_overrides,
+          effective_permissions: [...effective]
+        }
+      } as PermissionResponse);
+
+    } catch (error) {
+      console.error('Get user permissions error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as PermissionResponse);
+    }
+  }
+
+  /**
+   * Assign a custom role to a user, or clear it (null) to use their base role
+   */
+  static async setUserRole(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { role } = req.body as { role: string | null };
+
+      const user = await prisma.user.findUnique({ where: { id } });
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: 'User not found',
+          code: 'USER_NOT_FOUND'
+        } as PermissionResponse);
+        return;
+      }
+
+      if (role) {
+        const permissionRole = await prisma.permissionRole.findUnique({ where: { key: role } });
+        if (!permissionRole || permissionRole.is_system) {
+          res.status(400).json({
+            success: false,
+            message: 'Only custom roles can be assigned; change the user role for built-in roles',
+            code: 'INVALID_ROLE'
+          } as PermissionResponse);
+          return;
+        }
+      }
+
+      await prisma.user.update({
+        where: { id },
+        data: { permission_role_key: role || null }
+      });
+      PermissionService.clearCache(id);
+
+      res.json({
+        success: true,
+        message: role ? 'Custom role assigned successfully' : 'Custom role removed successfully',
+        data: { permission_role: role || null }
+      } as PermissionResponse);
+
+    } catch (error) {
+      console.error('Set user role error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as PermissionResponse);
+    }
+  }
+
+  /**
+   * Replace a user's permission overrides
+   */
+  static async setUserOverrides(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { overrides } = req.body as { overrides: { permission: Permission; granted: boolean }[] };
+
+      const user = await prisma.user.findUnique({ where: { id } });
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: 'User not found',
+          code: 'USER_NOT_FOUND'
+        } as PermissionResponse);
+        return;
+      }
+
+      // Last entry wins if a permission is listed twice
+      const unique = [...new Map(overrides.map(o => [o.permission, o])).values()];
+
+      await PermissionService.setUserOverrides(id, unique, req.user!.userId);
+
+      res.json({
+        success: true,
+        message: 'Permission overrides updated successfully',
+        data: {
+          overrides: unique,
+          effective_permissions: [...(await PermissionService.getUserPermissions(id))]
+        }
+      } as PermissionResponse);
+
+    } catch (error) {
+      console.error('Set user overrides error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as PermissionResponse);
+    }
+  }
+}
@@ -2,6 +2,9 @@ import { Request, Response } from 'express';
 import { Project, ProjectFile, User, Prisma } from '@prisma/client';
 import prisma from '../config/database';
 import emailService from '../services/emailService';
+import { FileService } from '../services/fileService';
+import { StorageQuotaService } from '../services/storageQuotaService';
+import { cleanupFile, getFileUrl } from '../middleware/upload';
 import { getTeamNotificationRecipients, getTeamMentorEmails } from '../utils/emailHelpers';
 
 interface CreateProjectRequest {
@@ -48,6 +51,7 @@ export class ProjectController {
         status,
         team_id,
         search,
+        include_archived,
         page = 1,
         limit = 10
       } = req.query;
@@ -97,6 +101,11 @@ export class ProjectController {
         where.team_id = team_id as string;
       }
 
+      // Projects of teams that exited the program are hidden unless requested
+      if (include_archived !== 'true') {
+        where.archived_at = null;
+      }
+
       // Search filter - include new fields in search
       if (search) {
         where.OR = [
@@ -192,7 +201,8 @@ export class ProjectController {
           },
           _count: {
             select: {
-              project_files: true
+              project_files: true,
+              milestones: true
             }
           }
         }
@@ -291,6 +301,7 @@ export class ProjectController {
           team_id: teamMember.team_id,
           startup_company_name: teamMember.team.company_name || null, // Use team's company name
           status_at_enrollment: status_at_enrollment ? (status_at_enrollment as any) : null,
+          current_stage: status_at_enrollment ? (status_at_enrollment as any) : null,
           challenge_description: challenge_description || null
         },
         include: {
@@ -417,6 +428,15 @@ export class ProjectController {
         return;
       }
 
+      if (existingProject.archived_at) {
+        res.status(400).json({
+          success: false,
+          message: 'Archived projects cannot be modified',
+          code: 'PROJECT_ARCHIVED'
+        } as ProjectResponse);
+        return;
+      }
+
       // Validate progress
       if (progress !== undefined && (progress < 0 || progress > 100)) {
         res.status(422).json({
@@ -427,6 +447,22 @@ export class ProjectController {
         return;
       }
 
+      // Progress of projects with milestones is computed from milestone completion
+      if (progress !== undefined) {
+        const milestoneCount = await prisma.projectMilestone.count({
+          where: { project_id: id }
+        });
+
+        if (milestoneCount > 0) {
+          res.status(422).json({
+            success: false,
+            message: 'Progress is computed from milestones for this project',
+            code: 'PROGRESS_MANAGED_BY_MILESTONES'
+          } as ProjectResponse);
+          return;
+        }
+      }
+
       // Get team's company_name to use automatically
       const team = await prisma.team.findUnique({
         where: { id: existingProject.team_id },
@@ -696,26 +732,54 @@ export class ProjectController {
         return;
       }
 
-      // Create file records for all uploaded files
-      const uploadedFiles = [];
-      for (const file of files) {
-      const projectFile = await prisma.projectFile.create({
-        data: {
-          project_id: id,
-          file_name: file.originalname,
-            file_path: file.path,
-          file_type: file.mimetype,
-          file_size: file.size,
-          uploaded_by: req.user!.userId
+      const incomingBytes = files.reduce((sum, file) => sum + file.size, 0);
+
+      // Create file records for all uploaded files, unless they don't fit in the quota
+      const { allowed, quota, stored: uploadedFiles } = await StorageQuotaService.storeWithinQuota(
+        req.user!.userId,
+        incomingBytes,
+        project.team_id,
+        async (tx) => {
+          const created = [];
+          for (const file of files) {
+            created.push(await tx.projectFile.create({
+              data: {
+                project_id: id,
+                file_name: file.originalname,
+                file_path: getFileUrl(file),
+                file_type: file.mimetype,
+                file_size: file.size,
+                uploaded_by: req.user!.userId
+              }
+            }));
+          }
+          return created;
         }
-      });
-        uploadedFiles.push(projectFile);
+      );
+
+      if (!allowed) {
+        for (const file of files) {
+          await cleanupFile(getFileUrl(file));
+        }
+        res.status(413).json({
+          success: false,
+          ...StorageQuotaService.exceededError(quota)
+        } as ProjectResponse);
+        return;
       }
 
+      await StorageQuotaService.sendWarnings(quota, req.user!.userId, project.team_id);
+
       res.status(201).json({
         success: true,
         message: `${uploadedFiles.length} file(s) uploaded successfully`,
-        data: { files: uploadedFiles }
+        data: {
+          files: uploadedFiles,
+          storage: {
+            team: quota.team,
+            user: quota.user
+          }
+        }
       });
 
     } catch (error) {
@@ -776,6 +840,8 @@ export class ProjectController {
         return;
       }
 
+      await FileService.logFileAccess(fileId, req.user!.userId, 'delete', req.ip, req.get('user-agent'));
+
       // Delete file record
       await prisma.projectFile.delete({
         where: { id: fileId }
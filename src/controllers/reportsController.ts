@@ -1,5 +1,9 @@
 import { Request, Response } from 'express';
 import prisma from '../config/database';
+import { EvaluationService } from '../services/evaluationService';
+import { FileService } from '../services/fileService';
+import { SettingsService } from '../services/settingsService';
+import { StageGateService, PROJECT_STAGES } from '../services/stageGateService';
 
 // Advanced filtering and analytics types
 interface AdvancedFilterOptions {
@@ -485,11 +489,25 @@ export class ReportsController {
               uploaded_at: true
             },
             orderBy: { uploaded_at: 'desc' }
+          },
+          milestones: {
+            select: {
+              id: true,
+              title: true,
+              due_date: true,
+              status: true,
+              completed_at: true
+            },
+            orderBy: { due_date: 'asc' }
           }
         },
         orderBy: { created_at: 'desc' }
       });
 
+      const now = new Date();
+      const isOverdueMilestone = (m: { status: string; due_date: Date }) => m.status !== 'completed' && m.due_date < now;
+      const allMilestones = projects.flatMap(p => p.milestones);
+
       // Calculate project statistics
       const summary = {
         total_projects: projects.length,
@@ -499,7 +517,11 @@ export class ReportsController {
         on_hold_projects: projects.filter(p => p.status === 'on_hold').length,
         average_progress: projects.length > 0 ?
           (projects.reduce((sum, p) => sum + p.progress, 0) / projects.length).toFixed(1) : '0',
-        total_files: projects.reduce((sum, p) => sum + p.project_files.length, 0)
+        total_files: projects.reduce((sum, p) => sum + p.project_files.length, 0),
+        total_milestones: allMilestones.length,
+        completed_milestones: allMilestones.filter(m => m.status === 'completed').length,
+        overdue_milestones: allMilestones.filter(isOverdueMilestone).length,
+        projects_with_overdue_milestones: projects.filter(p => p.milestones.some(isOverdueMilestone)).length
       };
 
       // Group projects by category
@@ -538,7 +560,13 @@ export class ReportsController {
         file_count: project.project_files.length,
         created_at: project.created_at,
         updated_at: project.updated_at,
-        recent_files: project.project_files.slice(0, 3) // Last 3 files
+        recent_files: project.project_files.slice(0, 3), // Last 3 files
+        milestones: {
+          total: project.milestones.length,
+          completed: project.milestones.filter(m => m.status === 'completed').length,
+          overdue: project.milestones.filter(isOverdueMilestone).length,
+          next_due: project.milestones.find(m => m.status !== 'completed') || null
+        }
       }));
 
       res.json({
@@ -566,6 +594,274 @@ export class ReportsController {
     }
   }
 
+  /**
+   * Get project stage reports: time spent in each stage and between stage transitions
+   */
+  static async getStageReports(req: Request, res: Response): Promise<void> {
+    try {
+      const { category, team_id, cohort_id } = req.query;
+
+      const projects = await prisma.project.findMany({
+        where: {
+          ...(category && { category: category as any }),
+          ...(team_id && { team_id: team_id as string }),
+          ...(cohort_id && { team: { cohort_id: cohort_id as string } })
+        },
+        select: {
+          id: true,
+          name: true,
+          status_at_enrollment: true,
+          current_stage: true,
+          created_at: true,
+          team: {
+            select: {
+              id: true,
+              team_name: true
+            }
+          },
+          stage_transitions: {
+            select: {
+              to_stage: true,
+              transitioned_at: true
+            }
+          }
+        }
+      });
+
+      const average = (values: number[]) => values.length > 0
+        ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10
+        : null;
+
+      const completedDays: Record<string, number[]> = {};
+      const ongoingDays: Record<string, number[]> = {};
+      const transitionDays: Record<string, number[]> = {};
+      const collect = (bucket: Record<string, number[]>, key: string, value: number) => {
+        if (!bucket[key]) {
+          bucket[key] = [];
+        }
+        bucket[key].push(value);
+      };
+
+      const formattedProjects = projects.map(project => {
+        const periods = StageGateService.buildPeriods(project, project.stage_transitions);
+
+        periods.forEach((period, index) => {
+          if (period.left_at) {
+            collect(completedDays, period.stage, period.days);
+            collect(transitionDays, `${period.stage}->${periods[index + 1].stage}`, period.days);
+          } else {
+            collect(ongoingDays, period.stage, period.days);
+          }
+        });
+
+        const current = periods[periods.length - 1];
+        return {
+          id: project.id,
+          name: project.name,
+          team: project.team,
+          stage_at_enrollment: project.status_at_enrollment ?? 'Idea',
+          current_stage: StageGateService.currentStage(project),
+          days_in_current_stage: current.days,
+          transitions: project.stage_transitions.length
+        };
+      });
+
+      const stageStats = PROJECT_STAGES.map(stage => ({
+        stage,
+        projects_in_stage: (ongoingDays[stage] || []).length,
+        projects_passed_through: (completedDays[stage] || []).length,
+        // Time a project took to leave this stage
+        average_days_to_advance: average(completedDays[stage] || []),
+        // Time projects still here have spent so far
+        average_days_in_stage_so_far: average(ongoingDays[stage] || [])
+      }));
+
+      const transitionStats = Object.entries(transitionDays).map(([key, days]) => {
+        const [from_stage, to_stage] = key.split('->');
+        return {
+          from_stage,
+          to_stage,
+          count: days.length,
+          average_days: average(days),
+          min_days: Math.min(...days),
+          max_days: Math.max(...days)
+        };
+      });
+
+      res.json({
+        success: true,
+        message: 'Project stage reports retrieved successfully',
+        data: {
+          summary: {
+            total_projects: projects.length,
+            total_transitions: projects.reduce((sum, project) => sum + project.stage_transitions.length, 0),
+            launched_projects: formattedProjects.filter(project => project.current_stage === 'Launched').length
+          },
+          stage_stats: stageStats,
+          transition_stats: transitionStats,
+          projects: formattedProjects,
+          filters: {
+            category,
+            team_id,
+            cohort_id
+          }
+        }
+      } as ReportsResponse);
+
+    } catch (error) {
+      console.error('Get stage reports error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as ReportsResponse);
+    }
+  }
+
+  /**
+   * Get cohort reports: enrollment, success/graduation rates and inventory usage per cohort
+   */
+  static async getCohortReports(req: Request, res: Response): Promise<void> {
+    try {
+      const { cohort_id, program_type, status } = req.query;
+
+      const cohorts = await prisma.cohort.findMany({
+        where: {
+          ...(cohort_id && { id: cohort_id as string }),
+          ...(program_type && { program_type: program_type as any }),
+          ...(status && { status: status as any })
+        },
+        include: {
+          teams: {
+            select: {
+              id: true,
+              status: true,
+              projects: { select: { status: true } },
+              exits: {
+                where: { status: 'completed' },
+                select: { exit_type: true }
+              }
+            }
+          }
+        },
+        orderBy: { start_date: 'desc' }
+      });
+
+      const teamIds = cohorts.flatMap(cohort => cohort.teams.map(team => team.id));
+
+      const [assignments, consumption, requests] = await Promise.all([
+        prisma.inventoryAssignment.findMany({
+          where: { team_id: { in: teamIds } },
+          select: { team_id: true, quantity: true, returned_at: true }
+        }),
+        prisma.consumptionLog.findMany({
+          where: { team_id: { in: teamIds } },
+          select: { team_id: true, quantity: true }
+        }),
+        prisma.materialRequest.findMany({
+          where: { team_id: { in: teamIds } },
+          select: { team_id: true, status: true }
+        })
+      ]);
+
+      const percentage = (part: number, whole: number) =>
+        whole > 0 ? Math.round((part / whole) * 10000) / 100 : 0;
+
+      const cohortReports = cohorts.map(cohort => {
+        const cohortTeamIds = new Set(cohort.teams.map(team => team.id));
+        const teamCount = cohort.teams.length;
+
+        // Success = at least one completed project (same as the system metrics)
+        const successfulTeams = cohort.teams.filter(team =>
+          team.projects.some(project => project.status === 'completed')
+        ).length;
+        const exitedAs = (exitType: string) =>
+          cohort.teams.filter(team => team.exits.some(exit => exit.exit_type === exitType)).length;
+        const graduatedTeams = exitedAs('graduated');
+
+        const projects = cohort.teams.flatMap(team => team.projects);
+        const completedProjects = projects.filter(project => project.status === 'completed').length;
+
+        const cohortAssignments = assignments.filter(a => cohortTeamIds.has(a.team_id));
+        const activeAssignments = cohortAssignments.filter(a => !a.returned_at);
+        const cohortConsumption = consumption.filter(c => c.team_id && cohortTeamIds.has(c.team_id));
+        const cohortRequests = requests.filter(r => cohortTeamIds.has(r.team_id));
+
+        return {
+          cohort: {
+            id: cohort.id,
+            name: cohort.name,
+            program_type: cohort.program_type,
+            status: cohort.status,
+            start_date: cohort.start_date,
+            end_date: cohort.end_date,
+            capacity: cohort.capacity
+          },
+          enrollment: {
+            total_teams: teamCount,
+            fill_rate: percentage(teamCount, cohort.capacity),
+            active_teams: cohort.teams.filter(team => team.status === 'active').length,
+            pending_teams: cohort.teams.filter(team => team.status === 'pending').length
+          },
+          outcomes: {
+            successful_teams: successfulTeams,
+            success_rate: percentage(successfulTeams, teamCount),
+            graduated_teams: graduatedTeams,
+            graduation_rate: percentage(graduatedTeams, teamCount),
+            dropped_out_teams: exitedAs('dropped_out'),
+            transferred_teams: exitedAs('transferred'),
+            total_projects: projects.length,
+            completed_projects: completedProjects,
+            project_completion_rate: percentage(completedProjects, projects.length)
+          },
+          inventory_usage: {
+            total_assignments: cohortAssignments.length,
+            active_assignments: activeAssignments.length,
+            items_currently_assigned: activeAssignments.reduce((sum, a) => sum + a.quantity, 0),
+            items_returned: cohortAssignments.filter(a => a.returned_at).reduce((sum, a) => sum + a.quantity, 0),
+            consumables_used: cohortConsumption.reduce((sum, c) => sum + c.quantity, 0),
+            material_requests: cohortRequests.length,
+            approved_requests: cohortRequests.filter(r => ['approved', 'partially_approved', 'ordered', 'in_transit', 'delivered', 'completed'].includes(r.status)).length
+          }
+        };
+      });
+
+      const totalTeams = cohortReports.reduce((sum, report) => sum + report.enrollment.total_teams, 0);
+
+      res.json({
+        success: true,
+        message: 'Cohort reports retrieved successfully',
+        data: {
+          summary: {
+            total_cohorts: cohortReports.length,
+            total_teams: totalTeams,
+            total_capacity: cohortReports.reduce((sum, report) => sum + report.cohort.capacity, 0),
+            success_rate: percentage(
+              cohortReports.reduce((sum, report) => sum + report.outcomes.successful_teams, 0),
+              totalTeams
+            ),
+            graduation_rate: percentage(
+              cohortReports.reduce((sum, report) => sum + report.outcomes.graduated_teams, 0),
+              totalTeams
+            )
+          },
+          cohorts: cohortReports,
+          filters: {
+            cohort_id,
+            program_type,
+            status
+          }
+        }
+      } as ReportsResponse);
+
+    } catch (error) {
+      console.error('Get cohort reports error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as ReportsResponse);
+    }
+  }
+
   /**
    * Advanced reports endpoint with comprehensive filtering
    */
@@ -1126,8 +1422,18 @@ export class ReportsController {
           res.status(403).json({ success: false, message: 'Forbidden' } as ReportsResponse);
           return;
         }
+
+        // The report hands out every file path of the team, so record it like opening each file
+        await FileService.logFileListAccess(
+          team.projects.flatMap((p) => p.project_files),
+          userId!,
+          req.ip,
+          req.get('user-agent')
+        );
       }
 
+      const evaluations = await EvaluationService.summarize({ team_id: id });
+
       const leaderMember = team.team_members.find((m) => m.role === 'team_leader');
       const mentorAssign = team.mentor_assignments?.[0];
       const mentorUser = mentorAssign?.mentor?.user;
@@ -1184,7 +1490,11 @@ export class ReportsController {
             size: f.file_size,
             uploaded_at: f.uploaded_at
           }))
-        }))
+        })),
+        evaluations: {
+          mentor_feedback: evaluations.filter((e) => e.direction === 'mentor_to_team'),
+          team_feedback: evaluations.filter((e) => e.direction === 'team_to_mentor')
+        }
       };
 
       res.json({
@@ -2021,14 +2331,27 @@ export class ReportsController {
 
   /**
     * Calculate mentor utilization rate
+    * Completed session hours over the last 30 days as a percentage of active mentors' combined capacity
     */
   private static async calculateMentorUtilization(): Promise<number> {
-    const mentors = await prisma.user.count({ where: { role: 'mentor' } });
-    const assignments = await prisma.mentorAssignment.count();
+    const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+
+    const [mentors, capacityHours, sessions] = await Promise.all([
+      prisma.user.count({ where: { role: 'mentor', status: 'active' } }),
+      SettingsService.get('mentor_capacity_hours_per_month'),
+      prisma.mentorSession.findMany({
+        where: { status: 'completed', scheduled_at: { gte: since } },
+        select: { duration_minutes: true, actual_duration_minutes: true }
+      })
+    ]);
+
+    if (mentors === 0 || capacityHours <= 0) return 0;
 
-    if (mentors === 0) return 0;
+    const sessionHours = sessions.reduce(
+      (sum, session) => sum + (session.actual_duration_minutes ?? session.duration_minutes), 0
+    ) / 60;
 
-    return (assignments / mentors) * 100;
+    return Math.round((sessionHours / (mentors * capacityHours)) * 1000) / 10;
   }
 
   /**
@@ -2177,29 +2500,44 @@ export class ReportsController {
     * Get mentor performance metrics
     */
   private static async getMentorPerformance(): Promise<any[]> {
-    // Simplified version - return basic mentor stats
-    const mentors = await prisma.user.findMany({
-      where: { role: 'mentor' },
-      select: { id: true, name: true }
-    });
-
-    const mentorAssignments = await prisma.mentorAssignment.findMany({
-      select: { mentor_id: true }
-    });
+    const [mentors, teamRatings, teamProgress] = await Promise.all([
+      prisma.mentor.findMany({
+        where: { user: { role: 'mentor' } },
+        select: {
+          id: true,
+          user: { select: { id: true, name: true } },
+          _count: { select: { mentor_assignments: true } }
+        }
+      }),
+      // How teams rate their mentor
+      prisma.evaluationSubmission.groupBy({
+        by: ['mentor_id'],
+        where: { direction: 'team_to_mentor' },
+        _avg: { score: true },
+        _count: { _all: true }
+      }),
+      // How mentors rate the progress of the teams they mentor
+      prisma.evaluationSubmission.groupBy({
+        by: ['mentor_id'],
+        where: { direction: 'mentor_to_team' },
+        _avg: { score: true }
+      })
+    ]);
 
-    // Count assignments per mentor
-    const assignmentCounts = mentorAssignments.reduce((acc: any, assignment) => {
-      acc[assignment.mentor_id] = (acc[assignment.mentor_id] || 0) + 1;
-      return acc;
-    }, {});
+    const ratingsByMentor = new Map(teamRatings.map(rating => [rating.mentor_id, rating]));
+    const progressByMentor = new Map(teamProgress.map(progress => [progress.mentor_id, progress._avg.score]));
+    const round = (value: number | null | undefined) => (value == null ? null : Math.round(value * 10) / 10);
 
     return mentors.map(mentor => ({
-      mentor_id: mentor.id,
-      mentor_name: mentor.name,
-      assigned_teams: assignmentCounts[mentor.id] || 0,
+      mentor_id: mentor.user.id,
+      mentor_name: mentor.user.name,
+      assigned_teams: mentor._count.mentor_assignments,
       total_projects: 0, // Simplified - would need more complex query
       completed_projects: 0, // Simplified - would need more complex query
-      success_rate: 0 // Simplified - would need more complex query
+      success_rate: 0, // Simplified - would need more complex query
+      team_rating: round(ratingsByMentor.get(mentor.id)?._avg.score), // 0-100 from team_to_mentor evaluations
+      team_rating_count: ratingsByMentor.get(mentor.id)?._count._all || 0,
+      avg_team_progress_score: round(progressByMentor.get(mentor.id)) // 0-100 from mentor_to_team evaluations
     })).sort((a: any, b: any) => b.assigned_teams - a.assigned_teams);
   }
 
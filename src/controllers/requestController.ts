@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { MaterialRequest, Prisma, RequestPriority, RequestStatus, DeliveryStatus } from '@prisma/client';
 import prisma from '../config/database';
 import emailService from '../services/emailService';
+import { PermissionService } from '../services/permissionService';
 import { getManagerEmails, getTeamNotificationRecipients } from '../utils/emailHelpers';
 
 interface RequestItemInput {
@@ -85,8 +86,8 @@ export class RequestController {
       const where: Prisma.MaterialRequestWhereInput = {};
 
       // Role-based filtering
-      if (req.user?.role === 'manager' || req.user?.role === 'director') {
-        // Managers and Directors can see all requests
+      if (req.user && await PermissionService.hasPermission(req.user.userId, 'requests.approve')) {
+        // Managers, Directors and other approvers can see all requests
       } else if (req.user?.role === 'incubator') {
         // Incubators can only see their team's requests
         where.team = {
@@ -326,7 +327,7 @@ export class RequestController {
       }
 
       // Check permissions
-      if (!RequestController.canAccessRequest(req.user, request)) {
+      if (!(await RequestController.canAccessRequest(req.user, request))) {
         res.status(403).json({
           success: false,
           message: 'Access denied'
@@ -964,9 +965,14 @@ export class RequestController {
   /**
    * Helper method to check if user can access a request
    */
-  private static canAccessRequest(user: any, request: any): boolean {
+  private static async canAccessRequest(user: any, request: any): Promise<boolean> {
     if (!user) return false;
 
+    // Anyone who can approve requests (managers, directors, custom roles) sees all of them
+    if (await PermissionService.hasPermission(user.userId, 'requests.approve')) {
+      return true;
+    }
+
     switch (user.role) {
       case 'director':
         return true;
@@ -1164,7 +1170,7 @@ export class RequestController {
       }
 
       // Check permissions
-      if (!RequestController.canAccessRequest(req.user, request)) {
+      if (!(await RequestController.canAccessRequest(req.user, request))) {
         res.status(403).json({
           success: false,
           message: 'Access denied'
@@ -1500,10 +1506,9 @@ export class RequestController {
         return;
       }
 
-      // Check permissions - requester or manager/director can cancel
+      // Check permissions - requester or an approver can cancel
       const canCancel = existingRequest.requested_by === req.user?.userId ||
-                        req.user?.role === 'manager' ||
-                        req.user?.role === 'director';
+                        (!!req.user && await PermissionService.hasPermission(req.user.userId, 'requests.approve'));
 
       if (!canCancel) {
         res.status(403).json({
@@ -2137,6 +2142,7 @@ export class RequestController {
                     previous_quantity: currentItem.available_quantity,
                     new_quantity: newAvailable,
                     performed_by: performedBy,
+                    team_id: request.team_id,
                     notes: `Auto-consumption from approved request ${request.request_number}`
                   }
                 });
@@ -2207,6 +2213,7 @@ export class RequestController {
                       previous_quantity: itemInTx.available_quantity,
                       new_quantity: newAvailable,
                       performed_by: performedBy,
+                      team_id: request.team_id,
                       notes: `Auto-assignment from approved request ${request.request_number}`
                     }
                   });
@@ -2322,8 +2329,8 @@ export class RequestController {
         return;
       }
 
-      // Only managers/directors can update delivery status
-      if (req.user?.role !== 'manager' && req.user?.role !== 'director') {
+      // Only users allowed to handle deliveries can update delivery status
+      if (!req.user || !(await PermissionService.hasPermission(req.user.userId, 'requests.deliver'))) {
         res.status(403).json({
           success: false,
           message: 'Access denied'
@@ -0,0 +1,177 @@
+import { Request, Response } from 'express';
+import { SecurityEventType } from '@prisma/client';
+import { SecurityAudit } from '../config/security';
+import { SettingsService } from '../services/settingsService';
+import { LoginProtectionService } from '../services/loginProtectionService';
+
+interface SecurityResponse {
+  success: boolean;
+  message: string;
+  data?: any;
+  pagination?: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+export class SecurityController {
+  /**
+   * Search the security audit log (Director only)
+   * Filters: type, userId, ip, from, to
+   */
+  static async getEvents(req: Request, res: Response): Promise<void> {
+    try {
+      const { page = 1, limit = 50, type, userId, ip, from, to } = req.query;
+
+      const pageNum = parseInt(page as string, 10);
+      const limitNum = parseInt(limit as string, 10);
+
+      const { events, total } = await SecurityAudit.query({
+        type: type as SecurityEventType | undefined,
+        userId: userId as string | undefined,
+        ip: ip as string | undefined,
+        from: from ? new Date(from as string) : undefined,
+        to: to ? new Date(to as string) : undefined
+      }, pageNum, limitNum);
+
+      res.json({
+        success: true,
+        message: 'Security events retrieved successfully',
+        data: { events },
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          pages: Math.ceil(total / limitNum)
+        }
+      } as SecurityResponse);
+
+    } catch (error) {
+      console.error('Get security events error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as SecurityResponse);
+    }
+  }
+
+  /**
+   * Get the security event retention period (Director only)
+   */
+  static async getRetention(req: Request, res: Response): Promise<void> {
+    try {
+      const retentionDays = await SettingsService.get('security_event_retention_days');
+
+      res.json({
+        success: true,
+        message: 'Retention policy retrieved successfully',
+        data: { retention_days: retentionDays }
+      } as SecurityResponse);
+
+    } catch (error) {
+      console.error('Get security retention error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as SecurityResponse);
+    }
+  }
+
+  /**
+   * Update the security event retention period (Director only)
+   */
+  static async updateRetention(req: Request, res: Response): Promise<void> {
+    try {
+      const { retention_days } = req.body;
+
+      await SettingsService.set('security_event_retention_days', retention_days, req.user!.userId);
+
+      res.json({
+        success: true,
+        message: 'Retention policy updated successfully',
+        data: { retention_days }
+      } as SecurityResponse);
+
+    } catch (error) {
+      console.error('Update security retention error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as SecurityResponse);
+    }
+  }
+
+  /**
+   * Delete events older than the retention period (Director only)
+   */
+  static async purgeEvents(req: Request, res: Response): Promise<void> {
+    try {
+      const retentionDays = await SettingsService.get('security_event_retention_days');
+      const deleted = await SecurityAudit.purgeOlderThan(retentionDays);
+
+      res.json({
+        success: true,
+        message: `Deleted ${deleted} security events older than ${retentionDays} days`,
+        data: { deleted, retention_days: retentionDays }
+      } as SecurityResponse);
+
+    } catch (error) {
+      console.error('Purge security events error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as SecurityResponse);
+    }
+  }
+
+  /**
+   * Get the login lockout policy (Director only)
+   */
+  static async getLockoutPolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const policy = await LoginProtectionService.getPolicy();
+
+      res.json({
+        success: true,
+        message: 'Lockout policy retrieved successfully',
+        data: policy
+      } as SecurityResponse);
+
+    } catch (error) {
+      console.error('Get lockout policy error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as SecurityResponse);
+    }
+  }
+
+  /**
+   * Update the login lockout policy (Director only)
+   */
+  static async updateLockoutPolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const policy = {
+        ...(await LoginProtectionService.getPolicy()),
+        ...req.body
+      };
+
+      await SettingsService.set('login_lockout', policy, req.user!.userId);
+
+      res.json({
+        success: true,
+        message: 'Lockout policy updated successfully',
+        data: policy
+      } as SecurityResponse);
+
+    } catch (error) {
+      console.error('Update lockout policy error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as SecurityResponse);
+    }
+  }
+}
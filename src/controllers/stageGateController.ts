@@ -0,0 +1,669 @@
+import { Request, Response } from 'express';
+import { Prisma, StageGateReviewStatus } from '@prisma/client';
+import prisma from '../config/database';
+import { SettingsService } from '../services/settingsService';
+import { StageGateService } from '../services/stageGateService';
+import { NotificationService } from '../services/notificationService';
+
+interface StageGateResponse {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: any;
+  pagination?: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+const reviewInclude = {
+  project: {
+    select: {
+      id: true,
+      name: true,
+      team: {
+        select: {
+          id: true,
+          team_name: true
+        }
+      }
+    }
+  },
+  requester: {
+    select: {
+      id: true,
+      name: true
+    }
+  },
+  reviewer: {
+    select: {
+      id: true,
+      name: true,
+      role: true
+    }
+  }
+};
+
+// Thrown inside the decision transaction to roll back the claim when the project moved on meanwhile
+class StageChangedError extends Error {
+  constructor() {
+    super('Project is no longer at the review\'s starting stage');
+  }
+}
+
+export class StageGateController {
+  /**
+   * Get project's current stage, next gate criteria, pending review and transition history
+   */
+  static async getProjectStage(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const project = await StageGateController.findProject(id);
+
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          message: 'Project not found',
+          code: 'PROJECT_NOT_FOUND'
+        } as StageGateResponse);
+        return;
+      }
+
+      if (!StageGateController.canAccessProject(req.user, project)) {
+        res.status(403).json({
+          success: false,
+          message: 'Access denied',
+          code: 'INSUFFICIENT_PERMISSIONS'
+        } as StageGateResponse);
+        return;
+      }
+
+      const [transitions, pendingReview, criteria] = await Promise.all([
+        prisma.projectStageTransition.findMany({
+          where: { project_id: id },
+          include: {
+            performer: {
+              select: {
+                id: true,
+                name: true
+              }
+            }
+          },
+          orderBy: { transitioned_at: 'asc' }
+        }),
+        prisma.stageGateReview.findFirst({
+          where: { project_id: id, status: 'pending' },
+          include: reviewInclude
+        }),
+        SettingsService.get('stage_gate_criteria')
+      ]);
+
+      const currentStage = StageGateService.currentStage(project);
+      const nextStage = StageGateService.nextStage(currentStage);
+      const periods = StageGateService.buildPeriods(project, transitions);
+
+      res.json({
+        success: true,
+        message: 'Project stage retrieved successfully',
+        data: {
+          current_stage: currentStage,
+          entered_current_stage_at: periods[periods.length - 1].entered_at,
+          days_in_current_stage: periods[periods.length - 1].days,
+          next_stage: nextStage,
+          next_stage_criteria: nextStage ? criteria[nextStage] || [] : [],
+          pending_review: pendingReview,
+          periods,
+          transitions
+        }
+      } as StageGateResponse);
+
+    } catch (error) {
+      console.error('Get project stage error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as StageGateResponse);
+    }
+  }
+
+  /**
+   * Request advancement to the next stage (project team, Manager, Director)
+   */
+  static async requestAdvance(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { justification } = req.body;
+
+      const project = await StageGateController.findProject(id);
+
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          message: 'Project not found',
+          code: 'PROJECT_NOT_FOUND'
+        } as StageGateResponse);
+        return;
+      }
+
+      const isStaff = req.user?.role === 'manager' || req.user?.role === 'director';
+      const isMember = project.team.team_members.some(member => member.user_id === req.user?.userId);
+
+      if (!isStaff && !isMember) {
+        res.status(403).json({
+          success: false,
+          message: 'Only the project team can request stage advancement',
+          code: 'INSUFFICIENT_PERMISSIONS'
+        } as StageGateResponse);
+        return;
+      }
+
+      if (project.archived_at) {
+        res.status(400).json({
+          success: false,
+          message: 'Archived projects cannot be modified',
+          code: 'PROJECT_ARCHIVED'
+        } as StageGateResponse);
+        return;
+      }
+
+      const currentStage = StageGateService.currentStage(project);
+      const nextStage = StageGateService.nextStage(currentStage);
+
+      if (!nextStage) {
+        res.status(400).json({
+          success: false,
+          message: `Project is already at the final stage (${currentStage})`,
+          code: 'FINAL_STAGE'
+        } as StageGateResponse);
+        return;
+      }
+
+      const review = await prisma.$transaction(async (tx) => {
+        // Lock the project row so concurrent requests check for a pending review one at a time
+        await tx.$queryRaw`SELECT id FROM projects WHERE id = ${id} FOR UPDATE`;
+
+        const pending = await tx.stageGateReview.findFirst({
+          where: { project_id: id, status: 'pending' }
+        });
+
+        if (pending) {
+          return null;
+        }
+
+        return tx.stageGateReview.create({
+          data: {
+            project_id: id,
+            from_stage: currentStage,
+            to_stage: nextStage,
+            justification,
+            requested_by: req.user!.userId
+          },
+          include: reviewInclude
+        });
+      });
+
+      if (!review) {
+        res.status(400).json({
+          success: false,
+          message: 'A stage-gate review is already pending for this project',
+          code: 'REVIEW_PENDING'
+        } as StageGateResponse);
+        return;
+      }
+
+      // Assigned mentors review first; fall back to managers when the team has none
+      let reviewerIds = project.team.mentor_assignments.map(assignment => assignment.mentor.user_id);
+      if (reviewerIds.length === 0) {
+        const managers = await prisma.user.findMany({
+          where: { role: 'manager', status: 'active' },
+          select: { id: true }
+        });
+        reviewerIds = managers.map(manager => manager.id);
+      }
+
+      await StageGateController.notifyUsers(
+        reviewerIds,
+        req.user!.userId,
+        'Stage-gate review requested',
+        `${project.name} requests to move from ${currentStage} to ${nextStage}.`
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Stage advancement requested successfully',
+        data: { review }
+      } as StageGateResponse);
+
+    } catch (error) {
+      console.error('Request stage advance error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as StageGateResponse);
+    }
+  }
+
+  /**
+   * Withdraw a pending stage-gate request (requester, team leader, Manager, Director)
+   */
+  static async withdrawRequest(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, reviewId } = req.params;
+
+      const project = await StageGateController.findProject(id);
+      const review = project && await prisma.stageGateReview.findFirst({
+        where: { id: reviewId, project_id: id }
+      });
+
+      if (!project || !review) {
+        res.status(404).json({
+          success: false,
+          message: 'Stage-gate review not found',
+          code: 'REVIEW_NOT_FOUND'
+        } as StageGateResponse);
+        return;
+      }
+
+      const isStaff = req.user?.role === 'manager' || req.user?.role === 'director';
+      const isLeader = project.team.team_members.some(member =>
+        member.user_id === req.user?.userId && member.role === 'team_leader'
+      );
+
+      if (!isStaff && !isLeader && review.requested_by !== req.user?.userId) {
+        res.status(403).json({
+          success: false,
+          message: 'Access denied',
+          code: 'INSUFFICIENT_PERMISSIONS'
+        } as StageGateResponse);
+        return;
+      }
+
+      const result = await prisma.stageGateReview.updateMany({
+        where: { id: reviewId, status: 'pending' },
+        data: { status: 'withdrawn' }
+      });
+
+      if (result.count === 0) {
+        res.status(400).json({
+          success: false,
+          message: 'Only pending reviews can be withdrawn',
+          code: 'REVIEW_NOT_PENDING'
+        } as StageGateResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Stage-gate request withdrawn successfully'
+      } as StageGateResponse);
+
+    } catch (error) {
+      console.error('Withdraw stage request error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as StageGateResponse);
+    }
+  }
+
+  /**
+   * List stage-gate reviews (mentors see their assigned teams only)
+   */
+  static async getReviews(req: Request, res: Response): Promise<void> {
+    try {
+      const { page = 1, limit = 20, status } = req.query;
+
+      const pageNum = parseInt(page as string, 10);
+      const limitNum = parseInt(limit as string, 10);
+
+      const where: Prisma.StageGateReviewWhereInput = {
+        ...(status && { status: status as StageGateReviewStatus })
+      };
+
+      if (req.user?.role === 'mentor') {
+        where.project = {
+          team: {
+            mentor_assignments: {
+              some: { mentor: { user_id: req.user.userId } }
+            }
+          }
+        };
+      }
+
+      const [total, reviews] = await Promise.all([
+        prisma.stageGateReview.count({ where }),
+        prisma.stageGateReview.findMany({
+          where,
+          include: reviewInclude,
+          orderBy: { requested_at: 'desc' },
+          skip: (pageNum - 1) * limitNum,
+          take: limitNum
+        })
+      ]);
+
+      res.json({
+        success: true,
+        message: 'Stage-gate reviews retrieved successfully',
+        data: { reviews },
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          pages: Math.ceil(total / limitNum)
+        }
+      } as StageGateResponse);
+
+    } catch (error) {
+      console.error('Get stage reviews error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as StageGateResponse);
+    }
+  }
+
+  /**
+   * Approve or reject a stage-gate request against the target stage's criteria
+   * Approval requires every criterion to be met and moves the project in the same transaction
+   */
+  static async decideReview(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, reviewId } = req.params;
+      const { decision, criteria_results, notes } = req.body as {
+        decision: 'approved' | 'rejected';
+        criteria_results: Record<string, boolean>;
+        notes?: string;
+      };
+
+      const project = await StageGateController.findProject(id);
+      const review = project && await prisma.stageGateReview.findFirst({
+        where: { id: reviewId, project_id: id }
+      });
+
+      if (!project || !review) {
+        res.status(404).json({
+          success: false,
+          message: 'Stage-gate review not found',
+          code: 'REVIEW_NOT_FOUND'
+        } as StageGateResponse);
+        return;
+      }
+
+      // Mentors may only review teams they are assigned to
+      if (req.user?.role === 'mentor' &&
+        !project.team.mentor_assignments.some(assignment => assignment.mentor.user_id === req.user?.userId)) {
+        res.status(403).json({
+          success: false,
+          message: 'Only mentors assigned to this team can review it',
+          code: 'INSUFFICIENT_PERMISSIONS'
+        } as StageGateResponse);
+        return;
+      }
+
+      if (review.requested_by === req.user?.userId) {
+        res.status(403).json({
+          success: false,
+          message: 'You cannot decide a stage-gate review you requested',
+          code: 'SELF_REVIEW_NOT_ALLOWED'
+        } as StageGateResponse);
+        return;
+      }
+
+      if (review.status !== 'pending') {
+        res.status(400).json({
+          success: false,
+          message: `Review is already ${review.status}`,
+          code: 'REVIEW_NOT_PENDING'
+        } as StageGateResponse);
+        return;
+      }
+
+      const allCriteria = await SettingsService.get('stage_gate_criteria');
+      const criteria = allCriteria[review.to_stage] || [];
+      const errors = StageGateController.validateResults(criteria, criteria_results);
+
+      if (errors.length > 0) {
+        res.status(400).json({
+          success: false,
+          message: 'Criteria results do not match the stage criteria',
+          code: 'INVALID_CRITERIA_RESULTS',
+          data: { errors, criteria }
+        } as StageGateResponse);
+        return;
+      }
+
+      if (decision === 'approved' && criteria.some(criterion => !criteria_results[criterion.key])) {
+        res.status(400).json({
+          success: false,
+          message: 'Every criterion must be met to approve advancement',
+          code: 'CRITERIA_NOT_MET',
+          data: {
+            unmet: criteria.filter(criterion => !criteria_results[criterion.key])
+          }
+        } as StageGateResponse);
+        return;
+      }
+
+      let updated;
+
+      try {
+        updated = await prisma.$transaction(async (tx) => {
+          // Claim the review so concurrent decisions cannot both apply
+          const claimed = await tx.stageGateReview.updateMany({
+            where: { id: reviewId, status: 'pending' },
+            data: {
+              status: decision,
+              reviewed_by: req.user!.userId,
+              reviewed_at: new Date(),
+              criteria_results,
+              review_notes: notes || null
+            }
+          });
+
+          if (claimed.count === 0) {
+            return null;
+          }
+
+          if (decision === 'approved') {
+            // Only advance a project that is still where the request started
+            const advanced = await tx.project.updateMany({
+              where: { id, ...StageGateService.atStageWhere(review.from_stage) },
+              data: { current_stage: review.to_stage }
+            });
+
+            if (advanced.count === 0) {
+              throw new StageChangedError();
+            }
+
+            await tx.projectStageTransition.create({
+              data: {
+                project_id: id,
+                from_stage: review.from_stage,
+                to_stage: review.to_stage,
+                review_id: review.id,
+                performed_by: req.user!.userId
+              }
+            });
+          }
+
+          return tx.stageGateReview.findUnique({
+            where: { id: reviewId },
+            include: reviewInclude
+          });
+        });
+      } catch (error) {
+        if (error instanceof StageChangedError) {
+          res.status(409).json({
+            success: false,
+            message: `Project is no longer at ${review.from_stage}; this review can only be rejected`,
+            code: 'STAGE_CHANGED'
+          } as StageGateResponse);
+          return;
+        }
+        throw error;
+      }
+
+      if (!updated) {
+        res.status(400).json({
+          success: false,
+          message: 'Review has already been decided',
+          code: 'REVIEW_NOT_PENDING'
+        } as StageGateResponse);
+        return;
+      }
+
+      await StageGateController.notifyUsers(
+        project.team.team_members.map(member => member.user_id),
+        req.user!.userId,
+        decision === 'approved' ? 'Stage advancement approved' : 'Stage advancement rejected',
+        decision === 'approved'
+          ? `${project.name} has moved from ${review.from_stage} to ${review.to_stage}.`
+          : `${project.name} remains at ${review.from_stage}.${notes ? ` Reviewer notes: ${notes}` : ''}`
+      );
+
+      res.json({
+        success: true,
+        message: decision === 'approved' ? 'Stage advancement approved' : 'Stage advancement rejected',
+        data: { review: updated }
+      } as StageGateResponse);
+
+    } catch (error) {
+      console.error('Decide stage review error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as StageGateResponse);
+    }
+  }
+
+  /**
+   * Get stage-gate criteria for every stage
+   */
+  static async getCriteria(req: Request, res: Response): Promise<void> {
+    try {
+      res.json({
+        success: true,
+        message: 'Stage-gate criteria retrieved successfully',
+        data: { criteria: await SettingsService.get('stage_gate_criteria') }
+      } as StageGateResponse);
+
+    } catch (error) {
+      console.error('Get stage criteria error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as StageGateResponse);
+    }
+  }
+
+  /**
+   * Replace stage-gate criteria (decided reviews keep the results they were given)
+   */
+  static async updateCriteria(req: Request, res: Response): Promise<void> {
+    try {
+      const criteria = req.body as Record<string, { key: string; label: string }[]>;
+
+      await SettingsService.set('stage_gate_criteria', criteria, req.user!.userId);
+
+      res.json({
+        success: true,
+        message: 'Stage-gate criteria updated successfully',
+        data: { criteria }
+      } as StageGateResponse);
+
+    } catch (error) {
+      console.error('Update stage criteria error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as StageGateResponse);
+    }
+  }
+
+  /**
+   * Check that every criterion has a result and nothing else does
+   */
+  private static validateResults(criteria: { key: string; label: string }[], results: Record<string, boolean>): string[] {
+    const errors: string[] = [];
+    const keys = new Set(criteria.map(criterion => criterion.key));
+
+    for (const criterion of criteria) {
+      if (results[criterion.key] === undefined) {
+        errors.push(`Missing result for "${criterion.label}"`);
+      }
+    }
+
+    for (const key of Object.keys(results)) {
+      if (!keys.has(key)) {
+        errors.push(`Unknown criterion "${key}"`);
+      }
+    }
+
+    return errors;
+  }
+
+  private static async notifyUsers(userIds: string[], senderId: string, title: string, message: string): Promise<void> {
+    try {
+      await NotificationService.notifyUsers(userIds, senderId, title, message);
+    } catch (error) {
+      console.error('Failed to send stage-gate notifications:', error);
+    }
+  }
+
+  /**
+   * Load project with the membership data used by the permission checks
+   */
+  private static findProject(projectId: string) {
+    return prisma.project.findUnique({
+      where: { id: projectId },
+      include: {
+        team: {
+          select: {
+            team_members: {
+              select: {
+                user_id: true,
+                role: true
+              }
+            },
+            mentor_assignments: {
+              select: {
+                mentor: {
+                  select: {
+                    user_id: true
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Helper method to check if user can access a project
+   */
+  private static canAccessProject(user: any, project: any): boolean {
+    if (!user) return false;
+
+    switch (user.role) {
+      case 'director':
+        return true;
+      case 'manager':
+        return true;
+      case 'mentor':
+        return project.team?.mentor_assignments?.some((assignment: any) =>
+          assignment.mentor.user_id === user.userId
+        ) || false;
+      case 'incubator':
+        return project.team?.team_members?.some((member: any) =>
+          member.user_id === user.userId
+        ) || false;
+      default:
+        return false;
+    }
+  }
+}
@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
-import { Team, TeamMember, User, Prisma, TeamStatus } from '@prisma/client';
+import { Team, TeamMember, User, Prisma, TeamStatus, TeamMemberRole } from '@prisma/client';
 import prisma from '../config/database';
 import emailService from '../services/emailService';
+import { TeamTimelineService, TimelineEventType } from '../services/teamTimelineService';
 import { getTeamNotificationRecipients, getTeamLeaderEmail, getTeamMentorEmails } from '../utils/emailHelpers';
 import { PasswordUtils } from '../utils/password';
 
@@ -35,6 +36,7 @@ export class TeamController {
       const {
         status,
         search,
+        cohort_id,
         page = 1,
         limit = 10
       } = req.query;
@@ -77,6 +79,11 @@ export class TeamController {
         };
       }
 
+      // Cohort filter
+      if (cohort_id) {
+        where.cohort_id = cohort_id as string;
+      }
+
       // Search filter
       if (search) {
         where.OR = [
@@ -122,6 +129,13 @@ export class TeamController {
               }
             }
           },
+          cohort: {
+            select: {
+              id: true,
+              name: true,
+              program_type: true
+            }
+          },
           _count: {
             select: {
               team_members: true,
@@ -481,6 +495,16 @@ export class TeamController {
         normalizedStatus = status as TeamStatus;
       }
 
+      // An active team must have at least one leader
+      if (normalizedStatus === 'active' && existingTeam.status !== 'active' && !(await TeamController.hasTeamLeader(id))) {
+        res.status(400).json({
+          success: false,
+          message: 'Team must have at least one team leader before it can be activated',
+          code: 'TEAM_WITHOUT_LEADER'
+        } as TeamResponse);
+        return;
+      }
+
       // Prepare enrollment_date (convert string to DateTime if provided)
       let enrollmentDate: Date | null | undefined = undefined;
       if (enrollment_date !== undefined) {
@@ -670,6 +694,15 @@ export class TeamController {
         return;
       }
 
+      if (!(await TeamController.hasTeamLeader(id))) {
+        res.status(400).json({
+          success: false,
+          message: 'Team must have at least one team leader before it can be restored',
+          code: 'TEAM_WITHOUT_LEADER'
+        } as TeamResponse);
+        return;
+      }
+
       // Restore: set status to active and clear deactivation timestamp
       const restoredTeam = await prisma.team.update({
         where: { id },
@@ -864,7 +897,7 @@ export class TeamController {
   static async addMember(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const { name, email } = req.body;
+      const { name, email, role = 'member' } = req.body as { name: string; email: string; role?: TeamMemberRole };
 
       // Validate input
       if (!name || !email) {
@@ -937,7 +970,7 @@ export class TeamController {
         data: {
           team_id: id,
           user_id: newUser.id,
-          role: 'member'
+          role
         },
         include: {
           user: {
@@ -951,6 +984,11 @@ export class TeamController {
         }
       });
 
+      await TeamController.createTeamHistory(id, 'member_added', req.user!.userId, {
+        userId: newUser.id,
+        newValue: { role }
+      });
+
       // Send member added emails
       try {
         const teamLeader = await getTeamLeaderEmail(id);
@@ -964,7 +1002,7 @@ export class TeamController {
           templateData: {
             memberName: name,
             memberEmail: email,
-            memberRole: 'Member',
+            memberRole: role === 'team_leader' ? 'Team Leader' : 'Member',
             teamName: team.team_name,
             companyName: team.company_name || '',
             teamLeaderName: teamLeader ? (await prisma.user.findUnique({ where: { email: teamLeader }, select: { name: true } }))?.name : '',
@@ -985,7 +1023,7 @@ export class TeamController {
             templateData: {
               memberName: name,
               memberEmail: email,
-              memberRole: 'Member',
+              memberRole: role === 'team_leader' ? 'Team Leader' : 'Member',
               teamName: team.team_name,
               companyName: team.company_name || '',
               appUrl,
@@ -1067,18 +1105,45 @@ export class TeamController {
         return;
       }
 
-      // Cannot remove team leader
-      if (member.role === 'team_leader') {
+      // A leader can only be removed while another leader remains; the team row lock keeps
+      // concurrent removals and demotions from each seeing the other leader and both going ahead
+      const removed = await prisma.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT id FROM teams WHERE id = ${id} FOR UPDATE`;
+
+        // Re-read the role under the lock; it may have changed since the checks above
+        const current = await tx.teamMember.findUnique({
+          where: { id: memberId },
+          select: { role: true }
+        });
+
+        if (current?.role === 'team_leader') {
+          const leaderCount = await tx.teamMember.count({
+            where: { team_id: id, role: 'team_leader' }
+          });
+          if (leaderCount <= 1) {
+            return false;
+          }
+        }
+
+        // Remove member from team
+        await tx.teamMember.delete({
+          where: { id: memberId }
+        });
+        return true;
+      });
+
+      if (!removed) {
         res.status(400).json({
           success: false,
-          message: 'Cannot remove team leader'
+          message: 'Cannot remove the only team leader. Transfer leadership first.',
+          code: 'LAST_TEAM_LEADER'
         });
         return;
       }
 
-      // Remove member from team
-      await prisma.teamMember.delete({
-        where: { id: memberId }
+      await TeamController.createTeamHistory(id, 'member_removed', req.user!.userId, {
+        userId: member.user_id,
+        oldValue: { role: member.role }
       });
 
       res.json({
@@ -1095,6 +1160,578 @@ export class TeamController {
     }
   }
 
+  /**
+   * Change a team member's role (team_leader or member)
+   */
+  static async changeMemberRole(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, memberId } = req.params;
+      const { role } = req.body as { role: TeamMemberRole };
+
+      const team = await prisma.team.findUnique({
+        where: { id }
+      });
+
+      if (!team) {
+        res.status(404).json({
+          success: false,
+          message: 'Team not found'
+        } as TeamResponse);
+        return;
+      }
+
+      if (!(await TeamController.canManageMembers(req.user, id))) {
+        res.status(403).json({
+          success: false,
+          message: 'Only team leaders, managers and directors can change member roles'
+        } as TeamResponse);
+        return;
+      }
+
+      const member = await prisma.teamMember.findFirst({
+        where: {
+          id: memberId,
+          team_id: id
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true
+            }
+          }
+        }
+      });
+
+      if (!member) {
+        res.status(404).json({
+          success: false,
+          message: 'Member not found in this team'
+        } as TeamResponse);
+        return;
+      }
+
+      if (member.role === role) {
+        res.status(400).json({
+          success: false,
+          message: 'Member already has this role',
+          code: 'ROLE_UNCHANGED'
+        } as TeamResponse);
+        return;
+      }
+
+      // Demotion and leader count are checked together, under the team row lock, so the team never ends up without a leader
+      const updatedMember = await prisma.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT id FROM teams WHERE id = ${id} FOR UPDATE`;
+
+        if (role === 'member') {
+          const leaderCount = await tx.teamMember.count({
+            where: { team_id: id, role: 'team_leader' }
+          });
+          if (leaderCount <= 1) {
+            return null;
+          }
+        }
+
+        return tx.teamMember.update({
+          where: { id: memberId },
+          data: { role },
+          include: {
+            user: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+                role: true
+              }
+            }
+          }
+        });
+      });
+
+      if (!updatedMember) {
+        res.status(400).json({
+          success: false,
+          message: 'A team must keep at least one leader. Transfer leadership first.',
+          code: 'LAST_TEAM_LEADER'
+        } as TeamResponse);
+        return;
+      }
+
+      await TeamController.createTeamHistory(id, 'role_changed', req.user!.userId, {
+        userId: member.user_id,
+        oldValue: { role: member.role },
+        newValue: { role }
+      });
+
+      await TeamController.sendRoleChangeEmails(team, req.user!.userId, [
+        { user: member.user, previousRole: member.role, newRole: role }
+      ]);
+
+      res.json({
+        success: true,
+        message: 'Member role updated successfully',
+        data: { teamMember: updatedMember }
+      } as TeamResponse);
+
+    } catch (error) {
+      console.error('Change member role error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as TeamResponse);
+    }
+  }
+
+  /**
+   * Hand leadership to another member in one step
+   * The outgoing leader becomes a member unless keep_leadership is set
+   */
+  static async transferLeadership(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { to_member_id, from_member_id, keep_leadership } = req.body as {
+        to_member_id: string;
+        from_member_id?: string;
+        keep_leadership: boolean;
+      };
+
+      const team = await prisma.team.findUnique({
+        where: { id }
+      });
+
+      if (!team) {
+        res.status(404).json({
+          success: false,
+          message: 'Team not found'
+        } as TeamResponse);
+        return;
+      }
+
+      if (!(await TeamController.canManageMembers(req.user, id))) {
+        res.status(403).json({
+          success: false,
+          message: 'Only team leaders, managers and directors can transfer leadership'
+        } as TeamResponse);
+        return;
+      }
+
+      const isStaff = req.user?.role === 'manager' || req.user?.role === 'director';
+      const memberInclude = {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true
+          }
+        }
+      };
+
+      // Outgoing leader: the one named, the caller when they lead the team, or the team's only leader
+      let fromMember;
+      if (from_member_id) {
+        fromMember = await prisma.teamMember.findFirst({
+          where: { id: from_member_id, team_id: id },
+          include: memberInclude
+        });
+      } else if (!isStaff) {
+        fromMember = await prisma.teamMember.findFirst({
+          where: { team_id: id, user_id: req.user!.userId },
+          include: memberInclude
+        });
+      } else {
+        const leaders = await prisma.teamMember.findMany({
+          where: { team_id: id, role: 'team_leader' },
+          include: memberInclude
+        });
+        if (leaders.length > 1) {
+          res.status(400).json({
+            success: false,
+            message: 'This team has several leaders; specify from_member_id',
+            code: 'FROM_MEMBER_REQUIRED'
+          } as TeamResponse);
+          return;
+        }
+        fromMember = leaders[0];
+      }
+
+      if (!fromMember || fromMember.role !== 'team_leader') {
+        res.status(400).json({
+          success: false,
+          message: 'Outgoing member is not a leader of this team',
+          code: 'NOT_TEAM_LEADER'
+        } as TeamResponse);
+        return;
+      }
+
+      // Team leaders can only hand over their own leadership
+      if (!isStaff && fromMember.user_id !== req.user!.userId) {
+        res.status(403).json({
+          success: false,
+          message: 'You can only transfer your own leadership'
+        } as TeamResponse);
+        return;
+      }
+
+      const toMember = await prisma.teamMember.findFirst({
+        where: { id: to_member_id, team_id: id },
+        include: memberInclude
+      });
+
+      if (!toMember) {
+        res.status(404).json({
+          success: false,
+          message: 'New leader is not a member of this team'
+        } as TeamResponse);
+        return;
+      }
+
+      if (toMember.role === 'team_leader') {
+        res.status(400).json({
+          success: false,
+          message: 'Member is already a team leader',
+          code: 'ALREADY_TEAM_LEADER'
+        } as TeamResponse);
+        return;
+      }
+
+      await prisma.$transaction([
+        prisma.teamMember.update({
+          where: { id: toMember.id },
+          data: { role: 'team_leader' }
+        }),
+        ...(keep_leadership ? [] : [
+          prisma.teamMember.update({
+            where: { id: fromMember.id },
+            data: { role: 'member' }
+          })
+        ])
+      ]);
+
+      await TeamController.createTeamHistory(id, 'leadership_transferred', req.user!.userId, {
+        userId: toMember.user_id,
+        oldValue: { leader_user_id: fromMember.user_id },
+        newValue: { leader_user_id: toMember.user_id, previous_leader_kept: keep_leadership }
+      });
+
+      await TeamController.sendRoleChangeEmails(team, req.user!.userId, [
+        { user: toMember.user, previousRole: 'member', newRole: 'team_leader' },
+        ...(keep_leadership ? [] : [
+          { user: fromMember.user, previousRole: 'team_leader' as TeamMemberRole, newRole: 'member' as TeamMemberRole }
+        ])
+      ]);
+
+      const members = await prisma.teamMember.findMany({
+        where: { team_id: id },
+        include: memberInclude,
+        orderBy: { joined_at: 'asc' }
+      });
+
+      res.json({
+        success: true,
+        message: 'Team leadership transferred successfully',
+        data: { members }
+      } as TeamResponse);
+
+    } catch (error) {
+      console.error('Transfer leadership error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as TeamResponse);
+    }
+  }
+
+  /**
+   * Get team history log (membership and leadership changes)
+   */
+  static async getTeamHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { page = 1, limit = 20 } = req.query;
+
+      const pageNum = parseInt(page as string, 10);
+      const limitNum = parseInt(limit as string, 10);
+
+      const team = await prisma.team.findUnique({
+        where: { id }
+      });
+
+      if (!team) {
+        res.status(404).json({
+          success: false,
+          message: 'Team not found'
+        } as TeamResponse);
+        return;
+      }
+
+      if (!TeamController.canAccessTeam(req.user, team)) {
+        res.status(403).json({
+          success: false,
+          message: 'Access denied'
+        } as TeamResponse);
+        return;
+      }
+
+      const [total, history] = await Promise.all([
+        prisma.teamHistory.count({ where: { team_id: id } }),
+        prisma.teamHistory.findMany({
+          where: { team_id: id },
+          include: {
+            member: {
+              select: {
+                id: true,
+                name: true,
+                email: true
+              }
+            },
+            performer: {
+              select: {
+                id: true,
+                name: true,
+                role: true
+              }
+            }
+          },
+          orderBy: { performed_at: 'desc' },
+          skip: (pageNum - 1) * limitNum,
+          take: limitNum
+        })
+      ]);
+
+      res.json({
+        success: true,
+        message: 'Team history retrieved successfully',
+        data: { history },
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          pages: Math.ceil(total / limitNum)
+        }
+      } as TeamResponse);
+
+    } catch (error) {
+      console.error('Get team history error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as TeamResponse);
+    }
+  }
+
+  /**
+   * Get team activity timeline merged from requests, inventory, consumption,
+   * mentor assignments, project files and membership changes
+   */
+  static async getTeamTimeline(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { page = 1, limit = 20, types, from, to } = req.query;
+
+      const pageNum = parseInt(page as string, 10);
+      const limitNum = parseInt(limit as string, 10);
+
+      const team = await prisma.team.findUnique({
+        where: { id }
+      });
+
+      if (!team) {
+        res.status(404).json({
+          success: false,
+          message: 'Team not found'
+        } as TeamResponse);
+        return;
+      }
+
+      // Same access rule as getTeamById
+      if (!TeamController.canAccessTeam(req.user, team)) {
+        res.status(403).json({
+          success: false,
+          message: 'Access denied'
+        } as TeamResponse);
+        return;
+      }
+
+      const { events, total } = await TeamTimelineService.getTimeline(id, {
+        types: types ? (types as string).split(',') as TimelineEventType[] : undefined,
+        from: from ? new Date(from as string) : undefined,
+        to: to ? new Date(to as string) : undefined,
+        page: pageNum,
+        limit: limitNum
+      });
+
+      res.json({
+        success: true,
+        message: 'Team timeline retrieved successfully',
+        data: { events },
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          pages: Math.ceil(total / limitNum)
+        }
+      } as TeamResponse);
+
+    } catch (error) {
+      console.error('Get team timeline error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as TeamResponse);
+    }
+  }
+
+  /**
+   * List active and pending teams that have no leader - Manager/Director only
+   */
+  static async getTeamsWithoutLeader(req: Request, res: Response): Promise<void> {
+    try {
+      const teams = await prisma.team.findMany({
+        where: {
+          status: { not: 'inactive' },
+          team_members: {
+            none: { role: 'team_leader' }
+          }
+        },
+        select: {
+          id: true,
+          team_name: true,
+          company_name: true,
+          status: true,
+          _count: {
+            select: {
+              team_members: true
+            }
+          }
+        },
+        orderBy: { team_name: 'asc' }
+      });
+
+      res.json({
+        success: true,
+        message: teams.length > 0
+          ? `${teams.length} team(s) have no leader`
+          : 'Every active team has a leader',
+        data: { teams }
+      } as TeamResponse);
+
+    } catch (error) {
+      console.error('Get teams without leader error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as TeamResponse);
+    }
+  }
+
+  /**
+   * Create team history entry for audit trail
+   */
+  private static async createTeamHistory(
+    teamId: string,
+    action: string,
+    performedBy: string,
+    entry: { userId?: string; oldValue?: any; newValue?: any; notes?: string } = {}
+  ): Promise<void> {
+    try {
+      await prisma.teamHistory.create({
+        data: {
+          team_id: teamId,
+          action,
+          user_id: entry.userId,
+          performed_by: performedBy,
+          old_value: entry.oldValue ? entry.oldValue : undefined,
+          new_value: entry.newValue ? entry.newValue : undefined,
+          notes: entry.notes
+        }
+      });
+    } catch (error) {
+      console.error('Failed to create team history:', error);
+      // Don't throw - history is not critical for team operations
+    }
+  }
+
+  /**
+   * Email members whose team role changed
+   */
+  private static async sendRoleChangeEmails(
+    team: Team,
+    changedById: string,
+    changes: { user: { name: string; email: string }; previousRole: TeamMemberRole; newRole: TeamMemberRole }[]
+  ): Promise<void> {
+    try {
+      const roleLabel = (role: TeamMemberRole) => role === 'team_leader' ? 'Team Leader' : 'Member';
+      const [changedBy, teamLeader] = await Promise.all([
+        prisma.user.findUnique({ where: { id: changedById }, select: { name: true } }),
+        prisma.teamMember.findFirst({
+          where: { team_id: team.id, role: 'team_leader' },
+          include: { user: { select: { name: true, email: true } } },
+          orderBy: { joined_at: 'asc' }
+        })
+      ]);
+      const appUrl = process.env.FRONTEND_URL || process.env.APP_URL || 'http://localhost:3000';
+
+      for (const change of changes) {
+        await emailService.sendEmail({
+          to: change.user.email,
+          subject: `Your role in ${team.team_name} has changed`,
+          template: 'team/member-role-changed',
+          templateData: {
+            memberName: change.user.name,
+            teamName: team.team_name,
+            companyName: team.company_name || '',
+            previousRole: roleLabel(change.previousRole),
+            memberRole: roleLabel(change.newRole),
+            changedBy: changedBy?.name || '',
+            teamLeaderName: teamLeader?.user.name || '',
+            teamLeaderEmail: teamLeader?.user.email || '',
+            appUrl,
+            currentYear: new Date().getFullYear(),
+            subject: `Your role in ${team.team_name} has changed`
+          }
+        });
+      }
+    } catch (emailError) {
+      console.error('Failed to send member role changed emails:', emailError);
+      // Don't fail the role change if email fails
+    }
+  }
+
+  /**
+   * Helper method to check if a team has at least one leader
+   */
+  private static async hasTeamLeader(teamId: string): Promise<boolean> {
+    const leaderCount = await prisma.teamMember.count({
+      where: { team_id: teamId, role: 'team_leader' }
+    });
+
+    return leaderCount > 0;
+  }
+
+  /**
+   * Helper method to check if user can manage a team's members
+   * Managers and directors always can; incubators only when they lead the team
+   */
+  private static async canManageMembers(user: any, teamId: string): Promise<boolean> {
+    if (!user) return false;
+
+    if (user.role === 'manager' || user.role === 'director') {
+      return true;
+    }
+
+    const leadership = await prisma.teamMember.findFirst({
+      where: {
+        team_id: teamId,
+        user_id: user.userId,
+        role: 'team_leader'
+      }
+    });
+
+    return !!leadership;
+  }
+
   /**
    * Helper method to check if user can access a team
    */
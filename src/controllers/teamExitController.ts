@@ -0,0 +1,522 @@
+import { Request, Response } from 'express';
+import { Prisma, TeamExitStatus, TeamExitType } from '@prisma/client';
+import prisma from '../config/database';
+import { NotificationService } from '../services/notificationService';
+
+interface TeamExitResponse {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: any;
+  pagination?: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+interface ChecklistItem {
+  key: string;
+  label: string;
+  blocking: boolean;
+  passed: boolean;
+  details?: any;
+}
+
+// Reservations in these states still hold stock for the team
+const ACTIVE_RESERVATION_STATUSES = ['pending', 'confirmed'];
+
+// Material requests that are still moving through the workflow
+const OPEN_REQUEST_STATUSES = ['draft', 'submitted', 'pending_review', 'approved', 'partially_approved', 'ordered', 'in_transit'] as const;
+
+const EXIT_TYPE_LABELS: Record<TeamExitType, string> = {
+  graduated: 'graduated',
+  dropped_out: 'dropped out',
+  transferred: 'transferred'
+};
+
+interface ExitChecklist {
+  items: ChecklistItem[];
+  can_complete: boolean;
+}
+
+// Thrown inside the completion transaction to roll back the claim when the checklist fails
+class ExitChecklistIncompleteError extends Error {
+  constructor(public checklist: ExitChecklist) {
+    super('Exit checklist is incomplete');
+  }
+}
+
+export class TeamExitController {
+  /**
+   * Build the exit checklist from the team's current state
+   * Unreturned inventory and active reservations block completion
+   */
+  private static async buildChecklist(
+    teamId: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<ExitChecklist> {
+    const [unreturned, reservations, openRequests, projects] = await Promise.all([
+      client.inventoryAssignment.findMany({
+        where: { team_id: teamId, returned_at: null },
+        select: {
+          id: true,
+          quantity: true,
+          assigned_at: true,
+          expected_return: true,
+          item: { select: { id: true, name: true } }
+        }
+      }),
+      client.inventoryReservation.findMany({
+        where: { team_id: teamId, status: { in: ACTIVE_RESERVATION_STATUSES } },
+        select: {
+          id: true,
+          quantity: true,
+          status: true,
+          reserved_until: true,
+          item: { select: { id: true, name: true } }
+        }
+      }),
+      client.materialRequest.findMany({
+        where: { team_id: teamId, status: { in: [...OPEN_REQUEST_STATUSES] } },
+        select: { id: true, request_number: true, title: true, status: true }
+      }),
+      client.project.findMany({
+        where: { team_id: teamId },
+        select: { id: true, name: true, status: true, archived_at: true }
+      })
+    ]);
+
+    const items: ChecklistItem[] = [
+      {
+        key: 'inventory_returned',
+        label: 'All assigned inventory has been returned',
+        blocking: true,
+        passed: unreturned.length === 0,
+        details: { outstanding: unreturned }
+      },
+      {
+        key: 'reservations_cleared',
+        label: 'No active inventory reservations',
+        blocking: true,
+        passed: reservations.length === 0,
+        details: { active: reservations }
+      },
+      {
+        key: 'requests_closed',
+        label: 'No open material requests',
+        blocking: false,
+        passed: openRequests.length === 0,
+        details: { open: openRequests }
+      },
+      {
+        key: 'projects_archived',
+        label: 'Projects archived (done automatically on completion)',
+        blocking: false,
+        passed: projects.every(project => project.archived_at),
+        details: { projects }
+      }
+    ];
+
+    return {
+      items,
+      can_complete: items.every(item => !item.blocking || item.passed)
+    };
+  }
+
+  /**
+   * Build the exit summary report stored on the exit record
+   */
+  private static async buildSummary(
+    teamId: string,
+    completedAt: Date,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<any> {
+    const team = await client.team.findUnique({
+      where: { id: teamId },
+      include: {
+        cohort: { select: { id: true, name: true, program_type: true } },
+        team_members: {
+          include: { user: { select: { id: true, name: true, email: true } } }
+        },
+        mentor_assignments: {
+          include: {
+            mentor: { include: { user: { select: { id: true, name: true, email: true } } } }
+          }
+        },
+        projects: {
+          select: { id: true, name: true, category: true, status: true, progress: true }
+        },
+        inventory_assignments: {
+          select: { quantity: true, returned_at: true, return_condition: true }
+        },
+        consumption_logs: { select: { quantity: true } },
+        material_requests: { select: { status: true } }
+      }
+    });
+
+    if (!team) {
+      return null;
+    }
+
+    const startedAt = team.enrollment_date || team.created_at;
+    const countBy = <T extends string>(values: T[]) =>
+      values.reduce((acc, value) => ({ ...acc, [value]: (acc[value] || 0) + 1 }), {} as Record<string, number>);
+
+    return {
+      team: {
+        id: team.id,
+        team_name: team.team_name,
+        company_name: team.company_name,
+        enrollment_date: team.enrollment_date,
+        cohort: team.cohort
+      },
+      duration_days: Math.floor((completedAt.getTime() - startedAt.getTime()) / (1000 * 60 * 60 * 24)),
+      members: team.team_members.map(member => ({ ...member.user, role: member.role })),
+      mentors: team.mentor_assignments.map(assignment => assignment.mentor.user),
+      projects: {
+        total: team.projects.length,
+        by_status: countBy(team.projects.map(project => project.status)),
+        items: team.projects
+      },
+      inventory: {
+        total_assignments: team.inventory_assignments.length,
+        items_returned: team.inventory_assignments.filter(a => a.returned_at).reduce((sum, a) => sum + a.quantity, 0),
+        returned_damaged: team.inventory_assignments.filter(a => a.return_condition === 'Damaged').length,
+        consumables_used: team.consumption_logs.reduce((sum, c) => sum + c.quantity, 0)
+      },
+      material_requests: {
+        total: team.material_requests.length,
+        by_status: countBy(team.material_requests.map(request => request.status))
+      }
+    };
+  }
+
+  /**
+   * Start the exit workflow for a team
+   */
+  static async initiateExit(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { exit_type, reason, notes } = req.body;
+
+      const team = await prisma.team.findUnique({
+        where: { id },
+        include: {
+          exits: {
+            where: { status: { in: ['in_progress', 'completed'] } },
+            select: { id: true, status: true }
+          }
+        }
+      });
+
+      if (!team) {
+        res.status(404).json({
+          success: false,
+          message: 'Team not found',
+          code: 'TEAM_NOT_FOUND'
+        } as TeamExitResponse);
+        return;
+      }
+
+      const openExit = team.exits.find(exit => exit.status === 'in_progress');
+      if (openExit) {
+        res.status(400).json({
+          success: false,
+          message: 'An exit is already in progress for this team',
+          code: 'EXIT_IN_PROGRESS',
+          data: { exit_id: openExit.id }
+        } as TeamExitResponse);
+        return;
+      }
+
+      if (team.status === 'inactive' && team.exits.some(exit => exit.status === 'completed')) {
+        res.status(400).json({
+          success: false,
+          message: 'Team has already exited the program',
+          code: 'TEAM_ALREADY_EXITED'
+        } as TeamExitResponse);
+        return;
+      }
+
+      const exit = await prisma.teamExit.create({
+        data: {
+          team_id: id,
+          exit_type,
+          reason,
+          notes: notes || null,
+          initiated_by: req.user!.userId
+        }
+      });
+
+      const checklist = await TeamExitController.buildChecklist(id);
+
+      res.status(201).json({
+        success: true,
+        message: 'Team exit started',
+        data: { exit, checklist }
+      } as TeamExitResponse);
+
+    } catch (error) {
+      console.error('Initiate team exit error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as TeamExitResponse);
+    }
+  }
+
+  /**
+   * Get the team's latest exit with a live checklist while it is in progress
+   */
+  static async getExit(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const exit = await prisma.teamExit.findFirst({
+        where: { team_id: id, status: { not: 'cancelled' } },
+        include: {
+          initiator: { select: { id: true, name: true, email: true } },
+          completer: { select: { id: true, name: true, email: true } }
+        },
+        orderBy: { initiated_at: 'desc' }
+      });
+
+      if (!exit) {
+        res.status(404).json({
+          success: false,
+          message: 'No exit found for this team',
+          code: 'EXIT_NOT_FOUND'
+        } as TeamExitResponse);
+        return;
+      }
+
+      const checklist = exit.status === 'in_progress'
+        ? await TeamExitController.buildChecklist(id)
+        : null;
+
+      res.json({
+        success: true,
+        message: 'Team exit retrieved successfully',
+        data: { exit, checklist }
+      } as TeamExitResponse);
+
+    } catch (error) {
+      console.error('Get team exit error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as TeamExitResponse);
+    }
+  }
+
+  /**
+   * Complete the exit: re-check the checklist, archive projects, deactivate the team
+   * and store the exit summary for directors
+   */
+  static async completeExit(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const exit = await prisma.teamExit.findFirst({
+        where: { team_id: id, status: 'in_progress' },
+        include: { team: { select: { team_name: true } } }
+      });
+
+      if (!exit) {
+        res.status(404).json({
+          success: false,
+          message: 'No exit in progress for this team',
+          code: 'EXIT_NOT_FOUND'
+        } as TeamExitResponse);
+        return;
+      }
+
+      const completedAt = new Date();
+      let completed;
+
+      try {
+        completed = await prisma.$transaction(async (tx) => {
+          // Claim the exit first; a concurrent completion or cancellation now waits on this row
+          const claimed = await tx.teamExit.updateMany({
+            where: { id: exit.id, status: 'in_progress' },
+            data: {
+              status: 'completed',
+              completed_by: req.user!.userId,
+              completed_at: completedAt
+            }
+          });
+
+          if (claimed.count === 0) {
+            return null;
+          }
+
+          const checklist = await TeamExitController.buildChecklist(id, tx);
+          if (!checklist.can_complete) {
+            throw new ExitChecklistIncompleteError(checklist);
+          }
+
+          await tx.project.updateMany({
+            where: { team_id: id, archived_at: null },
+            data: { archived_at: completedAt }
+          });
+
+          await tx.team.update({
+            where: { id },
+            data: { status: 'inactive', deactivated_at: completedAt }
+          });
+
+          // Snapshot after archiving so the summary reflects the final state
+          const summary = await TeamExitController.buildSummary(id, completedAt, tx);
+
+          return tx.teamExit.update({
+            where: { id: exit.id },
+            data: { summary }
+          });
+        }, { timeout: 30000 });
+      } catch (error) {
+        if (error instanceof ExitChecklistIncompleteError) {
+          res.status(400).json({
+            success: false,
+            message: 'Exit checklist is incomplete: return all inventory and clear active reservations first',
+            code: 'EXIT_CHECKLIST_INCOMPLETE',
+            data: { checklist: error.checklist }
+          } as TeamExitResponse);
+          return;
+        }
+        throw error;
+      }
+
+      if (!completed) {
+        res.status(409).json({
+          success: false,
+          message: 'This exit was completed or cancelled by someone else',
+          code: 'EXIT_ALREADY_CLOSED'
+        } as TeamExitResponse);
+        return;
+      }
+
+      await TeamExitController.notifyDirectors(
+        req.user!.userId,
+        'Team Exit Completed',
+        `${exit.team.team_name} has ${EXIT_TYPE_LABELS[exit.exit_type]}. The exit summary report is available.`
+      );
+
+      res.json({
+        success: true,
+        message: 'Team exit completed',
+        data: { exit: completed }
+      } as TeamExitResponse);
+
+    } catch (error) {
+      console.error('Complete team exit error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as TeamExitResponse);
+    }
+  }
+
+  /**
+   * Cancel an exit that is still in progress
+   */
+  static async cancelExit(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const { count } = await prisma.teamExit.updateMany({
+        where: { team_id: id, status: 'in_progress' },
+        data: { status: 'cancelled', cancelled_at: new Date() }
+      });
+
+      if (count === 0) {
+        res.status(404).json({
+          success: false,
+          message: 'No exit in progress for this team',
+          code: 'EXIT_NOT_FOUND'
+        } as TeamExitResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Team exit cancelled'
+      } as TeamExitResponse);
+
+    } catch (error) {
+      console.error('Cancel team exit error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as TeamExitResponse);
+    }
+  }
+
+  /**
+   * List team exits with their summary reports (Director)
+   */
+  static async getExits(req: Request, res: Response): Promise<void> {
+    try {
+      const { exit_type, status, page = 1, limit = 20 } = req.query;
+
+      const pageNum = parseInt(page as string, 10);
+      const limitNum = parseInt(limit as string, 10);
+
+      const where: Prisma.TeamExitWhereInput = {
+        ...(exit_type && { exit_type: exit_type as TeamExitType }),
+        ...(status && { status: status as TeamExitStatus })
+      };
+
+      const [total, exits] = await Promise.all([
+        prisma.teamExit.count({ where }),
+        prisma.teamExit.findMany({
+          where,
+          include: {
+            team: { select: { id: true, team_name: true, company_name: true, cohort_id: true } },
+            initiator: { select: { id: true, name: true } },
+            completer: { select: { id: true, name: true } }
+          },
+          orderBy: { initiated_at: 'desc' },
+          skip: (pageNum - 1) * limitNum,
+          take: limitNum
+        })
+      ]);
+
+      res.json({
+        success: true,
+        message: 'Team exits retrieved successfully',
+        data: { exits },
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          pages: Math.ceil(total / limitNum)
+        }
+      } as TeamExitResponse);
+
+    } catch (error) {
+      console.error('Get team exits error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as TeamExitResponse);
+    }
+  }
+
+  /**
+   * Notify all active directors; failures never fail the request
+   */
+  private static async notifyDirectors(senderId: string, title: string, message: string): Promise<void> {
+    try {
+      const directors = await prisma.user.findMany({
+        where: { role: 'director', status: 'active' },
+        select: { id: true }
+      });
+
+      await NotificationService.notifyUsers(directors.map(director => director.id), senderId, title, message);
+    } catch (error) {
+      console.error('Failed to notify directors of team exit:', error);
+    }
+  }
+}
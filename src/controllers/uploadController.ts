@@ -1,12 +1,17 @@
 import { Request, Response } from 'express';
+import path from 'path';
+import { FileAccessAction, Prisma } from '@prisma/client';
 import prisma from '../config/database';
 import { validateFile, generateFileMetadata, cleanupFile, getFileUrl } from '../middleware/upload';
-import { FileService } from '../services/fileService';
+import { FileService, TEMPORARY_UPLOAD_TTL_HOURS, THUMBNAIL_SIZES, ThumbnailSize } from '../services/fileService';
+import { FileShareLinkService } from '../services/fileShareLinkService';
+import { StorageQuotaService } from '../services/storageQuotaService';
 
 interface UploadResponse {
   success: boolean;
   message: string;
   data?: any;
+  code?: string;
 }
 
 export class UploadController {
@@ -77,7 +82,9 @@ export class UploadController {
 
         if (validation.valid) {
           const fileMetadata = generateFileMetadata(file);
-          uploadedFiles.push(fileMetadata);
+          uploadedFiles.push(file.mimetype.startsWith('image/')
+            ? { ...fileMetadata, thumbnails: await FileService.generateUploadThumbnails(file) }
+            : fileMetadata);
         } else {
           // Clean up invalid files
           await cleanupFile(file.path);
@@ -164,33 +171,14 @@ export class UploadController {
       }
 
       const files = req.files as Express.Multer.File[];
-      const uploadedFiles: any[] = [];
+      const validFiles: Express.Multer.File[] = [];
       const errors: string[] = [];
 
       for (const file of files) {
         const validation = validateFile(file);
 
         if (validation.valid) {
-          // Create project file record
-          const projectFile = await prisma.projectFile.create({
-            data: {
-              project_id: projectId,
-              file_name: file.originalname,
-              file_path: getFileUrl(file),
-              file_type: file.mimetype,
-              file_size: file.size,
-              uploaded_by: req.user!.userId
-            }
-          });
-
-          uploadedFiles.push({
-            id: projectFile.id,
-            file_name: projectFile.file_name,
-            file_path: projectFile.file_path,
-            file_type: projectFile.file_type,
-            file_size: projectFile.file_size,
-            uploaded_at: projectFile.uploaded_at
-          });
+          validFiles.push(file);
         } else {
           // Clean up invalid files
           await cleanupFile(file.path);
@@ -198,7 +186,7 @@ export class UploadController {
         }
       }
 
-      if (uploadedFiles.length === 0) {
+      if (validFiles.length === 0) {
         res.status(400).json({
           success: false,
           message: 'No valid files uploaded',
@@ -207,13 +195,63 @@ export class UploadController {
         return;
       }
 
+      // The whole batch is rejected if it doesn't fit in the team's or uploader's quota
+      const { allowed, quota, stored } = await StorageQuotaService.storeWithinQuota(
+        req.user!.userId,
+        validFiles.reduce((sum, file) => sum + file.size, 0),
+        project.team_id,
+        async (tx) => {
+          const created = [];
+          for (const file of validFiles) {
+            // Create project file record
+            created.push(await tx.projectFile.create({
+              data: {
+                project_id: projectId,
+                file_name: file.originalname,
+                file_path: getFileUrl(file),
+                file_type: file.mimetype,
+                file_size: file.size,
+                uploaded_by: req.user!.userId
+              }
+            }));
+          }
+          return created;
+        }
+      );
+
+      if (!allowed) {
+        for (const file of validFiles) {
+          await cleanupFile(file.path);
+        }
+        res.status(413).json({
+          success: false,
+          ...StorageQuotaService.exceededError(quota)
+        } as UploadResponse);
+        return;
+      }
+
+      const uploadedFiles = stored.map(projectFile => ({
+        id: projectFile.id,
+        file_name: projectFile.file_name,
+        file_path: projectFile.file_path,
+        file_type: projectFile.file_type,
+        file_size: projectFile.file_size,
+        uploaded_at: projectFile.uploaded_at
+      }));
+
+      await StorageQuotaService.sendWarnings(quota, req.user!.userId, project.team_id);
+
       res.json({
         success: true,
         message: `${uploadedFiles.length} file(s) uploaded to project successfully${errors.length > 0 ? `, ${errors.length} failed` : ''}`,
         data: {
           project_id: projectId,
           files: uploadedFiles,
-          errors: errors.length > 0 ? errors : undefined
+          errors: errors.length > 0 ? errors : undefined,
+          storage: {
+            team: quota.team,
+            user: quota.user
+          }
         }
       } as UploadResponse);
 
@@ -328,6 +366,9 @@ export class UploadController {
         return;
       }
 
+      // Log file access
+      await FileService.logFileAccess(fileId, req.user!.userId, 'view', req.ip, req.get('user-agent'));
+
       res.json({
         success: true,
         message: 'File information retrieved successfully',
@@ -400,8 +441,13 @@ export class UploadController {
         return;
       }
 
-      // Clean up the physical file
-      await cleanupFile(file.file_path);
+      // Log before deleting so the file name is still available
+      await FileService.logFileAccess(fileId, req.user!.userId, 'delete', req.ip, req.get('user-agent'));
+
+      // Clean up the physical file and every stored version
+      for (const storedPath of await FileService.getStoredPaths(file.id)) {
+        await cleanupFile(storedPath);
+      }
 
       // Delete from database
       await prisma.projectFile.delete({
@@ -436,9 +482,7 @@ export class UploadController {
         // System-wide stats for directors and managers
         const [totalFiles, totalSize, filesByType, recentUploads] = await Promise.all([
           prisma.projectFile.count(),
-          prisma.projectFile.aggregate({
-            _sum: { file_size: true }
-          }),
+          FileService.getStorageUsage(),
           prisma.projectFile.groupBy({
             by: ['file_type'],
             _count: { file_type: true }
@@ -459,8 +503,8 @@ export class UploadController {
 
         stats = {
           total_files: totalFiles,
-          total_size_bytes: totalSize._sum.file_size || 0,
-          total_size_mb: Math.round(((totalSize._sum.file_size || 0) / (1024 * 1024)) * 100) / 100,
+          total_size_bytes: totalSize,
+          total_size_mb: Math.round((totalSize / (1024 * 1024)) * 100) / 100,
           files_by_type: filesByType.map(type => ({
             type: type.file_type,
             count: type._count.file_type
@@ -480,10 +524,7 @@ export class UploadController {
           prisma.projectFile.count({
             where: { uploaded_by: userId }
           }),
-          prisma.projectFile.aggregate({
-            where: { uploaded_by: userId },
-            _sum: { file_size: true }
-          }),
+          FileService.getStorageUsage({}, userId),
           prisma.projectFile.findMany({
             where: { uploaded_by: userId },
             take: 5,
@@ -498,8 +539,8 @@ export class UploadController {
 
         stats = {
           my_files: userFiles,
-          my_total_size_bytes: userTotalSize._sum.file_size || 0,
-          my_total_size_mb: Math.round(((userTotalSize._sum.file_size || 0) / (1024 * 1024)) * 100) / 100,
+          my_total_size_bytes: userTotalSize,
+          my_total_size_mb: Math.round((userTotalSize / (1024 * 1024)) * 100) / 100,
           recent_uploads: recentUploads.map(upload => ({
             id: upload.id,
             file_name: upload.file_name,
@@ -591,7 +632,7 @@ export class UploadController {
       const userId = req.user!.userId;
       const userRole = req.user!.role;
 
-      const result = await FileService.batchDelete(file_ids, userId, userRole);
+      const result = await FileService.batchDelete(file_ids, userId, userRole, req.ip);
 
       res.json({
         success: true,
@@ -771,7 +812,7 @@ export class UploadController {
       }
 
       // Log file access
-      await FileService.logFileAccess(fileId, userId, 'download', req.ip);
+      await FileService.logFileAccess(fileId, userId, 'download', req.ip, req.get('user-agent'));
 
       // For now, return file info - in production you'd stream the file
       res.json({
@@ -798,44 +839,1124 @@ export class UploadController {
   }
 
   /**
-   * Clean up project files (admin only)
+   * Upload a new version of an existing project file
    */
-  static async cleanupProjectFiles(req: Request, res: Response): Promise<void> {
+  static async uploadFileVersion(req: Request, res: Response): Promise<void> {
     try {
-      const { projectId } = req.params;
+      const { fileId } = req.params;
+      const { change_note } = req.body;
 
-      // Only directors and managers can cleanup project files
-      if (req.user!.role !== 'director' && req.user!.role !== 'manager') {
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          message: 'No file uploaded'
+        } as UploadResponse);
+        return;
+      }
+
+      const file = await UploadController.findFileWithAccess(fileId, req.user!.userId);
+
+      if (!file) {
+        await cleanupFile(req.file.path);
+        res.status(404).json({
+          success: false,
+          message: 'File not found'
+        } as UploadResponse);
+        return;
+      }
+
+      if (!UploadController.hasFileAccess(req.user!.role, file)) {
+        await cleanupFile(req.file.path);
         res.status(403).json({
           success: false,
-          message: 'Only directors and managers can perform file cleanup'
+          message: 'You do not have permission to update this file'
         } as UploadResponse);
         return;
       }
 
-      // Verify project exists
-      const project = await prisma.project.findUnique({
-        where: { id: projectId },
-        select: { id: true, name: true }
-      });
+      if (file.project.archived_at) {
+        await cleanupFile(req.file.path);
+        res.status(400).json({
+          success: false,
+          message: 'Files of archived projects cannot be modified'
+        } as UploadResponse);
+        return;
+      }
 
-      if (!project) {
+      const validation = validateFile(req.file);
+      if (!validation.valid) {
+        await cleanupFile(req.file.path);
+        res.status(400).json({
+          success: false,
+          message: validation.error || 'Invalid file'
+        } as UploadResponse);
+        return;
+      }
+
+      const upload = req.file;
+      const { allowed, quota, stored: version } = await StorageQuotaService.storeWithinQuota(
+        req.user!.userId,
+        upload.size,
+        file.project.team_id,
+        tx => FileService.createFileVersion(fileId, {
+          file_name: upload.originalname,
+          file_path: getFileUrl(upload),
+          file_type: upload.mimetype,
+          file_size: upload.size
+        }, req.user!.userId, change_note, tx)
+      );
+
+      if (!allowed) {
+        await cleanupFile(upload.path);
+        res.status(413).json({
+          success: false,
+          ...StorageQuotaService.exceededError(quota)
+        } as UploadResponse);
+        return;
+      }
+
+      await StorageQuotaService.sendWarnings(quota, req.user!.userId, file.project.team_id);
+
+      res.status(201).json({
+        success: true,
+        message: `Version ${version.version_number} uploaded successfully`,
+        data: {
+          version,
+          storage: {
+            team: quota.team,
+            user: quota.user
+          }
+        }
+      } as UploadResponse);
+
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        if (req.file) {
+          await cleanupFile(req.file.path);
+        }
+        res.status(409).json({
+          success: false,
+          message: 'Another version of this file was uploaded at the same time, please try again',
+          code: 'VERSION_CONFLICT'
+        } as UploadResponse);
+        return;
+      }
+
+      console.error('Upload file version error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as UploadResponse);
+    }
+  }
+
+  /**
+   * List all versions of a project file
+   */
+  static async getFileVersions(req: Request, res: Response): Promise<void> {
+    try {
+      const { fileId } = req.params;
+
+      const file = await UploadController.findFileWithAccess(fileId, req.user!.userId);
+
+      if (!file) {
         res.status(404).json({
           success: false,
-          message: 'Project not found'
+          message: 'File not found'
         } as UploadResponse);
         return;
       }
 
-      await FileService.cleanupProjectFiles(projectId);
+      if (!UploadController.hasFileAccess(req.user!.role, file)) {
+        res.status(403).json({
+          success: false,
+          message: 'You do not have permission to access this file'
+        } as UploadResponse);
+        return;
+      }
+
+      const versions = await FileService.getFileVersions(fileId);
 
       res.json({
         success: true,
-        message: `Successfully cleaned up all files for project: ${project.name}`
+        message: 'File versions retrieved successfully',
+        data: {
+          file_id: fileId,
+          current_version: file.current_version,
+          versions: versions.map(version => ({
+            ...version,
+            file_path: FileService.getFileUrl(version.file_path)
+          }))
+        }
       } as UploadResponse);
 
     } catch (error) {
-      console.error('Cleanup project files error:', error);
+      console.error('Get file versions error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as UploadResponse);
+    }
+  }
+
+  /**
+   * Download a specific version of a project file (with access logging)
+   */
+  static async downloadFileVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const { fileId, versionNumber } = req.params;
+      const userId = req.user!.userId;
+
+      const file = await UploadController.findFileWithAccess(fileId, userId);
+
+      if (!file) {
+        res.status(404).json({
+          success: false,
+          message: 'File not found'
+        } as UploadResponse);
+        return;
+      }
+
+      if (!UploadController.hasFileAccess(req.user!.role, file)) {
+        res.status(403).json({
+          success: false,
+          message: 'You do not have permission to download this file'
+        } as UploadResponse);
+        return;
+      }
+
+      const versions = await FileService.getFileVersions(fileId);
+      const version = versions.find(v => v.version_number === parseInt(versionNumber, 10));
+
+      if (!version) {
+        res.status(404).json({
+          success: false,
+          message: 'File version not found'
+        } as UploadResponse);
+        return;
+      }
+
+      // Log file access
+      await FileService.logFileAccess(fileId, userId, 'download', req.ip, req.get('user-agent'));
+
+      res.json({
+        success: true,
+        message: 'File download initiated',
+        data: {
+          file: {
+            id: file.id,
+            version_number: version.version_number,
+            file_name: version.file_name,
+            file_path: FileService.getFileUrl(version.file_path),
+            file_type: version.file_type,
+            file_size: version.file_size
+          }
+        }
+      } as UploadResponse);
+
+    } catch (error) {
+      console.error('Download file version error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as UploadResponse);
+    }
+  }
+
+  /**
+   * Restore an older version as the current one
+   */
+  static async restoreFileVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const { fileId, versionNumber } = req.params;
+
+      const file = await UploadController.findFileWithAccess(fileId, req.user!.userId);
+
+      if (!file) {
+        res.status(404).json({
+          success: false,
+          message: 'File not found'
+        } as UploadResponse);
+        return;
+      }
+
+      if (!UploadController.hasFileAccess(req.user!.role, file)) {
+        res.status(403).json({
+          success: false,
+          message: 'You do not have permission to update this file'
+        } as UploadResponse);
+        return;
+      }
+
+      if (file.project.archived_at) {
+        res.status(400).json({
+          success: false,
+          message: 'Files of archived projects cannot be modified'
+        } as UploadResponse);
+        return;
+      }
+
+      const number = parseInt(versionNumber, 10);
+      if (isNaN(number) || number < 1) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid version number'
+        } as UploadResponse);
+        return;
+      }
+
+      if (number === file.current_version) {
+        res.status(400).json({
+          success: false,
+          message: `Version ${number} is already the current version`
+        } as UploadResponse);
+        return;
+      }
+
+      const restored = await FileService.restoreFileVersion(fileId, number);
+
+      if (!restored) {
+        res.status(404).json({
+          success: false,
+          message: 'File version not found'
+        } as UploadResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `Version ${number} restored successfully`,
+        data: { file: restored }
+      } as UploadResponse);
+
+    } catch (error) {
+      console.error('Restore file version error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as UploadResponse);
+    }
+  }
+
+  /**
+   * Get a file's access history (project team leaders and directors)
+   * Still available after the file has been deleted
+   */
+  static async getFileAccessLogs(req: Request, res: Response): Promise<void> {
+    try {
+      const { fileId } = req.params;
+      const { page = 1, limit = 20, action } = req.query;
+
+      const pageNum = parseInt(page as string, 10);
+      const limitNum = parseInt(limit as string, 10);
+
+      // Deleted files are resolved to their project through the log itself
+      const file = await prisma.projectFile.findUnique({
+        where: { id: fileId },
+        select: { project_id: true }
+      });
+      const projectId = file?.project_id ?? (await prisma.fileAccessLog.findFirst({
+        where: { file_id: fileId },
+        select: { project_id: true }
+      }))?.project_id;
+
+      if (!projectId) {
+        res.status(404).json({
+          success: false,
+          message: 'File not found'
+        } as UploadResponse);
+        return;
+      }
+
+      if (req.user!.role !== 'director') {
+        const leadership = await prisma.teamMember.findFirst({
+          where: {
+            user_id: req.user!.userId,
+            role: 'team_leader',
+            team: { projects: { some: { id: projectId } } }
+          }
+        });
+
+        if (!leadership) {
+          res.status(403).json({
+            success: false,
+            message: 'Only the project team leader and directors can view file access history'
+          } as UploadResponse);
+          return;
+        }
+      }
+
+      const where: Prisma.FileAccessLogWhereInput = {
+        file_id: fileId,
+        ...(action && { action: action as FileAccessAction })
+      };
+
+      const [logs, total] = await Promise.all([
+        prisma.fileAccessLog.findMany({
+          where,
+          include: {
+            user: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+                role: true
+              }
+            }
+          },
+          orderBy: { accessed_at: 'desc' },
+          skip: (pageNum - 1) * limitNum,
+          take: limitNum
+        }),
+        prisma.fileAccessLog.count({ where })
+      ]);
+
+      res.json({
+        success: true,
+        message: 'File access history retrieved successfully',
+        data: {
+          file_id: fileId,
+          file_deleted: !file,
+          logs,
+          pagination: {
+            page: pageNum,
+            limit: limitNum,
+            total,
+            pages: Math.ceil(total / limitNum)
+          }
+        }
+      } as UploadResponse);
+
+    } catch (error) {
+      console.error('Get file access logs error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as UploadResponse);
+    }
+  }
+
+  /**
+   * Serve a generated image thumbnail
+   */
+  static async getThumbnail(req: Request, res: Response): Promise<void> {
+    try {
+      const { size, fileName } = req.params;
+
+      if (!Object.keys(THUMBNAIL_SIZES).includes(size)) {
+        res.status(400).json({
+          success: false,
+          message: `Thumbnail size must be one of: ${Object.keys(THUMBNAIL_SIZES).join(', ')}`
+        } as UploadResponse);
+        return;
+      }
+
+      if (path.basename(fileName) !== fileName) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid file name'
+        } as UploadResponse);
+        return;
+      }
+
+      // Thumbnails are served with the same access as the image they were made from
+      const source = await UploadController.findThumbnailSource(fileName, req.user!.userId);
+
+      if (!source) {
+        res.status(404).json({
+          success: false,
+          message: 'Thumbnail not found'
+        } as UploadResponse);
+        return;
+      }
+
+      if (source.projectFile && !UploadController.hasFileAccess(req.user!.role, source.projectFile)) {
+        res.status(403).json({
+          success: false,
+          message: 'You do not have permission to access this file'
+        } as UploadResponse);
+        return;
+      }
+
+      const thumbnail = await FileService.getThumbnail(size as ThumbnailSize, fileName);
+
+      if (!thumbnail) {
+        res.status(404).json({
+          success: false,
+          message: 'Thumbnail not found'
+        } as UploadResponse);
+        return;
+      }
+
+      res.set('Cache-Control', 'private, max-age=86400');
+      res.type('image/jpeg').send(thumbnail);
+
+    } catch (error) {
+      console.error('Get thumbnail error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as UploadResponse);
+    }
+  }
+
+  /**
+   * Create a signed download link for a project file
+   */
+  static async createFileShareLink(req: Request, res: Response): Promise<void> {
+    try {
+      const { fileId } = req.params;
+      const { expires_in_hours, max_downloads } = req.body;
+
+      const file = await UploadController.findFileWithAccess(fileId, req.user!.userId);
+
+      if (!file) {
+        res.status(404).json({
+          success: false,
+          message: 'File not found'
+        } as UploadResponse);
+        return;
+      }
+
+      if (!UploadController.hasFileAccess(req.user!.role, file)) {
+        res.status(403).json({
+          success: false,
+          message: 'You do not have permission to share this file'
+        } as UploadResponse);
+        return;
+      }
+
+      const link = await prisma.fileShareLink.create({
+        data: {
+          file_id: file.id,
+          created_by: req.user!.userId,
+          expires_at: new Date(Date.now() + expires_in_hours * 60 * 60 * 1000),
+          max_downloads: max_downloads ?? null
+        }
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Share link created successfully',
+        data: {
+          link: {
+            ...link,
+            url: FileShareLinkService.buildUrl(UploadController.getBaseUrl(req), link)
+          }
+        }
+      } as UploadResponse);
+
+    } catch (error) {
+      console.error('Create file share link error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as UploadResponse);
+    }
+  }
+
+  /**
+   * Create a signed download link for a file sent in a chat message
+   */
+  static async createMessageShareLink(req: Request, res: Response): Promise<void> {
+    try {
+      const { messageId } = req.params;
+      const { expires_in_hours, max_downloads } = req.body;
+
+      const message = await prisma.message.findUnique({
+        where: { id: messageId },
+        include: {
+          conversation: {
+            select: { participants: true }
+          }
+        }
+      });
+
+      if (!message) {
+        res.status(404).json({
+          success: false,
+          message: 'Message not found'
+        } as UploadResponse);
+        return;
+      }
+
+      if (!(message.conversation.participants as string[]).includes(req.user!.userId)) {
+        res.status(403).json({
+          success: false,
+          message: 'You do not have permission to share this file'
+        } as UploadResponse);
+        return;
+      }
+
+      if (!message.file_path) {
+        res.status(400).json({
+          success: false,
+          message: 'Message has no file attached'
+        } as UploadResponse);
+        return;
+      }
+
+      const link = await prisma.fileShareLink.create({
+        data: {
+          message_id: message.id,
+          created_by: req.user!.userId,
+          expires_at: new Date(Date.now() + expires_in_hours * 60 * 60 * 1000),
+          max_downloads: max_downloads ?? null
+        }
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Share link created successfully',
+        data: {
+          link: {
+            ...link,
+            url: FileShareLinkService.buildUrl(UploadController.getBaseUrl(req), link)
+          }
+        }
+      } as UploadResponse);
+
+    } catch (error) {
+      console.error('Create message share link error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as UploadResponse);
+    }
+  }
+
+  /**
+   * List share links created by the current user
+   */
+  static async getShareLinks(req: Request, res: Response): Promise<void> {
+    try {
+      const { file_id, message_id, include_inactive } = req.query;
+      const now = new Date();
+
+      const links = await prisma.fileShareLink.findMany({
+        where: {
+          created_by: req.user!.userId,
+          ...(file_id && { file_id: file_id as string }),
+          ...(message_id && { message_id: message_id as string }),
+          ...(include_inactive !== 'true' && { revoked_at: null, expires_at: { gt: now } })
+        },
+        include: {
+          file: {
+            select: {
+              id: true,
+              file_name: true,
+              project_id: true
+            }
+          }
+        },
+        orderBy: { created_at: 'desc' }
+      });
+
+      const baseUrl = UploadController.getBaseUrl(req);
+
+      res.json({
+        success: true,
+        message: 'Share links retrieved successfully',
+        data: {
+          links: links.map(link => {
+            const status = link.revoked_at ? 'revoked'
+              : link.expires_at <= now ? 'expired'
+              : link.max_downloads !== null && link.download_count >= link.max_downloads ? 'exhausted'
+              : 'active';
+
+            return {
+              ...link,
+              status,
+              url: status === 'active' ? FileShareLinkService.buildUrl(baseUrl, link) : null
+            };
+          })
+        }
+      } as UploadResponse);
+
+    } catch (error) {
+      console.error('Get share links error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as UploadResponse);
+    }
+  }
+
+  /**
+   * Revoke a share link (its creator, managers and directors)
+   */
+  static async revokeShareLink(req: Request, res: Response): Promise<void> {
+    try {
+      const { linkId } = req.params;
+
+      const link = await prisma.fileShareLink.findUnique({
+        where: { id: linkId }
+      });
+
+      if (!link) {
+        res.status(404).json({
+          success: false,
+          message: 'Share link not found'
+        } as UploadResponse);
+        return;
+      }
+
+      const canRevoke = link.created_by === req.user!.userId ||
+                        req.user!.role === 'director' ||
+                        req.user!.role === 'manager';
+
+      if (!canRevoke) {
+        res.status(403).json({
+          success: false,
+          message: 'You do not have permission to revoke this link'
+        } as UploadResponse);
+        return;
+      }
+
+      if (link.revoked_at) {
+        res.status(400).json({
+          success: false,
+          message: 'Share link is already revoked'
+        } as UploadResponse);
+        return;
+      }
+
+      const revoked = await prisma.fileShareLink.update({
+        where: { id: linkId },
+        data: {
+          revoked_at: new Date(),
+          revoked_by: req.user!.userId
+        }
+      });
+
+      res.json({
+        success: true,
+        message: 'Share link revoked successfully',
+        data: { link: revoked }
+      } as UploadResponse);
+
+    } catch (error) {
+      console.error('Revoke share link error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as UploadResponse);
+    }
+  }
+
+  /**
+   * Download a file through a signed share link (no login required)
+   */
+  static async downloadSharedFile(req: Request, res: Response): Promise<void> {
+    try {
+      const { linkId } = req.params;
+      const { expires, signature } = req.query;
+
+      const result = await FileShareLinkService.redeem(linkId, expires as string, signature as string);
+
+      if (!result.valid) {
+        const errors = {
+          INVALID_SIGNATURE: { status: 403, message: 'Invalid or tampered link' },
+          LINK_NOT_FOUND: { status: 404, message: 'Share link not found' },
+          LINK_REVOKED: { status: 410, message: 'This link has been revoked' },
+          LINK_EXPIRED: { status: 410, message: 'This link has expired' },
+          DOWNLOAD_LIMIT_REACHED: { status: 410, message: 'This link has reached its download limit' }
+        };
+
+        res.status(errors[result.reason].status).json({
+          success: false,
+          message: errors[result.reason].message,
+          code: result.reason
+        } as UploadResponse);
+        return;
+      }
+
+      const { link } = result;
+      const file = await UploadController.findSharedFile(link);
+
+      const content = file ? await FileService.readStoredFile(file.file_path) : null;
+
+      if (!file || !content) {
+        res.status(404).json({
+          success: false,
+          message: 'File is no longer available'
+        } as UploadResponse);
+        return;
+      }
+
+      await FileService.logShareLinkAccess(link, file, req.ip, req.get('user-agent'));
+
+      res.type(file.file_type || path.extname(file.file_name) || 'application/octet-stream');
+
+      // Images and PDFs open in place (e.g. <img src>), everything else downloads
+      const disposition = /^(image\/|application\/pdf)/.test(res.get('Content-Type') || '') ? 'inline' : 'attachment';
+      res.set('Content-Disposition', `${disposition}; filename="${encodeURIComponent(file.file_name)}"`);
+      res.set('Cache-Control', 'private, no-store');
+      res.send(content);
+
+    } catch (error) {
+      console.error('Download shared file error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as UploadResponse);
+    }
+  }
+
+  /**
+   * Load a project file with the caller's team membership for access checks
+   */
+  private static findFileWithAccess(fileId: string, userId: string) {
+    return prisma.projectFile.findUnique({
+      where: { id: fileId },
+      include: {
+        project: {
+          select: {
+            id: true,
+            team_id: true,
+            archived_at: true,
+            team: {
+              select: {
+                team_members: {
+                  where: { user_id: userId },
+                  select: { id: true }
+                }
+              }
+            }
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Find what an image thumbnail was made from: a project file (current or older version)
+   * or a profile photo, which every signed-in user may see; null for images without a record
+   */
+  private static async findThumbnailSource(fileName: string, userId: string) {
+    const suffix = `/${fileName}`;
+
+    const projectFile = await prisma.projectFile.findFirst({
+      where: {
+        OR: [
+          { file_path: { endsWith: suffix } },
+          { versions: { some: { file_path: { endsWith: suffix } } } }
+        ]
+      },
+      include: {
+        project: {
+          select: {
+            team: {
+              select: {
+                team_members: {
+                  where: { user_id: userId },
+                  select: { id: true }
+                }
+              }
+            }
+          }
+        }
+      }
+    });
+
+    if (projectFile) {
+      return { projectFile };
+    }
+
+    const photoOwner = await prisma.user.findFirst({
+      where: { profile_photo_url: { endsWith: suffix } },
+      select: { id: true }
+    });
+
+    return photoOwner ? { projectFile: null } : null;
+  }
+
+  private static hasFileAccess(role: string, file: { project: { team: { team_members: { id: string }[] } } }): boolean {
+    return role === 'director' ||
+           role === 'manager' ||
+           file.project.team.team_members.length > 0;
+  }
+
+  /**
+   * Get a team's storage usage and quota
+   */
+  static async getTeamStorage(req: Request, res: Response): Promise<void> {
+    try {
+      const { teamId } = req.params;
+
+      if (req.user!.role !== 'director' && req.user!.role !== 'manager') {
+        const membership = await prisma.teamMember.findFirst({
+          where: { team_id: teamId, user_id: req.user!.userId }
+        });
+
+        if (!membership) {
+          res.status(403).json({
+            success: false,
+            message: 'You do not have permission to view this team\'s storage'
+          } as UploadResponse);
+          return;
+        }
+      }
+
+      const usage = await StorageQuotaService.getTeamUsage(teamId);
+
+      if (!usage) {
+        res.status(404).json({
+          success: false,
+          message: 'Team not found'
+        } as UploadResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Team storage retrieved successfully',
+        data: {
+          team_id: teamId,
+          storage: usage
+        }
+      } as UploadResponse);
+
+    } catch (error) {
+      console.error('Get team storage error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as UploadResponse);
+    }
+  }
+
+  /**
+   * Set a team's storage quota (directors only); null restores the default
+   */
+  static async updateTeamQuota(req: Request, res: Response): Promise<void> {
+    try {
+      const { teamId } = req.params;
+      const { quota_mb } = req.body;
+
+      const team = await prisma.team.findUnique({
+        where: { id: teamId },
+        select: { id: true }
+      });
+
+      if (!team) {
+        res.status(404).json({
+          success: false,
+          message: 'Team not found'
+        } as UploadResponse);
+        return;
+      }
+
+      await prisma.team.update({
+        where: { id: teamId },
+        data: { storage_quota_mb: quota_mb }
+      });
+
+      res.json({
+        success: true,
+        message: quota_mb === null ? 'Team storage quota reset to default' : 'Team storage quota updated successfully',
+        data: {
+          team_id: teamId,
+          storage: await StorageQuotaService.getTeamUsage(teamId)
+        }
+      } as UploadResponse);
+
+    } catch (error) {
+      console.error('Update team quota error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as UploadResponse);
+    }
+  }
+
+  /**
+   * Get a user's storage usage and quota (the user themself, managers and directors)
+   */
+  static async getUserStorage(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+
+      if (userId !== req.user!.userId && req.user!.role !== 'director' && req.user!.role !== 'manager') {
+        res.status(403).json({
+          success: false,
+          message: 'You can only view your own storage'
+        } as UploadResponse);
+        return;
+      }
+
+      const usage = await StorageQuotaService.getUserUsage(userId);
+
+      if (!usage) {
+        res.status(404).json({
+          success: false,
+          message: 'User not found'
+        } as UploadResponse);
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'User storage retrieved successfully',
+        data: {
+          user_id: userId,
+          storage: usage
+        }
+      } as UploadResponse);
+
+    } catch (error) {
+      console.error('Get user storage error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as UploadResponse);
+    }
+  }
+
+  /**
+   * Set a user's storage quota (directors only); null restores the default
+   */
+  static async updateUserQuota(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const { quota_mb } = req.body;
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true }
+      });
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: 'User not found'
+        } as UploadResponse);
+        return;
+      }
+
+      await prisma.user.update({
+        where: { id: userId },
+        data: { storage_quota_mb: quota_mb }
+      });
+
+      res.json({
+        success: true,
+        message: quota_mb === null ? 'User storage quota reset to default' : 'User storage quota updated successfully',
+        data: {
+          user_id: userId,
+          storage: await StorageQuotaService.getUserUsage(userId)
+        }
+      } as UploadResponse);
+
+    } catch (error) {
+      console.error('Update user quota error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as UploadResponse);
+    }
+  }
+
+  /**
+   * Resolve the project file or message attachment a share link points to
+   */
+  private static async findSharedFile(link: { file_id: string | null; message_id: string | null }) {
+    if (link.file_id) {
+      return prisma.projectFile.findUnique({
+        where: { id: link.file_id },
+        select: { file_name: true, file_path: true, file_type: true, project_id: true }
+      });
+    }
+
+    const message = await prisma.message.findUnique({
+      where: { id: link.message_id! },
+      select: { file_path: true }
+    });
+
+    return message?.file_path ? {
+      file_name: path.basename(message.file_path),
+      file_path: message.file_path,
+      file_type: null,
+      project_id: null
+    } : null;
+  }
+
+  /**
+   * Public base URL of this API, used when building share links
+   */
+  private static getBaseUrl(req: Request): string {
+    return process.env.API_URL || `${req.protocol}://${req.get('host')}`;
+  }
+
+  /**
+   * Clean up project files (admin only)
+   */
+  static async cleanupProjectFiles(req: Request, res: Response): Promise<void> {
+    try {
+      const { projectId } = req.params;
+
+      // Only directors and managers can cleanup project files
+      if (req.user!.role !== 'director' && req.user!.role !== 'manager') {
+        res.status(403).json({
+          success: false,
+          message: 'Only directors and managers can perform file cleanup'
+        } as UploadResponse);
+        return;
+      }
+
+      // Verify project exists
+      const project = await prisma.project.findUnique({
+        where: { id: projectId },
+        select: { id: true, name: true }
+      });
+
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          message: 'Project not found'
+        } as UploadResponse);
+        return;
+      }
+
+      await FileService.cleanupProjectFiles(projectId);
+
+      res.json({
+        success: true,
+        message: `Successfully cleaned up all files for project: ${project.name}`
+      } as UploadResponse);
+
+    } catch (error) {
+      console.error('Cleanup project files error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as UploadResponse);
+    }
+  }
+
+  /**
+   * Delete temporary uploads (general upload endpoints) that no record refers to
+   */
+  static async purgeTemporaryUploads(req: Request, res: Response): Promise<void> {
+    try {
+      if (req.user!.role !== 'director' && req.user!.role !== 'manager') {
+        res.status(403).json({
+          success: false,
+          message: 'Only directors and managers can perform file cleanup'
+        } as UploadResponse);
+        return;
+      }
+
+      const deleted = await FileService.purgeUnreferencedUploads(new Date(Date.now() - TEMPORARY_UPLOAD_TTL_HOURS * 60 * 60 * 1000));
+
+      res.json({
+        success: true,
+        message: `Deleted ${deleted} unreferenced upload(s) older than ${TEMPORARY_UPLOAD_TTL_HOURS} hours`,
+        data: { deleted, retention_hours: TEMPORARY_UPLOAD_TTL_HOURS }
+      } as UploadResponse);
+
+    } catch (error) {
+      console.error('Purge temporary uploads error:', error);
       res.status(500).json({
         success: false,
         message: 'Internal server error'
@@ -1,7 +1,15 @@
 import { Request, Response } from 'express';
+import path from 'path';
 import { PrismaClient } from '@prisma/client';
 import { PasswordUtils } from '../utils/password';
 import emailService from '../services/emailService';
+import { SessionService } from '../services/sessionService';
+import { LoginProtectionService } from '../services/loginProtectionService';
+import { SecurityAudit } from '../config/security';
+import { UserImportService, MAX_IMPORT_ROWS } from '../services/userImportService';
+import { FileService } from '../services/fileService';
+import { PermissionService } from '../services/permissionService';
+import { AccountSetupService } from '../services/accountSetupService';
 import { ProfileCompletionCalculator } from '../utils/profileCompletion';
 import { profileSchemas } from '../utils/profileValidation';
 
@@ -53,6 +61,7 @@ export class UserController {
           name: true,
           email: true,
           role: true,
+          locked_until: true,
           created_at: true,
           updated_at: true
         },
@@ -124,7 +133,15 @@ export class UserController {
   // Create new user (Director only)
   static async createUser(req: Request, res: Response) {
     try {
-      const { name, email, password, role, teamId } = req.body;
+      const { name, email, role, teamId } = req.body;
+
+      if (!PermissionService.canManageRole(req.user?.role, role)) {
+        return res.status(403).json({
+          success: false,
+          message: 'Only directors can create director accounts',
+          code: 'DIRECTOR_ONLY'
+        });
+      }
 
       // Check if user already exists
       const existingUser = await prisma.user.findUnique({
@@ -158,11 +175,8 @@ export class UserController {
         }
       }
 
-      // Generate password if not provided (default password based on role)
-      const userPassword = password || PasswordUtils.generateDefaultPassword(role);
-
-      // Hash password
-      const hashedPassword = await PasswordUtils.hash(userPassword);
+      // Nobody knows the initial password; the user sets their own from the emailed link
+      const hashedPassword = await AccountSetupService.unusablePasswordHash();
 
       // Create user
       const newUser = await prisma.user.create({
@@ -195,24 +209,9 @@ export class UserController {
         });
       }
 
-      // Send welcome email
+      // Send welcome email with a set-password link
       try {
-        await emailService.sendEmail({
-          to: newUser.email,
-          subject: 'Welcome to Incubation Management System',
-          template: 'user/user-created',
-          emailType: 'user_created',
-          userId: newUser.id,
-          templateData: {
-            userName: newUser.name,
-            userEmail: newUser.email,
-            role: newUser.role.charAt(0).toUpperCase() + newUser.role.slice(1),
-            password: userPassword, // Send password (generated or provided) in email for new users
-            appUrl: process.env.FRONTEND_URL || process.env.APP_URL || 'http://localhost:3000',
-            currentYear: new Date().getFullYear(),
-            subject: 'Welcome to Incubation Management System'
-          }
-        });
+        await AccountSetupService.sendWelcomeEmail(newUser);
       } catch (emailError) {
         console.error('Failed to send welcome email:', emailError);
         // Don't fail user creation if email fails
@@ -232,6 +231,96 @@ export class UserController {
     }
   }
 
+  // Bulk import users from a CSV/XLSX file (Director only)
+  // mode=dry_run (default) only validates and previews; mode=commit creates everything in one transaction
+  static async importUsers(req: Request, res: Response) {
+    try {
+      const mode = req.query.mode === 'commit' ? 'commit' : 'dry_run';
+
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          message: 'No file uploaded',
+          code: 'NO_FILES'
+        });
+      }
+
+      let rows;
+      try {
+        rows = await UserImportService.parseFile(req.file);
+      } catch (parseError) {
+        console.error('Import file parse error:', parseError);
+        return res.status(400).json({
+          success: false,
+          message: 'Could not read the file. Upload a CSV or XLSX file with a header row.',
+          code: 'INVALID_IMPORT_FILE'
+        });
+      }
+
+      if (rows.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'The file has no data rows',
+          code: 'EMPTY_IMPORT_FILE'
+        });
+      }
+
+      if (rows.length > MAX_IMPORT_ROWS) {
+        return res.status(400).json({
+          success: false,
+          message: `Too many rows. Maximum ${MAX_IMPORT_ROWS} users per import.`,
+          code: 'TOO_MANY_ROWS'
+        });
+      }
+
+      const { report, prepared } = await UserImportService.buildReport(rows);
+
+      if (mode === 'dry_run') {
+        return res.json({
+          success: true,
+          message: report.invalid_rows > 0
+            ? `Dry run: ${report.invalid_rows} of ${report.total_rows} rows have errors`
+            : `Dry run: all ${report.total_rows} rows are valid`,
+          data: { mode, ...report }
+        });
+      }
+
+      // Commit is all-or-nothing
+      if (report.invalid_rows > 0) {
+        return res.status(400).json({
+          success: false,
+          message: `Import not applied: ${report.invalid_rows} of ${report.total_rows} rows have errors`,
+          code: 'IMPORT_HAS_ERRORS',
+          data: { mode, ...report }
+        });
+      }
+
+      const { users, teamsCreated } = await UserImportService.commit(prepared);
+
+      // Welcome emails go out after the transaction; don't hold the response for them
+      UserImportService.sendWelcomeEmails(users).catch(emailError => {
+        console.error('Failed to send import welcome emails:', emailError);
+      });
+
+      res.status(201).json({
+        success: true,
+        message: `Imported ${users.length} users and created ${teamsCreated} teams`,
+        data: {
+          mode,
+          ...report,
+          users_created: users,
+          teams_created: teamsCreated
+        }
+      });
+    } catch (error) {
+      console.error('Import users error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to import users'
+      });
+    }
+  }
+
   // Update user (Director only)
   static async updateUser(req: Request, res: Response) {
     try {
@@ -250,6 +339,16 @@ export class UserController {
         });
       }
 
+      // Only directors may change a director's account or promote anyone to director
+      if (!PermissionService.canManageRole(req.user?.role, existingUser.role) ||
+          (role && !PermissionService.canManageRole(req.user?.role, role))) {
+        return res.status(403).json({
+          success: false,
+          message: 'Only directors can modify or promote to director accounts',
+          code: 'DIRECTOR_ONLY'
+        });
+      }
+
       // Check if email is being changed and if it's already taken
       if (email && email.toLowerCase() !== existingUser.email) {
         const emailExists = await prisma.user.findUnique({
@@ -320,6 +419,11 @@ export class UserController {
         }
       });
 
+      // Don't serve the old role's permissions from the cache
+      if (role && role !== existingUser.role) {
+        PermissionService.clearCache(id);
+      }
+
       // Manage team membership for incubators
       if (targetRole === 'incubator') {
         // Remove any existing memberships then assign to target team as leader
@@ -424,6 +528,10 @@ export class UserController {
         }
       });
 
+      // Sign the user out everywhere immediately
+      await SessionService.revokeAllForUser(id, 'user_deactivated');
+      PermissionService.clearCache(id);
+
       res.json({
         success: true,
         message: 'User deactivated successfully'
@@ -494,6 +602,14 @@ export class UserController {
         });
       }
 
+      if (!PermissionService.canManageRole(req.user?.role, existingUser.role)) {
+        return res.status(403).json({
+          success: false,
+          message: 'Only directors can restore director accounts',
+          code: 'DIRECTOR_ONLY'
+        });
+      }
+
       if (existingUser.status === 'active') {
         return res.status(400).json({
           success: false,
@@ -532,6 +648,56 @@ export class UserController {
     }
   }
 
+  // Unlock an account locked after repeated failed logins (Director only)
+  static async unlockUser(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const existingUser = await prisma.user.findUnique({
+        where: { id }
+      });
+
+      if (!existingUser) {
+        return res.status(404).json({
+          success: false,
+          message: 'User not found'
+        });
+      }
+
+      if (!PermissionService.canManageRole(req.user?.role, existingUser.role)) {
+        return res.status(403).json({
+          success: false,
+          message: 'Only directors can unlock director accounts',
+          code: 'DIRECTOR_ONLY'
+        });
+      }
+
+      await LoginProtectionService.unlock(id);
+
+      SecurityAudit.logRequest(req, 'ACCOUNT_UNLOCKED', 'Account unlocked by director', {
+        unlockedUserId: id,
+        wasLockedUntil: existingUser.locked_until
+      });
+
+      res.json({
+        success: true,
+        message: 'User account unlocked successfully',
+        data: {
+          id: existingUser.id,
+          email: existingUser.email,
+          locked_until: null,
+          failed_login_attempts: 0
+        }
+      });
+    } catch (error) {
+      console.error('Unlock user error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to unlock user'
+      });
+    }
+  }
+
   /**
    * Get current user's profile
    * GET /api/users/profile
@@ -1159,10 +1325,17 @@ export class UserController {
         }
       });
 
+      // Photos stored by our own upload endpoints get thumbnails; external URLs are left as-is
+      const source = FileService.resolveStoredSource(profile_photo_url);
+      const thumbnails = source ? await FileService.generateThumbnails(source, path.basename(source)) : null;
+
       res.json({
         success: true,
         message: 'Profile photo updated successfully',
-        data: updatedUser
+        data: {
+          ...updatedUser,
+          thumbnails
+        }
       });
     } catch (error) {
       console.error('Upload profile photo error:', error);
@@ -28,6 +28,12 @@ import reservationRoutes from './routes/reservations';
 import maintenanceRoutes from './routes/maintenance';
 import requestTemplateRoutes from './routes/requestTemplates';
 import barcodeRoutes from './routes/barcode';
+import securityRoutes from './routes/security';
+import permissionRoutes from './routes/permissions';
+import cohortRoutes from './routes/cohorts';
+import applicationRoutes from './routes/applications';
+import evaluationRoutes from './routes/evaluations';
+import { SchedulerService } from './services/schedulerService';
 
 // Load environment variables
 dotenv.config();
@@ -75,6 +81,11 @@ app.use('/api/reservations', reservationRoutes);
 app.use('/api/maintenance', maintenanceRoutes);
 app.use('/api/request-templates', requestTemplateRoutes);
 app.use('/api/barcode', barcodeRoutes);
+app.use('/api/security', securityRoutes);
+app.use('/api/permissions', permissionRoutes);
+app.use('/api/cohorts', cohortRoutes);
+app.use('/api/applications', applicationRoutes);
+app.use('/api/evaluations', evaluationRoutes);
 app.use('/api', messageRoutes);
 
 // Basic route
@@ -116,6 +127,9 @@ const startServer = async () => {
     // Test database connection
     await testConnection();
 
+    // Retention purge, overdue milestone notices and evaluation reminders
+    SchedulerService.start();
+
     server.listen(PORT, () => {
       console.log(`Server running on port ${PORT}`);
     });
@@ -1,6 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import { JWTUtils, JWTPayload } from '../utils/jwt';
 import prisma from '../config/database';
+import { SessionService } from '../services/sessionService';
+import { SecurityAudit } from '../config/security';
+import { Permission } from '../config/permissions';
+import { PermissionService } from '../services/permissionService';
 
 // Extend Express Request interface to include user
 declare global {
@@ -38,6 +42,11 @@ export class AuthMiddleware {
           error: tokenError.message,
           tokenPreview: token.substring(0, 20) + '...'
         });
+        SecurityAudit.logRequest(
+          req,
+          tokenError.message.startsWith('Token has expired') ? 'EXPIRED_TOKEN' : 'INVALID_TOKEN',
+          `Rejected access token: ${tokenError.message}`
+        );
         throw tokenError;
       }
 
@@ -49,6 +58,9 @@ export class AuthMiddleware {
 
       if (!user) {
         console.error('❌ User not found in database:', decoded.userId);
+        SecurityAudit.logRequest(req, 'INVALID_TOKEN', 'Access token for a user that no longer exists', {
+          tokenUserId: decoded.userId
+        });
         res.status(401).json({
           success: false,
           message: 'User not found',
@@ -56,12 +68,41 @@ export class AuthMiddleware {
         return;
       }
 
+      // Reject tokens whose session was revoked (logout, deactivation) or never existed
+      if (!decoded.sessionId) {
+        SecurityAudit.logRequest(req, 'INVALID_TOKEN', 'Access token without a session', undefined, user.id);
+        res.status(401).json({
+          success: false,
+          message: 'Session is no longer valid. Please log in again.',
+          code: 'SESSION_NOT_FOUND'
+        });
+        return;
+      }
+
+      const sessionCheck = await SessionService.validateSession(decoded.sessionId, user.id);
+      if (!sessionCheck.valid) {
+        console.error('❌ Session rejected:', { sessionId: decoded.sessionId, reason: sessionCheck.reason });
+        SecurityAudit.logRequest(req, 'INVALID_TOKEN', 'Access token for an invalid session', {
+          sessionId: decoded.sessionId,
+          reason: sessionCheck.reason
+        }, user.id);
+        res.status(401).json({
+          success: false,
+          message: 'Session is no longer valid. Please log in again.',
+          code: sessionCheck.reason
+        });
+        return;
+      }
+
+      await SessionService.touchSession(sessionCheck.session);
+
       // Attach user to request
       req.user = {
         userId: user.id,
         email: user.email,
         role: user.role,
         name: user.name,
+        sessionId: sessionCheck.session.id,
         ...(decoded.teamId && { teamId: decoded.teamId })
       };
 
@@ -99,6 +140,10 @@ export class AuthMiddleware {
           userRole: req.user.role,
           allowedRoles: allowedRoles
         });
+        SecurityAudit.logRequest(req, 'UNAUTHORIZED_ACCESS', 'Insufficient permissions', {
+          userRole: req.user.role,
+          allowedRoles
+        });
         res.status(403).json({
           success: false,
           message: 'Insufficient permissions',
@@ -112,6 +157,50 @@ export class AuthMiddleware {
     };
   };
 
+  /**
+   * Middleware to check if user holds every listed permission
+   * (role permissions from the matrix, adjusted by per-user overrides)
+   */
+  static requirePermission = (...permissions: Permission[]) => {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      if (!req.user) {
+        console.error('❌ No user in request - permission check failed');
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      try {
+        const granted = await PermissionService.getUserPermissions(req.user.userId);
+        const missing = permissions.filter(permission => !granted.has(permission));
+
+        if (missing.length > 0) {
+          SecurityAudit.logRequest(req, 'UNAUTHORIZED_ACCESS', 'Missing permissions', {
+            userRole: req.user.role,
+            missing
+          });
+          res.status(403).json({
+            success: false,
+            message: 'Insufficient permissions',
+            required: permissions,
+            missing,
+          });
+          return;
+        }
+
+        next();
+      } catch (error) {
+        console.error('❌ Permission check error:', error);
+        res.status(500).json({
+          success: false,
+          message: 'Internal server error',
+        });
+      }
+    };
+  };
+
   /**
    * Optional authentication (doesn't fail if no token)
    */
@@ -127,12 +216,17 @@ export class AuthMiddleware {
           select: { id: true, email: true, role: true, name: true },
         });
 
-        if (user) {
+        const sessionCheck = user && decoded.sessionId
+          ? await SessionService.validateSession(decoded.sessionId, user.id)
+          : null;
+
+        if (user && sessionCheck?.valid) {
           req.user = {
             userId: user.id,
             email: user.email,
             role: user.role,
             name: user.name,
+            sessionId: sessionCheck.session.id,
           };
         }
       }
@@ -153,4 +247,5 @@ export const requireDirector = AuthMiddleware.authorize('director');
  */
 export const requireManager = AuthMiddleware.authorize('manager', 'director');
 export const requireMentor = AuthMiddleware.authorize('mentor', 'manager', 'director');
-export const requireIncubator = AuthMiddleware.authorize('incubator', 'mentor', 'manager', 'director');
\ No newline at end of file
+export const requireIncubator = AuthMiddleware.authorize('incubator', 'mentor', 'manager', 'director');
+export const requirePermission = AuthMiddleware.requirePermission;
\ No newline at end of file
@@ -3,13 +3,17 @@ import multerS3 from 'multer-s3';
 import { S3Client } from '@aws-sdk/client-s3';
 import path from 'path';
 import fs from 'fs';
-import { Request } from 'express';
+import { Request, Response, NextFunction } from 'express';
+import { SecurityAudit } from '../config/security';
+import { FileService } from '../services/fileService';
+import { FileScanService } from '../services/fileScanService';
 
 // File size limits
 export const FILE_SIZE_LIMITS = {
   IMAGE: 5 * 1024 * 1024, // 5MB for images
   DOCUMENT: 10 * 1024 * 1024, // 10MB for documents
-  GENERAL: 10 * 1024 * 1024 // 10MB general limit
+  GENERAL: 10 * 1024 * 1024, // 10MB general limit
+  IMPORT: 2 * 1024 * 1024 // 2MB for bulk import spreadsheets
 };
 
 // Allowed file types
@@ -23,6 +27,11 @@ export const ALLOWED_FILE_TYPES = {
     'application/vnd.ms-excel',
     'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
   ],
+  IMPORTS: [
+    'text/csv',
+    'application/vnd.ms-excel', // Some browsers send CSV files with this type
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ],
   ALL: [
     'image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp',
     'application/pdf',
@@ -34,6 +43,15 @@ export const ALLOWED_FILE_TYPES = {
   ]
 };
 
+// Record a rejected upload in the security audit log
+const logBlockedUpload = (req: Request, file: Express.Multer.File, reason: string, details?: Record<string, any>) => {
+  SecurityAudit.logRequest(req, 'FILE_UPLOAD_BLOCKED', `Upload blocked: ${reason}`, {
+    fileName: file.originalname,
+    mimeType: file.mimetype,
+    ...details
+  });
+};
+
 // File type validation
 export const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
   const allowedTypes = ALLOWED_FILE_TYPES.ALL;
@@ -41,6 +59,7 @@ export const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.F
   if (allowedTypes.includes(file.mimetype)) {
     cb(null, true);
   } else {
+    logBlockedUpload(req, file, 'File type not allowed');
     cb(new Error(`File type ${file.mimetype} is not allowed. Allowed types: ${allowedTypes.join(', ')}`));
   }
 };
@@ -48,15 +67,17 @@ export const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.F
 // Local storage configuration
 const createLocalStorage = () => {
   const uploadDir = process.env.UPLOAD_DIR || path.join(__dirname, '../../uploads');
+  const quarantineDir = path.join(uploadDir, 'quarantine');
 
-  // Ensure upload directory exists
-  if (!fs.existsSync(uploadDir)) {
-    fs.mkdirSync(uploadDir, { recursive: true });
+  // Ensure upload and quarantine directories exist
+  if (!fs.existsSync(quarantineDir)) {
+    fs.mkdirSync(quarantineDir, { recursive: true });
   }
 
   return multer.diskStorage({
     destination: (req, file, cb) => {
-      cb(null, uploadDir);
+      // New files wait in quarantine until scanUploads releases them
+      cb(null, quarantineDir);
     },
     filename: (req, file, cb) => {
       // Generate unique filename with timestamp
@@ -90,7 +111,8 @@ const createS3Storage = () => {
       const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
       const extension = path.extname(file.originalname);
       const basename = path.basename(file.originalname, extension);
-      const key = `uploads/${basename}-${uniqueSuffix}${extension}`;
+      // New objects wait under quarantine/ until scanUploads moves them to uploads/
+      const key = `quarantine/${basename}-${uniqueSuffix}${extension}`;
       cb(null, key);
     },
     contentType: multerS3.AUTO_CONTENT_TYPE
@@ -122,6 +144,7 @@ export const uploadImages = multer({
     if (ALLOWED_FILE_TYPES.IMAGES.includes(file.mimetype)) {
       cb(null, true);
     } else {
+      logBlockedUpload(req, file, 'Only image files are allowed');
       cb(new Error(`Only image files are allowed. Allowed types: ${ALLOWED_FILE_TYPES.IMAGES.join(', ')}`));
     }
   }
@@ -137,11 +160,91 @@ export const uploadDocuments = multer({
     if (ALLOWED_FILE_TYPES.DOCUMENTS.includes(file.mimetype)) {
       cb(null, true);
     } else {
+      logBlockedUpload(req, file, 'Only document files are allowed');
       cb(new Error(`Only document files are allowed. Allowed types: ${ALLOWED_FILE_TYPES.DOCUMENTS.join(', ')}`));
     }
   }
 });
 
+// Spreadsheet upload for bulk imports (kept in memory, never stored)
+export const uploadImportFile = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: FILE_SIZE_LIMITS.IMPORT,
+    files: 1
+  },
+  fileFilter: (req, file, cb) => {
+    const isCsv = file.originalname.toLowerCase().endsWith('.csv');
+    if (ALLOWED_FILE_TYPES.IMPORTS.includes(file.mimetype) || isCsv) {
+      cb(null, true);
+    } else {
+      logBlockedUpload(req, file, 'Only CSV or XLSX files can be imported');
+      cb(new Error(`Only CSV or XLSX files can be imported. Allowed types: ${ALLOWED_FILE_TYPES.IMPORTS.join(', ')}`));
+    }
+  }
+});
+
+// Scan files multer has just stored in quarantine.
+// Every file must match its declared type and pass the scanner before any is released into storage;
+// otherwise the whole upload is deleted and rejected.
+export const scanUploads = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const files = req.file ? [req.file] : Array.isArray(req.files) ? req.files : Object.values(req.files || {}).flat();
+
+  const discardAll = async () => {
+    for (const file of files) {
+      await FileService.discardQuarantinedFile(file).catch(error => {
+        console.error('Error discarding quarantined file:', error);
+      });
+    }
+  };
+
+  try {
+    const scanner = FileScanService.getScanner();
+
+    for (const file of files) {
+      const content = await FileService.readQuarantinedFile(file);
+
+      if (!FileScanService.matchesDeclaredType(content, file.mimetype, file.originalname)) {
+        logBlockedUpload(req, file, 'File content does not match its declared type');
+        await discardAll();
+        res.status(422).json({
+          success: false,
+          message: `${file.originalname}: file content does not match its type (${file.mimetype})`,
+          code: 'FILE_TYPE_MISMATCH'
+        });
+        return;
+      }
+
+      const verdict = await scanner.scan(content);
+
+      if (!verdict.clean) {
+        logBlockedUpload(req, file, 'Malware detected', { threat: verdict.threat, scanner: scanner.name });
+        await discardAll();
+        res.status(422).json({
+          success: false,
+          message: `${file.originalname}: file failed the virus scan`,
+          code: 'FILE_INFECTED'
+        });
+        return;
+      }
+    }
+
+    for (const file of files) {
+      await FileService.releaseFromQuarantine(file);
+    }
+
+    next();
+  } catch (error) {
+    console.error('Upload scan error:', error);
+    await discardAll();
+    res.status(503).json({
+      success: false,
+      message: 'Files could not be scanned, please try again later',
+      code: 'FILE_SCAN_UNAVAILABLE'
+    });
+  }
+};
+
 // File cleanup utility
 export const cleanupFile = async (filePath: string): Promise<void> => {
   try {
@@ -149,9 +252,10 @@ export const cleanupFile = async (filePath: string): Promise<void> => {
       // For S3, we would need to delete from S3
       // This would require additional S3 client setup
     } else {
-      // For local storage, delete the file
-      if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
+      // For local storage, delete the file (multer's path or the stored /uploads URL)
+      const localPath = FileService.resolveStoredSource(filePath) || filePath;
+      if (fs.existsSync(localPath)) {
+        fs.unlinkSync(localPath);
       }
     }
   } catch (error) {
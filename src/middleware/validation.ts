@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
+import { SecurityAudit } from '../config/security';
 
 // Validation result interface
 interface ValidationResult {
@@ -339,6 +340,7 @@ export const validateFileUpload = (options: {
     }
 
     if (errors.length > 0) {
+      SecurityAudit.logRequest(req, 'FILE_UPLOAD_BLOCKED', 'Upload blocked: file validation failed', { errors });
       res.status(400).json({
         success: false,
         message: 'File validation failed',
@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import { ApplicationController } from '../controllers/applicationController';
+import { AuthMiddleware, requireDirector, requireManager, requireMentor } from '../middleware/auth';
+import { validateBody, validateQuery } from '../middleware/validation';
+import { applicationSchemas } from '../utils/validation';
+
+const router = Router();
+
+/**
+ * @route POST /api/applications
+ * @desc Submit a team application
+ * @access Public
+ */
+router.post('/', validateBody(applicationSchemas.submit), ApplicationController.submitApplication);
+
+/**
+ * @route GET /api/applications/open-cohorts
+ * @desc List cohorts open for applications
+ * @access Public
+ */
+router.get('/open-cohorts', ApplicationController.getOpenCohorts);
+
+/**
+ * @route GET /api/applications/rubric
+ * @desc Get the application scoring rubric
+ * @access Private (Mentor, Manager, Director)
+ */
+router.get('/rubric', AuthMiddleware.authenticate, requireMentor, ApplicationController.getRubric);
+
+/**
+ * @route PUT /api/applications/rubric
+ * @desc Replace the application scoring rubric
+ * @access Private (Director only)
+ */
+router.put('/rubric', AuthMiddleware.authenticate, requireDirector, validateBody(applicationSchemas.rubric), ApplicationController.updateRubric);
+
+/**
+ * @route GET /api/applications
+ * @desc List applications with average scores
+ * @access Private (Mentor, Manager, Director)
+ */
+router.get('/', AuthMiddleware.authenticate, requireMentor, validateQuery(applicationSchemas.list), ApplicationController.getApplications);
+
+/**
+ * @route GET /api/applications/:id
+ * @desc Get application with reviewer scores
+ * @access Private (Mentor, Manager, Director)
+ */
+router.get('/:id', AuthMiddleware.authenticate, requireMentor, ApplicationController.getApplicationById);
+
+/**
+ * @route PUT /api/applications/:id/score
+ * @desc Score application against the rubric (replaces your previous score)
+ * @access Private (Mentor, Manager, Director)
+ */
+router.put('/:id/score', AuthMiddleware.authenticate, requireMentor, validateBody(applicationSchemas.score), ApplicationController.scoreApplication);
+
+/**
+ * @route PATCH /api/applications/:id/status
+ * @desc Shortlist, interview, admit or reject application (admission creates team, project and accounts)
+ * @access Private (Manager, Director)
+ */
+router.patch('/:id/status', AuthMiddleware.authenticate, requireManager, validateBody(applicationSchemas.updateStatus), ApplicationController.updateStatus);
+
+export default router;
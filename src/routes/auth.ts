@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/authController';
-import { AuthMiddleware } from '../middleware/auth';
+import { MfaController } from '../controllers/mfaController';
+import { InvitationController } from '../controllers/invitationController';
+import { AuthMiddleware, requireDirector } from '../middleware/auth';
 import { validateBody } from '../middleware/validation';
-import { authSchemas } from '../utils/validation';
+import { authSchemas, invitationSchemas } from '../utils/validation';
 
 const router = Router();
 
@@ -36,9 +38,114 @@ router.post('/change-password', AuthMiddleware.authenticate, validateBody(authSc
 
 /**
  * @route POST /api/auth/refresh
- * @desc Refresh access token
- * @access Private
+ * @desc Refresh access token (rotates the refresh token)
+ * @access Public (refresh token required)
  */
 router.post('/refresh', AuthController.refreshToken);
 
+/**
+ * @route POST /api/auth/logout-all
+ * @desc Log out from all devices (revoke every session)
+ * @access Private
+ */
+router.post('/logout-all', AuthMiddleware.authenticate, AuthController.logoutAll);
+
+/**
+ * @route GET /api/auth/sessions
+ * @desc List current user's active sessions
+ * @access Private
+ */
+router.get('/sessions', AuthMiddleware.authenticate, AuthController.getSessions);
+
+/**
+ * @route DELETE /api/auth/sessions/:id
+ * @desc Revoke one of current user's sessions
+ * @access Private
+ */
+router.delete('/sessions/:id', AuthMiddleware.authenticate, AuthController.revokeSession);
+
+/**
+ * @route POST /api/auth/forgot-password
+ * @desc Email a one-time password reset link
+ * @access Public
+ */
+router.post('/forgot-password', validateBody(authSchemas.forgotPassword), AuthController.forgotPassword);
+
+/**
+ * @route POST /api/auth/reset-password
+ * @desc Reset password using a one-time token
+ * @access Public
+ */
+router.post('/reset-password', validateBody(authSchemas.resetPassword), AuthController.resetPassword);
+
+/**
+ * @route GET /api/auth/invitations/:token
+ * @desc Get invitation details for the accept page
+ * @access Public (invitation token required)
+ */
+router.get('/invitations/:token', InvitationController.getInvitationByToken);
+
+/**
+ * @route POST /api/auth/accept-invite
+ * @desc Accept an invitation and set a password
+ * @access Public (invitation token required)
+ */
+router.post('/accept-invite', validateBody(invitationSchemas.accept), InvitationController.acceptInvitation);
+
+/**
+ * @route GET /api/auth/mfa/status
+ * @desc Get current user's two-factor status
+ * @access Private
+ */
+router.get('/mfa/status', AuthMiddleware.authenticate, MfaController.getStatus);
+
+/**
+ * @route POST /api/auth/mfa/setup
+ * @desc Start two-factor enrollment (returns secret and otpauth URL)
+ * @access Private (or enrollment token from login)
+ */
+router.post('/mfa/setup', AuthMiddleware.optionalAuth, validateBody(authSchemas.mfaSetup), MfaController.setup);
+
+/**
+ * @route POST /api/auth/mfa/enable
+ * @desc Confirm two-factor enrollment with a code and receive recovery codes
+ * @access Private (or enrollment token from login)
+ */
+router.post('/mfa/enable', AuthMiddleware.optionalAuth, validateBody(authSchemas.mfaEnable), MfaController.enable);
+
+/**
+ * @route POST /api/auth/mfa/verify
+ * @desc Complete login with a two-factor or recovery code
+ * @access Public (two-factor login token required)
+ */
+router.post('/mfa/verify', validateBody(authSchemas.mfaVerify), MfaController.verify);
+
+/**
+ * @route POST /api/auth/mfa/disable
+ * @desc Disable two-factor authentication
+ * @access Private
+ */
+router.post('/mfa/disable', AuthMiddleware.authenticate, validateBody(authSchemas.mfaDisable), MfaController.disable);
+
+/**
+ * @route POST /api/auth/mfa/recovery-codes
+ * @desc Regenerate recovery codes
+ * @access Private
+ */
+router.post('/mfa/recovery-codes', AuthMiddleware.authenticate, validateBody(authSchemas.mfaCode), MfaController.regenerateRecoveryCodes);
+
+/**
+ * @route GET /api/auth/mfa/policy
+ * @desc Get roles for which two-factor is mandatory
+ * @access Private (Director)
+ */
+router.get('/mfa/policy', AuthMiddleware.authenticate, requireDirector, MfaController.getPolicy);
+
+/**
+ * @route PUT /api/auth/mfa/policy
+ * @desc Set roles for which two-factor is mandatory
+ * @access Private (Director)
+ */
+router.put('/mfa/policy', AuthMiddleware.authenticate, requireDirector, validateBody(authSchemas.mfaPolicy), MfaController.updatePolicy);
+
 export default router;
\ No newline at end of file
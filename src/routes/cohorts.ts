@@ -0,0 +1,58 @@
+import { Router } from 'express';
+import { CohortController } from '../controllers/cohortController';
+import { AuthMiddleware, requireManager } from '../middleware/auth';
+import { validateBody, validateQuery } from '../middleware/validation';
+import { cohortSchemas } from '../utils/validation';
+
+const router = Router();
+
+/**
+ * @route GET /api/cohorts
+ * @desc Get all cohorts
+ * @access Private
+ */
+router.get('/', AuthMiddleware.authenticate, validateQuery(cohortSchemas.list), CohortController.getAllCohorts);
+
+/**
+ * @route POST /api/cohorts
+ * @desc Create new cohort
+ * @access Private (Manager, Director)
+ */
+router.post('/', AuthMiddleware.authenticate, requireManager, validateBody(cohortSchemas.create), CohortController.createCohort);
+
+/**
+ * @route GET /api/cohorts/:id
+ * @desc Get cohort by ID with its teams
+ * @access Private
+ */
+router.get('/:id', AuthMiddleware.authenticate, CohortController.getCohortById);
+
+/**
+ * @route PUT /api/cohorts/:id
+ * @desc Update cohort
+ * @access Private (Manager, Director)
+ */
+router.put('/:id', AuthMiddleware.authenticate, requireManager, validateBody(cohortSchemas.update), CohortController.updateCohort);
+
+/**
+ * @route DELETE /api/cohorts/:id
+ * @desc Delete cohort (teams become unassigned)
+ * @access Private (Manager, Director)
+ */
+router.delete('/:id', AuthMiddleware.authenticate, requireManager, CohortController.deleteCohort);
+
+/**
+ * @route POST /api/cohorts/:id/teams
+ * @desc Assign teams to cohort (capacity enforced)
+ * @access Private (Manager, Director)
+ */
+router.post('/:id/teams', AuthMiddleware.authenticate, requireManager, validateBody(cohortSchemas.assignTeams), CohortController.assignTeams);
+
+/**
+ * @route DELETE /api/cohorts/:id/teams/:teamId
+ * @desc Remove team from cohort
+ * @access Private (Manager, Director)
+ */
+router.delete('/:id/teams/:teamId', AuthMiddleware.authenticate, requireManager, CohortController.removeTeam);
+
+export default router;
@@ -0,0 +1,58 @@
+import { Router } from 'express';
+import { EvaluationController } from '../controllers/evaluationController';
+import { AuthMiddleware, requireManager } from '../middleware/auth';
+import { validateBody, validateQuery } from '../middleware/validation';
+import { evaluationSchemas } from '../utils/validation';
+
+const router = Router();
+
+/**
+ * @route GET /api/evaluations/forms
+ * @desc Get evaluation forms
+ * @access Private
+ */
+router.get('/forms', AuthMiddleware.authenticate, validateQuery(evaluationSchemas.formsQuery), EvaluationController.getForms);
+
+/**
+ * @route POST /api/evaluations/forms
+ * @desc Create evaluation form
+ * @access Private (Manager, Director)
+ */
+router.post('/forms', AuthMiddleware.authenticate, requireManager, validateBody(evaluationSchemas.createForm), EvaluationController.createForm);
+
+/**
+ * @route PUT /api/evaluations/forms/:id
+ * @desc Update or deactivate evaluation form
+ * @access Private (Manager, Director)
+ */
+router.put('/forms/:id', AuthMiddleware.authenticate, requireManager, validateBody(evaluationSchemas.updateForm), EvaluationController.updateForm);
+
+/**
+ * @route GET /api/evaluations/pending
+ * @desc Get evaluations the current user still has to submit this period
+ * @access Private (Mentor, Team members)
+ */
+router.get('/pending', AuthMiddleware.authenticate, EvaluationController.getPendingEvaluations);
+
+/**
+ * @route GET /api/evaluations/submissions
+ * @desc Get submitted evaluations
+ * @access Private (Director, Manager, Mentor own, Team members own team's)
+ */
+router.get('/submissions', AuthMiddleware.authenticate, validateQuery(evaluationSchemas.listSubmissions), EvaluationController.getSubmissions);
+
+/**
+ * @route POST /api/evaluations/submissions
+ * @desc Submit an evaluation for a mentor assignment
+ * @access Private (Assigned mentor or team members, depending on the form)
+ */
+router.post('/submissions', AuthMiddleware.authenticate, validateBody(evaluationSchemas.submit), EvaluationController.submitEvaluation);
+
+/**
+ * @route POST /api/evaluations/reminders
+ * @desc Remind mentors and teams about evaluations missing for the current period
+ * @access Private (Manager, Director)
+ */
+router.post('/reminders', AuthMiddleware.authenticate, requireManager, validateBody(evaluationSchemas.reminders), EvaluationController.sendReminders);
+
+export default router;
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { InventoryController } from '../controllers/inventoryController';
-import { AuthMiddleware, requireManager } from '../middleware/auth';
+import { AuthMiddleware, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
@@ -14,9 +14,9 @@ router.get('/', AuthMiddleware.authenticate, InventoryController.getAllItems);
 /**
  * @route POST /api/inventory
  * @desc Create new inventory item
- * @access Private (Manager, Director)
+ * @access Private (inventory.manage permission)
  */
-router.post('/', AuthMiddleware.authenticate, requireManager, InventoryController.createItem);
+router.post('/', AuthMiddleware.authenticate, requirePermission('inventory.manage'), InventoryController.createItem);
 
 /**
  * @route GET /api/inventory/:id
@@ -28,30 +28,30 @@ router.get('/:id', AuthMiddleware.authenticate, InventoryController.getItemById)
 /**
  * @route PUT /api/inventory/:id
  * @desc Update inventory item
- * @access Private (Manager, Director)
+ * @access Private (inventory.manage permission)
  */
-router.put('/:id', AuthMiddleware.authenticate, requireManager, InventoryController.updateItem);
+router.put('/:id', AuthMiddleware.authenticate, requirePermission('inventory.manage'), InventoryController.updateItem);
 
 /**
  * @route DELETE /api/inventory/:id
  * @desc Delete inventory item
- * @access Private (Manager, Director)
+ * @access Private (inventory.manage permission)
  */
-router.delete('/:id', AuthMiddleware.authenticate, requireManager, InventoryController.deleteItem);
+router.delete('/:id', AuthMiddleware.authenticate, requirePermission('inventory.manage'), InventoryController.deleteItem);
 
 /**
  * @route POST /api/inventory/:id/assign
  * @desc Assign inventory item to team
- * @access Private (Manager, Director)
+ * @access Private (inventory.assign permission)
  */
-router.post('/:id/assign', AuthMiddleware.authenticate, requireManager, InventoryController.assignToTeam);
+router.post('/:id/assign', AuthMiddleware.authenticate, requirePermission('inventory.assign'), InventoryController.assignToTeam);
 
 /**
  * @route DELETE /api/inventory/:id/assign/:teamId
  * @desc Unassign inventory item from team
- * @access Private (Manager, Director)
+ * @access Private (inventory.assign permission)
  */
-router.delete('/:id/assign/:teamId', AuthMiddleware.authenticate, requireManager, InventoryController.unassignFromTeam);
+router.delete('/:id/assign/:teamId', AuthMiddleware.authenticate, requirePermission('inventory.assign'), InventoryController.unassignFromTeam);
 
 /**
  * @route GET /api/inventory/:id/assignments
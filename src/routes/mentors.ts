@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import { MentorController } from '../controllers/mentorController';
-import { AuthMiddleware, requireManager } from '../middleware/auth';
-import { validateBody } from '../middleware/validation';
-import { mentorSchemas } from '../utils/validation';
+import { MentorSessionController } from '../controllers/mentorSessionController';
+import { MentorAvailabilityController } from '../controllers/mentorAvailabilityController';
+import { AuthMiddleware, requireManager, requireIncubator } from '../middleware/auth';
+import { validateBody, validateQuery } from '../middleware/validation';
+import { mentorSchemas, mentorSessionSchemas, mentorAvailabilitySchemas } from '../utils/validation';
 
 const router = Router();
 
@@ -27,6 +29,97 @@ router.post('/', AuthMiddleware.authenticate, requireManager, validateBody(mento
  */
 router.get('/inactive', AuthMiddleware.authenticate, requireManager, MentorController.getInactiveMentors);
 
+/**
+ * @route GET /api/mentors/recommendations
+ * @desc Rank mentors for a team with an explanation of each score
+ * @access Private (Manager, Director)
+ */
+router.get('/recommendations', AuthMiddleware.authenticate, requireManager, validateQuery(mentorSchemas.recommendations), MentorController.getRecommendations);
+
+/**
+ * @route GET /api/mentors/calendar-feeds/:token.ics
+ * @desc Subscribable iCalendar feed of a mentor's sessions
+ * @access Public (token in the URL)
+ */
+router.get('/calendar-feeds/:token.ics', MentorSessionController.getCalendarFeed);
+
+/**
+ * @route GET /api/mentors/sessions
+ * @desc Get mentoring sessions
+ * @access Private (Director, Manager, Mentor own sessions, Team members own team's sessions)
+ */
+router.get('/sessions', AuthMiddleware.authenticate, validateQuery(mentorSessionSchemas.list), MentorSessionController.getSessions);
+
+/**
+ * @route POST /api/mentors/sessions
+ * @desc Request a mentoring session
+ * @access Private (Mentor, Team members of an assigned team)
+ */
+router.post('/sessions', AuthMiddleware.authenticate, validateBody(mentorSessionSchemas.create), MentorSessionController.createSession);
+
+/**
+ * @route GET /api/mentors/sessions/:sessionId
+ * @desc Get mentoring session details
+ * @access Private (Director, Manager, Session mentor and team)
+ */
+router.get('/sessions/:sessionId', AuthMiddleware.authenticate, MentorSessionController.getSession);
+
+/**
+ * @route PATCH /api/mentors/sessions/:sessionId
+ * @desc Update or reschedule a mentoring session
+ * @access Private (Session mentor and team)
+ */
+router.patch('/sessions/:sessionId', AuthMiddleware.authenticate, validateBody(mentorSessionSchemas.update), MentorSessionController.updateSession);
+
+/**
+ * @route POST /api/mentors/sessions/:sessionId/confirm
+ * @desc Confirm a requested mentoring session and send calendar invites
+ * @access Private (Side that did not request the session)
+ */
+router.post('/sessions/:sessionId/confirm', AuthMiddleware.authenticate, validateBody(mentorSessionSchemas.respond), MentorSessionController.confirmSession);
+
+/**
+ * @route POST /api/mentors/sessions/:sessionId/decline
+ * @desc Decline a requested mentoring session
+ * @access Private (Side that did not request the session)
+ */
+router.post('/sessions/:sessionId/decline', AuthMiddleware.authenticate, validateBody(mentorSessionSchemas.respond), MentorSessionController.declineSession);
+
+/**
+ * @route POST /api/mentors/sessions/:sessionId/cancel
+ * @desc Cancel a mentoring session
+ * @access Private (Director, Manager, Session mentor and team)
+ */
+router.post('/sessions/:sessionId/cancel', AuthMiddleware.authenticate, validateBody(mentorSessionSchemas.cancel), MentorSessionController.cancelSession);
+
+/**
+ * @route POST /api/mentors/sessions/:sessionId/complete
+ * @desc Record notes, attendance and action items for a session that took place
+ * @access Private (Director, Manager, Session mentor)
+ */
+router.post('/sessions/:sessionId/complete', AuthMiddleware.authenticate, validateBody(mentorSessionSchemas.complete), MentorSessionController.completeSession);
+
+/**
+ * @route GET /api/mentors/sessions/:sessionId/calendar.ics
+ * @desc Download a mentoring session as an iCalendar file
+ * @access Private (Director, Manager, Session mentor and team)
+ */
+router.get('/sessions/:sessionId/calendar.ics', AuthMiddleware.authenticate, MentorSessionController.getSessionCalendar);
+
+/**
+ * @route POST /api/mentors/sessions/:sessionId/action-items
+ * @desc Add an action item to a mentoring session
+ * @access Private (Director, Manager, Session mentor and team)
+ */
+router.post('/sessions/:sessionId/action-items', AuthMiddleware.authenticate, validateBody(mentorSessionSchemas.addActionItem), MentorSessionController.addActionItem);
+
+/**
+ * @route PATCH /api/mentors/sessions/:sessionId/action-items/:itemId
+ * @desc Update or complete a session action item
+ * @access Private (Director, Manager, Session mentor and team)
+ */
+router.patch('/sessions/:sessionId/action-items/:itemId', AuthMiddleware.authenticate, validateBody(mentorSessionSchemas.updateActionItem), MentorSessionController.updateActionItem);
+
 /**
  * @route GET /api/mentors/:id
  * @desc Get mentor details
@@ -76,4 +169,60 @@ router.delete('/:id/assign/:teamId', AuthMiddleware.authenticate, requireManager
  */
 router.get('/:id/assignments', AuthMiddleware.authenticate, MentorController.getMentorAssignments);
 
+/**
+ * @route GET /api/mentors/:id/availability
+ * @desc Get mentor's weekly availability and upcoming blackout dates
+ * @access Private
+ */
+router.get('/:id/availability', AuthMiddleware.authenticate, MentorAvailabilityController.getAvailability);
+
+/**
+ * @route PUT /api/mentors/:id/availability
+ * @desc Replace mentor's weekly availability slots
+ * @access Private (Mentor themselves, Manager, Director)
+ */
+router.put('/:id/availability', AuthMiddleware.authenticate, validateBody(mentorAvailabilitySchemas.update), MentorAvailabilityController.updateAvailability);
+
+/**
+ * @route POST /api/mentors/:id/blackout-dates
+ * @desc Add blackout dates when the mentor can't be booked
+ * @access Private (Mentor themselves, Manager, Director)
+ */
+router.post('/:id/blackout-dates', AuthMiddleware.authenticate, validateBody(mentorAvailabilitySchemas.addBlackout), MentorAvailabilityController.addBlackoutDate);
+
+/**
+ * @route DELETE /api/mentors/:id/blackout-dates/:blackoutId
+ * @desc Remove a blackout date
+ * @access Private (Mentor themselves, Manager, Director)
+ */
+router.delete('/:id/blackout-dates/:blackoutId', AuthMiddleware.authenticate, MentorAvailabilityController.deleteBlackoutDate);
+
+/**
+ * @route GET /api/mentors/:id/free-slots
+ * @desc Get mentor's bookable slots
+ * @access Private
+ */
+router.get('/:id/free-slots', AuthMiddleware.authenticate, validateQuery(mentorAvailabilitySchemas.freeSlots), MentorAvailabilityController.getFreeSlots);
+
+/**
+ * @route POST /api/mentors/:id/bookings
+ * @desc Book one of the mentor's free slots
+ * @access Private (Team members of an assigned team)
+ */
+router.post('/:id/bookings', AuthMiddleware.authenticate, requireIncubator, validateBody(mentorSessionSchemas.book), MentorSessionController.bookSession);
+
+/**
+ * @route POST /api/mentors/:id/calendar-feed
+ * @desc Create a new calendar feed URL (replaces any earlier one)
+ * @access Private (Mentor themselves, Manager, Director)
+ */
+router.post('/:id/calendar-feed', AuthMiddleware.authenticate, MentorSessionController.createCalendarFeed);
+
+/**
+ * @route DELETE /api/mentors/:id/calendar-feed
+ * @desc Revoke the mentor's calendar feed
+ * @access Private (Mentor themselves, Manager, Director)
+ */
+router.delete('/:id/calendar-feed', AuthMiddleware.authenticate, MentorSessionController.revokeCalendarFeed);
+
 export default router;
\ No newline at end of file
@@ -1,17 +1,10 @@
 import { Router } from 'express';
 import { MessageController } from '../controllers/messageController';
 import { AuthMiddleware } from '../middleware/auth';
-import multer from 'multer';
+import { upload, scanUploads } from '../middleware/upload';
 
 const router = Router();
 
-// Configure multer for file uploads
-const upload = multer({
-  limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB limit
-  },
-});
-
 /**
  * @route GET /api/conversations
  * @desc Get all conversations for the authenticated user
@@ -52,6 +45,6 @@ router.post('/conversations/:id/messages', AuthMiddleware.authenticate, MessageC
  * @desc Send a file message to a conversation
  * @access Private (participants only)
  */
-router.post('/conversations/:id/messages/file', AuthMiddleware.authenticate, upload.single('file'), MessageController.sendFileMessage);
+router.post('/conversations/:id/messages/file', AuthMiddleware.authenticate, upload.single('file'), scanUploads, MessageController.sendFileMessage);
 
 export default router;
\ No newline at end of file
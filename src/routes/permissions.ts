@@ -0,0 +1,72 @@
+import { Router } from 'express';
+import { PermissionController } from '../controllers/permissionController';
+import { AuthMiddleware, requirePermission } from '../middleware/auth';
+import { validateBody } from '../middleware/validation';
+import { permissionSchemas } from '../utils/validation';
+
+const router = Router();
+
+/**
+ * @route GET /api/permissions
+ * @desc List the permission registry
+ * @access Private (permissions.manage permission)
+ */
+router.get('/', AuthMiddleware.authenticate, requirePermission('permissions.manage'), PermissionController.getPermissions);
+
+/**
+ * @route GET /api/permissions/me
+ * @desc Get current user's effective permissions
+ * @access Private
+ */
+router.get('/me', AuthMiddleware.authenticate, PermissionController.getMyPermissions);
+
+/**
+ * @route GET /api/permissions/matrix
+ * @desc Get the role to permission matrix
+ * @access Private (permissions.manage permission)
+ */
+router.get('/matrix', AuthMiddleware.authenticate, requirePermission('permissions.manage'), PermissionController.getMatrix);
+
+/**
+ * @route POST /api/permissions/roles
+ * @desc Create a custom role
+ * @access Private (permissions.manage permission)
+ */
+router.post('/roles', AuthMiddleware.authenticate, requirePermission('permissions.manage'), validateBody(permissionSchemas.createRole), PermissionController.createRole);
+
+/**
+ * @route PUT /api/permissions/roles/:role
+ * @desc Replace the permissions of a role
+ * @access Private (permissions.manage permission)
+ */
+router.put('/roles/:role', AuthMiddleware.authenticate, requirePermission('permissions.manage'), validateBody(permissionSchemas.rolePermissions), PermissionController.updateRolePermissions);
+
+/**
+ * @route DELETE /api/permissions/roles/:role
+ * @desc Delete a custom role
+ * @access Private (permissions.manage permission)
+ */
+router.delete('/roles/:role', AuthMiddleware.authenticate, requirePermission('permissions.manage'), PermissionController.deleteRole);
+
+/**
+ * @route GET /api/permissions/users/:id
+ * @desc Get a user's custom role, overrides and effective permissions
+ * @access Private (permissions.manage permission)
+ */
+router.get('/users/:id', AuthMiddleware.authenticate, requirePermission('permissions.manage'), PermissionController.getUserPermissions);
+
+/**
+ * @route PUT /api/permissions/users/:id/role
+ * @desc Assign or clear a user's custom role
+ * @access Private (permissions.manage permission)
+ */
+router.put('/users/:id/role', AuthMiddleware.authenticate, requirePermission('permissions.manage'), validateBody(permissionSchemas.userRole), PermissionController.setUserRole);
+
+/**
+ * @route PUT /api/permissions/users/:id/overrides
+ * @desc Replace a user's permission overrides
+ * @access Private (permissions.manage permission)
+ */
+router.put('/users/:id/overrides', AuthMiddleware.authenticate, requirePermission('permissions.manage'), validateBody(permissionSchemas.userOverrides), PermissionController.setUserOverrides);
+
+export default router;
@@ -1,38 +1,42 @@
 import { Router } from 'express';
 import { ProjectController } from '../controllers/projectController';
-import { AuthMiddleware, requireIncubator } from '../middleware/auth';
+import { MilestoneController } from '../controllers/milestoneController';
+import { StageGateController } from '../controllers/stageGateController';
+import { AuthMiddleware, requireIncubator, requireManager, requireMentor, requireDirector } from '../middleware/auth';
 import { validateBody, validateQuery } from '../middleware/validation';
-import { projectSchemas, querySchemas } from '../utils/validation';
-import multer from 'multer';
-
-// Configure multer for file uploads
-const upload = multer({
-  dest: 'uploads/', // Temporary upload directory
-  limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB limit
-  },
-  fileFilter: (req: any, file: any, cb: any) => {
-    // Allow common file types
-    const allowedTypes = [
-      'image/jpeg',
-      'image/png',
-      'image/gif',
-      'application/pdf',
-      'application/msword',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'text/plain'
-    ];
-
-    if (allowedTypes.includes(file.mimetype)) {
-      cb(null, true);
-    } else {
-      cb(new Error('Invalid file type'));
-    }
-  }
-});
+import { projectSchemas, querySchemas, stageGateSchemas } from '../utils/validation';
+import { upload, scanUploads } from '../middleware/upload';
 
 const router = Router();
 
+/**
+ * @route POST /api/projects/milestones/check-overdue
+ * @desc Notify team members and mentors about overdue milestones
+ * @access Private (Manager, Director)
+ */
+router.post('/milestones/check-overdue', AuthMiddleware.authenticate, requireManager, MilestoneController.checkOverdueMilestones);
+
+/**
+ * @route GET /api/projects/stage/reviews
+ * @desc List stage-gate reviews (mentors see their assigned teams only)
+ * @access Private (Mentor, Manager, Director)
+ */
+router.get('/stage/reviews', AuthMiddleware.authenticate, requireMentor, validateQuery(stageGateSchemas.reviewList), StageGateController.getReviews);
+
+/**
+ * @route GET /api/projects/stage/criteria
+ * @desc Get stage-gate criteria for every stage
+ * @access Private
+ */
+router.get('/stage/criteria', AuthMiddleware.authenticate, StageGateController.getCriteria);
+
+/**
+ * @route PUT /api/projects/stage/criteria
+ * @desc Replace stage-gate criteria
+ * @access Private (Director only)
+ */
+router.put('/stage/criteria', AuthMiddleware.authenticate, requireDirector, validateBody(stageGateSchemas.criteria), StageGateController.updateCriteria);
+
 /**
  * @route GET /api/projects
  * @desc Get all projects (role-filtered)
@@ -80,7 +84,7 @@ router.get('/:id/files', AuthMiddleware.authenticate, ProjectController.getProje
  * @desc Upload project files (supports multiple files)
  * @access Private (Incubator team leader only)
  */
-router.post('/:id/files', AuthMiddleware.authenticate, requireIncubator, upload.array('files', 10), ProjectController.uploadFile);
+router.post('/:id/files', AuthMiddleware.authenticate, requireIncubator, upload.array('files', 10), scanUploads, ProjectController.uploadFile);
 
 /**
  * @route DELETE /api/projects/:id/files/:fileId
@@ -89,4 +93,74 @@ router.post('/:id/files', AuthMiddleware.authenticate, requireIncubator, upload.
  */
 router.delete('/:id/files/:fileId', AuthMiddleware.authenticate, requireIncubator, ProjectController.deleteFile);
 
+/**
+ * @route GET /api/projects/:id/milestones
+ * @desc Get project milestones with completion summary
+ * @access Private (Role-based access)
+ */
+router.get('/:id/milestones', AuthMiddleware.authenticate, MilestoneController.getMilestones);
+
+/**
+ * @route POST /api/projects/:id/milestones
+ * @desc Create project milestone (project progress is recomputed)
+ * @access Private (Manager, Director, Incubator team leader)
+ */
+router.post('/:id/milestones', AuthMiddleware.authenticate, requireIncubator, validateBody(projectSchemas.createMilestone), MilestoneController.createMilestone);
+
+/**
+ * @route PUT /api/projects/:id/milestones/:milestoneId
+ * @desc Update project milestone
+ * @access Private (Manager, Director, Incubator team leader, milestone owner)
+ */
+router.put('/:id/milestones/:milestoneId', AuthMiddleware.authenticate, requireIncubator, validateBody(projectSchemas.updateMilestone), MilestoneController.updateMilestone);
+
+/**
+ * @route DELETE /api/projects/:id/milestones/:milestoneId
+ * @desc Delete project milestone
+ * @access Private (Manager, Director, Incubator team leader)
+ */
+router.delete('/:id/milestones/:milestoneId', AuthMiddleware.authenticate, requireIncubator, MilestoneController.deleteMilestone);
+
+/**
+ * @route POST /api/projects/:id/milestones/:milestoneId/evidence
+ * @desc Attach project files to a milestone as evidence
+ * @access Private (Manager, Director, Incubator team leader, milestone owner)
+ */
+router.post('/:id/milestones/:milestoneId/evidence', AuthMiddleware.authenticate, requireIncubator, validateBody(projectSchemas.addMilestoneEvidence), MilestoneController.addEvidence);
+
+/**
+ * @route DELETE /api/projects/:id/milestones/:milestoneId/evidence/:fileId
+ * @desc Detach an evidence file from a milestone
+ * @access Private (Manager, Director, Incubator team leader, milestone owner)
+ */
+router.delete('/:id/milestones/:milestoneId/evidence/:fileId', AuthMiddleware.authenticate, requireIncubator, MilestoneController.removeEvidence);
+
+/**
+ * @route GET /api/projects/:id/stage
+ * @desc Get current stage, next gate criteria, pending review and stage history
+ * @access Private (Role-based access)
+ */
+router.get('/:id/stage', AuthMiddleware.authenticate, StageGateController.getProjectStage);
+
+/**
+ * @route POST /api/projects/:id/stage/requests
+ * @desc Request advancement to the next stage
+ * @access Private (Project team, Manager, Director)
+ */
+router.post('/:id/stage/requests', AuthMiddleware.authenticate, requireIncubator, validateBody(stageGateSchemas.requestAdvance), StageGateController.requestAdvance);
+
+/**
+ * @route POST /api/projects/:id/stage/reviews/:reviewId/withdraw
+ * @desc Withdraw a pending stage-gate request
+ * @access Private (Requester, Incubator team leader, Manager, Director)
+ */
+router.post('/:id/stage/reviews/:reviewId/withdraw', AuthMiddleware.authenticate, requireIncubator, StageGateController.withdrawRequest);
+
+/**
+ * @route POST /api/projects/:id/stage/reviews/:reviewId/decision
+ * @desc Approve or reject a stage-gate request against the stage criteria
+ * @access Private (Assigned mentor, Manager, Director)
+ */
+router.post('/:id/stage/reviews/:reviewId/decision', AuthMiddleware.authenticate, requireMentor, validateBody(stageGateSchemas.decide), StageGateController.decideReview);
+
 export default router;
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { ReportsController } from '../controllers/reportsController';
-import { AuthMiddleware, requireManager } from '../middleware/auth';
+import { AuthMiddleware, requireManager, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
@@ -25,6 +25,20 @@ router.get('/inventory', AuthMiddleware.authenticate, ReportsController.getInven
  */
 router.get('/projects', AuthMiddleware.authenticate, ReportsController.getProjectReports);
 
+/**
+ * @route GET /api/reports/cohorts
+ * @desc Get cohort reports (success rate, graduation, inventory usage)
+ * @access Private (Director, Manager)
+ */
+router.get('/cohorts', AuthMiddleware.authenticate, requireManager, ReportsController.getCohortReports);
+
+/**
+ * @route GET /api/reports/project-stages
+ * @desc Get project stage reports (time in each stage and between transitions)
+ * @access Private (Director, Manager)
+ */
+router.get('/project-stages', AuthMiddleware.authenticate, requireManager, ReportsController.getStageReports);
+
 /**
  * @route GET /api/dashboard/analytics
  * @desc Get dashboard analytics data
@@ -77,9 +91,9 @@ router.get('/company/:id', AuthMiddleware.authenticate, ReportsController.getCom
 /**
  * @route POST /api/reports/export
  * @desc Export reports as data for PDF generation
- * @access Private (Director, Manager)
+ * @access Private (reports.export permission)
  */
-router.post('/export', AuthMiddleware.authenticate, ReportsController.exportReport);
+router.post('/export', AuthMiddleware.authenticate, requirePermission('reports.export'), ReportsController.exportReport);
 
 /**
  * @route GET /api/reports/usage-analytics
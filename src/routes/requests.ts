@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { RequestController } from '../controllers/requestController';
-import { AuthMiddleware, requireManager } from '../middleware/auth';
+import { AuthMiddleware, requirePermission } from '../middleware/auth';
 
 const router = Router();
 
@@ -28,9 +28,9 @@ router.get('/:id', AuthMiddleware.authenticate, RequestController.getRequestById
 /**
  * @route PUT /api/requests/:id/status
  * @desc Update request status (approve/decline)
- * @access Private (Manager, Director)
+ * @access Private (requests.approve permission)
  */
-router.put('/:id/status', AuthMiddleware.authenticate, requireManager, RequestController.updateRequestStatus);
+router.put('/:id/status', AuthMiddleware.authenticate, requirePermission('requests.approve'), RequestController.updateRequestStatus);
 
 /**
  * @route DELETE /api/requests/:id
@@ -63,23 +63,23 @@ router.post('/:id/cancel', AuthMiddleware.authenticate, RequestController.cancel
 /**
  * @route POST /api/requests/:id/approve
  * @desc Approve request at a specific approval level
- * @access Private (Approver for that level)
+ * @access Private (requests.approve permission)
  */
-router.post('/:id/approve', AuthMiddleware.authenticate, requireManager, RequestController.approveRequest);
+router.post('/:id/approve', AuthMiddleware.authenticate, requirePermission('requests.approve'), RequestController.approveRequest);
 
 /**
  * @route POST /api/requests/:id/decline
  * @desc Decline request at a specific approval level
- * @access Private (Approver for that level)
+ * @access Private (requests.approve permission)
  */
-router.post('/:id/decline', AuthMiddleware.authenticate, requireManager, RequestController.declineRequest);
+router.post('/:id/decline', AuthMiddleware.authenticate, requirePermission('requests.approve'), RequestController.declineRequest);
 
 /**
  * @route POST /api/requests/:id/delegate
  * @desc Delegate approval to another user
- * @access Private (Approver for that level)
+ * @access Private (requests.approve permission)
  */
-router.post('/:id/delegate', AuthMiddleware.authenticate, requireManager, RequestController.delegateApproval);
+router.post('/:id/delegate', AuthMiddleware.authenticate, requirePermission('requests.approve'), RequestController.delegateApproval);
 
 /**
  * @route GET /api/requests/:id/comments
@@ -112,8 +112,8 @@ router.delete('/:id/comments/:commentId', AuthMiddleware.authenticate, RequestCo
 /**
  * @route PUT /api/requests/:id/delivery
  * @desc Update delivery status and confirm delivery
- * @access Private (Manager, Director)
+ * @access Private (requests.deliver permission)
  */
-router.put('/:id/delivery', AuthMiddleware.authenticate, requireManager, RequestController.updateDeliveryStatus);
+router.put('/:id/delivery', AuthMiddleware.authenticate, requirePermission('requests.deliver'), RequestController.updateDeliveryStatus);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { SecurityController } from '../controllers/securityController';
+import { AuthMiddleware, requirePermission } from '../middleware/auth';
+import { validateBody, validateQuery } from '../middleware/validation';
+import { securitySchemas } from '../utils/validation';
+
+const router = Router();
+
+/**
+ * @route GET /api/security/events
+ * @desc Search the security audit log (filter by type, userId, ip, from, to)
+ * @access Private (security.audit permission)
+ */
+router.get('/events', AuthMiddleware.authenticate, requirePermission('security.audit'), validateQuery(securitySchemas.eventQuery), SecurityController.getEvents);
+
+/**
+ * @route POST /api/security/events/purge
+ * @desc Delete security events older than the retention period
+ * @access Private (security.audit permission)
+ */
+router.post('/events/purge', AuthMiddleware.authenticate, requirePermission('security.audit'), SecurityController.purgeEvents);
+
+/**
+ * @route GET /api/security/retention
+ * @desc Get the security event retention period
+ * @access Private (security.audit permission)
+ */
+router.get('/retention', AuthMiddleware.authenticate, requirePermission('security.audit'), SecurityController.getRetention);
+
+/**
+ * @route PUT /api/security/retention
+ * @desc Update the security event retention period
+ * @access Private (security.audit permission)
+ */
+router.put('/retention', AuthMiddleware.authenticate, requirePermission('security.audit'), validateBody(securitySchemas.retention), SecurityController.updateRetention);
+
+/**
+ * @route GET /api/security/lockout-policy
+ * @desc Get login lockout thresholds
+ * @access Private (security.audit permission)
+ */
+router.get('/lockout-policy', AuthMiddleware.authenticate, requirePermission('security.audit'), SecurityController.getLockoutPolicy);
+
+/**
+ * @route PUT /api/security/lockout-policy
+ * @desc Update login lockout thresholds
+ * @access Private (security.audit permission)
+ */
+router.put('/lockout-policy', AuthMiddleware.authenticate, requirePermission('security.audit'), validateBody(securitySchemas.lockoutPolicy), SecurityController.updateLockoutPolicy);
+
+export default router;
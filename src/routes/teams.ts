@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { TeamController } from '../controllers/teamController';
-import { AuthMiddleware, requireManager, requireIncubator } from '../middleware/auth';
+import { TeamExitController } from '../controllers/teamExitController';
+import { AuthMiddleware, requireManager, requireIncubator, requireDirector } from '../middleware/auth';
 import { validateBody, validateQuery, validateParams } from '../middleware/validation';
 import { teamSchemas, querySchemas } from '../utils/validation';
 
@@ -27,6 +28,20 @@ router.post('/', AuthMiddleware.authenticate, requireManager, validateBody(teamS
  */
 router.get('/inactive', AuthMiddleware.authenticate, requireManager, TeamController.getInactiveTeams);
 
+/**
+ * @route GET /api/teams/exits
+ * @desc List team exits with their summary reports
+ * @access Private (Director only)
+ */
+router.get('/exits', AuthMiddleware.authenticate, requireDirector, validateQuery(teamSchemas.exitQuery), TeamExitController.getExits);
+
+/**
+ * @route GET /api/teams/without-leader
+ * @desc List active and pending teams that have no team leader
+ * @access Private (Manager, Director)
+ */
+router.get('/without-leader', AuthMiddleware.authenticate, requireManager, TeamController.getTeamsWithoutLeader);
+
 /**
  * @route GET /api/teams/:id
  * @desc Get team by ID
@@ -55,6 +70,34 @@ router.delete('/:id', AuthMiddleware.authenticate, requireManager, TeamControlle
  */
 router.patch('/:id/restore', AuthMiddleware.authenticate, requireManager, TeamController.restoreTeam);
 
+/**
+ * @route POST /api/teams/:id/exit
+ * @desc Start team exit (graduated, dropped_out, transferred) and get the checklist
+ * @access Private (Manager, Director)
+ */
+router.post('/:id/exit', AuthMiddleware.authenticate, requireManager, validateBody(teamSchemas.initiateExit), TeamExitController.initiateExit);
+
+/**
+ * @route GET /api/teams/:id/exit
+ * @desc Get team exit with live checklist or completed summary
+ * @access Private (Manager, Director)
+ */
+router.get('/:id/exit', AuthMiddleware.authenticate, requireManager, TeamExitController.getExit);
+
+/**
+ * @route POST /api/teams/:id/exit/complete
+ * @desc Complete team exit (blocked while inventory is unreturned or reserved)
+ * @access Private (Manager, Director)
+ */
+router.post('/:id/exit/complete', AuthMiddleware.authenticate, requireManager, TeamExitController.completeExit);
+
+/**
+ * @route POST /api/teams/:id/exit/cancel
+ * @desc Cancel team exit in progress
+ * @access Private (Manager, Director)
+ */
+router.post('/:id/exit/cancel', AuthMiddleware.authenticate, requireManager, TeamExitController.cancelExit);
+
 /**
  * @route GET /api/teams/:id/members
  * @desc Get team members
@@ -76,4 +119,32 @@ router.post('/:id/members', AuthMiddleware.authenticate, requireIncubator, valid
  */
 router.delete('/:id/members/:memberId', AuthMiddleware.authenticate, requireIncubator, TeamController.removeMember);
 
+/**
+ * @route PATCH /api/teams/:id/members/:memberId/role
+ * @desc Change a member's team role (a team always keeps at least one leader)
+ * @access Private (Manager, Director, Incubator team leader)
+ */
+router.patch('/:id/members/:memberId/role', AuthMiddleware.authenticate, requireIncubator, validateBody(teamSchemas.changeMemberRole), TeamController.changeMemberRole);
+
+/**
+ * @route POST /api/teams/:id/leadership/transfer
+ * @desc Hand team leadership to another member in one step
+ * @access Private (Manager, Director, Incubator team leader)
+ */
+router.post('/:id/leadership/transfer', AuthMiddleware.authenticate, requireIncubator, validateBody(teamSchemas.transferLeadership), TeamController.transferLeadership);
+
+/**
+ * @route GET /api/teams/:id/history
+ * @desc Get team membership and leadership history
+ * @access Private (Role-based access)
+ */
+router.get('/:id/history', AuthMiddleware.authenticate, TeamController.getTeamHistory);
+
+/**
+ * @route GET /api/teams/:id/timeline
+ * @desc Get team activity timeline across requests, inventory, consumption, mentors, files and membership
+ * @access Private (Role-based access)
+ */
+router.get('/:id/timeline', AuthMiddleware.authenticate, validateQuery(teamSchemas.timelineQuery), TeamController.getTeamTimeline);
+
 export default router;
\ No newline at end of file
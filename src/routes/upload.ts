@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { UploadController } from '../controllers/uploadController';
-import { AuthMiddleware } from '../middleware/auth';
-import { upload, uploadImages, uploadDocuments } from '../middleware/upload';
+import { AuthMiddleware, requireDirector } from '../middleware/auth';
+import { upload, uploadImages, uploadDocuments, scanUploads } from '../middleware/upload';
 import { validateQuery, validateBody } from '../middleware/validation';
 import { uploadSchemas } from '../utils/validation';
 
@@ -12,42 +12,42 @@ const router = Router();
  * @desc Upload a single file (general purpose)
  * @access Private
  */
-router.post('/single', AuthMiddleware.authenticate, upload.single('file'), UploadController.uploadSingleFile);
+router.post('/single', AuthMiddleware.authenticate, upload.single('file'), scanUploads, UploadController.uploadSingleFile);
 
 /**
  * @route POST /api/upload/multiple
  * @desc Upload multiple files
  * @access Private
  */
-router.post('/multiple', AuthMiddleware.authenticate, upload.array('files', 10), UploadController.uploadMultipleFiles);
+router.post('/multiple', AuthMiddleware.authenticate, upload.array('files', 10), scanUploads, UploadController.uploadMultipleFiles);
 
 /**
  * @route POST /api/upload/images
  * @desc Upload image files only
  * @access Private
  */
-router.post('/images', AuthMiddleware.authenticate, uploadImages.array('images', 5), UploadController.uploadMultipleFiles);
+router.post('/images', AuthMiddleware.authenticate, uploadImages.array('images', 5), scanUploads, UploadController.uploadMultipleFiles);
 
 /**
  * @route POST /api/upload/documents
  * @desc Upload document files only
  * @access Private
  */
-router.post('/documents', AuthMiddleware.authenticate, uploadDocuments.array('documents', 5), UploadController.uploadMultipleFiles);
+router.post('/documents', AuthMiddleware.authenticate, uploadDocuments.array('documents', 5), scanUploads, UploadController.uploadMultipleFiles);
 
 /**
  * @route POST /api/upload/projects/:projectId/files
  * @desc Upload files to a specific project
  * @access Private (Project access required)
  */
-router.post('/projects/:projectId/files', AuthMiddleware.authenticate, upload.array('files', 10), UploadController.uploadProjectFiles);
+router.post('/projects/:projectId/files', AuthMiddleware.authenticate, upload.array('files', 10), scanUploads, UploadController.uploadProjectFiles);
 
 /**
  * @route POST /api/upload/messages/file
  * @desc Upload file for messaging
  * @access Private
  */
-router.post('/messages/file', AuthMiddleware.authenticate, upload.single('file'), UploadController.uploadMessageFile);
+router.post('/messages/file', AuthMiddleware.authenticate, upload.single('file'), scanUploads, UploadController.uploadMessageFile);
 
 /**
  * @route GET /api/upload/files/:fileId
@@ -98,6 +98,111 @@ router.get('/projects/:projectId/files', AuthMiddleware.authenticate, UploadCont
  */
 router.get('/files/:fileId/download', AuthMiddleware.authenticate, UploadController.downloadFile);
 
+/**
+ * @route GET /api/upload/thumbnails/:size/:fileName
+ * @desc Get a generated image thumbnail (small, medium or large)
+ * @access Private (profile photos: any user; project file images: same as downloading the file)
+ */
+router.get('/thumbnails/:size/:fileName', AuthMiddleware.authenticate, UploadController.getThumbnail);
+
+/**
+ * @route GET /api/upload/files/:fileId/access-logs
+ * @desc Get who viewed, downloaded or deleted a file
+ * @access Private (Project team leader, Director)
+ */
+router.get('/files/:fileId/access-logs', AuthMiddleware.authenticate, validateQuery(uploadSchemas.accessLogQuery), UploadController.getFileAccessLogs);
+
+/**
+ * @route POST /api/upload/files/:fileId/links
+ * @desc Create a signed, expiring download link for a project file
+ * @access Private (Team members, Managers, Directors)
+ */
+router.post('/files/:fileId/links', AuthMiddleware.authenticate, validateBody(uploadSchemas.createShareLink), UploadController.createFileShareLink);
+
+/**
+ * @route POST /api/upload/messages/:messageId/links
+ * @desc Create a signed, expiring download link for a chat message file
+ * @access Private (Conversation participants)
+ */
+router.post('/messages/:messageId/links', AuthMiddleware.authenticate, validateBody(uploadSchemas.createShareLink), UploadController.createMessageShareLink);
+
+/**
+ * @route GET /api/upload/links
+ * @desc List share links created by the current user
+ * @access Private
+ */
+router.get('/links', AuthMiddleware.authenticate, validateQuery(uploadSchemas.shareLinkQuery), UploadController.getShareLinks);
+
+/**
+ * @route DELETE /api/upload/links/:linkId
+ * @desc Revoke a share link
+ * @access Private (Link creator, Managers, Directors)
+ */
+router.delete('/links/:linkId', AuthMiddleware.authenticate, UploadController.revokeShareLink);
+
+/**
+ * @route GET /api/upload/shared/:linkId
+ * @desc Download a file through a signed share link
+ * @access Public (valid signature required)
+ */
+router.get('/shared/:linkId', validateQuery(uploadSchemas.sharedDownload), UploadController.downloadSharedFile);
+
+/**
+ * @route GET /api/upload/quotas/teams/:teamId
+ * @desc Get a team's storage usage and quota
+ * @access Private (Team members, Managers, Directors)
+ */
+router.get('/quotas/teams/:teamId', AuthMiddleware.authenticate, UploadController.getTeamStorage);
+
+/**
+ * @route PATCH /api/upload/quotas/teams/:teamId
+ * @desc Set a team's storage quota
+ * @access Private (Director only)
+ */
+router.patch('/quotas/teams/:teamId', AuthMiddleware.authenticate, requireDirector, validateBody(uploadSchemas.updateQuota), UploadController.updateTeamQuota);
+
+/**
+ * @route GET /api/upload/quotas/users/:userId
+ * @desc Get a user's storage usage and quota
+ * @access Private (The user, Managers, Directors)
+ */
+router.get('/quotas/users/:userId', AuthMiddleware.authenticate, UploadController.getUserStorage);
+
+/**
+ * @route PATCH /api/upload/quotas/users/:userId
+ * @desc Set a user's storage quota
+ * @access Private (Director only)
+ */
+router.patch('/quotas/users/:userId', AuthMiddleware.authenticate, requireDirector, validateBody(uploadSchemas.updateQuota), UploadController.updateUserQuota);
+
+/**
+ * @route POST /api/upload/files/:fileId/versions
+ * @desc Upload a new version of a project file
+ * @access Private
+ */
+router.post('/files/:fileId/versions', AuthMiddleware.authenticate, upload.single('file'), scanUploads, validateBody(uploadSchemas.createVersion), UploadController.uploadFileVersion);
+
+/**
+ * @route GET /api/upload/files/:fileId/versions
+ * @desc List all versions of a project file
+ * @access Private
+ */
+router.get('/files/:fileId/versions', AuthMiddleware.authenticate, UploadController.getFileVersions);
+
+/**
+ * @route GET /api/upload/files/:fileId/versions/:versionNumber/download
+ * @desc Download a specific version of a project file
+ * @access Private
+ */
+router.get('/files/:fileId/versions/:versionNumber/download', AuthMiddleware.authenticate, UploadController.downloadFileVersion);
+
+/**
+ * @route POST /api/upload/files/:fileId/versions/:versionNumber/restore
+ * @desc Make an older version the current one
+ * @access Private
+ */
+router.post('/files/:fileId/versions/:versionNumber/restore', AuthMiddleware.authenticate, UploadController.restoreFileVersion);
+
 /**
  * @route POST /api/upload/projects/:projectId/cleanup
  * @desc Clean up all files for a project (admin only)
@@ -105,4 +210,11 @@ router.get('/files/:fileId/download', AuthMiddleware.authenticate, UploadControl
  */
 router.post('/projects/:projectId/cleanup', AuthMiddleware.authenticate, UploadController.cleanupProjectFiles);
 
+/**
+ * @route POST /api/upload/temporary/purge
+ * @desc Delete uploads from the general upload endpoints that nothing refers to after the retention period (also runs daily)
+ * @access Private (Director/Manager only)
+ */
+router.post('/temporary/purge', AuthMiddleware.authenticate, UploadController.purgeTemporaryUploads);
+
 export default router;
\ No newline at end of file
@@ -1,9 +1,11 @@
 import { Router } from 'express';
 import { UserController } from '../controllers/userController';
-import { AuthMiddleware, requireDirector } from '../middleware/auth';
-import { validateBody } from '../middleware/validation';
-import { userSchemas } from '../utils/validation';
+import { InvitationController } from '../controllers/invitationController';
+import { AuthMiddleware, requireDirector, requirePermission } from '../middleware/auth';
+import { validateBody, validateQuery } from '../middleware/validation';
+import { userSchemas, invitationSchemas } from '../utils/validation';
 import { profileSchemas } from '../utils/profileValidation';
+import { uploadImportFile } from '../middleware/upload';
 
 const router = Router();
 
@@ -16,10 +18,17 @@ router.get('/', AuthMiddleware.authenticate, requireDirector, UserController.get
 
 /**
  * @route POST /api/users
- * @desc Create new user (Director only)
- * @access Private (Director)
+ * @desc Create new user; they set their own password from the emailed link
+ * @access Private (users.manage permission)
+ */
+router.post('/', AuthMiddleware.authenticate, requirePermission('users.manage'), validateBody(userSchemas.create), UserController.createUser);
+
+/**
+ * @route POST /api/users/import
+ * @desc Bulk import users from a CSV/XLSX file (?mode=dry_run previews, ?mode=commit applies)
+ * @access Private (users.manage permission)
  */
-router.post('/', AuthMiddleware.authenticate, requireDirector, validateBody(userSchemas.create), UserController.createUser);
+router.post('/import', AuthMiddleware.authenticate, requirePermission('users.manage'), uploadImportFile.single('file'), UserController.importUsers);
 
 /**
  * @route GET /api/users/inactive
@@ -28,6 +37,34 @@ router.post('/', AuthMiddleware.authenticate, requireDirector, validateBody(user
  */
 router.get('/inactive', AuthMiddleware.authenticate, requireDirector, UserController.getInactiveUsers);
 
+/**
+ * @route GET /api/users/invitations
+ * @desc List invitations (pending by default; filter with ?status=)
+ * @access Private (users.manage permission)
+ */
+router.get('/invitations', AuthMiddleware.authenticate, requirePermission('users.manage'), validateQuery(invitationSchemas.list), InvitationController.getInvitations);
+
+/**
+ * @route POST /api/users/invitations
+ * @desc Invite a new user by email (they set their own password)
+ * @access Private (users.manage permission)
+ */
+router.post('/invitations', AuthMiddleware.authenticate, requirePermission('users.manage'), validateBody(invitationSchemas.create), InvitationController.createInvitation);
+
+/**
+ * @route POST /api/users/invitations/:id/resend
+ * @desc Resend an invitation with a fresh link
+ * @access Private (users.manage permission)
+ */
+router.post('/invitations/:id/resend', AuthMiddleware.authenticate, requirePermission('users.manage'), InvitationController.resendInvitation);
+
+/**
+ * @route DELETE /api/users/invitations/:id
+ * @desc Revoke a pending invitation
+ * @access Private (users.manage permission)
+ */
+router.delete('/invitations/:id', AuthMiddleware.authenticate, requirePermission('users.manage'), InvitationController.revokeInvitation);
+
 /**
  * @route GET /api/users/profile
  * @desc Get current user's profile
@@ -109,22 +146,29 @@ router.get('/:id', AuthMiddleware.authenticate, UserController.getUser);
 /**
  * @route PUT /api/users/:id
  * @desc Update user (Director only)
- * @access Private (Director)
+ * @access Private (users.manage permission)
  */
-router.put('/:id', AuthMiddleware.authenticate, requireDirector, validateBody(userSchemas.update), UserController.updateUser);
+router.put('/:id', AuthMiddleware.authenticate, requirePermission('users.manage'), validateBody(userSchemas.update), UserController.updateUser);
 
 /**
  * @route DELETE /api/users/:id
  * @desc Deactivate (soft delete) user (Director only)
- * @access Private (Director)
+ * @access Private (users.manage permission)
  */
-router.delete('/:id', AuthMiddleware.authenticate, requireDirector, UserController.deleteUser);
+router.delete('/:id', AuthMiddleware.authenticate, requirePermission('users.manage'), UserController.deleteUser);
 
 /**
  * @route PATCH /api/users/:id/restore
  * @desc Restore inactive user (Director only)
- * @access Private (Director)
+ * @access Private (users.manage permission)
+ */
+router.patch('/:id/restore', AuthMiddleware.authenticate, requirePermission('users.manage'), UserController.restoreUser);
+
+/**
+ * @route PATCH /api/users/:id/unlock
+ * @desc Unlock an account locked after repeated failed logins (Director only)
+ * @access Private (users.manage permission)
  */
-router.patch('/:id/restore', AuthMiddleware.authenticate, requireDirector, UserController.restoreUser);
+router.patch('/:id/unlock', AuthMiddleware.authenticate, requirePermission('users.manage'), UserController.unlockUser);
 
 export default router;
\ No newline at end of file
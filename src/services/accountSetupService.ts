@@ -0,0 +1,60 @@
+import { UserRole } from '@prisma/client';
+import prisma from '../config/database';
+import { PasswordUtils } from '../utils/password';
+import { TokenUtils } from '../utils/token';
+import emailService from './emailService';
+
+// Set-password links for staff-created accounts stay valid as long as invitations do
+const SETUP_LINK_TTL_HOURS = parseInt(process.env.INVITATION_TTL_HOURS || '72', 10);
+
+export interface SetupAccount {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+}
+
+export class AccountSetupService {
+  /**
+   * Hash of a random password nobody knows; the account is unusable until a password is set
+   */
+  static async unusablePasswordHash(): Promise<string> {
+    return PasswordUtils.hash(TokenUtils.generate());
+  }
+
+  /**
+   * Email a welcome message with a one-time link to set a password
+   * The link is a password reset token, so it is redeemed through POST /api/auth/reset-password
+   */
+  static async sendWelcomeEmail(user: SetupAccount): Promise<void> {
+    const token = TokenUtils.generate();
+
+    await prisma.passwordResetToken.create({
+      data: {
+        user_id: user.id,
+        token_hash: TokenUtils.hash(token),
+        expires_at: new Date(Date.now() + SETUP_LINK_TTL_HOURS * 60 * 60 * 1000)
+      }
+    });
+
+    const appUrl = process.env.FRONTEND_URL || process.env.APP_URL || 'http://localhost:3000';
+
+    await emailService.sendEmail({
+      to: user.email,
+      subject: 'Welcome to Incubation Management System',
+      template: 'user/user-created',
+      emailType: 'user_created',
+      userId: user.id,
+      templateData: {
+        userName: user.name,
+        userEmail: user.email,
+        role: user.role.charAt(0).toUpperCase() + user.role.slice(1),
+        setupUrl: `${appUrl}/reset-password?token=${token}`,
+        expiresInHours: SETUP_LINK_TTL_HOURS,
+        appUrl,
+        currentYear: new Date().getFullYear(),
+        subject: 'Welcome to Incubation Management System'
+      }
+    });
+  }
+}
@@ -0,0 +1,111 @@
+export interface CalendarAttendee {
+  name: string;
+  email: string;
+}
+
+export interface CalendarEvent {
+  uid: string;
+  sequence: number; // Must increase with each update so calendar clients replace the earlier copy
+  start: Date;
+  durationMinutes: number;
+  summary: string;
+  description?: string;
+  location?: string;
+  status: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  organizer?: CalendarAttendee;
+  attendees?: CalendarAttendee[];
+  updatedAt?: Date;
+}
+
+export type CalendarMethod = 'REQUEST' | 'CANCEL' | 'PUBLISH';
+
+const PRODUCT_ID = '-//Incubation Management System//Mentoring//EN';
+
+export class CalendarService {
+  /**
+   * Build an iCalendar (RFC 5545) document
+   * REQUEST/CANCEL are used for email invites, PUBLISH for subscribable feeds
+   */
+  static buildCalendar(events: CalendarEvent[], method: CalendarMethod = 'PUBLISH', name?: string): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      `METHOD:${method}`,
+      ...(name ? [`X-WR-CALNAME:${this.escapeText(name)}`] : []),
+      ...events.flatMap(event => this.buildEvent(event)),
+      'END:VCALENDAR'
+    ];
+
+    return lines.map(line => this.foldLine(line)).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Uid shared by every invite for the same record, so updates and cancellations match up
+   */
+  static eventUid(kind: string, id: string): string {
+    return `${kind}-${id}@incubation-system`;
+  }
+
+  private static buildEvent(event: CalendarEvent): string[] {
+    const end = new Date(event.start.getTime() + event.durationMinutes * 60 * 1000);
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `SEQUENCE:${event.sequence}`,
+      `DTSTAMP:${this.formatDate(new Date())}`,
+      ...(event.updatedAt ? [`LAST-MODIFIED:${this.formatDate(event.updatedAt)}`] : []),
+      `DTSTART:${this.formatDate(event.start)}`,
+      `DTEND:${this.formatDate(end)}`,
+      `SUMMARY:${this.escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${this.escapeText(event.description)}`] : []),
+      ...(event.location ? [`LOCATION:${this.escapeText(event.location)}`] : []),
+      `STATUS:${event.status}`,
+      ...(event.organizer ? [`ORGANIZER;CN=${this.escapeParam(event.organizer.name)}:mailto:${event.organizer.email}`] : []),
+      ...(event.attendees || []).map(attendee =>
+        `ATTENDEE;CN=${this.escapeParam(attendee.name)};ROLE=REQ-PARTICIPANT;RSVP=FALSE:mailto:${attendee.email}`
+      ),
+      'END:VEVENT'
+    ];
+  }
+
+  // 20250131T143000Z
+  private static formatDate(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+
+  private static escapeText(value: string): string {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  private static escapeParam(value: string): string {
+    return `"${value.replace(/"/g, "'")}"`;
+  }
+
+  // Lines longer than 75 octets continue on the next line after a single space
+  private static foldLine(line: string): string {
+    if (Buffer.byteLength(line, 'utf8') <= 75) {
+      return line;
+    }
+
+    const parts: string[] = [];
+    let current = '';
+    for (const char of line) {
+      const limit = parts.length === 0 ? 75 : 74;
+      if (Buffer.byteLength(current + char, 'utf8') > limit) {
+        parts.push(current);
+        current = '';
+      }
+      current += char;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+  }
+}
@@ -19,6 +19,7 @@ export interface EmailOptions {
   userId?: string;
   retries?: number; // Number of retry attempts (default: 3)
   priority?: 'high' | 'normal' | 'low'; // Email priority
+  icalEvent?: { method: 'REQUEST' | 'CANCEL' | 'PUBLISH'; content: string; filename?: string }; // Calendar invite, shown as an event by mail clients
 }
 
 export interface EmailResult {
@@ -344,6 +345,7 @@ class EmailService {
         html: html || options.html,
         text: options.text || this.htmlToText(html || ''),
         priority: options.priority || 'normal',
+        icalEvent: options.icalEvent,
       };
 
       const info = await this.retryWithBackoff(
@@ -0,0 +1,368 @@
+import { EvaluationDirection, EvaluationForm, EvaluationFrequency, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import emailService from './emailService';
+import { NotificationService } from './notificationService';
+
+export type EvaluationQuestionType = 'likert' | 'numeric' | 'text';
+
+export interface EvaluationQuestion {
+  key: string;
+  label: string;
+  type: EvaluationQuestionType;
+  required: boolean;
+  min?: number; // Numeric questions only
+  max?: number;
+}
+
+export type EvaluationAnswers = Record<string, number | string>;
+
+// Likert questions are answered on a 1-5 scale (strongly disagree ... strongly agree)
+export const LIKERT_MIN = 1;
+export const LIKERT_MAX = 5;
+
+export interface QuestionSummary {
+  key: string;
+  label: string;
+  type: EvaluationQuestionType;
+  responses: number;
+  average: number | null; // Raw answer average for Likert and numeric questions
+  recent_answers?: string[]; // Text questions only, newest first
+}
+
+export const evaluationAssignmentInclude = {
+  mentor: {
+    select: {
+      id: true,
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true
+        }
+      }
+    }
+  },
+  team: {
+    select: {
+      id: true,
+      team_name: true,
+      team_members: {
+        select: {
+          role: true,
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+type AssignmentWithParticipants = Prisma.MentorAssignmentGetPayload<{ include: typeof evaluationAssignmentInclude }>;
+
+export interface MissingEvaluation {
+  form: EvaluationForm;
+  assignment: AssignmentWithParticipants;
+  period: string;
+}
+
+export interface FormSummary {
+  form_id: string;
+  form_name: string;
+  direction: string;
+  submissions: number;
+  average_score: number | null;
+  latest_period: string | null;
+  questions: QuestionSummary[];
+}
+
+export class EvaluationService {
+  /**
+   * Period a date falls in: 2025-03 for monthly forms, 2025-Q1 for quarterly forms
+   */
+  static periodFor(frequency: EvaluationFrequency, date: Date = new Date()): string {
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+
+    return frequency === 'quarterly'
+      ? `${year}-Q${Math.floor(month / 3) + 1}`
+      : `${year}-${String(month + 1).padStart(2, '0')}`;
+  }
+
+  /**
+   * Start of the period after the one a date falls in (exclusive end of the current period)
+   */
+  static periodEnd(frequency: EvaluationFrequency, date: Date = new Date()): Date {
+    const month = date.getUTCMonth();
+    const nextMonth = frequency === 'quarterly' ? (Math.floor(month / 3) + 1) * 3 : month + 1;
+    return new Date(Date.UTC(date.getUTCFullYear(), nextMonth, 1));
+  }
+
+  /**
+   * Period immediately before the current one, so late evaluations can still be submitted
+   */
+  static previousPeriod(frequency: EvaluationFrequency, date: Date = new Date()): string {
+    const monthsBack = frequency === 'quarterly' ? 3 : 1;
+    return this.periodFor(frequency, new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - monthsBack, 1)));
+  }
+
+  /**
+   * Check answers against the form's questions; returns one message per problem
+   */
+  static validateAnswers(questions: EvaluationQuestion[], answers: EvaluationAnswers): string[] {
+    const errors: string[] = [];
+    const keys = new Set(questions.map(question => question.key));
+
+    for (const key of Object.keys(answers)) {
+      if (!keys.has(key)) {
+        errors.push(`Unknown question: ${key}`);
+      }
+    }
+
+    for (const question of questions) {
+      const value = answers[question.key];
+
+      if (value === undefined || value === null || value === '') {
+        if (question.required) {
+          errors.push(`${question.label} is required`);
+        }
+        continue;
+      }
+
+      if (question.type === 'text') {
+        if (typeof value !== 'string') {
+          errors.push(`${question.label} must be text`);
+        }
+        continue;
+      }
+
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push(`${question.label} must be a number`);
+        continue;
+      }
+
+      const [min, max] = this.range(question);
+
+      if (question.type === 'likert' && !Number.isInteger(value)) {
+        errors.push(`${question.label} must be a whole number from ${min} to ${max}`);
+      } else if (value < min || value > max) {
+        errors.push(`${question.label} must be between ${min} and ${max}`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Likert and numeric answers scaled to 0-100 and averaged; null when no scored question was answered
+   */
+  static score(questions: EvaluationQuestion[], answers: EvaluationAnswers): number | null {
+    const scaled = questions
+      .filter(question => question.type !== 'text' && typeof answers[question.key] === 'number')
+      .map(question => {
+        const [min, max] = this.range(question);
+        return max > min ? (((answers[question.key] as number) - min) / (max - min)) * 100 : 100;
+      });
+
+    if (scaled.length === 0) {
+      return null;
+    }
+
+    return Math.round((scaled.reduce((sum, value) => sum + value, 0) / scaled.length) * 10) / 10;
+  }
+
+  /**
+   * Aggregate submissions per form: overall score, per-question averages and recent text answers
+   */
+  static async summarize(where: Prisma.EvaluationSubmissionWhereInput): Promise<FormSummary[]> {
+    const submissions = await prisma.evaluationSubmission.findMany({
+      where,
+      include: {
+        form: {
+          select: {
+            id: true,
+            name: true,
+            questions: true
+          }
+        }
+      },
+      orderBy: { submitted_at: 'desc' }
+    });
+
+    const byForm = new Map<string, typeof submissions>();
+    for (const submission of submissions) {
+      byForm.set(submission.form_id, [...(byForm.get(submission.form_id) || []), submission]);
+    }
+
+    return [...byForm.values()].map(formSubmissions => {
+      const { form, direction } = formSubmissions[0];
+      const questions = form.questions as unknown as EvaluationQuestion[];
+      const scores = formSubmissions.map(submission => submission.score).filter((score): score is number => score !== null);
+      const answers = formSubmissions.map(submission => submission.answers as EvaluationAnswers);
+
+      return {
+        form_id: form.id,
+        form_name: form.name,
+        direction,
+        submissions: formSubmissions.length,
+        average_score: this.average(scores),
+        latest_period: formSubmissions.map(submission => submission.period).sort().pop() || null,
+        questions: questions.map(question => {
+          const values = answers
+            .map(answer => answer[question.key])
+            .filter(value => value !== undefined && value !== null && value !== '');
+
+          return {
+            key: question.key,
+            label: question.label,
+            type: question.type,
+            responses: values.length,
+            average: question.type === 'text' ? null : this.average(values.filter((value): value is number => typeof value === 'number')),
+            ...(question.type === 'text' && {
+              recent_answers: values.filter((value): value is string => typeof value === 'string').slice(0, 5)
+            })
+          };
+        })
+      };
+    });
+  }
+
+  /**
+   * Active form / assignment pairs with no submission for the form's current period
+   */
+  static async findMissing(
+    assignmentWhere: Prisma.MentorAssignmentWhereInput,
+    direction?: EvaluationDirection,
+    formIds?: string[]
+  ): Promise<MissingEvaluation[]> {
+    const [forms, assignments] = await Promise.all([
+      prisma.evaluationForm.findMany({
+        where: {
+          is_active: true,
+          ...(direction && { direction }),
+          ...(formIds && { id: { in: formIds } })
+        }
+      }),
+      prisma.mentorAssignment.findMany({
+        where: {
+          AND: [
+            assignmentWhere,
+            { team: { deactivated_at: null } },
+            { mentor: { user: { status: 'active' } } }
+          ]
+        },
+        include: evaluationAssignmentInclude
+      })
+    ]);
+
+    if (forms.length === 0 || assignments.length === 0) {
+      return [];
+    }
+
+    const periodByForm = new Map(forms.map(form => [form.id, this.periodFor(form.frequency)]));
+
+    const submitted = await prisma.evaluationSubmission.findMany({
+      where: {
+        form_id: { in: forms.map(form => form.id) },
+        period: { in: [...new Set(periodByForm.values())] },
+        mentor_id: { in: [...new Set(assignments.map(assignment => assignment.mentor_id))] }
+      },
+      select: {
+        form_id: true,
+        mentor_id: true,
+        team_id: true,
+        period: true
+      }
+    });
+
+    const done = new Set(submitted.map(submission =>
+      `${submission.form_id}:${submission.mentor_id}:${submission.team_id}:${submission.period}`
+    ));
+
+    return forms.flatMap(form => {
+      const period = periodByForm.get(form.id)!;
+      return assignments
+        .filter(assignment => !done.has(`${form.id}:${assignment.mentor_id}:${assignment.team_id}:${period}`))
+        .map(assignment => ({ form, assignment, period }));
+    });
+  }
+
+  /**
+   * Notify and email mentors and team leaders about evaluations missing this period
+   * Each person gets one reminder listing everything they owe
+   */
+  static async sendReminders(senderId: string, formIds?: string[]): Promise<{ missing: number; remindersSent: number }> {
+    const missing = await this.findMissing({}, undefined, formIds);
+
+    const dueByUser = new Map<string, { user: { id: string; name: string; email: string }; items: string[] }>();
+
+    for (const item of missing) {
+      const { mentor, team } = item.assignment;
+      let recipients: { id: string; name: string; email: string }[];
+      let description: string;
+
+      if (item.form.direction === 'mentor_to_team') {
+        recipients = [mentor.user];
+        description = `${item.form.name} for ${team.team_name} (${item.period})`;
+      } else {
+        const leaders = team.team_members.filter(member => member.role === 'team_leader');
+        recipients = (leaders.length > 0 ? leaders : team.team_members).map(member => member.user);
+        description = `${item.form.name} for ${mentor.user.name} (${item.period})`;
+      }
+
+      for (const recipient of recipients) {
+        const due = dueByUser.get(recipient.id) || { user: recipient, items: [] };
+        due.items.push(description);
+        dueByUser.set(recipient.id, due);
+      }
+    }
+
+    for (const { user, items } of dueByUser.values()) {
+      await this.remind(user, senderId, items);
+    }
+
+    return { missing: missing.length, remindersSent: dueByUser.size };
+  }
+
+  private static async remind(user: { id: string; name: string; email: string }, senderId: string, items: string[]): Promise<void> {
+    try {
+      await NotificationService.notifyUsers([user.id], senderId, 'Evaluations due', `Please submit: ${items.join('; ')}`);
+    } catch (error) {
+      console.error('Failed to send evaluation reminder notification:', error);
+    }
+
+    try {
+      await emailService.sendEmail({
+        to: user.email,
+        subject: 'Evaluations Due',
+        template: 'mentor/evaluation-reminder',
+        templateData: {
+          recipientName: user.name,
+          items,
+          appUrl: process.env.FRONTEND_URL || process.env.APP_URL || 'http://localhost:3000',
+          currentYear: new Date().getFullYear(),
+          subject: 'Evaluations Due'
+        }
+      });
+    } catch (emailError) {
+      console.error('Failed to send evaluation reminder email:', emailError);
+    }
+  }
+
+  private static range(question: EvaluationQuestion): [number, number] {
+    return question.type === 'likert'
+      ? [LIKERT_MIN, LIKERT_MAX]
+      : [question.min ?? 0, question.max ?? 100];
+  }
+
+  private static average(values: number[]): number | null {
+    if (values.length === 0) {
+      return null;
+    }
+    return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+  }
+}
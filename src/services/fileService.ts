@@ -1,10 +1,29 @@
 import fs from 'fs';
 import path from 'path';
-import { S3Client, DeleteObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
-// import sharp from 'sharp';
-import * as Jimp from 'jimp';
+import { S3Client, CopyObjectCommand, DeleteObjectCommand, GetObjectCommand, ListObjectsV2Command, PutObjectCommand } from '@aws-sdk/client-s3';
+import { Jimp } from 'jimp';
+import { Prisma, ProjectFile, ProjectFileVersion } from '@prisma/client';
 import prisma from '../config/database';
 
+// Square thumbnail edge length in pixels
+export const THUMBNAIL_SIZES = {
+  small: 64,
+  medium: 200,
+  large: 480
+} as const;
+
+export type ThumbnailSize = keyof typeof THUMBNAIL_SIZES;
+
+// Files from the general upload endpoints are deleted after this long unless a record refers to them
+export const TEMPORARY_UPLOAD_TTL_HOURS = parseInt(process.env.TEMPORARY_UPLOAD_TTL_HOURS || '24', 10);
+
+// A version as listed to clients; id is null for the implicit version 1 of never re-uploaded files
+export interface FileVersionEntry extends Omit<ProjectFileVersion, 'id'> {
+  id: string | null;
+  uploader: { id: string; name: string };
+  is_current: boolean;
+}
+
 export class FileService {
   private static s3Client = new S3Client({
     region: process.env.AWS_REGION || 'us-east-1',
@@ -17,6 +36,7 @@ export class FileService {
   private static useS3 = process.env.USE_S3 === 'true';
   private static uploadDir = process.env.UPLOAD_DIR || path.join(__dirname, '../../uploads');
   private static thumbnailsDir = path.join(this.uploadDir, 'thumbnails');
+  private static quarantineDir = path.join(this.uploadDir, 'quarantine');
 
   /**
    * Initialize file service directories
@@ -24,7 +44,7 @@ export class FileService {
   static initialize(): void {
     if (!this.useS3) {
       // Ensure upload directories exist
-      [this.uploadDir, this.thumbnailsDir].forEach(dir => {
+      [this.uploadDir, this.thumbnailsDir, this.quarantineDir].forEach(dir => {
         if (!fs.existsSync(dir)) {
           fs.mkdirSync(dir, { recursive: true });
         }
@@ -33,39 +53,199 @@ export class FileService {
   }
 
   /**
-   * Generate thumbnail for image files
+   * Generate square JPEG thumbnails of an image in every size
+   * `source` is the stored file path locally, or the object key when using S3
    */
-  static async generateThumbnail(filePath: string, fileName: string): Promise<string | null> {
+  static async generateThumbnails(source: string, fileName: string): Promise<Record<ThumbnailSize, string> | null> {
     try {
-      if (this.useS3) {
-        // For S3, we'd need to download, process, and re-upload
-        // This is a simplified version - in production you'd implement this
+      const original = this.useS3 ? await this.readS3Object(source) : source;
+      if (!original) {
         return null;
       }
 
-      const thumbnailName = `thumb_${fileName}`;
-      const thumbnailPath = path.join(this.thumbnailsDir, thumbnailName);
-
-      // await sharp(filePath)
-      //   .resize(200, 200, {
-      //     fit: 'cover',
-      //     position: 'center'
-      //   })
-      //   .jpeg({ quality: 80 })
-      //   .toFile(thumbnailPath);
-      // Use Jimp to resize and save the thumbnail
-const image = await (Jimp as any).read(filePath);
-      await image
-        .resize(200, 200) // Resize to 200x200
-        .quality(80) // Set JPEG quality to 80
-        .writeAsync(thumbnailPath); // Save the thumbnail
-
-
-      return thumbnailName;
+      const image = await Jimp.read(original);
+      const thumbnails = {} as Record<ThumbnailSize, string>;
+
+      for (const size of Object.keys(THUMBNAIL_SIZES) as ThumbnailSize[]) {
+        const dimension = THUMBNAIL_SIZES[size];
+
+        // Flatten onto white so transparent areas don't turn black in the JPEG
+        const thumbnail = new Jimp({ width: dimension, height: dimension, color: 0xffffffff })
+          .composite(image.clone().cover({ w: dimension, h: dimension }));
+        const buffer = await thumbnail.getBuffer('image/jpeg', { quality: 80 });
+        const thumbnailName = this.getThumbnailName(size, fileName);
+
+        if (this.useS3) {
+          await this.s3Client.send(new PutObjectCommand({
+            Bucket: process.env.AWS_S3_BUCKET || '',
+            Key: `uploads/thumbnails/${thumbnailName}`,
+            Body: buffer,
+            ContentType: 'image/jpeg'
+          }));
+        } else {
+          fs.writeFileSync(path.join(this.thumbnailsDir, thumbnailName), buffer);
+        }
+
+        thumbnails[size] = `/api/upload/thumbnails/${size}/${encodeURIComponent(fileName)}`;
+      }
+
+      return thumbnails;
     } catch (error) {
-      console.error('Error generating thumbnail:', error);
+      console.error('Error generating thumbnails:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Generate thumbnails for a file just stored by the upload middleware
+   */
+  static async generateUploadThumbnails(file: Express.Multer.File): Promise<Record<ThumbnailSize, string> | null> {
+    const key = (file as any).key as string | undefined;
+    return this.generateThumbnails(key || file.path, path.basename(key || file.filename));
+  }
+
+  /**
+   * Read a generated thumbnail, or null if it doesn't exist
+   */
+  static async getThumbnail(size: ThumbnailSize, fileName: string): Promise<Buffer | null> {
+    const thumbnailName = this.getThumbnailName(size, fileName);
+
+    if (this.useS3) {
+      return this.readS3Object(`uploads/thumbnails/${thumbnailName}`);
+    }
+
+    const thumbnailPath = path.join(this.thumbnailsDir, thumbnailName);
+    return fs.existsSync(thumbnailPath) ? fs.readFileSync(thumbnailPath) : null;
+  }
+
+  /**
+   * Map a URL served from our own storage back to its stored path (local) or object key (S3)
+   */
+  static resolveStoredSource(fileUrl: string): string | null {
+    const uploadRoot = path.resolve(this.uploadDir);
+
+    // Chat attachments sent before they were stored as URLs hold multer's absolute path
+    const absolutePath = path.resolve(fileUrl);
+    if (!this.useS3 && path.isAbsolute(fileUrl) && absolutePath.startsWith(uploadRoot + path.sep)) {
+      return absolutePath;
+    }
+
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(new URL(fileUrl, 'http://localhost').pathname);
+    } catch {
+      return null;
+    }
+
+    if (!pathname.startsWith('/uploads/')) {
       return null;
     }
+
+    const relativePath = pathname.slice('/uploads/'.length);
+    if (this.useS3) {
+      return `uploads/${relativePath}`;
+    }
+
+    // Never resolve outside the upload directory
+    const fullPath = path.resolve(uploadRoot, relativePath);
+    return fullPath.startsWith(uploadRoot + path.sep) ? fullPath : null;
+  }
+
+  /**
+   * Read an upload that multer has just stored in quarantine
+   */
+  static async readQuarantinedFile(file: Express.Multer.File): Promise<Buffer> {
+    const key = (file as any).key as string | undefined;
+
+    if (key) {
+      const content = await this.readS3Object(key);
+      if (!content) {
+        throw new Error(`Quarantined object ${key} not found`);
+      }
+      return content;
+    }
+
+    return fs.readFileSync(file.path);
+  }
+
+  /**
+   * Move a scanned upload out of quarantine into regular storage, updating the multer file in place
+   */
+  static async releaseFromQuarantine(file: Express.Multer.File): Promise<void> {
+    const key = (file as any).key as string | undefined;
+
+    if (key) {
+      const bucket = process.env.AWS_S3_BUCKET || '';
+      const releasedKey = `uploads/${path.basename(key)}`;
+
+      await this.s3Client.send(new CopyObjectCommand({
+        Bucket: bucket,
+        CopySource: `${bucket}/${encodeURIComponent(key)}`,
+        Key: releasedKey
+      }));
+      await this.s3Client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+
+      (file as any).key = releasedKey;
+      return;
+    }
+
+    const releasedPath = path.join(this.uploadDir, file.filename);
+    fs.renameSync(file.path, releasedPath);
+    file.destination = this.uploadDir;
+    file.path = releasedPath;
+  }
+
+  /**
+   * Delete an upload that is still in quarantine
+   */
+  static async discardQuarantinedFile(file: Express.Multer.File): Promise<void> {
+    const key = (file as any).key as string | undefined;
+
+    if (key) {
+      await this.s3Client.send(new DeleteObjectCommand({
+        Bucket: process.env.AWS_S3_BUCKET || '',
+        Key: key
+      }));
+    } else if (fs.existsSync(file.path)) {
+      fs.unlinkSync(file.path);
+    }
+  }
+
+  private static getThumbnailName(size: ThumbnailSize, fileName: string): string {
+    return `thumb_${size}_${path.parse(fileName).name}.jpg`;
+  }
+
+  private static async deleteThumbnails(fileName: string): Promise<void> {
+    for (const size of Object.keys(THUMBNAIL_SIZES) as ThumbnailSize[]) {
+      const thumbnailName = this.getThumbnailName(size, fileName);
+
+      if (this.useS3) {
+        await this.s3Client.send(new DeleteObjectCommand({
+          Bucket: process.env.AWS_S3_BUCKET || '',
+          Key: `uploads/thumbnails/${thumbnailName}`
+        }));
+      } else {
+        const thumbnailPath = path.join(this.thumbnailsDir, thumbnailName);
+        if (fs.existsSync(thumbnailPath)) {
+          fs.unlinkSync(thumbnailPath);
+        }
+      }
+    }
+  }
+
+  private static async readS3Object(key: string): Promise<Buffer | null> {
+    try {
+      const result = await this.s3Client.send(new GetObjectCommand({
+        Bucket: process.env.AWS_S3_BUCKET || '',
+        Key: key
+      }));
+      return Buffer.from(await result.Body!.transformToByteArray());
+    } catch (error) {
+      if ((error as any)?.name === 'NoSuchKey') {
+        return null;
+      }
+      throw error;
+    }
   }
 
   /**
@@ -78,9 +258,11 @@ const image = await (Jimp as any).read(filePath);
         where: { project_id: projectId }
       });
 
-      // Delete files from storage
+      // Delete files from storage, including every stored version
       for (const file of projectFiles) {
-        await this.deleteFile(file.file_path);
+        for (const storedPath of await this.getStoredPaths(file.id)) {
+          await this.deleteFile(storedPath);
+        }
       }
 
       // Delete file records from database
@@ -108,6 +290,7 @@ const image = await (Jimp as any).read(filePath);
         });
 
         await this.s3Client.send(deleteCommand);
+        await this.deleteThumbnails(path.basename(key));
       } else {
         // Delete from local storage
         const fullPath = path.join(this.uploadDir, filePath);
@@ -115,11 +298,8 @@ const image = await (Jimp as any).read(filePath);
           fs.unlinkSync(fullPath);
         }
 
-        // Also delete thumbnail if it exists
-        const thumbnailPath = path.join(this.thumbnailsDir, `thumb_${path.basename(filePath)}`);
-        if (fs.existsSync(thumbnailPath)) {
-          fs.unlinkSync(thumbnailPath);
-        }
+        // Also delete thumbnails if they exist
+        await this.deleteThumbnails(path.basename(filePath));
       }
     } catch (error) {
       console.error('Error deleting file:', error);
@@ -128,26 +308,204 @@ const image = await (Jimp as any).read(filePath);
   }
 
   /**
-   * Create file version (for versioning system)
+   * Store a new version of a project file and make it the current one
+   * Files uploaded before versioning get their original content recorded as version 1 first
    */
   static async createFileVersion(
-    projectId: string,
-    originalFileId: string,
-    newFilePath: string,
-    version: number,
-    userId: string
-  ): Promise<void> {
-    try {
-      // This would create a version record in a file_versions table
+    fileId: string,
+    content: { file_name: string; file_path: string; file_type?: string | null; file_size?: number | null },
+    userId: string,
+    changeNote?: string,
+    client?: Prisma.TransactionClient
+  ): Promise<ProjectFileVersion> {
+    const write = async (tx: Prisma.TransactionClient): Promise<ProjectFileVersion> => {
+      // Lock the file row so concurrent uploads of the same file take version numbers one at a time
+      await tx.$queryRaw`SELECT id FROM project_files WHERE id = ${fileId} FOR UPDATE`;
+
+      const file = await tx.projectFile.findUniqueOrThrow({
+        where: { id: fileId }
+      });
+
+      const latest = await tx.projectFileVersion.findFirst({
+        where: { file_id: fileId },
+        orderBy: { version_number: 'desc' }
+      });
+
+      if (!latest) {
+        await tx.projectFileVersion.create({
+          data: {
+            file_id: fileId,
+            version_number: 1,
+            file_name: file.file_name,
+            file_path: file.file_path,
+            file_type: file.file_type,
+            file_size: file.file_size,
+            uploaded_by: file.uploaded_by,
+            uploaded_at: file.uploaded_at
+          }
+        });
+      }
+
+      const versionNumber = (latest?.version_number ?? 1) + 1;
+
+      const version = await tx.projectFileVersion.create({
+        data: {
+          file_id: fileId,
+          version_number: versionNumber,
+          file_name: content.file_name,
+          file_path: content.file_path,
+          file_type: content.file_type ?? null,
+          file_size: content.file_size ?? null,
+          change_note: changeNote || null,
+          uploaded_by: userId
+        }
+      });
+
+      await tx.projectFile.update({
+        where: { id: fileId },
+        data: {
+          file_name: content.file_name,
+          file_path: content.file_path,
+          file_type: content.file_type ?? null,
+          file_size: content.file_size ?? null,
+          current_version: versionNumber
+        }
+      });
+
+      return version;
+    };
 
-      // In a full implementation, you'd create a file_versions table
-      // and store version metadata
+    try {
+      return await (client ? write(client) : prisma.$transaction(write));
     } catch (error) {
       console.error('Error creating file version:', error);
       throw error;
     }
   }
 
+  /**
+   * List versions of a project file, newest first
+   * Files never re-uploaded have a single implicit version 1
+   */
+  static async getFileVersions(fileId: string): Promise<FileVersionEntry[]> {
+    const file = await prisma.projectFile.findUnique({
+      where: { id: fileId },
+      include: {
+        versions: {
+          include: {
+            uploader: {
+              select: { id: true, name: true }
+            }
+          },
+          orderBy: { version_number: 'desc' }
+        },
+        uploader: {
+          select: { id: true, name: true }
+        }
+      }
+    });
+
+    if (!file) {
+      return [];
+    }
+
+    const versions: Omit<FileVersionEntry, 'is_current'>[] = file.versions.length > 0 ? file.versions : [{
+      id: null,
+      file_id: file.id,
+      version_number: 1,
+      file_name: file.file_name,
+      file_path: file.file_path,
+      file_type: file.file_type,
+      file_size: file.file_size,
+      change_note: null,
+      uploaded_by: file.uploaded_by,
+      uploaded_at: file.uploaded_at,
+      uploader: file.uploader
+    }];
+
+    return versions.map(version => ({
+      ...version,
+      is_current: version.version_number === file.current_version
+    }));
+  }
+
+  /**
+   * Make an older version the current one again (no new copy is stored)
+   */
+  static async restoreFileVersion(fileId: string, versionNumber: number): Promise<ProjectFile | null> {
+    const version = await prisma.projectFileVersion.findUnique({
+      where: {
+        file_id_version_number: {
+          file_id: fileId,
+          version_number: versionNumber
+        }
+      }
+    });
+
+    if (!version) {
+      return null;
+    }
+
+    return prisma.projectFile.update({
+      where: { id: fileId },
+      data: {
+        file_name: version.file_name,
+        file_path: version.file_path,
+        file_type: version.file_type,
+        file_size: version.file_size,
+        current_version: version.version_number
+      }
+    });
+  }
+
+  /**
+   * Storage used by project files, counting every stored version
+   */
+  static async getStorageUsage(
+    fileWhere: Prisma.ProjectFileWhereInput = {},
+    uploadedBy?: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<number> {
+    const [versioned, unversioned] = await Promise.all([
+      client.projectFileVersion.aggregate({
+        where: {
+          file: fileWhere,
+          ...(uploadedBy && { uploaded_by: uploadedBy })
+        },
+        _sum: { file_size: true }
+      }),
+      client.projectFile.aggregate({
+        where: {
+          ...fileWhere,
+          versions: { none: {} },
+          ...(uploadedBy && { uploaded_by: uploadedBy })
+        },
+        _sum: { file_size: true }
+      })
+    ]);
+
+    return (versioned._sum.file_size || 0) + (unversioned._sum.file_size || 0);
+  }
+
+  /**
+   * Every stored path of a file: its current content plus all versions
+   */
+  static async getStoredPaths(fileId: string): Promise<string[]> {
+    const file = await prisma.projectFile.findUnique({
+      where: { id: fileId },
+      select: {
+        file_path: true,
+        versions: { select: { file_path: true } }
+      }
+    });
+
+    if (!file) {
+      return [];
+    }
+
+    return [...new Set([file.file_path, ...file.versions.map(version => version.file_path)])];
+  }
+
   /**
    * Search files by name, type, or project
    */
@@ -263,11 +621,8 @@ const image = await (Jimp as any).read(filePath);
         // Total file count
         prisma.projectFile.count({ where }),
 
-        // Total size
-        prisma.projectFile.aggregate({
-          where,
-          _sum: { file_size: true }
-        }),
+        // Total size (all versions)
+        this.getStorageUsage(where),
 
         // Files by type
         prisma.projectFile.groupBy({
@@ -309,8 +664,8 @@ const image = await (Jimp as any).read(filePath);
 
       return {
         total_files: totalFiles,
-        total_size_bytes: totalSize._sum.file_size || 0,
-        total_size_mb: Math.round(((totalSize._sum.file_size || 0) / (1024 * 1024)) * 100) / 100,
+        total_size_bytes: totalSize,
+        total_size_mb: Math.round((totalSize / (1024 * 1024)) * 100) / 100,
         files_by_type: filesByType.map(type => ({
           type: type.file_type,
           count: type._count.file_type
@@ -340,32 +695,192 @@ const image = await (Jimp as any).read(filePath);
 
   /**
    * Log file access for audit purposes
+   * Call before deleting a file so its name and project are still available
    */
   static async logFileAccess(
     fileId: string,
     userId: string,
     action: 'view' | 'download' | 'delete',
-    ipAddress?: string
+    ipAddress?: string,
+    userAgent?: string
   ): Promise<void> {
     try {
-      // In a full implementation, you'd create a file_access_logs table
-
-      // You could store this in a database table for audit purposes
-      // await prisma.fileAccessLog.create({
-      //   data: {
-      //     file_id: fileId,
-      //     user_id: userId,
-      //     action,
-      //     ip_address: ipAddress,
-      //     accessed_at: new Date()
-      //   }
-      // });
+      const file = await prisma.projectFile.findUnique({
+        where: { id: fileId },
+        select: { file_name: true, project_id: true }
+      });
+
+      if (!file) {
+        return;
+      }
+
+      await prisma.fileAccessLog.create({
+        data: {
+          file_id: fileId,
+          file_name: file.file_name,
+          project_id: file.project_id,
+          user_id: userId,
+          action,
+          ip_address: ipAddress,
+          user_agent: userAgent
+        }
+      });
     } catch (error) {
       console.error('Error logging file access:', error);
       // Don't throw error for logging failures
     }
   }
 
+  /**
+   * Log a view of every project file returned by a listing that exposes the stored paths
+   */
+  static async logFileListAccess(
+    files: { id: string; file_name: string; project_id: string }[],
+    userId: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    if (files.length === 0) {
+      return;
+    }
+
+    try {
+      await prisma.fileAccessLog.createMany({
+        data: files.map(file => ({
+          file_id: file.id,
+          file_name: file.file_name,
+          project_id: file.project_id,
+          user_id: userId,
+          action: 'view' as const,
+          ip_address: ipAddress,
+          user_agent: userAgent
+        }))
+      });
+    } catch (error) {
+      console.error('Error logging file list access:', error);
+      // Don't throw error for logging failures
+    }
+  }
+
+  /**
+   * Log a download made through a signed share link (no signed-in user)
+   */
+  static async logShareLinkAccess(
+    link: { id: string; file_id: string | null; message_id: string | null },
+    file: { file_name: string; project_id?: string | null },
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    try {
+      await prisma.fileAccessLog.create({
+        data: {
+          file_id: (link.file_id || link.message_id)!,
+          file_name: file.file_name,
+          project_id: file.project_id,
+          share_link_id: link.id,
+          action: 'download',
+          ip_address: ipAddress,
+          user_agent: userAgent
+        }
+      });
+    } catch (error) {
+      console.error('Error logging share link access:', error);
+      // Don't throw error for logging failures
+    }
+  }
+
+  /**
+   * Read a stored file's content, or null if it no longer exists
+   * Accepts the file_path saved at upload time (local /uploads/... path or S3 key)
+   */
+  static async readStoredFile(filePath: string): Promise<Buffer | null> {
+    const source = this.resolveStoredSource(filePath);
+
+    if (!source) {
+      return null;
+    }
+
+    if (this.useS3) {
+      return this.readS3Object(source);
+    }
+
+    return fs.existsSync(source) ? fs.readFileSync(source) : null;
+  }
+
+  /**
+   * Delete stored uploads older than the cutoff that no record points at
+   * Files from the general upload endpoints are temporary: they are kept only once a project file,
+   * file version, chat message, request attachment or profile photo refers to them
+   */
+  static async purgeUnreferencedUploads(olderThan: Date): Promise<number> {
+    const [projectFiles, versions, messages, attachments, photos] = await Promise.all([
+      prisma.projectFile.findMany({ select: { file_path: true } }),
+      prisma.projectFileVersion.findMany({ select: { file_path: true } }),
+      prisma.message.findMany({ where: { file_path: { not: null } }, select: { file_path: true } }),
+      prisma.requestAttachment.findMany({ select: { file_path: true } }),
+      prisma.user.findMany({ where: { profile_photo_url: { not: null } }, select: { profile_photo_url: true } })
+    ]);
+
+    const referenced = new Set<string>();
+    for (const storedPath of [
+      ...[...projectFiles, ...versions, ...messages, ...attachments].map(row => row.file_path),
+      ...photos.map(user => user.profile_photo_url)
+    ]) {
+      const source = storedPath && this.resolveStoredSource(storedPath);
+      if (source) {
+        referenced.add(path.basename(source));
+      }
+    }
+
+    let deleted = 0;
+    for (const stored of await this.listStoredUploads(olderThan)) {
+      if (!referenced.has(path.basename(stored))) {
+        await this.deleteFile(stored);
+        deleted++;
+      }
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Uploads in regular storage (not quarantine or thumbnails) last written before the cutoff:
+   * file names locally, object keys on S3
+   */
+  private static async listStoredUploads(olderThan: Date): Promise<string[]> {
+    if (this.useS3) {
+      const keys: string[] = [];
+      let continuationToken: string | undefined;
+
+      do {
+        const page = await this.s3Client.send(new ListObjectsV2Command({
+          Bucket: process.env.AWS_S3_BUCKET || '',
+          Prefix: 'uploads/',
+          Delimiter: '/', // Leaves out uploads/thumbnails/
+          ContinuationToken: continuationToken
+        }));
+
+        for (const object of page.Contents || []) {
+          if (object.Key && object.LastModified && object.LastModified < olderThan) {
+            keys.push(object.Key);
+          }
+        }
+        continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+      } while (continuationToken);
+
+      return keys;
+    }
+
+    if (!fs.existsSync(this.uploadDir)) {
+      return [];
+    }
+
+    return fs.readdirSync(this.uploadDir, { withFileTypes: true })
+      .filter(entry => entry.isFile() && !entry.name.startsWith('.'))
+      .map(entry => entry.name)
+      .filter(name => fs.statSync(path.join(this.uploadDir, name)).mtime < olderThan);
+  }
+
   /**
    * Validate file before upload
    */
@@ -427,7 +942,7 @@ const image = await (Jimp as any).read(filePath);
   /**
    * Batch file operations
    */
-  static async batchDelete(fileIds: string[], userId: string, userRole: string): Promise<{ success: string[], failed: string[] }> {
+  static async batchDelete(fileIds: string[], userId: string, userRole: string, ipAddress?: string): Promise<{ success: string[], failed: string[] }> {
     const success: string[] = [];
     const failed: string[] = [];
 
@@ -468,8 +983,12 @@ const image = await (Jimp as any).read(filePath);
           continue;
         }
 
-        // Delete file
-        await this.deleteFile(file.file_path);
+        await this.logFileAccess(file.id, userId, 'delete', ipAddress);
+
+        // Delete file and all of its versions
+        for (const storedPath of await this.getStoredPaths(file.id)) {
+          await this.deleteFile(storedPath);
+        }
         await prisma.projectFile.delete({ where: { id: fileId } });
 
         success.push(fileId);
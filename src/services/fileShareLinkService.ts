@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+import { FileShareLink } from '@prisma/client';
+import prisma from '../config/database';
+
+// Falls back to the JWT secret so links work without extra configuration
+const LINK_SECRET = process.env.FILE_LINK_SECRET || process.env.JWT_SECRET || 'your_super_secret_jwt_key_here_change_in_production';
+
+export type ShareLinkRedeemResult =
+  | { valid: true; link: FileShareLink }
+  | { valid: false; reason: 'INVALID_SIGNATURE' | 'LINK_NOT_FOUND' | 'LINK_REVOKED' | 'LINK_EXPIRED' | 'DOWNLOAD_LIMIT_REACHED' };
+
+export class FileShareLinkService {
+  /**
+   * HMAC over the link id and its expiry, so neither can be changed in the URL
+   */
+  static sign(linkId: string, expiresAt: Date): string {
+    return crypto
+      .createHmac('sha256', LINK_SECRET)
+      .update(`${linkId}.${Math.floor(expiresAt.getTime() / 1000)}`)
+      .digest('base64url');
+  }
+
+  /**
+   * Public URL for a link; anyone holding it can download the file until it expires
+   */
+  static buildUrl(baseUrl: string, link: Pick<FileShareLink, 'id' | 'expires_at'>): string {
+    const expires = Math.floor(link.expires_at.getTime() / 1000);
+    return `${baseUrl}/api/upload/shared/${link.id}?expires=${expires}&signature=${this.sign(link.id, link.expires_at)}`;
+  }
+
+  /**
+   * Check a signed link and count one download against it
+   */
+  static async redeem(linkId: string, expires: string, signature: string): Promise<ShareLinkRedeemResult> {
+    const expiresAt = new Date(parseInt(expires, 10) * 1000);
+    if (isNaN(expiresAt.getTime())) {
+      return { valid: false, reason: 'INVALID_SIGNATURE' };
+    }
+
+    const expected = Buffer.from(this.sign(linkId, expiresAt));
+    const given = Buffer.from(signature);
+    if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) {
+      return { valid: false, reason: 'INVALID_SIGNATURE' };
+    }
+
+    const link = await prisma.fileShareLink.findUnique({ where: { id: linkId } });
+
+    if (!link) {
+      return { valid: false, reason: 'LINK_NOT_FOUND' };
+    }
+
+    if (link.revoked_at) {
+      return { valid: false, reason: 'LINK_REVOKED' };
+    }
+
+    if (link.expires_at < new Date()) {
+      return { valid: false, reason: 'LINK_EXPIRED' };
+    }
+
+    // Conditional increment so concurrent downloads can't overshoot the limit
+    const claimed = await prisma.fileShareLink.updateMany({
+      where: {
+        id: link.id,
+        revoked_at: null,
+        ...(link.max_downloads !== null && { download_count: { lt: link.max_downloads } })
+      },
+      data: {
+        download_count: { increment: 1 },
+        last_used_at: new Date()
+      }
+    });
+
+    if (claimed.count === 0) {
+      return { valid: false, reason: 'DOWNLOAD_LIMIT_REACHED' };
+    }
+
+    return { valid: true, link };
+  }
+}
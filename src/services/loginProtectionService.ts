@@ -0,0 +1,139 @@
+import { Request } from 'express';
+import { User } from '@prisma/client';
+import prisma from '../config/database';
+import { SecurityAudit } from '../config/security';
+import { SettingsService, SETTING_DEFAULTS } from './settingsService';
+
+export type LoginLockoutPolicy = typeof SETTING_DEFAULTS['login_lockout'];
+
+export type LoginFailureResult =
+  | { locked: false; attemptsRemaining: number }
+  | { locked: true; lockedUntil: Date };
+
+export class LoginProtectionService {
+  /**
+   * Get the lockout policy (stored values override defaults)
+   */
+  static async getPolicy(): Promise<LoginLockoutPolicy> {
+    const stored = await SettingsService.get('login_lockout');
+    return { ...SETTING_DEFAULTS.login_lockout, ...stored };
+  }
+
+  /**
+   * Check whether an account is currently locked
+   */
+  static isLocked(user: Pick<User, 'locked_until'>): boolean {
+    return !!user.locked_until && user.locked_until > new Date();
+  }
+
+  /**
+   * Check whether an IP has too many recent failed logins (across all accounts)
+   * Failed logins are counted from the security audit log
+   */
+  static async isIpBlocked(req: Request): Promise<boolean> {
+    if (!req.ip) {
+      return false;
+    }
+
+    const policy = await this.getPolicy();
+    const since = new Date(Date.now() - policy.ip_window_minutes * 60 * 1000);
+
+    const failures = await prisma.securityEvent.count({
+      where: {
+        type: 'AUTH_FAILURE',
+        ip_address: req.ip,
+        created_at: { gte: since }
+      }
+    });
+
+    if (failures >= policy.ip_max_failed_attempts) {
+      SecurityAudit.logRequest(req, 'BRUTE_FORCE_ATTEMPT', 'Login blocked: too many failed attempts from this IP', {
+        failures,
+        windowMinutes: policy.ip_window_minutes
+      });
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Record a failed login for an account, locking it once the threshold is reached
+   * Lock time doubles with each consecutive lockout, up to the policy maximum
+   */
+  static async recordFailure(req: Request, user: User): Promise<LoginFailureResult> {
+    const policy = await this.getPolicy();
+
+    const updated = await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        failed_login_attempts: { increment: 1 },
+        last_failed_login_at: new Date()
+      }
+    });
+
+    if (updated.failed_login_attempts < policy.max_failed_attempts) {
+      return {
+        locked: false,
+        attemptsRemaining: policy.max_failed_attempts - updated.failed_login_attempts
+      };
+    }
+
+    const lockMinutes = Math.min(
+      policy.base_lock_minutes * 2 ** updated.lockout_count,
+      policy.max_lock_minutes
+    );
+    const lockedUntil = new Date(Date.now() + lockMinutes * 60 * 1000);
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        failed_login_attempts: 0,
+        lockout_count: { increment: 1 },
+        locked_until: lockedUntil
+      }
+    });
+
+    SecurityAudit.logRequest(req, 'BRUTE_FORCE_ATTEMPT', 'Account locked after repeated failed logins', {
+      email: user.email,
+      failedAttempts: updated.failed_login_attempts,
+      lockoutCount: updated.lockout_count + 1,
+      lockMinutes,
+      lockedUntil
+    }, user.id);
+
+    return { locked: true, lockedUntil };
+  }
+
+  /**
+   * Clear failure counters after a fully successful login
+   */
+  static async recordSuccess(user: User): Promise<void> {
+    if (user.failed_login_attempts === 0 && user.lockout_count === 0 && !user.locked_until) {
+      return;
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        failed_login_attempts: 0,
+        lockout_count: 0,
+        locked_until: null
+      }
+    });
+  }
+
+  /**
+   * Unlock an account immediately (director action)
+   */
+  static async unlock(userId: string): Promise<void> {
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        failed_login_attempts: 0,
+        lockout_count: 0,
+        locked_until: null
+      }
+    });
+  }
+}
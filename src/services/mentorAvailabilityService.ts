@@ -0,0 +1,145 @@
+import { MentorSessionStatus, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+
+// Sessions in these states hold the mentor's and team's time
+export const ACTIVE_SESSION_STATUSES: MentorSessionStatus[] = ['requested', 'confirmed'];
+
+// Longest session allowed by the validation schemas, used to bound overlap queries
+const MAX_SESSION_MINUTES = 8 * 60;
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+export interface FreeSlot {
+  start: Date;
+  end: Date;
+  duration_minutes: number;
+}
+
+export class MentorAvailabilityService {
+  /**
+   * Minutes since midnight for an HH:mm time
+   */
+  static parseTime(time: string): number {
+    const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+    return hours * 60 + minutes;
+  }
+
+  /**
+   * First active session of the mentor or team that overlaps the given slot, if any
+   * Pass a transaction client to make the check part of a booking transaction
+   */
+  static async findConflict(
+    mentorId: string,
+    teamId: string,
+    start: Date,
+    durationMinutes: number,
+    excludeId?: string,
+    client: Prisma.TransactionClient = prisma
+  ) {
+    const end = new Date(start.getTime() + durationMinutes * MINUTE);
+
+    const candidates = await client.mentorSession.findMany({
+      where: {
+        OR: [{ mentor_id: mentorId }, { team_id: teamId }],
+        status: { in: ACTIVE_SESSION_STATUSES },
+        scheduled_at: {
+          gt: new Date(start.getTime() - MAX_SESSION_MINUTES * MINUTE),
+          lt: end
+        },
+        ...(excludeId && { id: { not: excludeId } })
+      },
+      select: {
+        id: true,
+        title: true,
+        scheduled_at: true,
+        duration_minutes: true,
+        status: true
+      }
+    });
+
+    return candidates.find(candidate =>
+      candidate.scheduled_at.getTime() + candidate.duration_minutes * MINUTE > start.getTime()
+    ) || null;
+  }
+
+  /**
+   * Bookable slots from the mentor's weekly availability between two times,
+   * leaving out blackout dates, past slots and slots overlapping the mentor's active sessions
+   */
+  static async getFreeSlots(mentorId: string, from: Date, to: Date): Promise<FreeSlot[]> {
+    const earliest = new Date(Math.max(from.getTime(), Date.now()));
+
+    const [slots, blackouts, sessions] = await Promise.all([
+      prisma.mentorAvailabilitySlot.findMany({
+        where: { mentor_id: mentorId }
+      }),
+      prisma.mentorBlackoutDate.findMany({
+        where: {
+          mentor_id: mentorId,
+          start_date: { lte: to },
+          end_date: { gte: this.startOfDay(earliest) }
+        }
+      }),
+      prisma.mentorSession.findMany({
+        where: {
+          mentor_id: mentorId,
+          status: { in: ACTIVE_SESSION_STATUSES },
+          scheduled_at: {
+            gt: new Date(earliest.getTime() - MAX_SESSION_MINUTES * MINUTE),
+            lt: to
+          }
+        },
+        select: { scheduled_at: true, duration_minutes: true }
+      })
+    ]);
+
+    const free: FreeSlot[] = [];
+
+    for (let day = this.startOfDay(earliest); day < to; day = new Date(day.getTime() + DAY)) {
+      const blackedOut = blackouts.some(blackout => blackout.start_date <= day && blackout.end_date >= day);
+      if (blackedOut) {
+        continue;
+      }
+
+      for (const slot of slots.filter(slot => slot.day_of_week === day.getUTCDay())) {
+        const windowEnd = day.getTime() + this.parseTime(slot.end_time) * MINUTE;
+
+        for (
+          let start = day.getTime() + this.parseTime(slot.start_time) * MINUTE;
+          start + slot.slot_minutes * MINUTE <= windowEnd;
+          start += slot.slot_minutes * MINUTE
+        ) {
+          const end = start + slot.slot_minutes * MINUTE;
+
+          if (start < earliest.getTime() || end > to.getTime()) {
+            continue;
+          }
+
+          const taken = sessions.some(session =>
+            session.scheduled_at.getTime() < end &&
+            session.scheduled_at.getTime() + session.duration_minutes * MINUTE > start
+          );
+
+          if (!taken) {
+            free.push({ start: new Date(start), end: new Date(end), duration_minutes: slot.slot_minutes });
+          }
+        }
+      }
+    }
+
+    return free.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * The free slot starting exactly at the given time, if there is one
+   */
+  static async findFreeSlot(mentorId: string, start: Date): Promise<FreeSlot | null> {
+    const slots = await this.getFreeSlots(mentorId, start, new Date(start.getTime() + MAX_SESSION_MINUTES * MINUTE));
+    return slots.find(slot => slot.start.getTime() === start.getTime()) || null;
+  }
+
+  private static startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+}
@@ -0,0 +1,379 @@
+import { ProjectCategory, ProjectStatusAtEnrollment } from '@prisma/client';
+import prisma from '../config/database';
+import { SettingsService } from './settingsService';
+import { StageGateService } from './stageGateService';
+
+export type RecommendationFactor = 'category' | 'interests' | 'stage' | 'load';
+
+export interface FactorScore {
+  factor: RecommendationFactor;
+  score: number;
+  max_score: number;
+  explanation: string;
+  matched?: string[];
+}
+
+export interface MentorRecommendation {
+  mentor: {
+    id: string;
+    user_id: string;
+    name: string;
+    email: string;
+    expertise: string | null;
+  };
+  score: number; // 0-100
+  factors: FactorScore[];
+  load: {
+    active_teams: number;
+    max_teams: number;
+    booked_hours: number;
+    capacity_hours: number;
+  };
+}
+
+export interface TeamRecommendations {
+  team: {
+    id: string;
+    team_name: string;
+    categories: ProjectCategory[];
+    stages: ProjectStatusAtEnrollment[];
+    support_interests: string[];
+  };
+  recommendations: MentorRecommendation[];
+}
+
+// Expertise keywords that indicate a mentor can support each project category
+const CATEGORY_KEYWORDS: Record<ProjectCategory, string[]> = {
+  Technology: ['technology', 'tech', 'software', 'engineering', 'digital'],
+  Agriculture: ['agriculture', 'farming', 'agribusiness', 'crops', 'livestock'],
+  Health: ['health', 'healthcare', 'medical', 'medicine', 'clinical'],
+  Education: ['education', 'teaching', 'learning', 'training'],
+  Design: ['design', 'ux', 'ui', 'graphics', 'branding'],
+  SocialImpact: ['social impact', 'community', 'nonprofit', 'ngo', 'social enterprise'],
+  Sustainability: ['sustainability', 'environment', 'climate', 'renewable', 'energy', 'green'],
+  AgriTech: ['agritech', 'agriculture', 'farming', 'agribusiness'],
+  HealthTech: ['healthtech', 'health', 'healthcare', 'medical', 'digital health'],
+  EdTech: ['edtech', 'education', 'e-learning', 'teaching'],
+  RoboticsAI: ['robotics', 'ai', 'artificial intelligence', 'machine learning', 'ml', 'data science', 'automation'],
+  FinTech: ['fintech', 'finance', 'financial', 'banking', 'payments', 'mobile money'],
+  OpenToAny: [],
+  Other: []
+};
+
+// What teams need most at each stage
+const STAGE_KEYWORDS: Record<ProjectStatusAtEnrollment, string[]> = {
+  Idea: ['ideation', 'validation', 'customer discovery', 'research', 'design thinking', 'business model', 'lean startup'],
+  Prototype: ['prototyping', 'product', 'engineering', 'hardware', 'design', 'development'],
+  MVP: ['product', 'development', 'software', 'testing', 'ux', 'agile'],
+  Beta: ['growth', 'marketing', 'analytics', 'user acquisition', 'sales', 'customer'],
+  Launched: ['scaling', 'fundraising', 'investment', 'sales', 'operations', 'finance', 'legal', 'business development']
+};
+
+const STOP_WORDS = new Set(['and', 'or', 'the', 'of', 'for', 'in', 'with', 'to', 'on', 'an']);
+
+// Tokens share a stem when their first letters match, so "funding" matches "fundraising"
+const STEM_LENGTH = 4;
+
+const SESSION_WINDOW_DAYS = 30;
+
+export class MentorRecommendationService {
+  /**
+   * Rank active mentors not yet assigned to the team, best match first, with the reasoning behind each score
+   * Returns null if the team doesn't exist
+   */
+  static async recommend(teamId: string, limit: number = 10): Promise<TeamRecommendations | null> {
+    const team = await prisma.team.findUnique({
+      where: { id: teamId },
+      select: {
+        id: true,
+        team_name: true,
+        projects: {
+          where: { archived_at: null },
+          select: {
+            category: true,
+            current_stage: true,
+            status_at_enrollment: true
+          }
+        },
+        team_members: {
+          select: {
+            user: {
+              select: { support_interests: true }
+            }
+          }
+        },
+        mentor_assignments: {
+          select: { mentor_id: true }
+        }
+      }
+    });
+
+    if (!team) {
+      return null;
+    }
+
+    const now = Date.now();
+    const windowMs = SESSION_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+    const [settings, capacityHours, mentors, sessionMinutes] = await Promise.all([
+      SettingsService.get('mentor_recommendation'),
+      SettingsService.get('mentor_capacity_hours_per_month'),
+      prisma.mentor.findMany({
+        where: {
+          id: { notIn: team.mentor_assignments.map(assignment => assignment.mentor_id) },
+          user: { status: 'active' }
+        },
+        select: {
+          id: true,
+          expertise: true,
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              skills: true
+            }
+          },
+          _count: {
+            select: {
+              mentor_assignments: {
+                where: { team: { deactivated_at: null } }
+              }
+            }
+          }
+        }
+      }),
+      prisma.mentorSession.groupBy({
+        by: ['mentor_id'],
+        where: {
+          status: { in: ['requested', 'confirmed', 'completed'] },
+          scheduled_at: {
+            gte: new Date(now - windowMs),
+            lte: new Date(now + windowMs)
+          }
+        },
+        _sum: { duration_minutes: true }
+      })
+    ]);
+
+    const categories = [...new Set(team.projects.map(project => project.category))];
+    const stages = [...new Set(team.projects.map(project => StageGateService.currentStage(project)))];
+    const interests = this.distinct(team.team_members.flatMap(member => this.toList(member.user.support_interests)));
+
+    const minutesByMentor = new Map(sessionMinutes.map(row => [row.mentor_id, row._sum.duration_minutes || 0]));
+    const { weights } = settings;
+    const totalWeight = weights.category + weights.interests + weights.stage + weights.load;
+
+    const recommendations = mentors.map(mentor => {
+      const stems = this.stems([mentor.expertise || '', ...this.toList(mentor.user.skills)].join(' '));
+      const hasProfile = stems.size > 0;
+
+      const load = {
+        active_teams: mentor._count.mentor_assignments,
+        max_teams: settings.max_teams_per_mentor,
+        // Booked over the window either side of today, so twice the monthly capacity
+        booked_hours: Math.round(((minutesByMentor.get(mentor.id) || 0) / 60) * 10) / 10,
+        capacity_hours: capacityHours * 2
+      };
+
+      const factors = [
+        this.scoreCategory(categories, stems, hasProfile, weights.category),
+        this.scoreInterests(interests, stems, hasProfile, weights.interests),
+        this.scoreStage(stages, stems, hasProfile, weights.stage),
+        this.scoreLoad(load, weights.load)
+      ];
+
+      const earned = factors.reduce((sum, factor) => sum + factor.score, 0);
+
+      return {
+        mentor: {
+          id: mentor.id,
+          user_id: mentor.user.id,
+          name: mentor.user.name,
+          email: mentor.user.email,
+          expertise: mentor.expertise
+        },
+        score: totalWeight > 0 ? this.round((earned / totalWeight) * 100) : 0,
+        factors,
+        load
+      };
+    });
+
+    recommendations.sort((a, b) => b.score - a.score || a.load.active_teams - b.load.active_teams);
+
+    return {
+      team: {
+        id: team.id,
+        team_name: team.team_name,
+        categories,
+        stages,
+        support_interests: interests
+      },
+      recommendations: recommendations.slice(0, limit)
+    };
+  }
+
+  private static scoreCategory(categories: ProjectCategory[], stems: Set<string>, hasProfile: boolean, weight: number): FactorScore {
+    const specific = categories.filter(category => CATEGORY_KEYWORDS[category].length > 0);
+
+    if (specific.length === 0) {
+      return {
+        factor: 'category',
+        score: this.round(weight / 2),
+        max_score: weight,
+        explanation: categories.length === 0
+          ? 'Team has no active projects, so every mentor gets half marks'
+          : `Team projects are ${categories.join(', ')}, so every mentor gets half marks`
+      };
+    }
+
+    if (!hasProfile) {
+      return this.noProfile('category', weight);
+    }
+
+    const matched = specific.filter(category => CATEGORY_KEYWORDS[category].some(keyword => this.matches(keyword, stems)));
+
+    return {
+      factor: 'category',
+      score: this.round((matched.length / specific.length) * weight),
+      max_score: weight,
+      explanation: matched.length > 0
+        ? `Expertise covers ${matched.length} of ${specific.length} project categories (${matched.join(', ')})`
+        : `Expertise doesn't mention the team's project categories (${specific.join(', ')})`,
+      matched
+    };
+  }
+
+  private static scoreInterests(interests: string[], stems: Set<string>, hasProfile: boolean, weight: number): FactorScore {
+    if (interests.length === 0) {
+      return {
+        factor: 'interests',
+        score: this.round(weight / 2),
+        max_score: weight,
+        explanation: 'Team members have not listed support interests, so every mentor gets half marks'
+      };
+    }
+
+    if (!hasProfile) {
+      return this.noProfile('interests', weight);
+    }
+
+    const matched = interests.filter(interest => this.matches(interest, stems));
+
+    return {
+      factor: 'interests',
+      score: this.round((matched.length / interests.length) * weight),
+      max_score: weight,
+      explanation: matched.length > 0
+        ? `Expertise matches ${matched.length} of ${interests.length} support interests of team members (${matched.join(', ')})`
+        : `Expertise matches none of the team members' support interests (${interests.join(', ')})`,
+      matched
+    };
+  }
+
+  private static scoreStage(stages: ProjectStatusAtEnrollment[], stems: Set<string>, hasProfile: boolean, weight: number): FactorScore {
+    if (stages.length === 0) {
+      return {
+        factor: 'stage',
+        score: this.round(weight / 2),
+        max_score: weight,
+        explanation: 'Team has no active projects, so every mentor gets half marks'
+      };
+    }
+
+    if (!hasProfile) {
+      return this.noProfile('stage', weight);
+    }
+
+    // Best fit across the team's projects; two relevant skills count as a full match
+    const perStage = stages.map(stage => ({
+      stage,
+      matched: STAGE_KEYWORDS[stage].filter(keyword => this.matches(keyword, stems))
+    }));
+    const best = perStage.reduce((a, b) => (b.matched.length > a.matched.length ? b : a));
+
+    return {
+      factor: 'stage',
+      score: this.round((Math.min(best.matched.length, 2) / 2) * weight),
+      max_score: weight,
+      explanation: best.matched.length > 0
+        ? `Expertise fits the ${best.stage} stage (${best.matched.join(', ')})`
+        : `Expertise doesn't cover what teams need at the ${stages.join('/')} stage`,
+      matched: best.matched
+    };
+  }
+
+  private static scoreLoad(load: MentorRecommendation['load'], weight: number): FactorScore {
+    const teamShare = load.max_teams > 0 ? load.active_teams / load.max_teams : 1;
+    const hourShare = load.capacity_hours > 0 ? load.booked_hours / load.capacity_hours : 1;
+    const used = Math.min(Math.max(teamShare, hourShare), 1);
+
+    return {
+      factor: 'load',
+      score: this.round((1 - used) * weight),
+      max_score: weight,
+      explanation: `Mentors ${load.active_teams} of up to ${load.max_teams} teams and has ${load.booked_hours} of ${load.capacity_hours} session hours booked in the ${SESSION_WINDOW_DAYS} days either side of today`
+    };
+  }
+
+  private static noProfile(factor: RecommendationFactor, weight: number): FactorScore {
+    return {
+      factor,
+      score: 0,
+      max_score: weight,
+      explanation: 'Mentor has no expertise or skills recorded'
+    };
+  }
+
+  /**
+   * Whether every word of a keyword or interest appears in the mentor's profile
+   */
+  private static matches(phrase: string, stems: Set<string>): boolean {
+    const words = this.tokenize(phrase);
+    return words.length > 0 && words.every(word => stems.has(this.stem(word)));
+  }
+
+  private static stems(text: string): Set<string> {
+    return new Set(this.tokenize(text).map(word => this.stem(word)));
+  }
+
+  private static tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+  }
+
+  private static stem(word: string): string {
+    return word.slice(0, STEM_LENGTH);
+  }
+
+  /**
+   * skills and support_interests may be stored as arrays or as JSON-encoded strings
+   */
+  private static toList(value: unknown): string[] {
+    if (typeof value === 'string') {
+      try {
+        return this.toList(JSON.parse(value));
+      } catch {
+        return value ? [value] : [];
+      }
+    }
+
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+  }
+
+  private static distinct(values: string[]): string[] {
+    const seen = new Map<string, string>();
+    for (const value of values.map(item => item.trim()).filter(Boolean)) {
+      if (!seen.has(value.toLowerCase())) {
+        seen.set(value.toLowerCase(), value);
+      }
+    }
+    return [...seen.values()];
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
@@ -0,0 +1,110 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { NotificationService } from './notificationService';
+
+export interface OverdueMilestoneResult {
+  notificationsSent: number;
+  milestones: {
+    id: string;
+    title: string;
+    due_date: Date;
+    project_id: string;
+    project_name: string;
+  }[];
+}
+
+export class MilestoneService {
+  /**
+   * Recompute project progress from milestone completion
+   * Projects without milestones keep their current progress
+   * Pass the transaction client of the milestone write so both commit together
+   */
+  static async syncProjectProgress(projectId: string, client: Prisma.TransactionClient = prisma): Promise<number> {
+    const [total, completed] = await Promise.all([
+      client.projectMilestone.count({ where: { project_id: projectId } }),
+      client.projectMilestone.count({ where: { project_id: projectId, status: 'completed' } })
+    ]);
+
+    if (total === 0) {
+      const project = await client.project.findUnique({
+        where: { id: projectId },
+        select: { progress: true }
+      });
+      return project?.progress ?? 0;
+    }
+
+    const progress = Math.round((completed / total) * 100);
+    await client.project.update({
+      where: { id: projectId },
+      data: { progress }
+    });
+
+    return progress;
+  }
+
+  /**
+   * Notify team members and assigned mentors about overdue milestones
+   * Each milestone is notified once per due date
+   */
+  static async notifyOverdue(senderId: string): Promise<OverdueMilestoneResult> {
+    const overdue = await prisma.projectMilestone.findMany({
+      where: {
+        due_date: { lt: new Date() },
+        status: { not: 'completed' },
+        overdue_notified_at: null,
+        project: { archived_at: null }
+      },
+      include: {
+        project: {
+          select: {
+            id: true,
+            name: true,
+            team: {
+              select: {
+                team_members: { select: { user_id: true } },
+                mentor_assignments: { select: { mentor: { select: { user_id: true } } } }
+              }
+            }
+          }
+        }
+      }
+    });
+
+    const notified: typeof overdue = [];
+    let notificationsSent = 0;
+
+    for (const milestone of overdue) {
+      // Claim the milestone first so overlapping runs don't notify it twice
+      const claimed = await prisma.projectMilestone.updateMany({
+        where: { id: milestone.id, overdue_notified_at: null },
+        data: { overdue_notified_at: new Date() }
+      });
+
+      if (claimed.count === 0) {
+        continue;
+      }
+      notified.push(milestone);
+
+      const recipients = new Set([
+        ...milestone.project.team.team_members.map(member => member.user_id),
+        ...milestone.project.team.mentor_assignments.map(assignment => assignment.mentor.user_id)
+      ]);
+
+      const title = 'Milestone overdue';
+      const message = `Milestone "${milestone.title}" on project ${milestone.project.name} was due on ${milestone.due_date.toISOString().split('T')[0]} and is not completed.`;
+
+      notificationsSent += await NotificationService.notifyUsers(recipients, senderId, title, message);
+    }
+
+    return {
+      notificationsSent,
+      milestones: notified.map(milestone => ({
+        id: milestone.id,
+        title: milestone.title,
+        due_date: milestone.due_date,
+        project_id: milestone.project.id,
+        project_name: milestone.project.name
+      }))
+    };
+  }
+}
@@ -0,0 +1,36 @@
+import prisma from '../config/database';
+import { emitToUser } from './socketService';
+
+export class NotificationService {
+  /**
+   * Create an in-app notification for each user (once per user) and push it to them in real time
+   * Returns the number of notifications created
+   */
+  static async notifyUsers(userIds: Iterable<string>, senderId: string, title: string, message: string): Promise<number> {
+    let sent = 0;
+
+    for (const userId of new Set(userIds)) {
+      const notification = await prisma.notification.create({
+        data: {
+          title,
+          message,
+          sender_id: senderId,
+          recipient_type: 'user',
+          recipient_id: userId
+        }
+      });
+
+      emitToUser(userId, 'new_notification', {
+        id: notification.id,
+        senderId,
+        title: notification.title,
+        message: notification.message,
+        readStatus: notification.read_status,
+        createdAt: notification.created_at
+      });
+      sent++;
+    }
+
+    return sent;
+  }
+}
@@ -0,0 +1,196 @@
+import { UserRole } from '@prisma/client';
+import prisma from '../config/database';
+import { ALL_PERMISSIONS, DEFAULT_ROLE_PERMISSIONS, Permission, isPermission } from '../config/permissions';
+
+// Effective permissions are cached briefly; matrix and override changes clear the cache,
+// as do a user's role change and deactivation
+const PERMISSION_CACHE_TTL_MS = 60 * 1000;
+
+export interface RolePermissions {
+  key: string;
+  name: string;
+  description: string | null;
+  is_system: boolean;
+  permissions: Permission[];
+}
+
+export class PermissionService {
+  private static cache = new Map<string, { permissions: Set<Permission>; expiresAt: number }>();
+
+  /**
+   * Get the permissions granted to a role key (built-in UserRole or custom role)
+   * Built-in roles fall back to the defaults until a director edits them
+   */
+  static async getRolePermissions(roleKey: string): Promise<Permission[]> {
+    if (roleKey === 'director') {
+      return ALL_PERMISSIONS;
+    }
+
+    const role = await prisma.permissionRole.findUnique({
+      where: { key: roleKey },
+      include: { permissions: true }
+    });
+
+    if (role) {
+      return role.permissions.map(rp => rp.permission).filter(isPermission);
+    }
+
+    return DEFAULT_ROLE_PERMISSIONS[roleKey as UserRole] || [];
+  }
+
+  /**
+   * Get a user's effective permissions: role (or custom role) plus per-user overrides
+   */
+  static async getUserPermissions(userId: string): Promise<Set<Permission>> {
+    const cached = this.cache.get(userId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.permissions;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        role: true,
+        permission_role_key: true,
+        permission_overrides: true
+      }
+    });
+
+    if (!user) {
+      return new Set();
+    }
+
+    // Directors keep every permission regardless of custom role or overrides
+    if (user.role === 'director') {
+      return new Set(ALL_PERMISSIONS);
+    }
+
+    const permissions = new Set(await this.getRolePermissions(user.permission_role_key || user.role));
+
+    for (const override of user.permission_overrides) {
+      if (!isPermission(override.permission)) continue;
+      if (override.granted) {
+        permissions.add(override.permission);
+      } else {
+        permissions.delete(override.permission);
+      }
+    }
+
+    this.cache.set(userId, { permissions, expiresAt: Date.now() + PERMISSION_CACHE_TTL_MS });
+    return permissions;
+  }
+
+  /**
+   * Check whether a user holds a permission
+   */
+  static async hasPermission(userId: string, permission: Permission): Promise<boolean> {
+    return (await this.getUserPermissions(userId)).has(permission);
+  }
+
+  /**
+   * Director accounts can only be created, promoted to or changed by a director;
+   * users.manage granted through a custom role or override is not enough
+   */
+  static canManageRole(actorRole: string | undefined, targetRole: string): boolean {
+    return targetRole !== 'director' || actorRole === 'director';
+  }
+
+  /**
+   * Get the full role → permission matrix (built-in roles first, then custom roles)
+   */
+  static async getMatrix(): Promise<RolePermissions[]> {
+    const storedRoles = await prisma.permissionRole.findMany({
+      include: { permissions: true },
+      orderBy: { created_at: 'asc' }
+    });
+
+    const builtIn: RolePermissions[] = (Object.keys(DEFAULT_ROLE_PERMISSIONS) as UserRole[]).map(role => {
+      const stored = storedRoles.find(r => r.key === role);
+      return {
+        key: role,
+        name: stored?.name || role.charAt(0).toUpperCase() + role.slice(1),
+        description: stored?.description || null,
+        is_system: true,
+        permissions: role === 'director' || !stored
+          ? DEFAULT_ROLE_PERMISSIONS[role]
+          : stored.permissions.map(rp => rp.permission).filter(isPermission)
+      };
+    });
+
+    const custom: RolePermissions[] = storedRoles
+      .filter(r => !r.is_system)
+      .map(r => ({
+        key: r.key,
+        name: r.name,
+        description: r.description,
+        is_system: false,
+        permissions: r.permissions.map(rp => rp.permission).filter(isPermission)
+      }));
+
+    return [...builtIn, ...custom];
+  }
+
+  /**
+   * Replace the permissions of a role
+   * Built-in roles get a stored row the first time they are edited
+   */
+  static async setRolePermissions(roleKey: string, permissions: Permission[]): Promise<void> {
+    const isSystem = roleKey in DEFAULT_ROLE_PERMISSIONS;
+
+    await prisma.$transaction(async (tx) => {
+      await tx.permissionRole.upsert({
+        where: { key: roleKey },
+        create: {
+          key: roleKey,
+          name: roleKey.charAt(0).toUpperCase() + roleKey.slice(1),
+          is_system: isSystem
+        },
+        update: {}
+      });
+
+      await tx.rolePermission.deleteMany({ where: { role_key: roleKey } });
+
+      if (permissions.length > 0) {
+        await tx.rolePermission.createMany({
+          data: [...new Set(permissions)].map(permission => ({ role_key: roleKey, permission }))
+        });
+      }
+    });
+
+    this.clearCache();
+  }
+
+  /**
+   * Replace a user's permission overrides
+   */
+  static async setUserOverrides(
+    userId: string,
+    overrides: { permission: Permission; granted: boolean }[],
+    grantedBy: string
+  ): Promise<void> {
+    await prisma.$transaction([
+      prisma.userPermissionOverride.deleteMany({ where: { user_id: userId } }),
+      prisma.userPermissionOverride.createMany({
+        data: overrides.map(override => ({
+          user_id: userId,
+          permission: override.permission,
+          granted: override.granted,
+          granted_by: grantedBy
+        }))
+      })
+    ]);
+
+    this.clearCache(userId);
+  }
+
+  /**
+   * Drop cached permissions (for one user, or everyone after a matrix change)
+   */
+  static clearCache(userId?: string): void {
+    if (userId) {
+      this.cache.delete(userId);
+    } else {
+      this.cache.clear();
+    }
+  }
+}
@@ -0,0 +1,160 @@
+import prisma from '../config/database';
+import { SecurityAudit } from '../config/security';
+import { SettingsService } from './settingsService';
+import { FileService, TEMPORARY_UPLOAD_TTL_HOURS } from './fileService';
+import { MilestoneService } from './milestoneService';
+import { EvaluationService } from './evaluationService';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Evaluation reminders go out when a form's period ends in this many days
+const EVALUATION_REMINDER_DAYS_BEFORE_END = [7, 1];
+
+interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<string>; // Returns a one-line summary for the log
+}
+
+/**
+ * In-process runner for periodic maintenance work
+ * Every job also has a manual endpoint; with several app instances, set SCHEDULER_ENABLED=false
+ * on all but one of them (or on all of them and call the endpoints from an external cron)
+ */
+export class SchedulerService {
+  private static timers: NodeJS.Timeout[] = [];
+  private static running = new Set<string>();
+
+  static readonly jobs: ScheduledJob[] = [
+    {
+      name: 'security-event-retention',
+      intervalMs: DAY_MS,
+      run: async () => {
+        const retentionDays = await SettingsService.get('security_event_retention_days');
+        const deleted = await SecurityAudit.purgeOlderThan(retentionDays);
+        return `deleted ${deleted} security event(s) older than ${retentionDays} days`;
+      }
+    },
+    {
+      name: 'milestone-overdue',
+      intervalMs: HOUR_MS,
+      run: async () => {
+        const senderId = await SchedulerService.systemSenderId();
+        if (!senderId) {
+          return 'skipped: no active director to send notifications as';
+        }
+
+        const result = await MilestoneService.notifyOverdue(senderId);
+        return `notified ${result.milestones.length} overdue milestone(s)`;
+      }
+    },
+    {
+      name: 'evaluation-reminders',
+      intervalMs: DAY_MS,
+      run: () => SchedulerService.runEvaluationReminders()
+    },
+    {
+      name: 'temporary-upload-purge',
+      intervalMs: DAY_MS,
+      run: async () => {
+        const deleted = await FileService.purgeUnreferencedUploads(new Date(Date.now() - TEMPORARY_UPLOAD_TTL_HOURS * HOUR_MS));
+        return `deleted ${deleted} unreferenced upload(s) older than ${TEMPORARY_UPLOAD_TTL_HOURS} hours`;
+      }
+    }
+  ];
+
+  /**
+   * Run every job once now, then on its interval
+   */
+  static start(): void {
+    if (process.env.SCHEDULER_ENABLED === 'false') {
+      console.log('Scheduler disabled (SCHEDULER_ENABLED=false)');
+      return;
+    }
+
+    for (const job of this.jobs) {
+      this.runJob(job);
+      const timer = setInterval(() => this.runJob(job), job.intervalMs);
+      timer.unref();
+      this.timers.push(timer);
+    }
+  }
+
+  static stop(): void {
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
+  }
+
+  /**
+   * Run a job unless its previous run is still going; failures are logged and retried next interval
+   */
+  private static async runJob(job: ScheduledJob): Promise<void> {
+    if (this.running.has(job.name)) {
+      return;
+    }
+
+    this.running.add(job.name);
+    try {
+      const summary = await job.run();
+      console.log(`Scheduled job ${job.name}: ${summary}`);
+    } catch (error) {
+      console.error(`Scheduled job ${job.name} failed:`, error);
+    } finally {
+      this.running.delete(job.name);
+    }
+  }
+
+  /**
+   * Remind about forms whose period is about to end; skipped if reminders already went out today
+   * (from an earlier run before a restart, or a manager using POST /api/evaluations/reminders)
+   */
+  private static async runEvaluationReminders(): Promise<string> {
+    const forms = await prisma.evaluationForm.findMany({
+      where: { is_active: true },
+      select: { id: true, frequency: true }
+    });
+
+    const now = new Date();
+    const dueForms = forms.filter(form => {
+      const daysLeft = Math.ceil((EvaluationService.periodEnd(form.frequency, now).getTime() - now.getTime()) / DAY_MS);
+      return EVALUATION_REMINDER_DAYS_BEFORE_END.includes(daysLeft);
+    });
+
+    if (dueForms.length === 0) {
+      return 'skipped: no evaluation period ends soon';
+    }
+
+    const alreadySent = await prisma.notification.count({
+      where: {
+        title: 'Evaluations due',
+        created_at: { gte: new Date(now.getTime() - 20 * HOUR_MS) }
+      }
+    });
+
+    if (alreadySent > 0) {
+      return 'skipped: reminders were already sent today';
+    }
+
+    const senderId = await this.systemSenderId();
+    if (!senderId) {
+      return 'skipped: no active director to send notifications as';
+    }
+
+    const result = await EvaluationService.sendReminders(senderId, dueForms.map(form => form.id));
+    return `sent ${result.remindersSent} reminder(s) for ${result.missing} missing evaluation(s)`;
+  }
+
+  /**
+   * Notifications need a sender; scheduled ones are sent as the longest-serving active director
+   */
+  private static async systemSenderId(): Promise<string | null> {
+    const director = await prisma.user.findFirst({
+      where: { role: 'director', status: 'active' },
+      orderBy: { created_at: 'asc' },
+      select: { id: true }
+    });
+
+    return director?.id || null;
+  }
+}
@@ -0,0 +1,168 @@
+import { Request } from 'express';
+import { UserSession } from '@prisma/client';
+import prisma from '../config/database';
+import { TokenUtils } from '../utils/token';
+
+// Sessions live as long as the refresh token issued with them
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Avoid a write on every request; last_used_at only needs to be roughly accurate
+const LAST_USED_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+export type SessionRevokeReason =
+  | 'logout'
+  | 'logout_all'
+  | 'revoked_by_user'
+  | 'user_deactivated'
+  | 'refresh_token_reuse'
+  | 'password_reset';
+
+export type SessionValidationResult =
+  | { valid: true; session: UserSession }
+  | { valid: false; reason: 'SESSION_NOT_FOUND' | 'SESSION_REVOKED' | 'SESSION_EXPIRED' };
+
+export class SessionService {
+  /**
+   * Hash a refresh token id before storing or comparing it
+   */
+  static hashToken(tokenId: string): string {
+    return TokenUtils.hash(tokenId);
+  }
+
+  /**
+   * Generate a new random refresh token id
+   */
+  static generateTokenId(): string {
+    return TokenUtils.generate();
+  }
+
+  /**
+   * Create a session for a successful login
+   * Returns the session and the raw token id to embed in the refresh token
+   */
+  static async createSession(userId: string, req: Request): Promise<{ session: UserSession; tokenId: string }> {
+    const tokenId = this.generateTokenId();
+
+    const session = await prisma.userSession.create({
+      data: {
+        user_id: userId,
+        refresh_token_hash: this.hashToken(tokenId),
+        user_agent: req.get('User-Agent') || null,
+        ip_address: req.ip || null,
+        expires_at: new Date(Date.now() + SESSION_TTL_MS)
+      }
+    });
+
+    return { session, tokenId };
+  }
+
+  /**
+   * Check that a session exists, belongs to the user and is neither revoked nor expired
+   */
+  static async validateSession(sessionId: string, userId: string): Promise<SessionValidationResult> {
+    const session = await prisma.userSession.findUnique({
+      where: { id: sessionId }
+    });
+
+    if (!session || session.user_id !== userId) {
+      return { valid: false, reason: 'SESSION_NOT_FOUND' };
+    }
+
+    if (session.revoked_at) {
+      return { valid: false, reason: 'SESSION_REVOKED' };
+    }
+
+    if (session.expires_at <= new Date()) {
+      return { valid: false, reason: 'SESSION_EXPIRED' };
+    }
+
+    return { valid: true, session };
+  }
+
+  /**
+   * Record activity on a session (throttled)
+   */
+  static async touchSession(session: UserSession): Promise<void> {
+    if (Date.now() - session.last_used_at.getTime() < LAST_USED_UPDATE_INTERVAL_MS) {
+      return;
+    }
+
+    try {
+      await prisma.userSession.update({
+        where: { id: session.id },
+        data: { last_used_at: new Date() }
+      });
+    } catch (error) {
+      console.error('Failed to update session activity:', error);
+      // Don't fail the request over activity tracking
+    }
+  }
+
+  /**
+   * Rotate the refresh token of a session, only if it still holds the token being presented
+   * Returns the new raw token id to embed in the refresh token, or null if another refresh
+   * already rotated it (the token was replayed) or the session was revoked meanwhile
+   */
+  static async rotateRefreshToken(sessionId: string, currentTokenId: string, req: Request): Promise<string | null> {
+    const tokenId = this.generateTokenId();
+
+    const { count } = await prisma.userSession.updateMany({
+      where: {
+        id: sessionId,
+        refresh_token_hash: this.hashToken(currentTokenId),
+        revoked_at: null
+      },
+      data: {
+        refresh_token_hash: this.hashToken(tokenId),
+        last_used_at: new Date(),
+        ip_address: req.ip || undefined,
+        user_agent: req.get('User-Agent') || undefined
+      }
+    });
+
+    return count > 0 ? tokenId : null;
+  }
+
+  /**
+   * Revoke a single session
+   */
+  static async revokeSession(sessionId: string, reason: SessionRevokeReason): Promise<void> {
+    await prisma.userSession.updateMany({
+      where: { id: sessionId, revoked_at: null },
+      data: {
+        revoked_at: new Date(),
+        revoked_reason: reason
+      }
+    });
+  }
+
+  /**
+   * Revoke every active session of a user
+   * Returns the number of sessions revoked
+   */
+  static async revokeAllForUser(userId: string, reason: SessionRevokeReason): Promise<number> {
+    const result = await prisma.userSession.updateMany({
+      where: { user_id: userId, revoked_at: null },
+      data: {
+        revoked_at: new Date(),
+        revoked_reason: reason
+      }
+    });
+
+    return result.count;
+  }
+
+  /**
+   * List active (not revoked, not expired) sessions of a user
+   */
+  static async getActiveSessions(userId: string): Promise<UserSession[]> {
+    return prisma.userSession.findMany({
+      where: {
+        user_id: userId,
+        revoked_at: null,
+        expires_at: { gt: new Date() }
+      },
+      orderBy: { last_used_at: 'desc' }
+    });
+  }
+}
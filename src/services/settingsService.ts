@@ -0,0 +1,97 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+
+// Known setting keys and their defaults
+export const SETTING_DEFAULTS = {
+  mfa_required_roles: [] as string[],
+  security_event_retention_days: 90,
+  login_lockout: {
+    max_failed_attempts: 5, // Per account, before it is locked
+    base_lock_minutes: 15, // First lockout; doubles with each consecutive lockout
+    max_lock_minutes: 24 * 60,
+    ip_max_failed_attempts: 20, // Per IP address within the window, across all accounts
+    ip_window_minutes: 15
+  },
+  // Criteria reviewers score team applications against; weights are relative
+  application_rubric: [
+    { key: 'problem', label: 'Problem and market need', weight: 25, max_score: 5 },
+    { key: 'solution', label: 'Solution and innovation', weight: 25, max_score: 5 },
+    { key: 'team', label: 'Team capability', weight: 25, max_score: 5 },
+    { key: 'feasibility', label: 'Feasibility and traction', weight: 25, max_score: 5 }
+  ] as { key: string; label: string; weight: number; max_score: number }[],
+  // Criteria a project must meet to enter each stage; reviewers check every one
+  stage_gate_criteria: {
+    Prototype: [
+      { key: 'problem_validated', label: 'Problem validated with target users' },
+      { key: 'prototype_demo', label: 'Working prototype demonstrated' }
+    ],
+    MVP: [
+      { key: 'prototype_feedback', label: 'Prototype feedback gathered and acted on' },
+      { key: 'mvp_built', label: 'Minimum viable product built with core features' }
+    ],
+    Beta: [
+      { key: 'early_users', label: 'MVP in use by early adopters' },
+      { key: 'usage_metrics', label: 'Key usage metrics tracked' }
+    ],
+    Launched: [
+      { key: 'release_ready', label: 'Product stable enough for public release' },
+      { key: 'go_to_market', label: 'Go-to-market plan in place' }
+    ]
+  } as Record<string, { key: string; label: string }[]>,
+  // Storage quotas; teams and users can be given their own quota in place of these defaults
+  storage_quotas: {
+    team_default_mb: 2048, // Project files, including every stored version
+    user_default_mb: 512, // Files a user uploaded to projects plus chat attachments they sent
+    warning_percent: 80
+  },
+  // Mentoring hours each mentor is expected to give per month; utilization is measured against it
+  mentor_capacity_hours_per_month: 8,
+  // Mentor recommendations: relative weight of each factor, and how many teams count as a full load
+  mentor_recommendation: {
+    weights: {
+      category: 35, // Expertise vs. the team's project categories
+      interests: 25, // Expertise vs. team members' support interests
+      stage: 15, // Expertise vs. what the team's current stage needs
+      load: 25 // Spare capacity in teams and session hours
+    },
+    max_teams_per_mentor: 5
+  },
+};
+
+export type SettingKey = keyof typeof SETTING_DEFAULTS;
+
+export class SettingsService {
+  /**
+   * Get a setting value, falling back to its default
+   */
+  static async get<K extends SettingKey>(key: K): Promise<typeof SETTING_DEFAULTS[K]> {
+    try {
+      const setting = await prisma.systemSetting.findUnique({
+        where: { key }
+      });
+
+      return setting ? (setting.value as typeof SETTING_DEFAULTS[K]) : SETTING_DEFAULTS[key];
+    } catch (error) {
+      console.error(`Error reading setting ${key}:`, error);
+      return SETTING_DEFAULTS[key];
+    }
+  }
+
+  /**
+   * Create or update a setting
+   */
+  static async set<K extends SettingKey>(key: K, value: typeof SETTING_DEFAULTS[K], updatedBy?: string): Promise<void> {
+    await prisma.systemSetting.upsert({
+      where: { key },
+      create: {
+        key,
+        value: value as Prisma.InputJsonValue,
+        updated_by: updatedBy
+      },
+      update: {
+        value: value as Prisma.InputJsonValue,
+        updated_by: updatedBy
+      }
+    });
+  }
+}
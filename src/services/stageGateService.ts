@@ -0,0 +1,67 @@
+import { Prisma, ProjectStatusAtEnrollment } from '@prisma/client';
+
+// Stages in the order a project moves through them
+export const PROJECT_STAGES: ProjectStatusAtEnrollment[] = ['Idea', 'Prototype', 'MVP', 'Beta', 'Launched'];
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export interface StagePeriod {
+  stage: ProjectStatusAtEnrollment;
+  entered_at: Date;
+  left_at: Date | null; // null while the project is still in this stage
+  days: number;
+}
+
+export class StageGateService {
+  /**
+   * Stage a project is in now; projects that never passed a gate are still at their intake stage
+   */
+  static currentStage(project: { current_stage: ProjectStatusAtEnrollment | null; status_at_enrollment: ProjectStatusAtEnrollment | null }): ProjectStatusAtEnrollment {
+    return project.current_stage ?? project.status_at_enrollment ?? 'Idea';
+  }
+
+  /**
+   * Filter for projects currently at a stage, with the same fallbacks as currentStage()
+   */
+  static atStageWhere(stage: ProjectStatusAtEnrollment): Prisma.ProjectWhereInput {
+    return {
+      OR: [
+        { current_stage: stage },
+        { current_stage: null, status_at_enrollment: stage },
+        ...(stage === 'Idea' ? [{ current_stage: null, status_at_enrollment: null }] : [])
+      ]
+    };
+  }
+
+  static nextStage(stage: ProjectStatusAtEnrollment): ProjectStatusAtEnrollment | null {
+    const index = PROJECT_STAGES.indexOf(stage);
+    return index >= 0 && index < PROJECT_STAGES.length - 1 ? PROJECT_STAGES[index + 1] : null;
+  }
+
+  /**
+   * Split a project's life into the periods it spent in each stage.
+   * The intake stage starts at project creation; each transition starts the next period.
+   */
+  static buildPeriods(
+    project: { created_at: Date; status_at_enrollment: ProjectStatusAtEnrollment | null },
+    transitions: { to_stage: ProjectStatusAtEnrollment; transitioned_at: Date }[],
+    now: Date = new Date()
+  ): StagePeriod[] {
+    const sorted = [...transitions].sort((a, b) => a.transitioned_at.getTime() - b.transitioned_at.getTime());
+    const starts = [
+      { stage: project.status_at_enrollment ?? 'Idea', at: project.created_at },
+      ...sorted.map(transition => ({ stage: transition.to_stage, at: transition.transitioned_at }))
+    ];
+
+    return starts.map((start, index) => {
+      const next = starts[index + 1];
+      const end = next ? next.at : now;
+      return {
+        stage: start.stage,
+        entered_at: start.at,
+        left_at: next ? next.at : null,
+        days: Math.round(((end.getTime() - start.at.getTime()) / DAY_MS) * 10) / 10
+      };
+    });
+  }
+}
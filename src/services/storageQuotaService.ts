@@ -0,0 +1,226 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { FileService } from './fileService';
+import { SettingsService } from './settingsService';
+import { NotificationService } from './notificationService';
+
+const MB = 1024 * 1024;
+
+export interface StorageUsage {
+  used_bytes: number;
+  quota_bytes: number;
+  quota_mb: number;
+  is_default_quota: boolean;
+  percent_used: number;
+  warning: boolean; // At or past the warning threshold
+}
+
+export type QuotaCheckResult =
+  | {
+      allowed: true;
+      // Usage once the upload is stored
+      team: StorageUsage | null;
+      user: StorageUsage | null;
+      // Whether this upload is the one that takes the team / user past the warning threshold
+      crossed_warning: { team: boolean; user: boolean };
+    }
+  | { allowed: false; code: 'TEAM_STORAGE_QUOTA_EXCEEDED' | 'USER_STORAGE_QUOTA_EXCEEDED'; usage: StorageUsage; incoming_bytes: number };
+
+export type QuotaStoreResult<T> =
+  | { allowed: true; quota: Extract<QuotaCheckResult, { allowed: true }>; stored: T }
+  | { allowed: false; quota: Extract<QuotaCheckResult, { allowed: false }>; stored: null };
+
+export class StorageQuotaService {
+  /**
+   * Storage used by a team's project files against its quota, or null if the team doesn't exist
+   */
+  static async getTeamUsage(teamId: string, client: Prisma.TransactionClient = prisma): Promise<StorageUsage | null> {
+    const team = await client.team.findUnique({
+      where: { id: teamId },
+      select: { storage_quota_mb: true }
+    });
+
+    if (!team) {
+      return null;
+    }
+
+    const [usedBytes, defaults] = await Promise.all([
+      FileService.getStorageUsage({ project: { team_id: teamId } }, undefined, client),
+      SettingsService.get('storage_quotas')
+    ]);
+
+    return this.buildUsage(usedBytes, team.storage_quota_mb, defaults.team_default_mb, defaults.warning_percent);
+  }
+
+  /**
+   * Storage used by a user's project uploads and chat attachments against their quota, or null if the user doesn't exist
+   */
+  static async getUserUsage(userId: string, client: Prisma.TransactionClient = prisma): Promise<StorageUsage | null> {
+    const user = await client.user.findUnique({
+      where: { id: userId },
+      select: { storage_quota_mb: true }
+    });
+
+    if (!user) {
+      return null;
+    }
+
+    const [projectBytes, messageFiles, defaults] = await Promise.all([
+      FileService.getStorageUsage({}, userId, client),
+      client.message.aggregate({
+        where: { sender_id: userId },
+        _sum: { file_size: true }
+      }),
+      SettingsService.get('storage_quotas')
+    ]);
+
+    const usedBytes = projectBytes + (messageFiles._sum.file_size || 0);
+    return this.buildUsage(usedBytes, user.storage_quota_mb, defaults.user_default_mb, defaults.warning_percent);
+  }
+
+  /**
+   * Check whether an upload fits in the uploader's quota and, for project files, the team's quota
+   */
+  static async checkUpload(
+    userId: string,
+    incomingBytes: number,
+    teamId?: string | null,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<QuotaCheckResult> {
+    const [team, user, defaults] = await Promise.all([
+      teamId ? this.getTeamUsage(teamId, client) : Promise.resolve(null),
+      this.getUserUsage(userId, client),
+      SettingsService.get('storage_quotas')
+    ]);
+
+    if (team && team.used_bytes + incomingBytes > team.quota_bytes) {
+      return { allowed: false, code: 'TEAM_STORAGE_QUOTA_EXCEEDED', usage: team, incoming_bytes: incomingBytes };
+    }
+
+    if (user && user.used_bytes + incomingBytes > user.quota_bytes) {
+      return { allowed: false, code: 'USER_STORAGE_QUOTA_EXCEEDED', usage: user, incoming_bytes: incomingBytes };
+    }
+
+    const teamAfter = team && this.addBytes(team, incomingBytes, defaults.warning_percent);
+    const userAfter = user && this.addBytes(user, incomingBytes, defaults.warning_percent);
+
+    return {
+      allowed: true,
+      team: teamAfter,
+      user: userAfter,
+      crossed_warning: {
+        team: !!team && !team.warning && !!teamAfter?.warning,
+        user: !!user && !user.warning && !!userAfter?.warning
+      }
+    };
+  }
+
+  /**
+   * Check the quota and store the upload's records in one transaction
+   * The team and user rows are locked first, so concurrent uploads are checked one after another
+   * instead of all passing against the same usage; `store` only runs when the upload fits
+   */
+  static async storeWithinQuota<T>(
+    userId: string,
+    incomingBytes: number,
+    teamId: string | null | undefined,
+    store: (tx: Prisma.TransactionClient) => Promise<T>
+  ): Promise<QuotaStoreResult<T>> {
+    return prisma.$transaction(async (tx) => {
+      if (teamId) {
+        await tx.$queryRaw`SELECT id FROM teams WHERE id = ${teamId} FOR UPDATE`;
+      }
+      await tx.$queryRaw`SELECT id FROM users WHERE id = ${userId} FOR UPDATE`;
+
+      const quota = await this.checkUpload(userId, incomingBytes, teamId, tx);
+
+      if (!quota.allowed) {
+        return { allowed: false, quota, stored: null };
+      }
+
+      return { allowed: true, quota, stored: await store(tx) };
+    }, { timeout: 30000 });
+  }
+
+  /**
+   * Notify the team leaders and/or uploader when an upload took them past the warning threshold
+   */
+  static async sendWarnings(check: QuotaCheckResult, userId: string, teamId?: string | null): Promise<void> {
+    if (!check.allowed) {
+      return;
+    }
+
+    try {
+      if (check.crossed_warning.team && check.team && teamId) {
+        const team = await prisma.team.findUnique({
+          where: { id: teamId },
+          select: {
+            team_name: true,
+            team_members: {
+              where: { role: 'team_leader' },
+              select: { user_id: true }
+            }
+          }
+        });
+
+        if (team) {
+          await NotificationService.notifyUsers(
+            team.team_members.map(leader => leader.user_id),
+            userId,
+            'Team storage almost full',
+            `${team.team_name} is using ${check.team.percent_used}% of its ${check.team.quota_mb} MB storage quota. Remove old files or versions, or ask a director to raise the quota.`
+          );
+        }
+      }
+
+      if (check.crossed_warning.user && check.user) {
+        await NotificationService.notifyUsers(
+          [userId],
+          userId,
+          'Your storage is almost full',
+          `You are using ${check.user.percent_used}% of your ${check.user.quota_mb} MB storage quota.`
+        );
+      }
+    } catch (error) {
+      console.error('Error sending storage quota warnings:', error);
+      // Warnings never fail the upload
+    }
+  }
+
+  /**
+   * Error body for an upload rejected by checkUpload
+   */
+  static exceededError(check: Extract<QuotaCheckResult, { allowed: false }>): { message: string; code: string; data: any } {
+    const owner = check.code === 'TEAM_STORAGE_QUOTA_EXCEEDED' ? 'Team' : 'Your';
+    const usedMb = Math.round((check.usage.used_bytes / MB) * 10) / 10;
+    const incomingMb = Math.round((check.incoming_bytes / MB) * 10) / 10;
+
+    return {
+      message: `${owner} storage quota exceeded: ${usedMb} MB of ${check.usage.quota_mb} MB used, upload needs ${incomingMb} MB`,
+      code: check.code,
+      data: {
+        ...check.usage,
+        incoming_bytes: check.incoming_bytes
+      }
+    };
+  }
+
+  private static buildUsage(usedBytes: number, overrideMb: number | null, defaultMb: number, warningPercent: number): StorageUsage {
+    const quotaMb = overrideMb ?? defaultMb;
+    const quotaBytes = quotaMb * MB;
+    const percentUsed = quotaBytes > 0 ? Math.round((usedBytes / quotaBytes) * 1000) / 10 : 100;
+
+    return {
+      used_bytes: usedBytes,
+      quota_bytes: quotaBytes,
+      quota_mb: quotaMb,
+      is_default_quota: overrideMb === null,
+      percent_used: percentUsed,
+      warning: percentUsed >= warningPercent
+    };
+  }
+
+  private static addBytes(usage: StorageUsage, bytes: number, warningPercent: number): StorageUsage {
+    return this.buildUsage(usage.used_bytes + bytes, usage.is_default_quota ? null : usage.quota_mb, usage.quota_mb, warningPercent);
+  }
+}
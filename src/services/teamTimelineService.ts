@@ -0,0 +1,322 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+
+export const TIMELINE_EVENT_TYPES = ['request', 'inventory', 'consumption', 'mentor', 'file', 'membership'] as const;
+
+export type TimelineEventType = typeof TIMELINE_EVENT_TYPES[number];
+
+export interface TimelineEvent {
+  id: string; // <type>:<source record id>, unique across sources
+  type: TimelineEventType;
+  action: string;
+  occurred_at: Date;
+  actor: { id: string; name: string } | null;
+  summary: string;
+  reference: { kind: string; id: string; label?: string };
+  details?: any;
+}
+
+export interface TimelineOptions {
+  types?: TimelineEventType[];
+  from?: Date;
+  to?: Date;
+  page: number;
+  limit: number;
+}
+
+const actorSelect = {
+  select: {
+    id: true,
+    name: true
+  }
+};
+
+export class TeamTimelineService {
+  /**
+   * Build one page of a team's activity feed, newest first.
+   * Each source is read only as deep as the requested page, then merged.
+   */
+  static async getTimeline(teamId: string, options: TimelineOptions): Promise<{ events: TimelineEvent[]; total: number }> {
+    const types = options.types && options.types.length > 0 ? options.types : [...TIMELINE_EVENT_TYPES];
+    const take = options.page * options.limit;
+
+    const range: Prisma.DateTimeFilter | undefined = (options.from || options.to) ? {
+      ...(options.from && { gte: options.from }),
+      ...(options.to && { lte: options.to })
+    } : undefined;
+
+    const sources: Record<TimelineEventType, () => Promise<{ events: TimelineEvent[]; total: number }>> = {
+      request: () => TeamTimelineService.requestEvents(teamId, range, take),
+      inventory: () => TeamTimelineService.inventoryEvents(teamId, range, take),
+      consumption: () => TeamTimelineService.consumptionEvents(teamId, range, take),
+      mentor: () => TeamTimelineService.mentorEvents(teamId, range, take),
+      file: () => TeamTimelineService.fileEvents(teamId, range, take),
+      membership: () => TeamTimelineService.membershipEvents(teamId, range, take)
+    };
+
+    const results = await Promise.all(types.map(type => sources[type]()));
+
+    const events = results
+      .flatMap(result => result.events)
+      .sort((a, b) => b.occurred_at.getTime() - a.occurred_at.getTime())
+      .slice((options.page - 1) * options.limit, take);
+
+    return {
+      events,
+      total: results.reduce((sum, result) => sum + result.total, 0)
+    };
+  }
+
+  private static async requestEvents(teamId: string, range: Prisma.DateTimeFilter | undefined, take: number) {
+    const where = {
+      request: { team_id: teamId },
+      ...(range && { performed_at: range })
+    };
+
+    const [total, rows] = await Promise.all([
+      prisma.requestHistory.count({ where }),
+      prisma.requestHistory.findMany({
+        where,
+        include: {
+          request: {
+            select: {
+              id: true,
+              request_number: true,
+              title: true
+            }
+          },
+          performer: actorSelect
+        },
+        orderBy: { performed_at: 'desc' },
+        take
+      })
+    ]);
+
+    return {
+      total,
+      events: rows.map((row): TimelineEvent => ({
+        id: `request:${row.id}`,
+        type: 'request',
+        action: row.action,
+        occurred_at: row.performed_at,
+        actor: row.performer,
+        summary: `${row.request.request_number} ${row.action.replace(/_/g, ' ')}: ${row.request.title}`,
+        reference: { kind: 'material_request', id: row.request.id, label: row.request.request_number },
+        details: {
+          old_value: row.old_value,
+          new_value: row.new_value,
+          notes: row.notes
+        }
+      }))
+    };
+  }
+
+  private static async inventoryEvents(teamId: string, range: Prisma.DateTimeFilter | undefined, take: number) {
+    const where = {
+      team_id: teamId,
+      ...(range && { created_at: range })
+    };
+
+    const [total, rows] = await Promise.all([
+      prisma.inventoryTransaction.count({ where }),
+      prisma.inventoryTransaction.findMany({
+        where,
+        include: {
+          item: {
+            select: {
+              id: true,
+              name: true
+            }
+          },
+          performer: actorSelect
+        },
+        orderBy: { created_at: 'desc' },
+        take
+      })
+    ]);
+
+    return {
+      total,
+      events: rows.map((row): TimelineEvent => ({
+        id: `inventory:${row.id}`,
+        type: 'inventory',
+        action: row.transaction_type,
+        occurred_at: row.created_at,
+        actor: row.performer,
+        summary: `${row.transaction_type}: ${row.quantity} x ${row.item.name}`,
+        reference: { kind: 'inventory_item', id: row.item.id, label: row.item.name },
+        details: {
+          quantity: row.quantity,
+          previous_quantity: row.previous_quantity,
+          new_quantity: row.new_quantity,
+          notes: row.notes
+        }
+      }))
+    };
+  }
+
+  private static async consumptionEvents(teamId: string, range: Prisma.DateTimeFilter | undefined, take: number) {
+    const where = {
+      team_id: teamId,
+      ...(range && { consumption_date: range })
+    };
+
+    const [total, rows] = await Promise.all([
+      prisma.consumptionLog.count({ where }),
+      prisma.consumptionLog.findMany({
+        where,
+        include: {
+          item: {
+            select: {
+              id: true,
+              name: true
+            }
+          },
+          distributor: actorSelect
+        },
+        orderBy: { consumption_date: 'desc' },
+        take
+      })
+    ]);
+
+    return {
+      total,
+      events: rows.map((row): TimelineEvent => ({
+        id: `consumption:${row.id}`,
+        type: 'consumption',
+        action: row.consumption_type || 'consumed',
+        occurred_at: row.consumption_date,
+        actor: row.distributor,
+        summary: `${row.quantity} ${row.unit || 'units'} of ${row.item.name} consumed`,
+        reference: { kind: 'consumption_log', id: row.id, label: row.item.name },
+        details: {
+          quantity: row.quantity,
+          unit: row.unit,
+          distributed_to: row.distributed_to,
+          notes: row.notes
+        }
+      }))
+    };
+  }
+
+  private static async mentorEvents(teamId: string, range: Prisma.DateTimeFilter | undefined, take: number) {
+    const where = {
+      team_id: teamId,
+      ...(range && { assigned_at: range })
+    };
+
+    const [total, rows] = await Promise.all([
+      prisma.mentorAssignment.count({ where }),
+      prisma.mentorAssignment.findMany({
+        where,
+        include: {
+          mentor: {
+            include: {
+              user: actorSelect
+            }
+          }
+        },
+        orderBy: { assigned_at: 'desc' },
+        take
+      })
+    ]);
+
+    return {
+      total,
+      events: rows.map((row): TimelineEvent => ({
+        id: `mentor:${row.id}`,
+        type: 'mentor',
+        action: 'mentor_assigned',
+        occurred_at: row.assigned_at,
+        actor: null, // Assignments do not record who made them
+        summary: `${row.mentor.user.name} assigned as mentor`,
+        reference: { kind: 'mentor', id: row.mentor.id, label: row.mentor.user.name },
+        details: {
+          expertise: row.mentor.expertise
+        }
+      }))
+    };
+  }
+
+  private static async fileEvents(teamId: string, range: Prisma.DateTimeFilter | undefined, take: number) {
+    const where = {
+      project: { team_id: teamId },
+      ...(range && { uploaded_at: range })
+    };
+
+    const [total, rows] = await Promise.all([
+      prisma.projectFile.count({ where }),
+      prisma.projectFile.findMany({
+        where,
+        include: {
+          project: {
+            select: {
+              id: true,
+              name: true
+            }
+          },
+          uploader: actorSelect
+        },
+        orderBy: { uploaded_at: 'desc' },
+        take
+      })
+    ]);
+
+    return {
+      total,
+      events: rows.map((row): TimelineEvent => ({
+        id: `file:${row.id}`,
+        type: 'file',
+        action: 'file_uploaded',
+        occurred_at: row.uploaded_at,
+        actor: row.uploader,
+        summary: `${row.file_name} uploaded to ${row.project.name}`,
+        reference: { kind: 'project', id: row.project.id, label: row.project.name },
+        details: {
+          file_id: row.id,
+          file_name: row.file_name,
+          file_type: row.file_type,
+          file_size: row.file_size
+        }
+      }))
+    };
+  }
+
+  private static async membershipEvents(teamId: string, range: Prisma.DateTimeFilter | undefined, take: number) {
+    const where = {
+      team_id: teamId,
+      ...(range && { performed_at: range })
+    };
+
+    const [total, rows] = await Promise.all([
+      prisma.teamHistory.count({ where }),
+      prisma.teamHistory.findMany({
+        where,
+        include: {
+          member: actorSelect,
+          performer: actorSelect
+        },
+        orderBy: { performed_at: 'desc' },
+        take
+      })
+    ]);
+
+    return {
+      total,
+      events: rows.map((row): TimelineEvent => ({
+        id: `membership:${row.id}`,
+        type: 'membership',
+        action: row.action,
+        occurred_at: row.performed_at,
+        actor: row.performer,
+        summary: `${row.action.replace(/_/g, ' ')}${row.member ? `: ${row.member.name}` : ''}`,
+        reference: { kind: 'user', id: row.user_id || '', label: row.member?.name },
+        details: {
+          old_value: row.old_value,
+          new_value: row.new_value,
+          notes: row.notes
+        }
+      }))
+    };
+  }
+}
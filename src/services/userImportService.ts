@@ -0,0 +1,303 @@
+import { Readable } from 'stream';
+import ExcelJS from 'exceljs';
+import Joi from 'joi';
+import { TeamMemberRole, UserRole } from '@prisma/client';
+import prisma from '../config/database';
+import { userSchemas } from '../utils/validation';
+import { AccountSetupService, SetupAccount } from './accountSetupService';
+
+// Keep a single import to a size that fits comfortably in one transaction
+export const MAX_IMPORT_ROWS = 500;
+
+// Directors are never created in bulk; they are invited one at a time by another director
+const IMPORTABLE_ROLES: UserRole[] = ['incubator', 'mentor', 'manager'];
+
+// Header aliases accepted in the uploaded sheet
+const COLUMN_ALIASES: Record<string, keyof RawImportRow> = {
+  name: 'name',
+  full_name: 'name',
+  email: 'email',
+  role: 'role',
+  team: 'team',
+  team_name: 'team',
+  team_role: 'team_role'
+};
+
+const TEAM_ROLES: TeamMemberRole[] = ['team_leader', 'member'];
+
+// Team name is resolved separately; the rest of the row must pass userSchemas.create
+// (replacing teamId outright; fork(optional) would keep its conditional requirement for incubators)
+const rowSchema = userSchemas.create
+  .keys({ teamId: Joi.forbidden() })
+  .fork(['role'], schema => schema.valid(Joi.override, ...IMPORTABLE_ROLES).messages({
+    'any.only': `Role must be one of: ${IMPORTABLE_ROLES.join(', ')}`
+  }));
+
+interface RawImportRow {
+  name?: string;
+  email?: string;
+  role?: string;
+  team?: string;
+  team_role?: string;
+}
+
+export interface ImportRowResult {
+  row: number; // Spreadsheet row number (header is row 1)
+  name?: string;
+  email?: string;
+  role?: string;
+  team?: string;
+  team_action?: 'existing' | 'create';
+  team_role?: TeamMemberRole;
+  valid: boolean;
+  errors: string[];
+}
+
+export interface ImportReport {
+  total_rows: number;
+  valid_rows: number;
+  invalid_rows: number;
+  teams_to_create: string[];
+  rows: ImportRowResult[];
+}
+
+interface PreparedRow {
+  name: string;
+  email: string;
+  role: UserRole;
+  team?: string;
+  team_role?: TeamMemberRole;
+}
+
+export class UserImportService {
+  /**
+   * Parse an uploaded CSV or XLSX file into raw rows keyed by known column names
+   */
+  static async parseFile(file: Express.Multer.File): Promise<RawImportRow[]> {
+    const workbook = new ExcelJS.Workbook();
+    const isCsv = file.mimetype === 'text/csv' || file.originalname.toLowerCase().endsWith('.csv');
+
+    let worksheet: ExcelJS.Worksheet | undefined;
+    if (isCsv) {
+      worksheet = await workbook.csv.read(Readable.from(file.buffer));
+    } else {
+      // Copy into a standalone ArrayBuffer; Node may hand us a slice of a larger pooled buffer
+      await workbook.xlsx.load(new Uint8Array(file.buffer).buffer);
+      worksheet = workbook.worksheets[0];
+    }
+
+    if (!worksheet || worksheet.rowCount < 2) {
+      return [];
+    }
+
+    const headers: (keyof RawImportRow | undefined)[] = [];
+    worksheet.getRow(1).eachCell((cell, col) => {
+      const key = String(cell.text || '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+      headers[col] = COLUMN_ALIASES[key];
+    });
+
+    const rows: RawImportRow[] = [];
+    for (let r = 2; r <= worksheet.rowCount; r++) {
+      const row: RawImportRow = {};
+      worksheet.getRow(r).eachCell((cell, col) => {
+        const key = headers[col];
+        const value = String(cell.text || '').trim();
+        if (key && value) {
+          row[key] = value;
+        }
+      });
+      rows.push(row);
+    }
+
+    // Drop trailing blank lines but keep row numbering for the rest
+    while (rows.length > 0 && Object.keys(rows[rows.length - 1]).length === 0) {
+      rows.pop();
+    }
+
+    return rows;
+  }
+
+  /**
+   * Validate every row and work out which teams exist and which must be created
+   */
+  static async buildReport(rawRows: RawImportRow[]): Promise<{ report: ImportReport; prepared: PreparedRow[] }> {
+    const emails = rawRows.map(r => r.email?.toLowerCase()).filter((e): e is string => !!e);
+    const teamNames = [...new Set(rawRows.map(r => r.team).filter((t): t is string => !!t))];
+
+    const [existingUsers, existingTeams] = await Promise.all([
+      prisma.user.findMany({
+        where: { email: { in: emails } },
+        select: { email: true }
+      }),
+      prisma.team.findMany({
+        where: { team_name: { in: teamNames } },
+        select: { id: true, team_name: true }
+      })
+    ]);
+
+    const takenEmails = new Set(existingUsers.map(u => u.email.toLowerCase()));
+    const existingTeamNames = new Set(existingTeams.map(t => t.team_name.toLowerCase()));
+    const seenEmails = new Set<string>();
+    const teamsToCreate = new Map<string, string>(); // lower-case name -> name as written
+
+    const rows: ImportRowResult[] = [];
+    const prepared: PreparedRow[] = [];
+
+    rawRows.forEach((raw, index) => {
+      const result: ImportRowResult = {
+        row: index + 2,
+        name: raw.name,
+        email: raw.email?.toLowerCase(),
+        role: raw.role?.toLowerCase(),
+        team: raw.team,
+        valid: false,
+        errors: []
+      };
+
+      const { error, value } = rowSchema.validate({
+        name: raw.name,
+        email: raw.email,
+        role: raw.role?.toLowerCase()
+      }, { abortEarly: false });
+
+      if (error) {
+        result.errors.push(...error.details.map(detail => detail.message));
+      }
+
+      if (result.email) {
+        if (takenEmails.has(result.email)) {
+          result.errors.push('User with this email already exists');
+        } else if (seenEmails.has(result.email)) {
+          result.errors.push('Email appears more than once in this file');
+        }
+        seenEmails.add(result.email);
+      }
+
+      if (result.role === 'incubator' && !raw.team) {
+        result.errors.push('Team is required for incubator users');
+      }
+
+      if (raw.team_role && !TEAM_ROLES.includes(raw.team_role.toLowerCase() as TeamMemberRole)) {
+        result.errors.push(`Team role must be one of: ${TEAM_ROLES.join(', ')}`);
+      }
+
+      if (raw.team && result.role === 'incubator') {
+        const key = raw.team.toLowerCase();
+        result.team_action = existingTeamNames.has(key) ? 'existing' : 'create';
+        if (raw.team_role) {
+          result.team_role = raw.team_role.toLowerCase() as TeamMemberRole;
+        }
+        if (result.errors.length === 0 && result.team_action === 'create' && !teamsToCreate.has(key)) {
+          teamsToCreate.set(key, raw.team);
+        }
+      }
+
+      result.valid = result.errors.length === 0;
+      rows.push(result);
+
+      if (result.valid) {
+        prepared.push({
+          name: value.name,
+          email: value.email.toLowerCase(),
+          role: value.role,
+          team: result.role === 'incubator' ? raw.team : undefined,
+          team_role: result.team_role
+        });
+      }
+    });
+
+    const validRows = rows.filter(r => r.valid).length;
+
+    return {
+      report: {
+        total_rows: rows.length,
+        valid_rows: validRows,
+        invalid_rows: rows.length - validRows,
+        teams_to_create: [...teamsToCreate.values()],
+        rows
+      },
+      prepared
+    };
+  }
+
+  /**
+   * Create all teams, users and memberships in a single transaction
+   * Accounts start with an unusable password; users set their own from the welcome email
+   */
+  static async commit(prepared: PreparedRow[]): Promise<{ users: SetupAccount[]; teamsCreated: number }> {
+    // One unusable hash for the whole import: nobody knows the password behind it, and a bcrypt hash
+    // per row would block the CPU for minutes on a large file. Hashed outside the transaction so it stays short
+    const passwordHash = await AccountSetupService.unusablePasswordHash();
+
+    return prisma.$transaction(async (tx) => {
+      const teamIds = new Map<string, string>();
+      const newTeams = new Set<string>();
+      let teamsCreated = 0;
+
+      for (const name of new Set(prepared.map(r => r.team).filter((t): t is string => !!t))) {
+        const key = name.toLowerCase();
+        if (teamIds.has(key)) continue;
+
+        let team = await tx.team.findFirst({ where: { team_name: name } });
+        if (!team) {
+          team = await tx.team.create({
+            data: { team_name: name, status: 'pending' }
+          });
+          newTeams.add(key);
+          teamsCreated++;
+        }
+        teamIds.set(key, team.id);
+      }
+
+      const leaderAssigned = new Set<string>();
+      const users: SetupAccount[] = [];
+
+      for (const row of prepared) {
+        const user = await tx.user.create({
+          data: {
+            name: row.name,
+            email: row.email,
+            password_hash: passwordHash,
+            role: row.role,
+            status: 'active'
+          },
+          select: { id: true, name: true, email: true, role: true }
+        });
+
+        if (row.team) {
+          const key = row.team.toLowerCase();
+          // First member of a newly created team leads it unless the file says otherwise
+          const teamRole = row.team_role || (newTeams.has(key) && !leaderAssigned.has(key) ? 'team_leader' : 'member');
+          if (teamRole === 'team_leader') {
+            leaderAssigned.add(key);
+          }
+
+          await tx.teamMember.create({
+            data: {
+              team_id: teamIds.get(key)!,
+              user_id: user.id,
+              role: teamRole
+            }
+          });
+        }
+
+        users.push(user);
+      }
+
+      return { users, teamsCreated };
+    }, { timeout: 60000 });
+  }
+
+  /**
+   * Send welcome emails with set-password links one by one; failures are logged and skipped
+   */
+  static async sendWelcomeEmails(users: SetupAccount[]): Promise<void> {
+    for (const user of users) {
+      try {
+        await AccountSetupService.sendWelcomeEmail(user);
+      } catch (emailError) {
+        console.error(`Failed to send welcome email to ${user.email}:`, emailError);
+      }
+    }
+  }
+}
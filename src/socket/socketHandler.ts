@@ -2,6 +2,7 @@ import { Server as HTTPServer } from 'http';
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { JWTUtils } from '../utils/jwt';
 import prisma from '../config/database';
+import { SessionService } from '../services/sessionService';
 
 const buildDisplayName = (user: {
   first_name?: string | null;
@@ -91,6 +92,15 @@ export class SocketHandler {
           return next(new Error('User not found'));
         }
 
+        // Revoked sessions must not be able to open new sockets
+        const sessionCheck = decoded.sessionId
+          ? await SessionService.validateSession(decoded.sessionId, user.id)
+          : null;
+
+        if (!sessionCheck?.valid) {
+          return next(new Error('Session is no longer valid'));
+        }
+
         // Attach user info to socket
         socket.userId = user.id;
         socket.userRole = user.role;
@@ -15,19 +15,32 @@ export interface JWTPayload {
   role: string;
   name: string;
   teamId?: string;
+  sessionId?: string;
+}
+
+export interface RefreshTokenPayload extends JWTPayload {
+  jti?: string;
+}
+
+// Issued after a correct password when a second factor is still needed
+export interface MfaPendingPayload {
+  userId: string;
+  purpose: 'verify' | 'enroll';
+  teamId?: string;
 }
 
 export class JWTUtils {
   /**
    * Generate JWT token for user
    */
-  static generateToken(user: User, teamId?: string): string {
+  static generateToken(user: User, teamId?: string, sessionId?: string): string {
     const payload: JWTPayload = {
       userId: user.id,
       email: user.email,
       role: user.role,
       name: user.name,
       ...(teamId && { teamId }),
+      ...(sessionId && { sessionId }),
     };
 
     return jwt.sign(payload, JWT_SECRET, {
@@ -83,20 +96,75 @@ export class JWTUtils {
 
   /**
    * Generate refresh token (longer expiry)
+   * The token id (jti) is what the session store keeps a hash of, so it changes on every rotation
    */
-  static generateRefreshToken(user: User, teamId?: string): string {
+  static generateRefreshToken(user: User, teamId?: string, sessionId?: string, tokenId?: string): string {
     const payload: JWTPayload = {
       userId: user.id,
       email: user.email,
       role: user.role,
       name: user.name,
       ...(teamId && { teamId }),
+      ...(sessionId && { sessionId }),
     };
 
     return jwt.sign(payload, JWT_SECRET, {
       expiresIn: '7d', // 7 days for refresh token
       issuer: 'incubation-management-system',
       audience: 'incubation-refresh-tokens',
+      ...(tokenId && { jwtid: tokenId }),
     });
   }
-}
\ No newline at end of file
+
+  /**
+   * Verify and decode refresh token
+   */
+  static verifyRefreshToken(token: string): RefreshTokenPayload {
+    try {
+      return jwt.verify(token, JWT_SECRET, {
+        issuer: 'incubation-management-system',
+        audience: 'incubation-refresh-tokens',
+      }) as RefreshTokenPayload;
+    } catch (error: any) {
+      if (error.name === 'TokenExpiredError') {
+        throw new Error('Refresh token has expired. Please log in again.');
+      }
+      throw new Error('Invalid refresh token');
+    }
+  }
+
+  /**
+   * Generate short-lived "mfa pending" token
+   * It only proves the password step passed and cannot be used as an access token
+   */
+  static generateMfaPendingToken(userId: string, purpose: MfaPendingPayload['purpose'], teamId?: string): string {
+    const payload: MfaPendingPayload = {
+      userId,
+      purpose,
+      ...(teamId && { teamId }),
+    };
+
+    return jwt.sign(payload, JWT_SECRET, {
+      expiresIn: purpose === 'enroll' ? '15m' : '5m',
+      issuer: 'incubation-management-system',
+      audience: 'incubation-mfa-pending',
+    });
+  }
+
+  /**
+   * Verify and decode "mfa pending" token
+   */
+  static verifyMfaPendingToken(token: string): MfaPendingPayload {
+    try {
+      return jwt.verify(token, JWT_SECRET, {
+        issuer: 'incubation-management-system',
+        audience: 'incubation-mfa-pending',
+      }) as MfaPendingPayload;
+    } catch (error: any) {
+      if (error.name === 'TokenExpiredError') {
+        throw new Error('Two-factor login has expired. Please log in again.');
+      }
+      throw new Error('Invalid two-factor login token');
+    }
+  }
+}
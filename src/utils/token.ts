@@ -0,0 +1,18 @@
+import crypto from 'crypto';
+
+export class TokenUtils {
+  /**
+   * Generate a random URL-safe token
+   */
+  static generate(bytes: number = 32): string {
+    return crypto.randomBytes(bytes).toString('hex');
+  }
+
+  /**
+   * Hash a token before storing or comparing it
+   * Only hashes are persisted so a database leak does not expose usable tokens
+   */
+  static hash(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
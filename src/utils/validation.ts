@@ -1,4 +1,6 @@
 import Joi from 'joi';
+import { ALL_PERMISSIONS } from '../config/permissions';
+import { TIMELINE_EVENT_TYPES } from '../services/teamTimelineService';
 
 // Common validation patterns
 const objectIdPattern = /^c[a-z0-9]{24}$/; // CUID pattern - starts with 'c' followed by 24 lowercase alphanumeric chars
@@ -18,6 +20,18 @@ const requestStatuses = ['pending', 'approved', 'declined'];
 const messageTypes = ['text', 'file'];
 const recipientTypes = ['team', 'user'];
 const teamMemberRoles = ['team_leader', 'member'];
+const cohortProgramTypes = ['pre_incubation', 'incubation', 'acceleration', 'bootcamp'];
+const cohortStatuses = ['upcoming', 'active', 'completed'];
+const teamExitTypes = ['graduated', 'dropped_out', 'transferred'];
+const teamExitStatuses = ['in_progress', 'completed', 'cancelled'];
+const applicationStatuses = ['submitted', 'shortlisted', 'interviewed', 'admitted', 'rejected'];
+const milestoneStatuses = ['pending', 'in_progress', 'completed'];
+const stageGateReviewStatuses = ['pending', 'approved', 'rejected', 'withdrawn'];
+const securityEventTypes = [
+  'AUTH_SUCCESS', 'AUTH_FAILURE', 'AUTH_LOGOUT', 'RATE_LIMIT_EXCEEDED', 'SUSPICIOUS_ACTIVITY', 'FILE_UPLOAD_BLOCKED',
+  'SQL_INJECTION_ATTEMPT', 'XSS_ATTEMPT', 'BRUTE_FORCE_ATTEMPT', 'ACCOUNT_UNLOCKED', 'UNAUTHORIZED_ACCESS', 'INVALID_TOKEN',
+  'EXPIRED_TOKEN'
+];
 
 // Custom validation functions
 const validateObjectId = (value: string, helpers: Joi.CustomHelpers) => {
@@ -132,6 +146,118 @@ export const authSchemas = {
         'any.required': 'New password is required',
         'string.pattern.base': 'Password must be at least 8 characters with uppercase, lowercase, number, and special character'
       })
+  }),
+
+  forgotPassword: Joi.object({
+    email: Joi.string()
+      .required()
+      .custom(validateEmail)
+      .messages({
+        'string.empty': 'Email is required',
+        'any.required': 'Email is required',
+        'string.pattern.base': 'Please enter a valid email address'
+      })
+  }),
+
+  // Password strength is checked against PasswordPolicy in the controller
+  resetPassword: Joi.object({
+    token: Joi.string()
+      .required()
+      .messages({
+        'string.empty': 'Reset token is required',
+        'any.required': 'Reset token is required'
+      }),
+
+    new_password: Joi.string()
+      .required()
+      .messages({
+        'string.empty': 'New password is required',
+        'any.required': 'New password is required'
+      })
+  }),
+
+  mfaSetup: Joi.object({
+    mfaToken: Joi.string()
+      .optional()
+  }),
+
+  mfaEnable: Joi.object({
+    mfaToken: Joi.string()
+      .optional(),
+
+    code: Joi.string()
+      .pattern(/^\d{6}$/)
+      .required()
+      .messages({
+        'string.empty': 'Two-factor code is required',
+        'string.pattern.base': 'Two-factor code must be 6 digits',
+        'any.required': 'Two-factor code is required'
+      })
+  }),
+
+  mfaVerify: Joi.object({
+    mfaToken: Joi.string()
+      .required()
+      .messages({
+        'string.empty': 'Two-factor login token is required',
+        'any.required': 'Two-factor login token is required'
+      }),
+
+    code: Joi.string()
+      .pattern(/^\d{6}$/)
+      .messages({
+        'string.pattern.base': 'Two-factor code must be 6 digits'
+      }),
+
+    recoveryCode: Joi.string()
+      .max(20)
+      .messages({
+        'string.max': 'Invalid recovery code'
+      })
+  }).xor('code', 'recoveryCode')
+    .messages({
+      'object.missing': 'Provide either a two-factor code or a recovery code',
+      'object.xor': 'Provide either a two-factor code or a recovery code, not both'
+    }),
+
+  mfaDisable: Joi.object({
+    password: Joi.string()
+      .min(1)
+      .required()
+      .messages({
+        'string.empty': 'Password is required',
+        'any.required': 'Password is required'
+      }),
+
+    code: Joi.string()
+      .pattern(/^\d{6}$/)
+      .required()
+      .messages({
+        'string.empty': 'Two-factor code is required',
+        'string.pattern.base': 'Two-factor code must be 6 digits',
+        'any.required': 'Two-factor code is required'
+      })
+  }),
+
+  mfaCode: Joi.object({
+    code: Joi.string()
+      .pattern(/^\d{6}$/)
+      .required()
+      .messages({
+        'string.empty': 'Two-factor code is required',
+        'string.pattern.base': 'Two-factor code must be 6 digits',
+        'any.required': 'Two-factor code is required'
+      })
+  }),
+
+  mfaPolicy: Joi.object({
+    required_roles: Joi.array()
+      .items(Joi.string().valid(...userRoles))
+      .required()
+      .messages({
+        'any.only': `Roles must be one of: ${userRoles.join(', ')}`,
+        'any.required': 'Required roles list is required'
+      })
   })
 };
 
@@ -276,6 +402,108 @@ export const teamSchemas = {
       .messages({
         'any.only': `Role must be one of: ${teamMemberRoles.join(', ')}`
       })
+  }),
+
+  changeMemberRole: Joi.object({
+    role: Joi.string()
+      .valid(...teamMemberRoles)
+      .required()
+      .messages({
+        'any.only': `Role must be one of: ${teamMemberRoles.join(', ')}`,
+        'any.required': 'Role is required'
+      })
+  }),
+
+  transferLeadership: Joi.object({
+    to_member_id: Joi.string()
+      .custom(validateObjectId)
+      .required()
+      .messages({
+        'any.required': 'New leader is required',
+        'string.pattern.base': 'Invalid member ID format'
+      }),
+
+    from_member_id: Joi.string()
+      .custom(validateObjectId)
+      .optional()
+      .messages({
+        'string.pattern.base': 'Invalid member ID format'
+      }),
+
+    keep_leadership: Joi.boolean()
+      .default(false)
+  }),
+
+  initiateExit: Joi.object({
+    exit_type: Joi.string()
+      .valid(...teamExitTypes)
+      .required()
+      .messages({
+        'any.only': `Exit type must be one of: ${teamExitTypes.join(', ')}`,
+        'any.required': 'Exit type is required'
+      }),
+
+    reason: Joi.string()
+      .min(5)
+      .max(2000)
+      .trim()
+      .required()
+      .messages({
+        'string.empty': 'Exit reason is required',
+        'string.min': 'Exit reason must be at least 5 characters',
+        'string.max': 'Exit reason cannot exceed 2000 characters',
+        'any.required': 'Exit reason is required'
+      }),
+
+    notes: Joi.string()
+      .max(2000)
+      .optional()
+      .allow('')
+  }),
+
+  exitQuery: Joi.object({
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+    exit_type: Joi.string()
+      .valid(...teamExitTypes)
+      .optional()
+      .messages({
+        'any.only': `Exit type must be one of: ${teamExitTypes.join(', ')}`
+      }),
+    status: Joi.string()
+      .valid(...teamExitStatuses)
+      .optional()
+      .messages({
+        'any.only': `Status must be one of: ${teamExitStatuses.join(', ')}`
+      })
+  }),
+
+  timelineQuery: Joi.object({
+    // Every source is read up to page * limit rows, so deep pages are refused; narrow with from/to instead
+    page: Joi.number().integer().min(1).max(100).default(1)
+      .messages({
+        'number.max': 'Page cannot exceed 100; use from and to to look further back'
+      }),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+    // Comma-separated list, e.g. types=request,file
+    types: Joi.string()
+      .pattern(new RegExp(`^(${TIMELINE_EVENT_TYPES.join('|')})(,(${TIMELINE_EVENT_TYPES.join('|')}))*$`))
+      .optional()
+      .messages({
+        'string.pattern.base': `Types must be a comma-separated list of: ${TIMELINE_EVENT_TYPES.join(', ')}`
+      }),
+    from: Joi.date()
+      .iso()
+      .optional()
+      .messages({
+        'date.format': 'From must be an ISO date'
+      }),
+    to: Joi.date()
+      .iso()
+      .optional()
+      .messages({
+        'date.format': 'To must be an ISO date'
+      })
   })
 };
 
@@ -440,6 +668,102 @@ export const projectSchemas = {
       })
   }).min(1).messages({
     'object.min': 'At least one field must be provided for update'
+  }),
+
+  createMilestone: Joi.object({
+    title: Joi.string()
+      .min(2)
+      .max(200)
+      .trim()
+      .required()
+      .messages({
+        'string.empty': 'Milestone title is required',
+        'string.min': 'Milestone title must be at least 2 characters',
+        'string.max': 'Milestone title cannot exceed 200 characters',
+        'any.required': 'Milestone title is required'
+      }),
+
+    description: Joi.string()
+      .max(2000)
+      .optional()
+      .allow(''),
+
+    due_date: Joi.date()
+      .iso()
+      .required()
+      .messages({
+        'date.format': 'Due date must be in ISO format',
+        'any.required': 'Due date is required'
+      }),
+
+    owner_id: Joi.string()
+      .custom(validateObjectId)
+      .optional()
+      .allow(null)
+      .messages({
+        'string.pattern.base': 'Invalid owner ID format'
+      }),
+
+    status: Joi.string()
+      .valid(...milestoneStatuses)
+      .optional()
+      .messages({
+        'any.only': `Status must be one of: ${milestoneStatuses.join(', ')}`
+      })
+  }),
+
+  updateMilestone: Joi.object({
+    title: Joi.string()
+      .min(2)
+      .max(200)
+      .trim()
+      .optional()
+      .messages({
+        'string.min': 'Milestone title must be at least 2 characters',
+        'string.max': 'Milestone title cannot exceed 200 characters'
+      }),
+
+    description: Joi.string()
+      .max(2000)
+      .optional()
+      .allow('', null),
+
+    due_date: Joi.date()
+      .iso()
+      .optional()
+      .messages({
+        'date.format': 'Due date must be in ISO format'
+      }),
+
+    owner_id: Joi.string()
+      .custom(validateObjectId)
+      .optional()
+      .allow(null)
+      .messages({
+        'string.pattern.base': 'Invalid owner ID format'
+      }),
+
+    status: Joi.string()
+      .valid(...milestoneStatuses)
+      .optional()
+      .messages({
+        'any.only': `Status must be one of: ${milestoneStatuses.join(', ')}`
+      })
+  }).min(1).messages({
+    'object.min': 'At least one field must be provided for update'
+  }),
+
+  addMilestoneEvidence: Joi.object({
+    file_ids: Joi.array()
+      .items(Joi.string().custom(validateObjectId))
+      .min(1)
+      .max(20)
+      .required()
+      .messages({
+        'array.min': 'At least one file is required',
+        'array.max': 'Cannot attach more than 20 files at once',
+        'any.required': 'File IDs are required'
+      })
   })
 };
 
@@ -537,6 +861,17 @@ export const mentorSchemas = {
         'any.required': 'Team ID is required',
         'string.pattern.base': 'Invalid team ID format'
       })
+  }),
+
+  recommendations: Joi.object({
+    team_id: Joi.string()
+      .required()
+      .custom(validateObjectId)
+      .messages({
+        'any.required': 'Team ID is required',
+        'string.pattern.base': 'Invalid team ID format'
+      }),
+    limit: Joi.number().integer().min(1).max(50).default(10)
   })
 };
 
@@ -924,6 +1259,74 @@ export const uploadSchemas = {
         'any.required': 'File IDs are required',
         'string.pattern.base': 'Invalid file ID format'
       })
+  }),
+
+  createVersion: Joi.object({
+    change_note: Joi.string()
+      .max(500)
+      .trim()
+      .optional()
+      .allow('')
+      .messages({
+        'string.max': 'Change note cannot exceed 500 characters'
+      })
+  }),
+
+  accessLogQuery: Joi.object({
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+    action: Joi.string()
+      .valid('view', 'download', 'delete')
+      .optional()
+      .messages({
+        'any.only': 'Action must be one of: view, download, delete'
+      })
+  }),
+
+  createShareLink: Joi.object({
+    expires_in_hours: Joi.number()
+      .integer()
+      .min(1)
+      .max(720)
+      .default(24)
+      .messages({
+        'number.min': 'Link must be valid for at least 1 hour',
+        'number.max': 'Link cannot be valid for more than 30 days (720 hours)'
+      }),
+    max_downloads: Joi.number()
+      .integer()
+      .min(1)
+      .max(1000)
+      .optional()
+      .messages({
+        'number.min': 'Download limit must be at least 1',
+        'number.max': 'Download limit cannot exceed 1000'
+      })
+  }),
+
+  shareLinkQuery: Joi.object({
+    file_id: Joi.string().optional(),
+    message_id: Joi.string().optional(),
+    include_inactive: Joi.boolean().optional()
+  }),
+
+  sharedDownload: Joi.object({
+    expires: Joi.number().integer().required(),
+    signature: Joi.string().required()
+  }),
+
+  updateQuota: Joi.object({
+    quota_mb: Joi.number()
+      .integer()
+      .min(1)
+      .max(1024 * 1024)
+      .allow(null)
+      .required()
+      .messages({
+        'number.min': 'Quota must be at least 1 MB',
+        'number.max': 'Quota cannot exceed 1 TB (1048576 MB)',
+        'any.required': 'quota_mb is required (null restores the default)'
+      })
   })
 };
 
@@ -959,6 +1362,13 @@ export const querySchemas = {
         'any.only': `Status must be one of: ${teamStatuses.join(', ')}`
       }),
 
+    cohort_id: Joi.string()
+      .custom(validateObjectId)
+      .optional()
+      .messages({
+        'string.pattern.base': 'Invalid cohort ID format'
+      }),
+
     search: Joi.string()
       .min(1)
       .max(100)
@@ -992,6 +1402,12 @@ export const querySchemas = {
         'string.pattern.base': 'Invalid team ID format'
       }),
 
+    include_archived: Joi.boolean()
+      .optional()
+      .messages({
+        'boolean.base': 'include_archived must be true or false'
+      }),
+
     search: Joi.string()
       .min(1)
       .max(100)
@@ -1154,19 +1570,6 @@ export const userSchemas = {
         'string.pattern.base': 'Please enter a valid email address'
       }),
 
-    password: Joi.string()
-      .optional()
-      .custom((value, helpers) => {
-        // If password is provided, validate it
-        if (value && value !== '') {
-          return validatePassword(value, helpers);
-        }
-        return value;
-      })
-      .messages({
-        'string.pattern.base': 'Password must be at least 8 characters with uppercase, lowercase, number, and special character'
-      }),
-
     role: Joi.string()
       .valid(...userRoles)
       .required()
@@ -1234,4 +1637,1088 @@ export const userSchemas = {
   }).min(1).messages({
     'object.min': 'At least one field must be provided for update'
   })
-};
\ No newline at end of file
+};
+
+// Security Audit Schemas
+export const securitySchemas = {
+  eventQuery: Joi.object({
+    page: Joi.number()
+      .integer()
+      .min(1)
+      .default(1)
+      .messages({
+        'number.base': 'Page must be a number',
+        'number.min': 'Page must be at least 1'
+      }),
+
+    limit: Joi.number()
+      .integer()
+      .min(1)
+      .max(200)
+      .default(50)
+      .messages({
+        'number.base': 'Limit must be a number',
+        'number.min': 'Limit must be at least 1',
+        'number.max': 'Limit cannot exceed 200'
+      }),
+
+    type: Joi.string()
+      .valid(...securityEventTypes)
+      .optional()
+      .messages({
+        'any.only': `Type must be one of: ${securityEventTypes.join(', ')}`
+      }),
+
+    userId: Joi.string()
+      .custom(validateObjectId)
+      .optional()
+      .messages({
+        'string.pattern.base': 'Invalid user ID format'
+      }),
+
+    ip: Joi.string()
+      .max(64)
+      .optional(),
+
+    from: Joi.date()
+      .iso()
+      .optional()
+      .messages({
+        'date.format': 'From must be an ISO date'
+      }),
+
+    to: Joi.date()
+      .iso()
+      .optional()
+      .messages({
+        'date.format': 'To must be an ISO date'
+      })
+  }),
+
+  retention: Joi.object({
+    retention_days: Joi.number()
+      .integer()
+      .min(7)
+      .max(3650)
+      .required()
+      .messages({
+        'number.base': 'Retention must be a number of days',
+        'number.min': 'Retention must be at least 7 days',
+        'number.max': 'Retention cannot exceed 3650 days',
+        'any.required': 'Retention days is required'
+      })
+  }),
+
+  lockoutPolicy: Joi.object({
+    max_failed_attempts: Joi.number()
+      .integer()
+      .min(3)
+      .max(50)
+      .messages({
+        'number.min': 'Failed attempts threshold must be at least 3',
+        'number.max': 'Failed attempts threshold cannot exceed 50'
+      }),
+
+    base_lock_minutes: Joi.number()
+      .integer()
+      .min(1)
+      .max(1440)
+      .messages({
+        'number.min': 'Lock time must be at least 1 minute',
+        'number.max': 'Lock time cannot exceed 1440 minutes'
+      }),
+
+    max_lock_minutes: Joi.number()
+      .integer()
+      .min(1)
+      .max(10080)
+      .messages({
+        'number.min': 'Maximum lock time must be at least 1 minute',
+        'number.max': 'Maximum lock time cannot exceed 10080 minutes (7 days)'
+      }),
+
+    ip_max_failed_attempts: Joi.number()
+      .integer()
+      .min(5)
+      .max(1000)
+      .messages({
+        'number.min': 'IP failed attempts threshold must be at least 5',
+        'number.max': 'IP failed attempts threshold cannot exceed 1000'
+      }),
+
+    ip_window_minutes: Joi.number()
+      .integer()
+      .min(1)
+      .max(1440)
+      .messages({
+        'number.min': 'IP window must be at least 1 minute',
+        'number.max': 'IP window cannot exceed 1440 minutes'
+      })
+  }).min(1).messages({
+    'object.min': 'At least one policy field must be provided'
+  })
+};
+
+// Invitation Schemas
+export const invitationSchemas = {
+  create: Joi.object({
+    name: Joi.string()
+      .min(2)
+      .max(100)
+      .trim()
+      .required()
+      .messages({
+        'string.empty': 'Name is required',
+        'string.min': 'Name must be at least 2 characters',
+        'string.max': 'Name cannot exceed 100 characters',
+        'any.required': 'Name is required'
+      }),
+
+    email: Joi.string()
+      .required()
+      .custom(validateEmail)
+      .messages({
+        'string.empty': 'Email is required',
+        'any.required': 'Email is required',
+        'string.pattern.base': 'Please enter a valid email address'
+      }),
+
+    role: Joi.string()
+      .valid(...userRoles)
+      .required()
+      .messages({
+        'any.only': `Role must be one of: ${userRoles.join(', ')}`,
+        'any.required': 'Role is required'
+      }),
+
+    teamId: Joi.string()
+      .custom(validateObjectId)
+      .when('role', {
+        is: 'incubator',
+        then: Joi.required(),
+        otherwise: Joi.optional()
+      })
+      .messages({
+        'any.required': 'Team ID is required for incubator role',
+        'string.pattern.base': 'Invalid team ID format'
+      })
+  }),
+
+  list: Joi.object({
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+    status: Joi.string()
+      .valid('pending', 'accepted', 'revoked', 'expired', 'all')
+      .default('pending')
+      .messages({
+        'any.only': 'Status must be one of: pending, accepted, revoked, expired, all'
+      }),
+    search: Joi.string().max(100).optional()
+  }),
+
+  accept: Joi.object({
+    token: Joi.string()
+      .required()
+      .messages({
+        'string.empty': 'Invitation token is required',
+        'any.required': 'Invitation token is required'
+      }),
+
+    password: Joi.string()
+      .required()
+      .messages({
+        'string.empty': 'Password is required',
+        'any.required': 'Password is required'
+      }),
+
+    name: Joi.string()
+      .min(2)
+      .max(100)
+      .trim()
+      .optional()
+      .messages({
+        'string.min': 'Name must be at least 2 characters',
+        'string.max': 'Name cannot exceed 100 characters'
+      })
+  })
+};
+
+// Permission Schemas
+export const permissionSchemas = {
+  createRole: Joi.object({
+    key: Joi.string()
+      .pattern(/^[a-z][a-z0-9_]{2,49}$/)
+      .required()
+      .messages({
+        'string.pattern.base': 'Role key must be 3-50 lowercase letters, numbers or underscores, starting with a letter',
+        'any.required': 'Role key is required'
+      }),
+
+    name: Joi.string()
+      .min(2)
+      .max(100)
+      .trim()
+      .required()
+      .messages({
+        'string.min': 'Role name must be at least 2 characters',
+        'string.max': 'Role name cannot exceed 100 characters',
+        'any.required': 'Role name is required'
+      }),
+
+    description: Joi.string()
+      .max(500)
+      .optional()
+      .allow(''),
+
+    permissions: Joi.array()
+      .items(Joi.string().valid(...ALL_PERMISSIONS))
+      .optional()
+      .messages({
+        'any.only': `Permissions must be one of: ${ALL_PERMISSIONS.join(', ')}`
+      })
+  }),
+
+  rolePermissions: Joi.object({
+    permissions: Joi.array()
+      .items(Joi.string().valid(...ALL_PERMISSIONS))
+      .required()
+      .messages({
+        'any.only': `Permissions must be one of: ${ALL_PERMISSIONS.join(', ')}`,
+        'any.required': 'Permissions list is required'
+      })
+  }),
+
+  userRole: Joi.object({
+    role: Joi.string()
+      .allow(null)
+      .required()
+      .messages({
+        'any.required': 'Role is required (use null to remove the custom role)'
+      })
+  }),
+
+  userOverrides: Joi.object({
+    overrides: Joi.array()
+      .items(Joi.object({
+        permission: Joi.string()
+          .valid(...ALL_PERMISSIONS)
+          .required()
+          .messages({
+            'any.only': `Permission must be one of: ${ALL_PERMISSIONS.join(', ')}`
+          }),
+        granted: Joi.boolean().required()
+      }))
+      .required()
+      .messages({
+        'any.required': 'Overrides list is required'
+      })
+  })
+};
+
+// Cohort Schemas
+export const cohortSchemas = {
+  create: Joi.object({
+    name: Joi.string()
+      .min(2)
+      .max(100)
+      .trim()
+      .required()
+      .messages({
+        'string.empty': 'Cohort name is required',
+        'string.min': 'Cohort name must be at least 2 characters',
+        'string.max': 'Cohort name cannot exceed 100 characters',
+        'any.required': 'Cohort name is required'
+      }),
+
+    description: Joi.string()
+      .max(1000)
+      .optional()
+      .allow(''),
+
+    program_type: Joi.string()
+      .valid(...cohortProgramTypes)
+      .required()
+      .messages({
+        'any.only': `Program type must be one of: ${cohortProgramTypes.join(', ')}`,
+        'any.required': 'Program type is required'
+      }),
+
+    start_date: Joi.date()
+      .iso()
+      .required()
+      .messages({
+        'date.format': 'Start date must be in ISO format',
+        'any.required': 'Start date is required'
+      }),
+
+    end_date: Joi.date()
+      .iso()
+      .greater(Joi.ref('start_date'))
+      .required()
+      .messages({
+        'date.format': 'End date must be in ISO format',
+        'date.greater': 'End date must be after start date',
+        'any.required': 'End date is required'
+      }),
+
+    capacity: Joi.number()
+      .integer()
+      .min(1)
+      .required()
+      .messages({
+        'number.base': 'Capacity must be a number',
+        'number.min': 'Capacity must be at least 1',
+        'any.required': 'Capacity is required'
+      }),
+
+    status: Joi.string()
+      .valid(...cohortStatuses)
+      .optional()
+      .messages({
+        'any.only': `Status must be one of: ${cohortStatuses.join(', ')}`
+      })
+  }),
+
+  update: Joi.object({
+    name: Joi.string()
+      .min(2)
+      .max(100)
+      .trim()
+      .optional()
+      .messages({
+        'string.min': 'Cohort name must be at least 2 characters',
+        'string.max': 'Cohort name cannot exceed 100 characters'
+      }),
+
+    description: Joi.string()
+      .max(1000)
+      .optional()
+      .allow('', null),
+
+    program_type: Joi.string()
+      .valid(...cohortProgramTypes)
+      .optional()
+      .messages({
+        'any.only': `Program type must be one of: ${cohortProgramTypes.join(', ')}`
+      }),
+
+    start_date: Joi.date()
+      .iso()
+      .optional()
+      .messages({
+        'date.format': 'Start date must be in ISO format'
+      }),
+
+    end_date: Joi.date()
+      .iso()
+      .optional()
+      .messages({
+        'date.format': 'End date must be in ISO format'
+      }),
+
+    capacity: Joi.number()
+      .integer()
+      .min(1)
+      .optional()
+      .messages({
+        'number.base': 'Capacity must be a number',
+        'number.min': 'Capacity must be at least 1'
+      }),
+
+    status: Joi.string()
+      .valid(...cohortStatuses)
+      .optional()
+      .messages({
+        'any.only': `Status must be one of: ${cohortStatuses.join(', ')}`
+      })
+  }).min(1).messages({
+    'object.min': 'At least one field must be provided for update'
+  }),
+
+  list: Joi.object({
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+    status: Joi.string()
+      .valid(...cohortStatuses)
+      .optional()
+      .messages({
+        'any.only': `Status must be one of: ${cohortStatuses.join(', ')}`
+      }),
+    program_type: Joi.string()
+      .valid(...cohortProgramTypes)
+      .optional()
+      .messages({
+        'any.only': `Program type must be one of: ${cohortProgramTypes.join(', ')}`
+      }),
+    search: Joi.string().max(100).optional()
+  }),
+
+  assignTeams: Joi.object({
+    team_ids: Joi.array()
+      .items(Joi.string().custom(validateObjectId))
+      .min(1)
+      .required()
+      .messages({
+        'array.min': 'At least one team is required',
+        'any.required': 'Team IDs are required',
+        'string.pattern.base': 'Invalid team ID format'
+      })
+  })
+};
+
+// Team Application Schemas
+export const applicationSchemas = {
+  submit: Joi.object({
+    team_name: Joi.string()
+      .min(2)
+      .max(100)
+      .trim()
+      .required()
+      .messages({
+        'string.empty': 'Team name is required',
+        'string.min': 'Team name must be at least 2 characters',
+        'string.max': 'Team name cannot exceed 100 characters',
+        'any.required': 'Team name is required'
+      }),
+
+    company_name: Joi.string()
+      .min(2)
+      .max(100)
+      .trim()
+      .optional()
+      .allow('')
+      .messages({
+        'string.min': 'Company name must be at least 2 characters',
+        'string.max': 'Company name cannot exceed 100 characters'
+      }),
+
+    contact_name: Joi.string()
+      .min(2)
+      .max(100)
+      .trim()
+      .required()
+      .messages({
+        'string.empty': 'Contact name is required',
+        'string.min': 'Contact name must be at least 2 characters',
+        'string.max': 'Contact name cannot exceed 100 characters',
+        'any.required': 'Contact name is required'
+      }),
+
+    contact_email: Joi.string()
+      .required()
+      .custom(validateEmail)
+      .messages({
+        'string.empty': 'Contact email is required',
+        'any.required': 'Contact email is required',
+        'string.pattern.base': 'Please enter a valid email address'
+      }),
+
+    contact_phone: Joi.string()
+      .max(30)
+      .trim()
+      .optional()
+      .allow(''),
+
+    members: Joi.array()
+      .items(Joi.object({
+        name: Joi.string()
+          .min(2)
+          .max(100)
+          .trim()
+          .required()
+          .messages({
+            'string.min': 'Member name must be at least 2 characters',
+            'any.required': 'Member name is required'
+          }),
+        email: Joi.string()
+          .required()
+          .custom(validateEmail)
+          .messages({
+            'any.required': 'Member email is required',
+            'string.pattern.base': 'Please enter a valid member email address'
+          })
+      }))
+      .max(10)
+      .optional()
+      .messages({
+        'array.max': 'An application can list at most 10 additional members'
+      }),
+
+    project_name: Joi.string()
+      .min(2)
+      .max(200)
+      .trim()
+      .required()
+      .messages({
+        'string.empty': 'Project name is required',
+        'string.min': 'Project name must be at least 2 characters',
+        'string.max': 'Project name cannot exceed 200 characters',
+        'any.required': 'Project name is required'
+      }),
+
+    project_description: Joi.string()
+      .min(50)
+      .max(5000)
+      .trim()
+      .required()
+      .messages({
+        'string.empty': 'Project description is required',
+        'string.min': 'Description should be at least 50 characters (recommended: 200-500 words)',
+        'string.max': 'Description cannot exceed 5000 characters',
+        'any.required': 'Project description is required'
+      }),
+
+    category: Joi.string()
+      .valid(...projectCategories)
+      .required()
+      .messages({
+        'any.only': `Category must be one of: ${projectCategories.join(', ')}`,
+        'any.required': 'Category is required'
+      }),
+
+    status_at_enrollment: Joi.string()
+      .valid(...projectStatusAtEnrollment)
+      .required()
+      .messages({
+        'any.only': `Status at enrollment must be one of: ${projectStatusAtEnrollment.join(', ')}`,
+        'any.required': 'Status at enrollment is required',
+        'string.empty': 'Status at enrollment is required'
+      }),
+
+    challenge_description: Joi.string()
+      .min(30)
+      .max(3000)
+      .trim()
+      .required()
+      .messages({
+        'string.empty': 'Challenge/problem description is required',
+        'string.min': 'Challenge description should be at least 30 characters (recommended: 100-300 words)',
+        'string.max': 'Challenge description cannot exceed 3000 characters',
+        'any.required': 'Challenge/problem description is required'
+      }),
+
+    cohort_id: Joi.string()
+      .custom(validateObjectId)
+      .optional()
+      .messages({
+        'string.pattern.base': 'Invalid cohort ID format'
+      })
+  }),
+
+  list: Joi.object({
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+    status: Joi.string()
+      .valid(...applicationStatuses)
+      .optional()
+      .messages({
+        'any.only': `Status must be one of: ${applicationStatuses.join(', ')}`
+      }),
+    cohort_id: Joi.string()
+      .custom(validateObjectId)
+      .optional()
+      .messages({
+        'string.pattern.base': 'Invalid cohort ID format'
+      }),
+    search: Joi.string().max(100).optional()
+  }),
+
+  score: Joi.object({
+    scores: Joi.object()
+      .pattern(Joi.string(), Joi.number().min(0))
+      .min(1)
+      .required()
+      .messages({
+        'object.min': 'At least one criterion score is required',
+        'number.min': 'Scores cannot be negative',
+        'any.required': 'Scores are required'
+      }),
+
+    comments: Joi.string()
+      .max(2000)
+      .optional()
+      .allow('')
+  }),
+
+  updateStatus: Joi.object({
+    status: Joi.string()
+      .valid('shortlisted', 'interviewed', 'admitted', 'rejected')
+      .required()
+      .messages({
+        'any.only': 'Status must be one of: shortlisted, interviewed, admitted, rejected',
+        'any.required': 'Status is required'
+      }),
+
+    notes: Joi.string()
+      .max(2000)
+      .optional()
+      .allow('')
+  }),
+
+  rubric: Joi.object({
+    criteria: Joi.array()
+      .items(Joi.object({
+        key: Joi.string()
+          .pattern(/^[a-z][a-z0-9_]{1,49}$/)
+          .required()
+          .messages({
+            'string.pattern.base': 'Criterion key must be 2-50 lowercase letters, numbers or underscores, starting with a letter'
+          }),
+        label: Joi.string().min(2).max(100).trim().required(),
+        weight: Joi.number().positive().max(100).required(),
+        max_score: Joi.number().integer().min(1).max(100).required()
+      }))
+      .min(1)
+      .unique('key')
+      .required()
+      .messages({
+        'array.min': 'At least one criterion is required',
+        'array.unique': 'Criterion keys must be unique',
+        'any.required': 'Criteria are required'
+      })
+  })
+};
+
+// Project stage-gate schemas
+const stageCriteriaList = Joi.array()
+  .items(Joi.object({
+    key: Joi.string()
+      .pattern(/^[a-z][a-z0-9_]{1,49}$/)
+      .required()
+      .messages({
+        'string.pattern.base': 'Criterion key must be 2-50 lowercase letters, numbers or underscores, starting with a letter'
+      }),
+    label: Joi.string().min(2).max(200).trim().required()
+  }))
+  .min(1)
+  .unique('key')
+  .messages({
+    'array.min': 'Each stage needs at least one criterion',
+    'array.unique': 'Criterion keys must be unique within a stage'
+  });
+
+export const stageGateSchemas = {
+  requestAdvance: Joi.object({
+    justification: Joi.string()
+      .min(20)
+      .max(3000)
+      .trim()
+      .required()
+      .messages({
+        'string.empty': 'Justification is required',
+        'string.min': 'Justification must be at least 20 characters',
+        'string.max': 'Justification cannot exceed 3000 characters',
+        'any.required': 'Justification is required'
+      })
+  }),
+
+  decide: Joi.object({
+    decision: Joi.string()
+      .valid('approved', 'rejected')
+      .required()
+      .messages({
+        'any.only': 'Decision must be either approved or rejected',
+        'any.required': 'Decision is required'
+      }),
+
+    criteria_results: Joi.object()
+      .pattern(Joi.string(), Joi.boolean())
+      .required()
+      .messages({
+        'any.required': 'Criteria results are required'
+      }),
+
+    notes: Joi.string()
+      .max(2000)
+      .when('decision', {
+        is: 'rejected',
+        then: Joi.required(),
+        otherwise: Joi.optional().allow('')
+      })
+      .messages({
+        'any.required': 'Notes are required when rejecting a stage-gate request'
+      })
+  }),
+
+  reviewList: Joi.object({
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+    status: Joi.string()
+      .valid(...stageGateReviewStatuses)
+      .optional()
+      .messages({
+        'any.only': `Status must be one of: ${stageGateReviewStatuses.join(', ')}`
+      })
+  }),
+
+  criteria: Joi.object({
+    Prototype: stageCriteriaList.required(),
+    MVP: stageCriteriaList.required(),
+    Beta: stageCriteriaList.required(),
+    Launched: stageCriteriaList.required()
+  })
+};
+
+// Mentor session schemas
+const mentorSessionStatuses = ['requested', 'confirmed', 'declined', 'cancelled', 'completed'];
+
+export const mentorSessionSchemas = {
+  create: Joi.object({
+    // The caller's own side is inferred: mentors pass team_id, team members pass mentor_id
+    mentor_id: Joi.string().custom(validateObjectId).optional(),
+    team_id: Joi.string().custom(validateObjectId).optional(),
+
+    title: Joi.string()
+      .min(3)
+      .max(200)
+      .trim()
+      .required()
+      .messages({
+        'string.min': 'Title must be at least 3 characters long',
+        'string.max': 'Title cannot exceed 200 characters',
+        'any.required': 'Title is required'
+      }),
+
+    agenda: Joi.string()
+      .max(5000)
+      .optional()
+      .allow(''),
+
+    scheduled_at: Joi.date()
+      .iso()
+      .greater('now')
+      .required()
+      .messages({
+        'date.format': 'Scheduled time must be a valid ISO date',
+        'date.greater': 'Sessions must be scheduled in the future',
+        'any.required': 'Scheduled time is required'
+      }),
+
+    duration_minutes: Joi.number()
+      .integer()
+      .min(15)
+      .max(480)
+      .default(60)
+      .messages({
+        'number.min': 'Sessions must last at least 15 minutes',
+        'number.max': 'Sessions cannot last more than 8 hours'
+      }),
+
+    location: Joi.string()
+      .max(500)
+      .optional()
+      .allow('')
+  }),
+
+  update: Joi.object({
+    title: Joi.string().min(3).max(200).trim().optional(),
+    agenda: Joi.string().max(5000).optional().allow(''),
+    scheduled_at: Joi.date()
+      .iso()
+      .greater('now')
+      .optional()
+      .messages({
+        'date.format': 'Scheduled time must be a valid ISO date',
+        'date.greater': 'Sessions must be scheduled in the future'
+      }),
+    duration_minutes: Joi.number().integer().min(15).max(480).optional(),
+    location: Joi.string().max(500).optional().allow('')
+  }).min(1).messages({
+    'object.min': 'At least one field must be provided for update'
+  }),
+
+  respond: Joi.object({
+    note: Joi.string()
+      .max(2000)
+      .optional()
+      .allow('')
+  }),
+
+  cancel: Joi.object({
+    reason: Joi.string()
+      .max(2000)
+      .optional()
+      .allow('')
+  }),
+
+  complete: Joi.object({
+    notes: Joi.string()
+      .max(20000)
+      .required()
+      .messages({
+        'any.required': 'Session notes are required'
+      }),
+
+    actual_duration_minutes: Joi.number()
+      .integer()
+      .min(1)
+      .max(720)
+      .optional(),
+
+    attendance: Joi.array()
+      .items(Joi.object({
+        user_id: Joi.string().custom(validateObjectId).required(),
+        status: Joi.string().valid('present', 'absent', 'excused').required()
+      }))
+      .unique('user_id')
+      .default([])
+      .messages({
+        'array.unique': 'Each participant can only be listed once'
+      }),
+
+    action_items: Joi.array()
+      .items(Joi.object({
+        description: Joi.string().min(3).max(2000).trim().required(),
+        assignee_id: Joi.string().custom(validateObjectId).optional(),
+        due_date: Joi.date().iso().optional()
+      }))
+      .max(50)
+      .default([])
+  }),
+
+  addActionItem: Joi.object({
+    description: Joi.string()
+      .min(3)
+      .max(2000)
+      .trim()
+      .required()
+      .messages({
+        'any.required': 'Description is required'
+      }),
+    assignee_id: Joi.string().custom(validateObjectId).optional(),
+    due_date: Joi.date().iso().optional()
+  }),
+
+  updateActionItem: Joi.object({
+    description: Joi.string().min(3).max(2000).trim().optional(),
+    assignee_id: Joi.string().custom(validateObjectId).optional().allow(null),
+    due_date: Joi.date().iso().optional().allow(null),
+    completed: Joi.boolean().optional()
+  }).min(1).messages({
+    'object.min': 'At least one field must be provided for update'
+  }),
+
+  book: Joi.object({
+    start: Joi.date()
+      .iso()
+      .greater('now')
+      .required()
+      .messages({
+        'date.greater': 'Slots must be booked in the future',
+        'any.required': 'Slot start time is required'
+      }),
+    team_id: Joi.string().custom(validateObjectId).optional(),
+    title: Joi.string()
+      .min(3)
+      .max(200)
+      .trim()
+      .required()
+      .messages({
+        'any.required': 'Title is required'
+      }),
+    agenda: Joi.string().max(5000).optional().allow(''),
+    location: Joi.string().max(500).optional().allow('')
+  }),
+
+  list: Joi.object({
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+    mentor_id: Joi.string().custom(validateObjectId).optional(),
+    team_id: Joi.string().custom(validateObjectId).optional(),
+    status: Joi.string()
+      .valid(...mentorSessionStatuses)
+      .optional()
+      .messages({
+        'any.only': `Status must be one of: ${mentorSessionStatuses.join(', ')}`
+      }),
+    from: Joi.date().iso().optional(),
+    to: Joi.date().iso().optional()
+  })
+};
+
+// Mentor availability schemas
+const timeOfDay = Joi.string()
+  .pattern(/^([01]\d|2[0-3]):[0-5]\d$/)
+  .messages({
+    'string.pattern.base': 'Times must be in HH:mm format (00:00-23:59)'
+  });
+
+export const mentorAvailabilitySchemas = {
+  update: Joi.object({
+    slots: Joi.array()
+      .items(Joi.object({
+        day_of_week: Joi.number()
+          .integer()
+          .min(0)
+          .max(6)
+          .required()
+          .messages({
+            'number.min': 'Day of week must be 0 (Sunday) to 6 (Saturday)',
+            'number.max': 'Day of week must be 0 (Sunday) to 6 (Saturday)'
+          }),
+        start_time: timeOfDay.required(),
+        end_time: timeOfDay.required(),
+        slot_minutes: Joi.number().integer().min(15).max(480).default(60)
+      }))
+      .max(100)
+      .required()
+      .messages({
+        'any.required': 'Slots are required (send an empty list to clear availability)'
+      })
+  }),
+
+  addBlackout: Joi.object({
+    start_date: Joi.date()
+      .iso()
+      .required()
+      .messages({
+        'any.required': 'Start date is required'
+      }),
+    end_date: Joi.date()
+      .iso()
+      .min(Joi.ref('start_date'))
+      .optional()
+      .messages({
+        'date.min': 'End date cannot be before start date'
+      }),
+    reason: Joi.string().max(255).optional().allow('')
+  }),
+
+  freeSlots: Joi.object({
+    from: Joi.date().iso().optional(),
+    to: Joi.date()
+      .iso()
+      .when('from', {
+        is: Joi.exist(),
+        then: Joi.date().greater(Joi.ref('from')).messages({
+          'date.greater': 'To must be after from'
+        })
+      })
+      .optional()
+  })
+};
+
+// Evaluation form schemas
+const evaluationDirections = ['mentor_to_team', 'team_to_mentor'];
+const evaluationFrequencies = ['monthly', 'quarterly'];
+
+const evaluationQuestions = Joi.array()
+  .items(Joi.object({
+    key: Joi.string()
+      .pattern(/^[a-z][a-z0-9_]{1,49}$/)
+      .required()
+      .messages({
+        'string.pattern.base': 'Question key must be 2-50 lowercase letters, numbers or underscores, starting with a letter'
+      }),
+    label: Joi.string().min(2).max(300).trim().required(),
+    type: Joi.string()
+      .valid('likert', 'numeric', 'text')
+      .required()
+      .messages({
+        'any.only': 'Question type must be one of: likert, numeric, text'
+      }),
+    required: Joi.boolean().default(true),
+    // Numeric questions need a range; Likert questions always use 1-5
+    min: Joi.number().when('type', { is: 'numeric', then: Joi.required(), otherwise: Joi.forbidden() }),
+    max: Joi.number().when('type', {
+      is: 'numeric',
+      then: Joi.number().greater(Joi.ref('min')).required(),
+      otherwise: Joi.forbidden()
+    }).messages({
+      'number.greater': 'Max must be greater than min'
+    })
+  }))
+  .min(1)
+  .max(50)
+  .unique('key')
+  .messages({
+    'array.min': 'At least one question is required',
+    'array.unique': 'Question keys must be unique'
+  });
+
+export const evaluationSchemas = {
+  createForm: Joi.object({
+    name: Joi.string()
+      .min(3)
+      .max(200)
+      .trim()
+      .required()
+      .messages({
+        'any.required': 'Form name is required'
+      }),
+    description: Joi.string().max(2000).optional().allow(''),
+    direction: Joi.string()
+      .valid(...evaluationDirections)
+      .required()
+      .messages({
+        'any.only': `Direction must be one of: ${evaluationDirections.join(', ')}`,
+        'any.required': 'Direction is required'
+      }),
+    frequency: Joi.string()
+      .valid(...evaluationFrequencies)
+      .default('monthly')
+      .messages({
+        'any.only': `Frequency must be one of: ${evaluationFrequencies.join(', ')}`
+      }),
+    questions: evaluationQuestions.required().messages({
+      'any.required': 'Questions are required'
+    })
+  }),
+
+  updateForm: Joi.object({
+    name: Joi.string().min(3).max(200).trim().optional(),
+    description: Joi.string().max(2000).optional().allow(''),
+    frequency: Joi.string().valid(...evaluationFrequencies).optional(),
+    questions: evaluationQuestions.optional(),
+    is_active: Joi.boolean().optional()
+  }).min(1).messages({
+    'object.min': 'At least one field must be provided for update'
+  }),
+
+  formsQuery: Joi.object({
+    direction: Joi.string().valid(...evaluationDirections).optional(),
+    include_inactive: Joi.boolean().optional()
+  }),
+
+  submit: Joi.object({
+    form_id: Joi.string()
+      .custom(validateObjectId)
+      .required()
+      .messages({
+        'any.required': 'Form ID is required'
+      }),
+    assignment_id: Joi.string()
+      .custom(validateObjectId)
+      .required()
+      .messages({
+        'any.required': 'Mentor assignment ID is required'
+      }),
+    period: Joi.string()
+      .pattern(/^\d{4}-(0[1-9]|1[0-2]|Q[1-4])$/)
+      .optional()
+      .messages({
+        'string.pattern.base': 'Period must look like 2025-03 (monthly) or 2025-Q1 (quarterly)'
+      }),
+    // Checked against the form's questions in the controller
+    answers: Joi.object()
+      .pattern(Joi.string(), Joi.alternatives().try(Joi.number(), Joi.string().max(5000).allow('')))
+      .required()
+      .messages({
+        'any.required': 'Answers are required'
+      })
+  }),
+
+  listSubmissions: Joi.object({
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+    form_id: Joi.string().custom(validateObjectId).optional(),
+    mentor_id: Joi.string().custom(validateObjectId).optional(),
+    team_id: Joi.string().custom(validateObjectId).optional(),
+    direction: Joi.string().valid(...evaluationDirections).optional(),
+    period: Joi.string().pattern(/^\d{4}-(0[1-9]|1[0-2]|Q[1-4])$/).optional()
+  }),
+
+  reminders: Joi.object({
+    form_id: Joi.string().custom(validateObjectId).optional()
+  })
+};
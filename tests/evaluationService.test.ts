@@ -0,0 +1,123 @@
+/**
+ * Evaluation Service Unit Tests
+ *
+ * Tests for evaluation forms including:
+ * - Answer validation against the form's questions
+ * - Scoring
+ * - Evaluation periods
+ */
+
+import { EvaluationQuestion, EvaluationService } from '../src/services/evaluationService';
+
+jest.mock('../src/config/database', () => ({
+  __esModule: true,
+  default: {}
+}));
+jest.mock('../src/services/emailService', () => ({
+  __esModule: true,
+  default: { sendEmail: jest.fn() }
+}));
+jest.mock('../src/services/socketService', () => ({
+  emitToUser: jest.fn()
+}));
+
+const questions: EvaluationQuestion[] = [
+  { key: 'support', label: 'Support', type: 'likert', required: true },
+  { key: 'hours', label: 'Hours per week', type: 'numeric', required: false, min: 0, max: 40 },
+  { key: 'comments', label: 'Comments', type: 'text', required: false }
+];
+
+describe('EvaluationService', () => {
+  describe('validateAnswers', () => {
+    it('should accept a complete, valid set of answers', () => {
+      expect(EvaluationService.validateAnswers(questions, { support: 4, hours: 12.5, comments: 'Very helpful' })).toEqual([]);
+    });
+
+    it('should allow optional questions to be left out or blank', () => {
+      expect(EvaluationService.validateAnswers(questions, { support: 1, comments: '' })).toEqual([]);
+    });
+
+    it('should require answers to required questions', () => {
+      expect(EvaluationService.validateAnswers(questions, {})).toEqual(['Support is required']);
+      expect(EvaluationService.validateAnswers(questions, { support: '' })).toEqual(['Support is required']);
+    });
+
+    it('should reject answers to questions not on the form', () => {
+      expect(EvaluationService.validateAnswers(questions, { support: 3, mood: 5 })).toEqual(['Unknown question: mood']);
+    });
+
+    it('should keep Likert answers to whole numbers from 1 to 5', () => {
+      expect(EvaluationService.validateAnswers(questions, { support: 0 })).toEqual(['Support must be between 1 and 5']);
+      expect(EvaluationService.validateAnswers(questions, { support: 6 })).toEqual(['Support must be between 1 and 5']);
+      expect(EvaluationService.validateAnswers(questions, { support: 3.5 })).toEqual(['Support must be a whole number from 1 to 5']);
+    });
+
+    it('should keep numeric answers within the question range', () => {
+      expect(EvaluationService.validateAnswers(questions, { support: 3, hours: 41 })).toEqual(['Hours per week must be between 0 and 40']);
+      expect(EvaluationService.validateAnswers(questions, { support: 3, hours: -1 })).toEqual(['Hours per week must be between 0 and 40']);
+    });
+
+    it('should default numeric ranges to 0-100', () => {
+      const open: EvaluationQuestion[] = [{ key: 'progress', label: 'Progress', type: 'numeric', required: true }];
+
+      expect(EvaluationService.validateAnswers(open, { progress: 100 })).toEqual([]);
+      expect(EvaluationService.validateAnswers(open, { progress: 101 })).toEqual(['Progress must be between 0 and 100']);
+    });
+
+    it('should reject answers of the wrong type', () => {
+      expect(EvaluationService.validateAnswers(questions, { support: '4', hours: Number.NaN, comments: 5 })).toEqual([
+        'Support must be a number',
+        'Hours per week must be a number',
+        'Comments must be text'
+      ]);
+    });
+  });
+
+  describe('score', () => {
+    it('should scale each scored answer to 0-100 and average them', () => {
+      // Likert 4 -> 75, 10 of 0-40 hours -> 25
+      expect(EvaluationService.score(questions, { support: 4, hours: 10, comments: 'ok' })).toBe(50);
+    });
+
+    it('should ignore text and unanswered questions', () => {
+      expect(EvaluationService.score(questions, { support: 5, comments: 'Great' })).toBe(100);
+      expect(EvaluationService.score(questions, { support: 1 })).toBe(0);
+    });
+
+    it('should round to one decimal place', () => {
+      const likert: EvaluationQuestion[] = [
+        { key: 'a', label: 'A', type: 'likert', required: true },
+        { key: 'b', label: 'B', type: 'likert', required: true },
+        { key: 'c', label: 'C', type: 'likert', required: true }
+      ];
+
+      // (100 + 0 + 0) / 3
+      expect(EvaluationService.score(likert, { a: 5, b: 1, c: 1 })).toBe(33.3);
+    });
+
+    it('should return null when no scored question was answered', () => {
+      expect(EvaluationService.score(questions, { comments: 'No scores this time' })).toBeNull();
+    });
+  });
+
+  describe('periods', () => {
+    const date = new Date('2030-02-15T12:00:00Z');
+
+    it('should name monthly and quarterly periods', () => {
+      expect(EvaluationService.periodFor('monthly', date)).toBe('2030-02');
+      expect(EvaluationService.periodFor('quarterly', date)).toBe('2030-Q1');
+    });
+
+    it('should end a period at the start of the next one', () => {
+      expect(EvaluationService.periodEnd('monthly', date)).toEqual(new Date('2030-03-01T00:00:00Z'));
+      expect(EvaluationService.periodEnd('quarterly', date)).toEqual(new Date('2030-04-01T00:00:00Z'));
+    });
+
+    it('should find the previous period across a year boundary', () => {
+      const january = new Date('2030-01-31T12:00:00Z');
+
+      expect(EvaluationService.previousPeriod('monthly', january)).toBe('2029-12');
+      expect(EvaluationService.previousPeriod('quarterly', january)).toBe('2029-Q4');
+    });
+  });
+});
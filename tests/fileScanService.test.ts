@@ -0,0 +1,95 @@
+/**
+ * File Scan Service Unit Tests
+ *
+ * Tests for upload content checks including:
+ * - Magic bytes against the declared type
+ * - Executables disguised as other types
+ * - Text and CSV detection
+ * - The stub virus scanner
+ */
+
+import { FileScanService, StubScanner } from '../src/services/fileScanService';
+
+const EICAR = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+const bytes = (...values: number[]) => Buffer.from(values);
+
+describe('FileScanService', () => {
+  describe('matchesDeclaredType', () => {
+    it('should accept files starting with their declared signature', () => {
+      expect(FileScanService.matchesDeclaredType(bytes(0xff, 0xd8, 0xff, 0xe0, 0, 0x10), 'image/jpeg', 'photo.jpg')).toBe(true);
+      expect(FileScanService.matchesDeclaredType(bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0), 'image/png', 'logo.png')).toBe(true);
+      expect(FileScanService.matchesDeclaredType(Buffer.from('GIF89a...'), 'image/gif', 'anim.gif')).toBe(true);
+      expect(FileScanService.matchesDeclaredType(Buffer.from('%PDF-1.7\n'), 'application/pdf', 'deck.pdf')).toBe(true);
+      expect(FileScanService.matchesDeclaredType(bytes(0x50, 0x4b, 0x03, 0x04, 0x14), 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'plan.docx')).toBe(true);
+      expect(FileScanService.matchesDeclaredType(bytes(0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1), 'application/msword', 'plan.doc')).toBe(true);
+    });
+
+    it('should reject files whose content does not match the declared type', () => {
+      expect(FileScanService.matchesDeclaredType(Buffer.from('%PDF-1.7\n'), 'image/png', 'logo.png')).toBe(false);
+      expect(FileScanService.matchesDeclaredType(bytes(0xff, 0xd8, 0xff), 'application/pdf', 'deck.pdf')).toBe(false);
+      expect(FileScanService.matchesDeclaredType(Buffer.from(''), 'application/pdf', 'deck.pdf')).toBe(false);
+    });
+
+    it('should reject types it has no signature for', () => {
+      expect(FileScanService.matchesDeclaredType(Buffer.from('<svg/>'), 'image/svg+xml', 'logo.svg')).toBe(false);
+    });
+
+    it('should check both RIFF and WEBP markers for webp images', () => {
+      const webp = Buffer.concat([Buffer.from('RIFF'), bytes(0x24, 0, 0, 0), Buffer.from('WEBPVP8 ')]);
+      const wav = Buffer.concat([Buffer.from('RIFF'), bytes(0x24, 0, 0, 0), Buffer.from('WAVEfmt ')]);
+
+      expect(FileScanService.matchesDeclaredType(webp, 'image/webp', 'photo.webp')).toBe(true);
+      expect(FileScanService.matchesDeclaredType(wav, 'image/webp', 'photo.webp')).toBe(false);
+    });
+
+    it('should reject executables whatever type they claim to be', () => {
+      expect(FileScanService.matchesDeclaredType(Buffer.from('MZ\x90\x00'), 'text/plain', 'notes.txt')).toBe(false);
+      expect(FileScanService.matchesDeclaredType(bytes(0x7f, 0x45, 0x4c, 0x46, 2, 1), 'application/pdf', 'deck.pdf')).toBe(false);
+      expect(FileScanService.matchesDeclaredType(Buffer.from('#!/bin/sh\nrm -rf /\n'), 'text/csv', 'data.csv')).toBe(false);
+    });
+
+    it('should accept text without NUL bytes and reject binaries declared as text', () => {
+      expect(FileScanService.matchesDeclaredType(Buffer.from('name,stage\nAcme,seed\n'), 'text/csv', 'teams.csv')).toBe(true);
+      expect(FileScanService.matchesDeclaredType(Buffer.from('Meeting notes'), 'text/plain', 'notes.txt')).toBe(true);
+      expect(FileScanService.matchesDeclaredType(bytes(0x41, 0x00, 0x42), 'text/plain', 'notes.txt')).toBe(false);
+    });
+
+    it('should treat CSV files sent as application/vnd.ms-excel as text', () => {
+      const csv = Buffer.from('name,stage\nAcme,seed\n');
+
+      expect(FileScanService.matchesDeclaredType(csv, 'application/vnd.ms-excel', 'Teams.CSV')).toBe(true);
+      expect(FileScanService.matchesDeclaredType(csv, 'application/vnd.ms-excel', 'teams.xls')).toBe(false);
+    });
+  });
+
+  describe('StubScanner', () => {
+    const scanner = new StubScanner();
+
+    it('should pass ordinary content', async () => {
+      await expect(scanner.scan(Buffer.from('%PDF-1.7 pitch deck'))).resolves.toEqual({ clean: true });
+    });
+
+    it('should flag the EICAR test file', async () => {
+      await expect(scanner.scan(Buffer.from(EICAR))).resolves.toEqual({ clean: false, threat: 'Eicar-Test-Signature' });
+    });
+
+    it('should flag EICAR embedded inside a larger file', async () => {
+      const content = Buffer.concat([Buffer.from('%PDF-1.7\n'), Buffer.from(EICAR), Buffer.from('\n%%EOF')]);
+
+      await expect(scanner.scan(content)).resolves.toEqual({ clean: false, threat: 'Eicar-Test-Signature' });
+    });
+  });
+
+  describe('setScanner', () => {
+    it('should replace the active scanner', () => {
+      const original = FileScanService.getScanner();
+      const scanner = new StubScanner();
+
+      FileScanService.setScanner(scanner);
+      expect(FileScanService.getScanner()).toBe(scanner);
+
+      FileScanService.setScanner(original);
+    });
+  });
+});
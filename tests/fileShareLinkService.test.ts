@@ -0,0 +1,153 @@
+/**
+ * File Share Link Service Unit Tests
+ *
+ * Tests for signed share links including:
+ * - Signature stability and tamper detection
+ * - Revoked, expired and unknown links
+ * - Download limits
+ */
+
+import prisma from '../src/config/database';
+import { FileShareLinkService } from '../src/services/fileShareLinkService';
+
+jest.mock('../src/config/database', () => ({
+  __esModule: true,
+  default: {
+    fileShareLink: { findUnique: jest.fn(), updateMany: jest.fn() }
+  }
+}));
+
+const db = prisma as any;
+
+describe('FileShareLinkService', () => {
+  const inOneHour = () => new Date(Math.floor(Date.now() / 1000) * 1000 + 60 * 60 * 1000);
+
+  const makeLink = (overrides: Record<string, any> = {}) => ({
+    id: 'link-1',
+    file_id: 'file-1',
+    message_id: null,
+    created_by: 'user-1',
+    expires_at: inOneHour(),
+    max_downloads: null,
+    download_count: 0,
+    revoked_at: null,
+    last_used_at: null,
+    created_at: new Date(),
+    ...overrides
+  });
+
+  const signedParams = (link: { id: string; expires_at: Date }) => {
+    const url = new URL(FileShareLinkService.buildUrl('http://api.test', link));
+    return [link.id, url.searchParams.get('expires')!, url.searchParams.get('signature')!] as const;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.fileShareLink.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe('sign', () => {
+    it('should be stable for the same link and expiry', () => {
+      const expiresAt = inOneHour();
+
+      expect(FileShareLinkService.sign('link-1', expiresAt)).toBe(FileShareLinkService.sign('link-1', expiresAt));
+    });
+
+    it('should change with the link id or the expiry', () => {
+      const expiresAt = inOneHour();
+      const signature = FileShareLinkService.sign('link-1', expiresAt);
+
+      expect(FileShareLinkService.sign('link-2', expiresAt)).not.toBe(signature);
+      expect(FileShareLinkService.sign('link-1', new Date(expiresAt.getTime() + 1000))).not.toBe(signature);
+    });
+  });
+
+  describe('redeem', () => {
+    it('should accept a valid link and count the download', async () => {
+      const link = makeLink();
+      db.fileShareLink.findUnique.mockResolvedValue(link);
+
+      const result = await FileShareLinkService.redeem(...signedParams(link));
+
+      expect(result).toEqual({ valid: true, link });
+      expect(db.fileShareLink.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: link.id, revoked_at: null },
+        data: expect.objectContaining({ download_count: { increment: 1 } })
+      }));
+    });
+
+    it('should reject a tampered expiry without touching the database', async () => {
+      const link = makeLink();
+      const [linkId, expires, signature] = signedParams(link);
+
+      const result = await FileShareLinkService.redeem(linkId, String(Number(expires) + 86400), signature);
+
+      expect(result).toEqual({ valid: false, reason: 'INVALID_SIGNATURE' });
+      expect(db.fileShareLink.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should reject a signature made for another link', async () => {
+      const link = makeLink();
+      const [, expires, signature] = signedParams(link);
+
+      const result = await FileShareLinkService.redeem('link-2', expires, signature);
+
+      expect(result).toEqual({ valid: false, reason: 'INVALID_SIGNATURE' });
+    });
+
+    it('should reject a non-numeric expiry', async () => {
+      const result = await FileShareLinkService.redeem('link-1', 'tomorrow', 'abc');
+
+      expect(result).toEqual({ valid: false, reason: 'INVALID_SIGNATURE' });
+    });
+
+    it('should reject an unknown link', async () => {
+      const link = makeLink();
+      db.fileShareLink.findUnique.mockResolvedValue(null);
+
+      const result = await FileShareLinkService.redeem(...signedParams(link));
+
+      expect(result).toEqual({ valid: false, reason: 'LINK_NOT_FOUND' });
+    });
+
+    it('should reject a revoked link', async () => {
+      const link = makeLink({ revoked_at: new Date() });
+      db.fileShareLink.findUnique.mockResolvedValue(link);
+
+      const result = await FileShareLinkService.redeem(...signedParams(link));
+
+      expect(result).toEqual({ valid: false, reason: 'LINK_REVOKED' });
+    });
+
+    it('should reject an expired link even with a valid signature', async () => {
+      const link = makeLink({ expires_at: new Date(Math.floor(Date.now() / 1000) * 1000 - 1000) });
+      db.fileShareLink.findUnique.mockResolvedValue(link);
+
+      const result = await FileShareLinkService.redeem(...signedParams(link));
+
+      expect(result).toEqual({ valid: false, reason: 'LINK_EXPIRED' });
+      expect(db.fileShareLink.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should only count a download while under the limit', async () => {
+      const link = makeLink({ max_downloads: 3, download_count: 2 });
+      db.fileShareLink.findUnique.mockResolvedValue(link);
+
+      await FileShareLinkService.redeem(...signedParams(link));
+
+      expect(db.fileShareLink.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: link.id, revoked_at: null, download_count: { lt: 3 } }
+      }));
+    });
+
+    it('should reject the link once the limit is reached', async () => {
+      const link = makeLink({ max_downloads: 1, download_count: 1 });
+      db.fileShareLink.findUnique.mockResolvedValue(link);
+      db.fileShareLink.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await FileShareLinkService.redeem(...signedParams(link));
+
+      expect(result).toEqual({ valid: false, reason: 'DOWNLOAD_LIMIT_REACHED' });
+    });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Mentor Availability Service Unit Tests
+ *
+ * Tests for mentor scheduling including:
+ * - Free slots from weekly availability
+ * - Blackout dates, past slots and booked sessions
+ * - Session conflict detection
+ */
+
+import prisma from '../src/config/database';
+import { MentorAvailabilityService } from '../src/services/mentorAvailabilityService';
+
+jest.mock('../src/config/database', () => ({
+  __esModule: true,
+  default: {
+    mentorAvailabilitySlot: { findMany: jest.fn() },
+    mentorBlackoutDate: { findMany: jest.fn() },
+    mentorSession: { findMany: jest.fn() }
+  }
+}));
+
+const db = prisma as any;
+
+// 2030-01-07 and 2030-01-14 are Mondays
+const at = (iso: string) => new Date(`${iso}Z`);
+
+describe('MentorAvailabilityService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(at('2030-01-06T12:00:00'));
+
+    db.mentorAvailabilitySlot.findMany.mockResolvedValue([
+      { mentor_id: 'mentor-1', day_of_week: 1, start_time: '09:00', end_time: '11:00', slot_minutes: 30 }
+    ]);
+    db.mentorBlackoutDate.findMany.mockResolvedValue([]);
+    db.mentorSession.findMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('parseTime', () => {
+    it('should convert HH:mm to minutes since midnight', () => {
+      expect(MentorAvailabilityService.parseTime('00:00')).toBe(0);
+      expect(MentorAvailabilityService.parseTime('09:30')).toBe(570);
+      expect(MentorAvailabilityService.parseTime('23:59')).toBe(1439);
+    });
+  });
+
+  describe('getFreeSlots', () => {
+    it('should split the weekly window into slots on matching days only', async () => {
+      const slots = await MentorAvailabilityService.getFreeSlots('mentor-1', at('2030-01-06T00:00:00'), at('2030-01-09T00:00:00'));
+
+      expect(slots.map(slot => slot.start.toISOString())).toEqual([
+        '2030-01-07T09:00:00.000Z',
+        '2030-01-07T09:30:00.000Z',
+        '2030-01-07T10:00:00.000Z',
+        '2030-01-07T10:30:00.000Z'
+      ]);
+      expect(slots[0]).toEqual({ start: at('2030-01-07T09:00:00'), end: at('2030-01-07T09:30:00'), duration_minutes: 30 });
+    });
+
+    it('should leave out slots overlapping an active session', async () => {
+      db.mentorSession.findMany.mockResolvedValue([
+        { scheduled_at: at('2030-01-07T09:45:00'), duration_minutes: 30 }
+      ]);
+
+      const slots = await MentorAvailabilityService.getFreeSlots('mentor-1', at('2030-01-07T00:00:00'), at('2030-01-08T00:00:00'));
+
+      expect(slots.map(slot => slot.start.toISOString())).toEqual([
+        '2030-01-07T09:00:00.000Z',
+        '2030-01-07T10:30:00.000Z'
+      ]);
+    });
+
+    it('should skip blacked-out days', async () => {
+      db.mentorBlackoutDate.findMany.mockResolvedValue([
+        { start_date: at('2030-01-14T00:00:00'), end_date: at('2030-01-18T00:00:00') }
+      ]);
+
+      const slots = await MentorAvailabilityService.getFreeSlots('mentor-1', at('2030-01-07T00:00:00'), at('2030-01-21T00:00:00'));
+
+      expect(slots).toHaveLength(4);
+      expect(slots.every(slot => slot.start.toISOString().startsWith('2030-01-07'))).toBe(true);
+    });
+
+    it('should not offer slots that already started or end after the range', async () => {
+      jest.setSystemTime(at('2030-01-07T09:10:00'));
+
+      const slots = await MentorAvailabilityService.getFreeSlots('mentor-1', at('2030-01-07T00:00:00'), at('2030-01-07T10:45:00'));
+
+      expect(slots.map(slot => slot.start.toISOString())).toEqual([
+        '2030-01-07T09:30:00.000Z',
+        '2030-01-07T10:00:00.000Z'
+      ]);
+    });
+
+    it('should drop a trailing window too short for a full slot', async () => {
+      db.mentorAvailabilitySlot.findMany.mockResolvedValue([
+        { mentor_id: 'mentor-1', day_of_week: 1, start_time: '09:00', end_time: '10:15', slot_minutes: 30 }
+      ]);
+
+      const slots = await MentorAvailabilityService.getFreeSlots('mentor-1', at('2030-01-07T00:00:00'), at('2030-01-08T00:00:00'));
+
+      expect(slots.map(slot => slot.end.toISOString())).toEqual([
+        '2030-01-07T09:30:00.000Z',
+        '2030-01-07T10:00:00.000Z'
+      ]);
+    });
+  });
+
+  describe('findFreeSlot', () => {
+    it('should only match a slot starting exactly at the requested time', async () => {
+      await expect(MentorAvailabilityService.findFreeSlot('mentor-1', at('2030-01-07T09:30:00')))
+        .resolves.toEqual(expect.objectContaining({ start: at('2030-01-07T09:30:00') }));
+      await expect(MentorAvailabilityService.findFreeSlot('mentor-1', at('2030-01-07T09:15:00'))).resolves.toBeNull();
+    });
+  });
+
+  describe('findConflict', () => {
+    const session = (start: string, minutes: number) => ({
+      id: `session-${start}`,
+      title: 'Check-in',
+      scheduled_at: at(start),
+      duration_minutes: minutes,
+      status: 'confirmed'
+    });
+
+    it('should return a session of the mentor or team overlapping the slot', async () => {
+      const overlapping = session('2030-01-07T09:45:00', 30);
+      db.mentorSession.findMany.mockResolvedValue([overlapping]);
+
+      const conflict = await MentorAvailabilityService.findConflict('mentor-1', 'team-1', at('2030-01-07T10:00:00'), 60);
+
+      expect(conflict).toBe(overlapping);
+      expect(db.mentorSession.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          OR: [{ mentor_id: 'mentor-1' }, { team_id: 'team-1' }],
+          status: { in: ['requested', 'confirmed'] }
+        })
+      }));
+    });
+
+    it('should allow back-to-back sessions', async () => {
+      db.mentorSession.findMany.mockResolvedValue([session('2030-01-07T09:00:00', 60)]);
+
+      const conflict = await MentorAvailabilityService.findConflict('mentor-1', 'team-1', at('2030-01-07T10:00:00'), 30);
+
+      expect(conflict).toBeNull();
+    });
+
+    it('should exclude the session being moved and use the given transaction client', async () => {
+      const tx = { mentorSession: { findMany: jest.fn().mockResolvedValue([]) } };
+
+      await MentorAvailabilityService.findConflict('mentor-1', 'team-1', at('2030-01-07T10:00:00'), 30, 'session-1', tx as any);
+
+      expect(db.mentorSession.findMany).not.toHaveBeenCalled();
+      expect(tx.mentorSession.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ id: { not: 'session-1' } })
+      }));
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Message Share Link Tests
+ *
+ * End-to-end flow for a file sent in a chat message:
+ * - The attachment is stored as an /uploads URL, not multer's absolute path
+ * - A client can't attach an already stored file by its path
+ * - A participant creates a signed share link for the message
+ * - The link downloads the file without logging in and is recorded in the access log
+ * - The download limit is enforced
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const uploadDir = fs.mkdtempSync(path.join(os.tmpdir(), 'message-share-'));
+process.env.UPLOAD_DIR = uploadDir;
+process.env.CORS_ORIGIN = process.env.CORS_ORIGIN || 'http://localhost:3000';
+
+import { Request, Response } from 'express';
+import prisma from '../src/config/database';
+import { MessageController } from '../src/controllers/messageController';
+import { UploadController } from '../src/controllers/uploadController';
+
+jest.mock('../src/config/database', () => ({
+  __esModule: true,
+  default: {
+    conversation: { findUnique: jest.fn(), update: jest.fn() },
+    message: { create: jest.fn(), findUnique: jest.fn() },
+    fileShareLink: { create: jest.fn(), findUnique: jest.fn(), updateMany: jest.fn() },
+    fileAccessLog: { create: jest.fn() }
+  }
+}));
+jest.mock('../src/services/socketService', () => ({
+  emitToConversation: jest.fn(),
+  emitToUser: jest.fn()
+}));
+jest.mock('../src/services/storageQuotaService', () => ({
+  StorageQuotaService: {
+    storeWithinQuota: jest.fn(async (_userId: string, _bytes: number, _teamId: string | null, store: (tx: any) => Promise<any>) => ({
+      allowed: true,
+      quota: { allowed: true, team: null, user: null },
+      stored: await store(jest.requireMock('../src/config/database').default)
+    })),
+    sendWarnings: jest.fn()
+  }
+}));
+
+const db = prisma as any;
+
+const mockResponse = () => {
+  const res: any = { headers: {} as Record<string, string> };
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+  res.send = jest.fn(() => res);
+  res.type = jest.fn((type: string) => {
+    res.headers['Content-Type'] = type;
+    return res;
+  });
+  res.set = jest.fn((name: string, value: string) => {
+    res.headers[name] = value;
+    return res;
+  });
+  res.get = jest.fn((name: string) => res.headers[name]);
+  return res as Response & { headers: Record<string, string> };
+};
+
+const mockRequest = (fields: Record<string, any>) => ({
+  params: {},
+  query: {},
+  body: {},
+  ip: '127.0.0.1',
+  protocol: 'http',
+  get: (name: string) => (name === 'host' ? 'api.test' : 'jest'),
+  ...fields
+}) as unknown as Request;
+
+describe('Message share links', () => {
+  const sender = { userId: 'user-1', role: 'incubator' };
+  const content = Buffer.from('%PDF-1.4 pitch deck');
+  let storedFilePath: string;
+  let links: any[];
+  let messages: any[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    links = [];
+    messages = [];
+
+    storedFilePath = path.join(uploadDir, `pitch-${Date.now()}.pdf`);
+    fs.writeFileSync(storedFilePath, content);
+
+    db.conversation.findUnique.mockResolvedValue({ id: 'conv-1', participants: ['user-1', 'user-2'] });
+    db.message.create.mockImplementation(async ({ data }: any) => {
+      const message = { id: `msg-${messages.length + 1}`, ...data, sent_at: new Date(), sender: { id: data.sender_id } };
+      messages.push(message);
+      return message;
+    });
+    db.message.findUnique.mockImplementation(async ({ where }: any) => {
+      const message = messages.find(m => m.id === where.id);
+      return message && { ...message, conversation: { participants: ['user-1', 'user-2'] } };
+    });
+    db.fileShareLink.create.mockImplementation(async ({ data }: any) => {
+      const link = { id: `link-${links.length + 1}`, file_id: null, revoked_at: null, download_count: 0, ...data };
+      links.push(link);
+      return link;
+    });
+    db.fileShareLink.findUnique.mockImplementation(async ({ where }: any) => links.find(l => l.id === where.id) || null);
+    db.fileShareLink.updateMany.mockImplementation(async ({ where }: any) => {
+      const link = links.find(l => l.id === where.id && l.revoked_at === null);
+      if (!link || (where.download_count && link.download_count >= where.download_count.lt)) {
+        return { count: 0 };
+      }
+      link.download_count++;
+      return { count: 1 };
+    });
+  });
+
+  afterAll(() => {
+    fs.rmSync(uploadDir, { recursive: true, force: true });
+  });
+
+  const sendAndShare = async (maxDownloads: number | null) => {
+    const sendRes = mockResponse();
+    await MessageController.sendFileMessage(mockRequest({
+      params: { id: 'conv-1' },
+      user: sender,
+      file: { path: storedFilePath, filename: path.basename(storedFilePath), originalname: 'pitch.pdf', mimetype: 'application/pdf', size: content.length }
+    }), sendRes);
+    expect(sendRes.status).toHaveBeenCalledWith(201);
+
+    const shareRes = mockResponse();
+    await UploadController.createMessageShareLink(mockRequest({
+      params: { messageId: messages[0].id },
+      body: { expires_in_hours: 24, max_downloads: maxDownloads },
+      user: sender
+    }), shareRes);
+    expect(shareRes.status).toHaveBeenCalledWith(201);
+
+    const url = new URL((shareRes.json as jest.Mock).mock.calls[0][0].data.link.url);
+    return {
+      linkId: path.basename(url.pathname),
+      expires: url.searchParams.get('expires')!,
+      signature: url.searchParams.get('signature')!
+    };
+  };
+
+  const download = async (link: { linkId: string; expires: string; signature: string }) => {
+    const res = mockResponse();
+    await UploadController.downloadSharedFile(mockRequest({
+      params: { linkId: link.linkId },
+      query: { expires: link.expires, signature: link.signature }
+    }), res);
+    return res;
+  };
+
+  it('should store the attachment as an uploads URL', async () => {
+    await sendAndShare(null);
+
+    expect(messages[0].file_path).toBe(`/uploads/${path.basename(storedFilePath)}`);
+  });
+
+  it('should refuse to attach a stored file by path', async () => {
+    const res = mockResponse();
+    await MessageController.sendMessage(mockRequest({
+      params: { id: 'conv-1' },
+      body: { content: 'Their deck', message_type: 'file', file_path: '/uploads/other-team-deck.pdf' },
+      user: sender
+    }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(db.message.create).not.toHaveBeenCalled();
+
+    const textRes = mockResponse();
+    await MessageController.sendMessage(mockRequest({
+      params: { id: 'conv-1' },
+      body: { content: 'Their deck', file_path: '/uploads/other-team-deck.pdf' },
+      user: sender
+    }), textRes);
+
+    expect(textRes.status).toHaveBeenCalledWith(400);
+    expect(db.message.create).not.toHaveBeenCalled();
+  });
+
+  it('should download the message file through the signed link and log it', async () => {
+    const link = await sendAndShare(null);
+
+    const res = await download(link);
+
+    expect(res.status).not.toHaveBeenCalled();
+    expect(res.send).toHaveBeenCalledWith(content);
+    expect(res.headers['Content-Disposition']).toContain(encodeURIComponent(path.basename(storedFilePath)));
+    expect(db.fileAccessLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        file_id: messages[0].id,
+        share_link_id: link.linkId,
+        action: 'download'
+      })
+    });
+  });
+
+  it('should reject a link whose signature was tampered with', async () => {
+    const link = await sendAndShare(null);
+
+    const res = await download({ ...link, expires: String(Number(link.expires) + 3600) });
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.send).not.toHaveBeenCalled();
+  });
+
+  it('should stop downloading once the limit is reached', async () => {
+    const link = await sendAndShare(1);
+
+    expect((await download(link)).send).toHaveBeenCalledWith(content);
+
+    const second = await download(link);
+    expect(second.status).toHaveBeenCalledWith(410);
+    expect((second.json as jest.Mock).mock.calls[0][0].code).toBe('DOWNLOAD_LIMIT_REACHED');
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Stage Gate Service Unit Tests
+ *
+ * Tests for project stage tracking including:
+ * - Current and next stage
+ * - Time spent in each stage
+ */
+
+import { StageGateService } from '../src/services/stageGateService';
+
+const at = (iso: string) => new Date(`${iso}Z`);
+
+describe('StageGateService', () => {
+  describe('currentStage', () => {
+    it('should fall back to the intake stage, then Idea', () => {
+      expect(StageGateService.currentStage({ current_stage: 'MVP', status_at_enrollment: 'Idea' })).toBe('MVP');
+      expect(StageGateService.currentStage({ current_stage: null, status_at_enrollment: 'Prototype' })).toBe('Prototype');
+      expect(StageGateService.currentStage({ current_stage: null, status_at_enrollment: null })).toBe('Idea');
+    });
+  });
+
+  describe('nextStage', () => {
+    it('should return the following stage, or null after the last one', () => {
+      expect(StageGateService.nextStage('Idea')).toBe('Prototype');
+      expect(StageGateService.nextStage('Beta')).toBe('Launched');
+      expect(StageGateService.nextStage('Launched')).toBeNull();
+    });
+  });
+
+  describe('buildPeriods', () => {
+    const now = at('2030-03-01T00:00:00');
+
+    it('should keep a project without transitions in its intake stage until now', () => {
+      const periods = StageGateService.buildPeriods(
+        { created_at: at('2030-01-01T00:00:00'), status_at_enrollment: 'Prototype' },
+        [],
+        now
+      );
+
+      expect(periods).toEqual([
+        { stage: 'Prototype', entered_at: at('2030-01-01T00:00:00'), left_at: null, days: 59 }
+      ]);
+    });
+
+    it('should start projects without an intake stage at Idea', () => {
+      const periods = StageGateService.buildPeriods({ created_at: at('2030-02-28T00:00:00'), status_at_enrollment: null }, [], now);
+
+      expect(periods[0].stage).toBe('Idea');
+      expect(periods[0].days).toBe(1);
+    });
+
+    it('should close each period when the next transition starts', () => {
+      const periods = StageGateService.buildPeriods(
+        { created_at: at('2030-01-01T00:00:00'), status_at_enrollment: 'Idea' },
+        [
+          { to_stage: 'Prototype', transitioned_at: at('2030-01-11T00:00:00') },
+          { to_stage: 'MVP', transitioned_at: at('2030-02-10T00:00:00') }
+        ],
+        now
+      );
+
+      expect(periods).toEqual([
+        { stage: 'Idea', entered_at: at('2030-01-01T00:00:00'), left_at: at('2030-01-11T00:00:00'), days: 10 },
+        { stage: 'Prototype', entered_at: at('2030-01-11T00:00:00'), left_at: at('2030-02-10T00:00:00'), days: 30 },
+        { stage: 'MVP', entered_at: at('2030-02-10T00:00:00'), left_at: null, days: 19 }
+      ]);
+    });
+
+    it('should order transitions by time whatever order they are given in', () => {
+      const periods = StageGateService.buildPeriods(
+        { created_at: at('2030-01-01T00:00:00'), status_at_enrollment: 'Idea' },
+        [
+          { to_stage: 'MVP', transitioned_at: at('2030-02-10T00:00:00') },
+          { to_stage: 'Prototype', transitioned_at: at('2030-01-11T00:00:00') }
+        ],
+        now
+      );
+
+      expect(periods.map(period => period.stage)).toEqual(['Idea', 'Prototype', 'MVP']);
+    });
+
+    it('should round days to one decimal place', () => {
+      const periods = StageGateService.buildPeriods(
+        { created_at: at('2030-01-01T00:00:00'), status_at_enrollment: 'Idea' },
+        [{ to_stage: 'Prototype', transitioned_at: at('2030-01-02T08:00:00') }],
+        now
+      );
+
+      expect(periods[0].days).toBe(1.3);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * TOTP Utils Unit Tests
+ *
+ * Tests for two-factor authentication codes including:
+ * - RFC 6238 test vectors
+ * - Clock drift window
+ * - Code format checks
+ * - Secret encryption and recovery codes
+ */
+
+import { TOTPUtils } from '../src/utils/totp';
+
+// Base32 of the ASCII secret "12345678901234567890" used by the RFC 6238 test vectors
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TOTPUtils', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('generateCode', () => {
+    it('should match the RFC 6238 SHA-1 test vectors', () => {
+      expect(TOTPUtils.generateCode(RFC_SECRET, TOTPUtils.getTimeStep(59 * 1000))).toBe('287082');
+      expect(TOTPUtils.generateCode(RFC_SECRET, TOTPUtils.getTimeStep(1111111109 * 1000))).toBe('081804');
+      expect(TOTPUtils.generateCode(RFC_SECRET, TOTPUtils.getTimeStep(1234567890 * 1000))).toBe('005924');
+    });
+
+    it('should accept lowercase and padded secrets', () => {
+      const step = TOTPUtils.getTimeStep(59 * 1000);
+
+      expect(TOTPUtils.generateCode(`${RFC_SECRET.toLowerCase()}====`, step)).toBe('287082');
+    });
+
+    it('should reject secrets that are not base32', () => {
+      expect(() => TOTPUtils.generateCode('NOT-BASE32!', 1)).toThrow('Invalid base32 character in secret');
+    });
+  });
+
+  describe('verify', () => {
+    const now = 1111111109 * 1000;
+
+    beforeEach(() => {
+      jest.useFakeTimers().setSystemTime(now);
+    });
+
+    it('should return the time step of a current code', () => {
+      const step = TOTPUtils.getTimeStep(now);
+
+      expect(TOTPUtils.verify(RFC_SECRET, '081804')).toBe(step);
+    });
+
+    it('should ignore whitespace inside the code', () => {
+      expect(TOTPUtils.verify(RFC_SECRET, '081 804')).toBe(TOTPUtils.getTimeStep(now));
+    });
+
+    it('should accept codes one step either side of now', () => {
+      const step = TOTPUtils.getTimeStep(now);
+
+      expect(TOTPUtils.verify(RFC_SECRET, TOTPUtils.generateCode(RFC_SECRET, step - 1))).toBe(step - 1);
+      expect(TOTPUtils.verify(RFC_SECRET, TOTPUtils.generateCode(RFC_SECRET, step + 1))).toBe(step + 1);
+    });
+
+    it('should reject codes outside the drift window', () => {
+      const step = TOTPUtils.getTimeStep(now);
+
+      expect(TOTPUtils.verify(RFC_SECRET, TOTPUtils.generateCode(RFC_SECRET, step - 2))).toBeNull();
+      expect(TOTPUtils.verify(RFC_SECRET, TOTPUtils.generateCode(RFC_SECRET, step + 2))).toBeNull();
+      expect(TOTPUtils.verify(RFC_SECRET, TOTPUtils.generateCode(RFC_SECRET, step - 2), 2)).toBe(step - 2);
+    });
+
+    it('should reject codes from another secret', () => {
+      const other = TOTPUtils.generateSecret();
+
+      expect(TOTPUtils.verify(other, '081804')).toBeNull();
+    });
+
+    it('should reject codes that are not six digits', () => {
+      expect(TOTPUtils.verify(RFC_SECRET, '81804')).toBeNull();
+      expect(TOTPUtils.verify(RFC_SECRET, '0818040')).toBeNull();
+      expect(TOTPUtils.verify(RFC_SECRET, '08a804')).toBeNull();
+      expect(TOTPUtils.verify(RFC_SECRET, '')).toBeNull();
+    });
+  });
+
+  describe('generateSecret', () => {
+    it('should generate a 160-bit base32 secret', () => {
+      const secret = TOTPUtils.generateSecret();
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(TOTPUtils.generateSecret()).not.toBe(secret);
+    });
+  });
+
+  describe('encryptSecret', () => {
+    it('should round-trip through decryptSecret with a fresh IV each time', () => {
+      const secret = TOTPUtils.generateSecret();
+      const encrypted = TOTPUtils.encryptSecret(secret);
+
+      expect(encrypted).not.toContain(secret);
+      expect(TOTPUtils.encryptSecret(secret)).not.toBe(encrypted);
+      expect(TOTPUtils.decryptSecret(encrypted)).toBe(secret);
+    });
+
+    it('should refuse a tampered payload', () => {
+      const [iv, tag, data] = TOTPUtils.encryptSecret(RFC_SECRET).split('.');
+      const flipped = Buffer.from(data, 'base64');
+      flipped[0] ^= 1;
+
+      expect(() => TOTPUtils.decryptSecret([iv, tag, flipped.toString('base64')].join('.'))).toThrow();
+    });
+  });
+
+  describe('recovery codes', () => {
+    it('should generate distinct xxxx-xxxx codes', () => {
+      const codes = TOTPUtils.generateRecoveryCodes();
+
+      expect(codes).toHaveLength(10);
+      codes.forEach(code => expect(code).toMatch(/^[0-9a-f]{4}-[0-9a-f]{4}$/));
+      expect(new Set(codes).size).toBe(10);
+    });
+
+    it('should normalize case, spaces and dashes', () => {
+      expect(TOTPUtils.normalizeRecoveryCode(' AB12-cd34 ')).toBe('ab12cd34');
+    });
+  });
+
+  describe('buildOtpAuthUrl', () => {
+    it('should include the issuer, account and parameters authenticator apps expect', () => {
+      const url = new URL(TOTPUtils.buildOtpAuthUrl(RFC_SECRET, 'founder@example.com', 'Acme'));
+
+      expect(url.protocol).toBe('otpauth:');
+      expect(url.host).toBe('totp');
+      expect(decodeURIComponent(url.pathname)).toBe('/Acme:founder@example.com');
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        secret: RFC_SECRET,
+        issuer: 'Acme',
+        algorithm: 'SHA1',
+        digits: '6',
+        period: '30'
+      });
+    });
+  });
+});